@@ -8,6 +8,9 @@ import type {
   OpenAICompletionRequest,
   OpenAICompletionResponse,
   Message,
+  ToolCall,
+  OpenAIResponseFormat,
+  ResponseFormat,
 } from '../core/types';
 import { AIProvider } from '@app/AIProvider';
 
@@ -25,7 +28,16 @@ export class OpenAIAdapter {
   async createChatCompletion(
     params: OpenAIChatCompletionRequest
   ): Promise<OpenAIChatCompletionResponse> {
-    const { messages, temperature, top_p, max_tokens, stop } = params;
+    const {
+      messages,
+      temperature,
+      top_p,
+      max_tokens,
+      stop,
+      tools,
+      tool_choice,
+      response_format,
+    } = params;
 
     try {
       const response = await this.provider.chat(messages, {
@@ -33,6 +45,9 @@ export class OpenAIAdapter {
         topP: top_p,
         maxTokens: max_tokens,
         stopSequences: Array.isArray(stop) ? stop : stop ? [stop] : undefined,
+        tools,
+        toolChoice: tool_choice,
+        responseFormat: OpenAIAdapter.convertResponseFormat(response_format),
       });
 
       const id = this.generateId();
@@ -49,6 +64,9 @@ export class OpenAIAdapter {
             message: {
               role: 'assistant',
               content: response.content,
+              ...(response.tool_calls?.length && {
+                tool_calls: response.tool_calls,
+              }),
             },
             finish_reason: response.finishReason || 'stop',
           },
@@ -75,7 +93,7 @@ export class OpenAIAdapter {
     const { prompt, temperature, max_tokens, stop } = params;
 
     try {
-      const response = await this.provider.complete(prompt, {
+      const response = await this.provider.completeDetailed(prompt, {
         temperature,
         maxTokens: max_tokens,
         stopSequences: Array.isArray(stop) ? stop : stop ? [stop] : undefined,
@@ -91,16 +109,12 @@ export class OpenAIAdapter {
         model: params.model || 'local-llm',
         choices: [
           {
-            text: response,
+            text: response.text,
             index: 0,
-            finish_reason: 'stop',
+            finish_reason: response.finishReason,
           },
         ],
-        usage: {
-          promptTokens: Math.ceil(prompt.length / 4),
-          completionTokens: Math.ceil(response.length / 4),
-          totalTokens: Math.ceil((prompt.length + response.length) / 4),
-        },
+        usage: response.usage,
       };
     } catch (error) {
       throw new Error(`OpenAI completion failed: ${(error as Error).message}`);
@@ -125,10 +139,12 @@ export class OpenAIAdapter {
       const embeddings = await this.provider.embed(input);
 
       const inputTexts = Array.isArray(input) ? input : [input];
-      const promptTokens = inputTexts.reduce(
-        (sum, text) => sum + Math.ceil(text.length / 4),
-        0
-      );
+      let promptTokens = 0;
+      for (const text of inputTexts) {
+        promptTokens += await this.provider.countTokens(text, {
+          modality: 'embedding',
+        });
+      }
 
       return {
         object: 'list',
@@ -154,7 +170,17 @@ export class OpenAIAdapter {
   async *createChatCompletionStream(
     params: OpenAIChatCompletionRequest
   ): AsyncGenerator<string> {
-    const { messages, temperature, top_p, max_tokens, stop } = params;
+    const {
+      messages,
+      temperature,
+      top_p,
+      max_tokens,
+      stop,
+      tools,
+      tool_choice,
+      response_format,
+      stream_options,
+    } = params;
 
     try {
       const stream = this.provider.stream(messages, {
@@ -162,9 +188,15 @@ export class OpenAIAdapter {
         topP: top_p,
         maxTokens: max_tokens,
         stopSequences: Array.isArray(stop) ? stop : stop ? [stop] : undefined,
+        tools,
+        toolChoice: tool_choice,
+        responseFormat: OpenAIAdapter.convertResponseFormat(response_format),
       });
 
-      for await (const token of stream) {
+      // Iterate by hand: the generator's return value carries the usage
+      let next = await stream.next();
+      while (!next.done) {
+        const token = next.value;
         // Format as OpenAI Server-Sent Event
         const chunk = {
           id: this.generateId(),
@@ -181,7 +213,9 @@ export class OpenAIAdapter {
         };
 
         yield `data: ${JSON.stringify(chunk)}\n\n`;
+        next = await stream.next();
       }
+      const { usage, finishReason } = next.value;
 
       // Send final chunk
       const finalChunk = {
@@ -193,12 +227,24 @@ export class OpenAIAdapter {
           {
             index: 0,
             delta: {},
-            finish_reason: 'stop',
+            finish_reason: finishReason,
           },
         ],
       };
 
       yield `data: ${JSON.stringify(finalChunk)}\n\n`;
+      if (stream_options?.include_usage) {
+        // As in the OpenAI API: an extra chunk with no choices
+        const usageChunk = {
+          id: this.generateId(),
+          object: 'chat.completion.chunk',
+          created: Math.floor(Date.now() / 1000),
+          model: params.model || 'local-llm',
+          choices: [],
+          usage,
+        };
+        yield `data: ${JSON.stringify(usageChunk)}\n\n`;
+      }
       yield 'data: [DONE]\n\n';
     } catch (error) {
       throw new Error(
@@ -214,15 +260,44 @@ export class OpenAIAdapter {
     return `chatcmpl-${Date.now()}-${this.idCounter++}`;
   }
 
+  /**
+   * Convert an OpenAI response_format to ChatOptions.responseFormat
+   */
+  static convertResponseFormat(
+    format?: OpenAIResponseFormat
+  ): ResponseFormat | undefined {
+    if (format?.type !== 'json_schema') {
+      return format;
+    }
+    // A json_schema without a schema still has to be a JSON object
+    return format.json_schema.schema
+      ? {
+          type: 'json_schema',
+          schema: format.json_schema.schema,
+          name: format.json_schema.name,
+        }
+      : { type: 'json_object' };
+  }
+
   /**
    * Convert OpenAI messages to our format
    */
   static convertMessages(
-    messages: Array<{ role: string; content: string }>
+    messages: Array<{
+      role: string;
+      content: string | null;
+      name?: string;
+      tool_calls?: ToolCall[];
+      tool_call_id?: string;
+    }>
   ): Message[] {
     return messages.map(msg => ({
-      role: msg.role as 'system' | 'user' | 'assistant' | 'function',
-      content: msg.content,
+      role: msg.role as Message['role'],
+      // OpenAI sends null content on assistant turns that only call tools
+      content: msg.content ?? '',
+      ...(msg.name && { name: msg.name }),
+      ...(msg.tool_calls && { tool_calls: msg.tool_calls }),
+      ...(msg.tool_call_id && { tool_call_id: msg.tool_call_id }),
     }));
   }
 }
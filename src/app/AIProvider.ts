@@ -9,14 +9,23 @@ import type {
   ChatOptions,
   CompletionOptions,
   TTSOptions,
+  SpeakStreamOptions,
+  SpeechStreamChunk,
   STTOptions,
   EmbeddingOptions,
   OCROptions,
   OCRResult,
+  OCRDocumentOptions,
+  OCRDocumentResult,
   Modality,
   EventType,
   EventCallback,
   ModelStatus,
+  CompletionResponse,
+  StreamSummary,
+  TranscriptionResult,
+  TranscriptionSessionOptions,
+  CountTokensOptions,
 } from '../core/types';
 import { ValidationError } from '@domain/errors';
 import { ModelManager } from './ModelManager';
@@ -34,7 +43,25 @@ import type {
   VectorizeOptions,
   QueryVectorizeOptions,
   VectorizationProgressEventData,
+  AskOptions,
+  AskResponse,
+  AskProgressEventData,
 } from '../core/types';
+import {
+  DEFAULT_ASK_PROMPT_TEMPLATE,
+  packContext,
+  renderPrompt,
+  toRetrievedChunks,
+  validatePromptTemplate,
+} from './rag/ContextPacker';
+import {
+  runToolLoop,
+  type ToolRegistry,
+  type ToolLoopOptions,
+  type ToolLoopResult,
+} from './tools/ToolRegistry';
+import { TranscriptionSession } from './transcription/TranscriptionSession';
+import { throwIfAborted } from '../utils/abort';
 
 export class AIProvider {
   private modelManager: ModelManager;
@@ -90,12 +117,31 @@ export class AIProvider {
   }
 
   /**
-   * Stream chat responses
+   * Complete a prompt, with exact token usage and finish reason
+   */
+  async completeDetailed(
+    prompt: string,
+    options: CompletionOptions = {}
+  ): Promise<CompletionResponse> {
+    if (!this.config.llm) {
+      throw new ValidationError('LLM not configured', 'llm');
+    }
+
+    const model = await this.modelManager.getOrLoadModel(
+      'llm',
+      this.config.llm
+    );
+    return (model as LLMModel).completeDetailed(prompt, options);
+  }
+
+  /**
+   * Stream chat responses. The generator returns usage and finish reason
+   * once the last chunk has been yielded.
    */
   async *stream(
     messages: Message[] | string,
     options: ChatOptions = {}
-  ): AsyncGenerator<string> {
+  ): AsyncGenerator<string, StreamSummary> {
     if (!this.config.llm) {
       throw new ValidationError('LLM not configured', 'llm');
     }
@@ -104,7 +150,61 @@ export class AIProvider {
       'llm',
       this.config.llm
     );
-    yield* (model as LLMModel).stream(messages, options);
+    return yield* (model as LLMModel).stream(messages, options);
+  }
+
+  /**
+   * Count tokens with the loaded tokenizer. Messages are counted the way
+   * chat() sends them: system prompt, tools and chat template included.
+   */
+  async countTokens(
+    input: string | Message[],
+    options: CountTokensOptions = {}
+  ): Promise<number> {
+    const { modality = 'llm', ...chatOptions } = options;
+
+    if (modality === 'embedding') {
+      if (!this.config.embedding) {
+        throw new ValidationError('Embedding not configured', 'embedding');
+      }
+      const model = (await this.modelManager.getOrLoadModel(
+        'embedding',
+        this.config.embedding
+      )) as EmbeddingModel;
+      const texts =
+        typeof input === 'string' ? [input] : input.map(m => m.content);
+      let total = 0;
+      for (const text of texts) {
+        total += await model.countTokens(text);
+      }
+      return total;
+    }
+
+    if (!this.config.llm) {
+      throw new ValidationError('LLM not configured', 'llm');
+    }
+    const model = await this.modelManager.getOrLoadModel(
+      'llm',
+      this.config.llm
+    );
+    return (model as LLMModel).countTokens(input, chatOptions);
+  }
+
+  /**
+   * Chat with tool calling: runs the registered functions the model asks
+   * for and feeds their results back until it gives a final answer
+   */
+  async chatWithTools(
+    messages: Message[] | string,
+    registry: ToolRegistry,
+    options: ToolLoopOptions = {}
+  ): Promise<ToolLoopResult> {
+    return runToolLoop(
+      (history, chatOptions) => this.chat(history, chatOptions),
+      messages,
+      registry,
+      options
+    );
   }
 
   // ==================== Speech Methods ====================
@@ -127,6 +227,28 @@ export class AIProvider {
     return (model as TTSModel).synthesize(text, options);
   }
 
+  /**
+   * Synthesize speech sentence by sentence as text arrives, e.g. straight
+   * from `stream()`. Chunks are yielded in text order.
+   */
+  async *speakStream(
+    text: string | AsyncIterable<string>,
+    options: SpeakStreamOptions = {}
+  ): AsyncGenerator<SpeechStreamChunk, void> {
+    if (!this.config.tts) {
+      throw new ValidationError(
+        'TTS not configured. Please provide tts config in AIProvider constructor.',
+        'tts'
+      );
+    }
+
+    const model = await this.modelManager.getOrLoadModel(
+      'tts',
+      this.config.tts
+    );
+    yield* (model as TTSModel).synthesizeStream(text, options);
+  }
+
   /**
    * Transcribe audio to text (STT)
    */
@@ -145,7 +267,66 @@ export class AIProvider {
       'stt',
       this.config.stt
     );
-    return (model as STTModel).transcribe(audio, options);
+    return (model as STTModel).transcribe(
+      audio,
+      this.withTranscriptionEvents(options)
+    );
+  }
+
+  /**
+   * Transcribe audio into timed segments (see STTModel.transcribeDetailed)
+   */
+  async listenDetailed(
+    audio: Blob | Float32Array | string,
+    options: STTOptions = {}
+  ): Promise<TranscriptionResult> {
+    if (!this.config.stt) {
+      throw new ValidationError(
+        'STT not configured. Please provide stt config in AIProvider constructor.',
+        'stt'
+      );
+    }
+
+    const model = await this.modelManager.getOrLoadModel(
+      'stt',
+      this.config.stt
+    );
+    return (model as STTModel).transcribeDetailed(
+      audio,
+      this.withTranscriptionEvents(options)
+    );
+  }
+
+  /**
+   * Start a live transcription session: push PCM frames, receive partial
+   * and final transcripts per detected utterance
+   */
+  createTranscriptionSession(
+    options: TranscriptionSessionOptions = {}
+  ): TranscriptionSession {
+    if (!this.config.stt) {
+      throw new ValidationError(
+        'STT not configured. Please provide stt config in AIProvider constructor.',
+        'stt'
+      );
+    }
+    return new TranscriptionSession(
+      (audio, sttOptions) => this.listen(audio, sttOptions),
+      options
+    );
+  }
+
+  /**
+   * Forward transcription progress to `transcription:progress` listeners
+   */
+  private withTranscriptionEvents(options: STTOptions): STTOptions {
+    return {
+      ...options,
+      onProgress: event => {
+        options.onProgress?.(event);
+        this.eventEmitter.emit('transcription:progress', event);
+      },
+    };
   }
 
   /**
@@ -169,6 +350,34 @@ export class AIProvider {
     return (model as OCRModel).recognize(image, options);
   }
 
+  /**
+   * Recognize every page of a PDF or multi-page TIFF; progress is also
+   * emitted as `ocr:progress` events
+   */
+  async recognizeDocument(
+    document: string | Blob | File | Uint8Array,
+    options: OCRDocumentOptions = {}
+  ): Promise<OCRDocumentResult> {
+    if (!this.config.ocr) {
+      throw new ValidationError(
+        'OCR not configured. Please provide ocr config in AIProvider constructor.',
+        'ocr'
+      );
+    }
+
+    const model = await this.modelManager.getOrLoadModel(
+      'ocr',
+      this.config.ocr
+    );
+    return (model as OCRModel).recognizeDocument(document, {
+      ...options,
+      onProgress: event => {
+        options.onProgress?.(event);
+        this.eventEmitter.emit('ocr:progress', event);
+      },
+    });
+  }
+
   // ==================== Embedding Methods ====================
 
   /**
@@ -444,7 +653,10 @@ export class AIProvider {
         'Vectorization service not initialized. Call initializeVectorization first.'
       );
     }
-    yield* this.vectorizationService.vectorizeWithProgress(input, options);
+    return yield* this.vectorizationService.vectorizeWithProgress(
+      input,
+      options
+    );
   }
 
   /**
@@ -462,7 +674,128 @@ export class AIProvider {
         'Vectorization service not initialized. Call initializeVectorization first.'
       );
     }
-    yield* this.vectorizationService.queryWithProgress(input, options);
+    return yield* this.vectorizationService.queryWithProgress(input, options);
+  }
+
+  // ==================== RAG Methods ====================
+
+  /**
+   * Answer a question from indexed text: retrieve the top-k chunks, pack as
+   * many as fit into the LLM context and stream the answer. Citations use
+   * the [n] markers given to the model.
+   */
+  async ask(question: string, options: AskOptions = {}): Promise<AskResponse> {
+    if (!this.config.llm) {
+      throw new ValidationError('LLM not configured', 'llm');
+    }
+    if (!this.vectorizationService) {
+      throw new ValidationError(
+        'Vectorization service not initialized. Call initializeVectorization first.'
+      );
+    }
+
+    const {
+      k = 4,
+      filter,
+      scoreThreshold,
+      promptTemplate = DEFAULT_ASK_PROMPT_TEMPLATE,
+      maxContextTokens,
+      onToken,
+      onProgress,
+      mode,
+      fusion,
+      vectorWeight,
+      lexicalWeight,
+      rrfK,
+      ...chatOptions
+    } = options;
+    validatePromptTemplate(promptTemplate);
+    throwIfAborted(chatOptions.signal);
+
+    const report = (event: AskProgressEventData) => {
+      onProgress?.(event);
+      this.eventEmitter.emit('ask:progress', event);
+    };
+
+    // Retrieval
+    report({ stage: 'retrieval', status: 'started', question });
+    const result = await this.vectorizationService.query(question, 'text', {
+      k,
+      filter,
+      mode,
+      fusion,
+      vectorWeight,
+      lexicalWeight,
+      rrfK,
+      signal: chatOptions.signal,
+    });
+    const chunks = toRetrievedChunks(result).filter(
+      chunk => scoreThreshold === undefined || chunk.score >= scoreThreshold
+    );
+
+    const model = (await this.modelManager.getOrLoadModel(
+      'llm',
+      this.config.llm
+    )) as LLMModel;
+    throwIfAborted(chatOptions.signal);
+
+    // Whatever the prompt and the completion leave over goes to context.
+    // The prompt is counted as the model gets it: chat template and system
+    // prompt included.
+    const completionTokens =
+      chatOptions.maxTokens || this.config.llm.maxTokens || 256;
+    const promptTokens = await model.countTokens(
+      [{ role: 'user', content: renderPrompt(promptTemplate, question, '') }],
+      chatOptions
+    );
+    const budget = Math.max(
+      0,
+      Math.min(
+        maxContextTokens ?? Infinity,
+        (await model.getContextLength()) - completionTokens - promptTokens
+      )
+    );
+    const packed = await packContext(chunks, budget, text =>
+      model.countTokens(text)
+    );
+    report({
+      stage: 'retrieval',
+      status: 'completed',
+      question,
+      retrieved: chunks.length,
+      packed: packed.citations.length,
+      contextTokens: packed.tokens,
+    });
+
+    // Generation
+    throwIfAborted(chatOptions.signal);
+    report({ stage: 'generation', status: 'started', question });
+    const prompt = renderPrompt(promptTemplate, question, packed.context);
+    let answer = '';
+    let generatedChunks = 0;
+    for await (const text of model.stream(prompt, chatOptions)) {
+      answer += text;
+      generatedChunks++;
+      onToken?.(text);
+      report({
+        stage: 'generation',
+        status: 'streaming',
+        question,
+        generatedChunks,
+      });
+    }
+    report({
+      stage: 'generation',
+      status: 'completed',
+      question,
+      generatedChunks,
+    });
+
+    return {
+      answer: answer.trim(),
+      citations: packed.citations,
+      droppedIds: packed.droppedIds,
+    };
   }
 
   /**
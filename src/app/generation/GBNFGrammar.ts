@@ -0,0 +1,488 @@
+/**
+ * GBNF grammars (the llama.cpp format) compiled to a character-level
+ * pushdown matcher, used to constrain LLM decoding
+ *
+ *   root  ::= "yes" | "no" | digit+
+ *   digit ::= [0-9]
+ *
+ * Supported: string literals, character classes ([a-z], [^"\\]), "." for any
+ * character, rule references, groups and the *, +, ?, {m}, {m,}, {m,n}
+ * operators. Left-recursive rules are not supported.
+ */
+
+import { ValidationError } from '@domain/errors';
+
+export type GrammarElement =
+  | { type: 'char'; ranges: Array<[number, number]>; negated: boolean }
+  | { type: 'rule'; id: number };
+
+export interface CompiledGrammar {
+  rules: GrammarElement[][][]; // rule -> alternatives -> elements
+  ruleNames: string[];
+  root: number;
+}
+
+/**
+ * Matcher position: the next element to match in an alternative, plus the
+ * positions to return to once that alternative is finished. Stacks are
+ * immutable and share their tails.
+ */
+interface StackFrame {
+  rule: number;
+  alt: number;
+  pos: number;
+  next: StackFrame | null;
+  key?: string;
+}
+
+// null marks a stack that has matched the whole root rule
+export type GrammarState = ReadonlyArray<StackFrame | null>;
+
+const MAX_EXPANSION_DEPTH = 512;
+
+// Sticky patterns, matched at the parser position
+const RULE_NAME = /[a-zA-Z0-9_-]+/y;
+const RULE_DEFINITION = /[a-zA-Z0-9_-]+\s*::=/y;
+const REPETITION = /\s*(\d+)\s*(,\s*(\d*)\s*)?\}/y;
+const SPACE_OR_COMMENT = /\s+|#[^\n]*/y;
+
+/**
+ * Parse GBNF source into a compiled grammar
+ */
+export function parseGrammar(source: string, root = 'root'): CompiledGrammar {
+  return new GrammarParser(source).parse(root);
+}
+
+export class GrammarMatcher {
+  private state: GrammarState;
+
+  constructor(private readonly grammar: CompiledGrammar) {
+    this.state = initialState(grammar);
+  }
+
+  get currentState(): GrammarState {
+    return this.state;
+  }
+
+  /**
+   * Whether the text seen so far is a complete match
+   */
+  get isComplete(): boolean {
+    return isAccepting(this.state);
+  }
+
+  /**
+   * Consume text; returns false (leaving the state unchanged) if the
+   * grammar does not allow it
+   */
+  accept(text: string): boolean {
+    const next = advance(this.grammar, this.state, text);
+    if (next.length === 0) {
+      return false;
+    }
+    this.state = next;
+    return true;
+  }
+
+  reset(): void {
+    this.state = initialState(this.grammar);
+  }
+}
+
+export function initialState(grammar: CompiledGrammar): GrammarState {
+  const out: Array<StackFrame | null> = [];
+  grammar.rules[grammar.root].forEach((_, alt) =>
+    expand(grammar, { rule: grammar.root, alt, pos: 0, next: null }, out, 0)
+  );
+  return dedupe(out);
+}
+
+/**
+ * State after consuming one code point (empty if it is not allowed)
+ */
+export function step(
+  grammar: CompiledGrammar,
+  state: GrammarState,
+  codePoint: number
+): GrammarState {
+  const out: Array<StackFrame | null> = [];
+  for (const frame of state) {
+    if (!frame) continue;
+    const element = grammar.rules[frame.rule][frame.alt][frame.pos];
+    if (element.type === 'char' && matchesChar(element, codePoint)) {
+      expand(grammar, { ...frame, pos: frame.pos + 1, key: undefined }, out, 0);
+    }
+  }
+  return dedupe(out);
+}
+
+export function advance(
+  grammar: CompiledGrammar,
+  state: GrammarState,
+  text: string
+): GrammarState {
+  let current = state;
+  for (const char of text) {
+    current = step(grammar, current, char.codePointAt(0)!);
+    if (current.length === 0) break;
+  }
+  return current;
+}
+
+export function isAccepting(state: GrammarState): boolean {
+  return state.includes(null);
+}
+
+// Resolve rule references until every stack waits on a character
+function expand(
+  grammar: CompiledGrammar,
+  frame: StackFrame | null,
+  out: Array<StackFrame | null>,
+  depth: number
+): void {
+  if (depth > MAX_EXPANSION_DEPTH) {
+    throw new ValidationError(
+      'Grammar expansion too deep, is a rule left-recursive?',
+      'grammar'
+    );
+  }
+  if (frame === null) {
+    out.push(null);
+    return;
+  }
+
+  const alternative = grammar.rules[frame.rule][frame.alt];
+  if (frame.pos >= alternative.length) {
+    expand(grammar, frame.next, out, depth + 1);
+    return;
+  }
+
+  const element = alternative[frame.pos];
+  if (element.type === 'char') {
+    out.push(frame);
+    return;
+  }
+
+  const continuation: StackFrame = {
+    rule: frame.rule,
+    alt: frame.alt,
+    pos: frame.pos + 1,
+    next: frame.next,
+  };
+  grammar.rules[element.id].forEach((_, alt) =>
+    expand(
+      grammar,
+      { rule: element.id, alt, pos: 0, next: continuation },
+      out,
+      depth + 1
+    )
+  );
+}
+
+function dedupe(frames: Array<StackFrame | null>): GrammarState {
+  const seen = new Set<string>();
+  return frames.filter(frame => {
+    const key = frameKey(frame);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function frameKey(frame: StackFrame | null): string {
+  if (!frame) return '';
+  if (frame.key === undefined) {
+    frame.key = `${frame.rule}.${frame.alt}.${frame.pos}|${frameKey(frame.next)}`;
+  }
+  return frame.key;
+}
+
+function matchesChar(
+  element: Extract<GrammarElement, { type: 'char' }>,
+  codePoint: number
+): boolean {
+  const inRange = element.ranges.some(
+    ([low, high]) => codePoint >= low && codePoint <= high
+  );
+  return inRange !== element.negated;
+}
+
+class GrammarParser {
+  private pos = 0;
+  private rules: GrammarElement[][][] = [];
+  private ruleIds = new Map<string, number>();
+  private defined = new Set<string>();
+
+  constructor(private readonly source: string) {}
+
+  parse(rootName: string): CompiledGrammar {
+    this.skipSpace();
+    while (this.pos < this.source.length) {
+      const name = this.parseName();
+      this.skipSpace();
+      if (!this.source.startsWith('::=', this.pos)) {
+        this.fail(`Expected "::=" after rule name "${name}"`);
+      }
+      this.pos += 3;
+
+      if (this.defined.has(name)) {
+        this.fail(`Rule "${name}" is defined more than once`);
+      }
+      this.defined.add(name);
+      this.rules[this.ruleId(name)] = this.parseAlternatives(false);
+      this.skipSpace();
+    }
+
+    for (const name of this.ruleIds.keys()) {
+      if (!this.defined.has(name) && !name.includes('~')) {
+        throw new ValidationError(`Undefined grammar rule: ${name}`, 'grammar');
+      }
+    }
+    if (!this.defined.has(rootName)) {
+      throw new ValidationError(`Grammar has no "${rootName}" rule`, 'grammar');
+    }
+
+    const ruleNames: string[] = [];
+    this.ruleIds.forEach((id, name) => (ruleNames[id] = name));
+    return { rules: this.rules, ruleNames, root: this.ruleIds.get(rootName)! };
+  }
+
+  private parseAlternatives(nested: boolean): GrammarElement[][] {
+    const alternatives = [this.parseSequence(nested)];
+    while (this.peek() === '|') {
+      this.pos++;
+      alternatives.push(this.parseSequence(nested));
+    }
+    return alternatives;
+  }
+
+  private parseSequence(nested: boolean): GrammarElement[] {
+    const elements: GrammarElement[] = [];
+
+    for (;;) {
+      this.skipSpace();
+      const char = this.source[this.pos];
+      if (char === undefined || char === '|') break;
+      if (char === ')') {
+        if (!nested) this.fail('Unexpected ")"');
+        break;
+      }
+
+      // A new rule definition ends the current one
+      if (!nested && this.atRuleDefinition()) break;
+
+      const start = elements.length;
+      if (char === '"') {
+        this.pos++;
+        elements.push(...this.parseLiteral());
+      } else if (char === '[') {
+        this.pos++;
+        elements.push(this.parseCharClass());
+      } else if (char === '.') {
+        this.pos++;
+        elements.push({ type: 'char', ranges: [], negated: true });
+      } else if (char === '(') {
+        this.pos++;
+        const id = this.syntheticRule();
+        this.rules[id] = this.parseAlternatives(true);
+        this.skipSpace();
+        if (this.source[this.pos] !== ')') this.fail('Expected ")"');
+        this.pos++;
+        elements.push({ type: 'rule', id });
+      } else if (/[a-zA-Z0-9_-]/.test(char)) {
+        elements.push({ type: 'rule', id: this.ruleId(this.parseName()) });
+      } else {
+        this.fail(`Unexpected character "${char}"`);
+      }
+
+      this.parseRepetition(elements, start);
+    }
+
+    return elements;
+  }
+
+  // Apply a postfix operator to the last item (elements[start..])
+  private parseRepetition(elements: GrammarElement[], start: number): void {
+    const op = this.source[this.pos];
+    if (op !== '*' && op !== '+' && op !== '?' && op !== '{') return;
+    if (elements.length === start)
+      this.fail(`Nothing to repeat before "${op}"`);
+
+    let min: number;
+    let max: number | undefined;
+    this.pos++;
+    if (op === '*') {
+      min = 0;
+    } else if (op === '+') {
+      min = 1;
+    } else if (op === '?') {
+      min = 0;
+      max = 1;
+    } else {
+      const match = this.matchAt(REPETITION);
+      if (!match) this.fail('Malformed {m,n} repetition');
+      this.pos += match![0].length;
+      min = Number(match![1]);
+      max =
+        match![2] === undefined
+          ? min
+          : match![3]
+            ? Number(match![3])
+            : undefined;
+      if (max !== undefined && max < min) this.fail('Repetition max < min');
+    }
+
+    // Repeat a single element; wrap multi-element literals in a rule
+    const item = elements.splice(start);
+    let unit: GrammarElement;
+    if (item.length === 1) {
+      unit = item[0];
+    } else {
+      const id = this.syntheticRule();
+      this.rules[id] = [item];
+      unit = { type: 'rule', id };
+    }
+
+    for (let i = 0; i < min; i++) elements.push(unit);
+
+    if (max === undefined) {
+      // tail ::= unit tail | ε
+      const id = this.syntheticRule();
+      this.rules[id] = [[unit, { type: 'rule', id }], []];
+      elements.push({ type: 'rule', id });
+    } else if (max > min) {
+      // optional_k ::= unit optional_{k-1} | ε
+      let tail: GrammarElement | null = null;
+      for (let i = 0; i < max - min; i++) {
+        const id = this.syntheticRule();
+        this.rules[id] = [tail ? [unit, tail] : [unit], []];
+        tail = { type: 'rule', id };
+      }
+      elements.push(tail!);
+    }
+  }
+
+  private parseLiteral(): GrammarElement[] {
+    const elements: GrammarElement[] = [];
+    while (this.source[this.pos] !== '"') {
+      if (this.pos >= this.source.length) this.fail('Unterminated string');
+      const codePoint = this.parseChar();
+      elements.push({
+        type: 'char',
+        ranges: [[codePoint, codePoint]],
+        negated: false,
+      });
+    }
+    this.pos++;
+    return elements;
+  }
+
+  private parseCharClass(): GrammarElement {
+    const negated = this.source[this.pos] === '^';
+    if (negated) this.pos++;
+
+    const ranges: Array<[number, number]> = [];
+    while (this.source[this.pos] !== ']') {
+      if (this.pos >= this.source.length) this.fail('Unterminated "["');
+      const low = this.parseChar();
+      let high = low;
+      if (this.source[this.pos] === '-' && this.source[this.pos + 1] !== ']') {
+        this.pos++;
+        high = this.parseChar();
+      }
+      ranges.push([low, high]);
+    }
+    this.pos++;
+    return { type: 'char', ranges, negated };
+  }
+
+  private parseChar(): number {
+    const char = this.source.codePointAt(this.pos)!;
+    if (char !== 0x5c) {
+      this.pos += char > 0xffff ? 2 : 1;
+      return char;
+    }
+
+    const escape = this.source[this.pos + 1];
+    this.pos += 2;
+    switch (escape) {
+      case 'n':
+        return 0x0a;
+      case 'r':
+        return 0x0d;
+      case 't':
+        return 0x09;
+      case 'x':
+        return this.parseHex(2);
+      case 'u':
+        return this.parseHex(4);
+      case 'U':
+        return this.parseHex(8);
+      case undefined:
+        return this.fail('Unterminated escape');
+      default:
+        return escape.codePointAt(0)!;
+    }
+  }
+
+  private parseHex(digits: number): number {
+    const hex = this.source.slice(this.pos, this.pos + digits);
+    if (!new RegExp(`^[0-9a-fA-F]{${digits}}$`).test(hex)) {
+      this.fail(`Invalid \\x/\\u escape "${hex}"`);
+    }
+    this.pos += digits;
+    return parseInt(hex, 16);
+  }
+
+  private parseName(): string {
+    const match = this.matchAt(RULE_NAME);
+    if (!match) this.fail('Expected a rule name');
+    this.pos += match![0].length;
+    return match![0];
+  }
+
+  private atRuleDefinition(): boolean {
+    return this.matchAt(RULE_DEFINITION) !== null;
+  }
+
+  private ruleId(name: string): number {
+    let id = this.ruleIds.get(name);
+    if (id === undefined) {
+      id = this.ruleIds.size;
+      this.ruleIds.set(name, id);
+      this.rules[id] = [];
+    }
+    return id;
+  }
+
+  // Anonymous rules for groups and repetitions; "~" cannot appear in names
+  private syntheticRule(): number {
+    return this.ruleId(`~${this.ruleIds.size}`);
+  }
+
+  private peek(): string | undefined {
+    this.skipSpace();
+    return this.source[this.pos];
+  }
+
+  private skipSpace(): void {
+    for (;;) {
+      const match = this.matchAt(SPACE_OR_COMMENT);
+      if (!match) return;
+      this.pos += match[0].length;
+    }
+  }
+
+  private matchAt(pattern: RegExp): RegExpExecArray | null {
+    pattern.lastIndex = this.pos;
+    return pattern.exec(this.source);
+  }
+
+  private fail(message: string): never {
+    const line = this.source.slice(0, this.pos).split('\n').length;
+    throw new ValidationError(
+      `Invalid grammar (line ${line}): ${message}`,
+      'grammar'
+    );
+  }
+}
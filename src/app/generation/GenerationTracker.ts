@@ -0,0 +1,48 @@
+/**
+ * Exact token accounting for a generate() call, observed through a
+ * stopping criterion that never stops anything
+ */
+
+import type { LogitsInputIds } from './GrammarLogitsProcessor';
+
+export class GenerationTracker {
+  /** Prompt length in tokens, known after the first generated token */
+  promptTokens?: number;
+  /** Generated tokens, including a final EOS token */
+  completionTokens = 0;
+  private lastTokenId?: number;
+
+  constructor(private readonly eosTokenIds: number[]) {}
+
+  /**
+   * Pass in `generate({ stopping_criteria: [tracker.stoppingCriteria] })`.
+   * Criteria run after every generated token with the full sequences.
+   */
+  readonly stoppingCriteria = (inputIds: LogitsInputIds): boolean[] => {
+    const ids = inputIds[0];
+    if (ids && ids.length > 0) {
+      this.promptTokens ??= ids.length - 1;
+      this.completionTokens = ids.length - this.promptTokens;
+      this.lastTokenId = Number(ids[ids.length - 1]);
+    }
+    return new Array<boolean>(inputIds.length).fill(false);
+  };
+
+  /**
+   * Whether generation saw any token (false for mocked or failed runs)
+   */
+  get observed(): boolean {
+    return this.promptTokens !== undefined;
+  }
+
+  /**
+   * Generation ran into `maxNewTokens` instead of ending on an EOS token
+   */
+  hitLengthLimit(maxNewTokens: number): boolean {
+    return (
+      this.completionTokens >= maxNewTokens &&
+      (this.lastTokenId === undefined ||
+        !this.eosTokenIds.includes(this.lastTokenId))
+    );
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Logits processor that masks every token the grammar does not allow next,
+ * so sampling can only produce text matching the grammar
+ */
+
+import {
+  advance,
+  initialState,
+  isAccepting,
+  step,
+  type CompiledGrammar,
+  type GrammarState,
+} from './GBNFGrammar';
+
+/**
+ * Token texts of a tokenizer, arranged as a trie so whole vocabulary
+ * subtrees can be skipped once their prefix is rejected
+ */
+export class TokenVocabulary {
+  readonly size: number;
+  readonly eosTokenIds: number[];
+  private readonly texts: string[];
+  private readonly trie: TrieNode = { children: new Map(), tokenIds: [] };
+
+  /**
+   * @param texts decoded text per token id; tokens with empty text or
+   *   partial UTF-8 sequences (U+FFFD) are never allowed
+   */
+  constructor(texts: string[], eosTokenIds: number[]) {
+    this.size = texts.length;
+    this.texts = texts;
+    this.eosTokenIds = eosTokenIds;
+
+    texts.forEach((text, id) => {
+      if (!text || text.includes('\uFFFD') || eosTokenIds.includes(id)) {
+        return;
+      }
+      let node = this.trie;
+      for (const char of text) {
+        const codePoint = char.codePointAt(0)!;
+        let child = node.children.get(codePoint);
+        if (!child) {
+          child = { children: new Map(), tokenIds: [] };
+          node.children.set(codePoint, child);
+        }
+        node = child;
+      }
+      node.tokenIds.push(id);
+    });
+  }
+
+  /**
+   * Build from a tokenizer. Each token is decoded after a plain word token
+   * and the word's text is cut off again, so decoders that treat the first
+   * token specially (SentencePiece "▁" spaces) give the text the token adds
+   * mid-sequence.
+   */
+  static fromTokenizer(
+    tokenizer: {
+      decode: (ids: number[], options?: Record<string, unknown>) => string;
+    },
+    vocabSize: number,
+    eosTokenIds: number[]
+  ): TokenVocabulary {
+    const options = {
+      skip_special_tokens: true,
+      clean_up_tokenization_spaces: false,
+    };
+    const decode = (ids: number[]) => tokenizer.decode(ids, options);
+
+    let prefixId = -1;
+    let prefix = '';
+    for (let id = 0; id < vocabSize && prefixId < 0; id++) {
+      const text = decode([id]);
+      if (/^\p{L}+$/u.test(text) && !eosTokenIds.includes(id)) {
+        prefixId = id;
+        prefix = text;
+      }
+    }
+
+    const texts = Array.from({ length: vocabSize }, (_, id) => {
+      if (prefixId >= 0) {
+        const text = decode([prefixId, id]);
+        if (text.startsWith(prefix)) {
+          return text.slice(prefix.length);
+        }
+      }
+      return decode([id]);
+    });
+    return new TokenVocabulary(texts, eosTokenIds);
+  }
+
+  text(id: number): string {
+    return this.texts[id] ?? '';
+  }
+
+  /**
+   * Ids of the tokens whose full text the grammar accepts from `state`
+   */
+  allowedTokens(grammar: CompiledGrammar, state: GrammarState): number[] {
+    const allowed: number[] = [];
+    const visit = (node: TrieNode, current: GrammarState) => {
+      for (const [codePoint, child] of node.children) {
+        const next = step(grammar, current, codePoint);
+        if (next.length === 0) continue;
+        allowed.push(...child.tokenIds);
+        visit(child, next);
+      }
+    };
+    visit(this.trie, state);
+
+    if (isAccepting(state)) {
+      allowed.push(...this.eosTokenIds);
+    }
+    return allowed;
+  }
+}
+
+interface TrieNode {
+  children: Map<number, TrieNode>;
+  tokenIds: number[];
+}
+
+// Shapes of the Transformers.js generate() arguments we rely on
+export type LogitsInputIds = ArrayLike<ArrayLike<bigint | number>>;
+export interface LogitsBatch {
+  [index: number]: { data: Float32Array | Float64Array };
+}
+
+export type LogitsProcessorFunction = (
+  inputIds: LogitsInputIds,
+  logits: LogitsBatch
+) => LogitsBatch;
+
+/**
+ * Create a processor for `generate({ logits_processor: [processor] })`.
+ * Each processor instance tracks one generation: the first call records the
+ * prompt length and later calls feed newly sampled tokens to the grammar.
+ */
+export function createGrammarLogitsProcessor(
+  grammar: CompiledGrammar,
+  vocabulary: TokenVocabulary
+): LogitsProcessorFunction {
+  // Per batch entry: how many ids have been fed to the grammar so far
+  const sequences: Array<{ seen: number; state: GrammarState }> = [];
+
+  return (inputIds, logits) => {
+    for (let i = 0; i < inputIds.length; i++) {
+      const ids = inputIds[i];
+      let sequence = sequences[i];
+      if (!sequence) {
+        sequence = { seen: ids.length, state: initialState(grammar) };
+        sequences[i] = sequence;
+      }
+
+      for (let t = sequence.seen; t < ids.length; t++) {
+        const id = Number(ids[t]);
+        if (!vocabulary.eosTokenIds.includes(id)) {
+          sequence.state = advance(
+            grammar,
+            sequence.state,
+            vocabulary.text(id)
+          );
+        }
+      }
+      sequence.seen = ids.length;
+
+      const data = logits[i].data;
+      const allowed = new Uint8Array(data.length);
+      const allowedIds =
+        sequence.state.length > 0
+          ? vocabulary.allowedTokens(grammar, sequence.state)
+          : vocabulary.eosTokenIds;
+      for (const id of allowedIds) {
+        if (id < allowed.length) allowed[id] = 1;
+      }
+      for (let id = 0; id < data.length; id++) {
+        if (!allowed[id]) data[id] = -Infinity;
+      }
+    }
+    return logits;
+  };
+}
@@ -0,0 +1,341 @@
+/**
+ * JSON Schema to GBNF conversion, following the rule layout of llama.cpp's
+ * json-schema-to-grammar. Output is compact JSON with at most one space
+ * between tokens.
+ *
+ * Supported: type (incl. type arrays), properties/required, items,
+ * minItems/maxItems, minLength/maxLength, enum, const, anyOf/oneOf, allOf
+ * with a single entry, and local $ref (#/$defs/..., #/definitions/...).
+ * Properties are emitted in schema order and no additional properties are
+ * generated. Numeric ranges, patterns and formats are not enforced.
+ */
+
+import { ValidationError } from '@domain/errors';
+
+export type JsonSchema = Record<string, unknown>;
+
+const PRIMITIVE_RULES: Record<string, string> = {
+  space: '" "?',
+  boolean: '("true" | "false") space',
+  null: '"null" space',
+  integer: '("-"? integral-part) space',
+  number:
+    '("-"? integral-part) ("." [0-9]{1,16})? ([eE] [-+]? [0-9]{1,15})? space',
+  'integral-part': '"0" | [1-9] [0-9]{0,15}',
+  string: '"\\"" char* "\\"" space',
+  char: '[^"\\\\\\x7F\\x00-\\x1F] | [\\\\] (["\\\\/bfnrt] | "u" [0-9a-fA-F]{4})',
+  value: 'object | array | string | number | boolean | null',
+  object:
+    '"{" space ( string ":" space value ("," space string ":" space value)* )? "}" space',
+  array: '"[" space ( value ("," space value)* )? "]" space',
+};
+
+// Rules each primitive depends on
+const PRIMITIVE_DEPENDENCIES: Record<string, string[]> = {
+  boolean: ['space'],
+  null: ['space'],
+  integer: ['integral-part', 'space'],
+  number: ['integral-part', 'space'],
+  string: ['char', 'space'],
+  value: ['object', 'array', 'string', 'number', 'boolean', 'null'],
+  object: ['string', 'value', 'space'],
+  array: ['value', 'space'],
+};
+
+/**
+ * Grammar accepting any JSON object (OpenAI's json_object mode)
+ */
+export function jsonObjectGrammar(): string {
+  return new SchemaConverter({}).generic('object');
+}
+
+/**
+ * GBNF grammar accepting the JSON documents described by the schema
+ */
+export function jsonSchemaToGrammar(schema: JsonSchema): string {
+  return new SchemaConverter(schema).convert();
+}
+
+/**
+ * Quote text as a GBNF string literal
+ */
+export function gbnfLiteral(text: string): string {
+  const escaped = text.replace(/[\\"\n\r\t]/g, char => {
+    switch (char) {
+      case '\n':
+        return '\\n';
+      case '\r':
+        return '\\r';
+      case '\t':
+        return '\\t';
+      default:
+        return `\\${char}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+class SchemaConverter {
+  private rules = new Map<string, string>();
+  private refsInProgress = new Set<string>();
+
+  constructor(private readonly rootSchema: JsonSchema) {}
+
+  convert(): string {
+    const rule = this.visit(this.rootSchema, 'root');
+    if (rule !== 'root') {
+      this.define('root', rule);
+    }
+    return this.format();
+  }
+
+  generic(type: string): string {
+    this.addPrimitive(type);
+    this.rules.set('root', type);
+    return this.format();
+  }
+
+  private format(): string {
+    // root first, the rest alphabetically for stable output
+    const names = [...this.rules.keys()].sort((a, b) =>
+      a === 'root' ? -1 : b === 'root' ? 1 : a.localeCompare(b)
+    );
+    return names.map(name => `${name} ::= ${this.rules.get(name)}`).join('\n');
+  }
+
+  /**
+   * Define a rule for the schema and return its name
+   */
+  private visit(schema: JsonSchema, name: string): string {
+    const ref = schema.$ref;
+    if (typeof ref === 'string') {
+      return this.visitRef(ref);
+    }
+
+    if (schema.const !== undefined || Array.isArray(schema.enum)) {
+      this.addPrimitive('space');
+    }
+    if (schema.const !== undefined) {
+      return this.define(
+        name,
+        `${gbnfLiteral(JSON.stringify(schema.const))} space`
+      );
+    }
+
+    if (Array.isArray(schema.enum)) {
+      return this.define(
+        name,
+        `(${schema.enum
+          .map(value => gbnfLiteral(JSON.stringify(value)))
+          .join(' | ')}) space`
+      );
+    }
+
+    const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+    if (Array.isArray(variants)) {
+      return this.define(
+        name,
+        variants
+          .map((variant, i) => this.visit(variant, `${name}-${i}`))
+          .join(' | ')
+      );
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      if (schema.allOf.length !== 1) {
+        throw new ValidationError(
+          'allOf is only supported with a single schema',
+          'schema'
+        );
+      }
+      return this.visit(schema.allOf[0] as JsonSchema, name);
+    }
+
+    const type = schema.type;
+    if (Array.isArray(type)) {
+      return this.define(
+        name,
+        type
+          .map(t => this.visit({ ...schema, type: t }, `${name}-${t}`))
+          .join(' | ')
+      );
+    }
+
+    switch (type) {
+      case 'object':
+        return this.visitObject(schema, name);
+      case 'array':
+        return this.visitArray(schema, name);
+      case 'string':
+        return this.visitString(schema, name);
+      case 'number':
+      case 'integer':
+      case 'boolean':
+      case 'null':
+        this.addPrimitive(type);
+        return type;
+      case undefined:
+        // No constraints: any JSON value
+        if (schema.properties) {
+          return this.visitObject(schema, name);
+        }
+        this.addPrimitive('value');
+        return 'value';
+      default:
+        throw new ValidationError(
+          `Unsupported schema type: ${String(type)}`,
+          'schema'
+        );
+    }
+  }
+
+  private visitObject(schema: JsonSchema, name: string): string {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = new Set((schema.required ?? []) as string[]);
+    const keys = Object.keys(properties);
+
+    if (keys.length === 0) {
+      if (schema.additionalProperties === false) {
+        this.addPrimitive('space');
+        return this.define(name, '"{" space "}" space');
+      }
+      this.addPrimitive('object');
+      return 'object';
+    }
+
+    this.addPrimitive('space');
+    const member = (key: string) => {
+      const valueRule = this.visit(properties[key], `${name}-${slug(key)}`);
+      return `${gbnfLiteral(JSON.stringify(key))} space ":" space ${valueRule}`;
+    };
+
+    const requiredMembers = keys.filter(k => required.has(k)).map(member);
+    const optionalKeys = keys.filter(k => !required.has(k));
+
+    // Optional members may each be skipped; chain i offers member i or any
+    // later member first, so commas always stay between members
+    const optionalMembers = optionalKeys.map(member);
+    let optionalChain = '';
+    if (optionalKeys.length > 0) {
+      for (let i = optionalKeys.length - 1; i >= 0; i--) {
+        const chainName = `${name}-optional-${i}`;
+        const rest =
+          i + 1 < optionalKeys.length ? `${name}-optional-${i + 1}` : '';
+        const alternatives = [
+          rest
+            ? `${optionalMembers[i]} ("," space ${rest})?`
+            : optionalMembers[i],
+        ];
+        if (rest) alternatives.push(rest);
+        this.define(chainName, alternatives.join(' | '));
+      }
+      optionalChain = `${name}-optional-0`;
+    }
+
+    let body = requiredMembers.join(' "," space ');
+    if (optionalChain) {
+      body = body
+        ? `${body} ("," space ${optionalChain})?`
+        : `${optionalChain}?`;
+    }
+    return this.define(name, `"{" space ${body} "}" space`);
+  }
+
+  private visitArray(schema: JsonSchema, name: string): string {
+    this.addPrimitive('space');
+    const items = schema.items as JsonSchema | undefined;
+    let itemRule = 'value';
+    if (items) {
+      itemRule = this.visit(items, `${name}-item`);
+    } else {
+      this.addPrimitive('value');
+    }
+
+    const min = Number(schema.minItems ?? 0);
+    const max =
+      schema.maxItems === undefined ? undefined : Number(schema.maxItems);
+    if (max !== undefined && max < min) {
+      throw new ValidationError('maxItems is smaller than minItems', 'schema');
+    }
+    if (max === 0) {
+      return this.define(name, '"[" space "]" space');
+    }
+
+    const rest = repetition(
+      `"," space ${itemRule}`,
+      Math.max(min - 1, 0),
+      max === undefined ? undefined : max - 1
+    );
+    const list = `${itemRule} ${rest}`.trim();
+    return this.define(
+      name,
+      min > 0 ? `"[" space ${list} "]" space` : `"[" space (${list})? "]" space`
+    );
+  }
+
+  private visitString(schema: JsonSchema, name: string): string {
+    const min = Number(schema.minLength ?? 0);
+    const max =
+      schema.maxLength === undefined ? undefined : Number(schema.maxLength);
+    if (min === 0 && max === undefined) {
+      this.addPrimitive('string');
+      return 'string';
+    }
+
+    this.addPrimitive('char');
+    this.addPrimitive('space');
+    return this.define(
+      name,
+      `"\\"" ${repetition('char', min, max)} "\\"" space`
+    );
+  }
+
+  private visitRef(ref: string): string {
+    const match = /^#\/(\$defs|definitions)\/(.+)$/.exec(ref);
+    if (!match) {
+      throw new ValidationError(`Unsupported $ref: ${ref}`, 'schema');
+    }
+
+    const name = `ref-${slug(match[2])}`;
+    if (this.rules.has(name) || this.refsInProgress.has(name)) {
+      return name;
+    }
+
+    const definitions = this.rootSchema[match[1]] as
+      | Record<string, JsonSchema>
+      | undefined;
+    const target = definitions?.[match[2]];
+    if (!target) {
+      throw new ValidationError(`Unresolved $ref: ${ref}`, 'schema');
+    }
+
+    // Recursive schemas refer back to the rule while it is being built
+    this.refsInProgress.add(name);
+    const rule = this.visit(target, name);
+    this.refsInProgress.delete(name);
+    return rule === name ? name : this.define(name, rule);
+  }
+
+  private define(name: string, body: string): string {
+    this.rules.set(name, body);
+    return name;
+  }
+
+  private addPrimitive(name: string): void {
+    if (this.rules.has(name)) return;
+    this.rules.set(name, PRIMITIVE_RULES[name]);
+    PRIMITIVE_DEPENDENCIES[name]?.forEach(dep => this.addPrimitive(dep));
+  }
+}
+
+function repetition(item: string, min: number, max?: number): string {
+  if (max === undefined) {
+    return min === 0 ? `(${item})*` : `(${item}){${min},}`;
+  }
+  if (max === 0) return '';
+  return min === max ? `(${item}){${min}}` : `(${item}){${min},${max}}`;
+}
+
+function slug(text: string): string {
+  return text.replace(/[^a-zA-Z0-9-]+/g, '-');
+}
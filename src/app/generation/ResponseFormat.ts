@@ -0,0 +1,25 @@
+/**
+ * Grammar construction for ChatOptions/CompletionOptions.responseFormat
+ */
+
+import type { ResponseFormat } from '../../core/types';
+import { parseGrammar, type CompiledGrammar } from './GBNFGrammar';
+import { jsonObjectGrammar, jsonSchemaToGrammar } from './JsonSchemaGrammar';
+
+/**
+ * Compiled grammar for the format, or null when output is unconstrained
+ */
+export function compileResponseFormat(
+  format?: ResponseFormat
+): CompiledGrammar | null {
+  switch (format?.type) {
+    case 'json_object':
+      return parseGrammar(jsonObjectGrammar());
+    case 'json_schema':
+      return parseGrammar(jsonSchemaToGrammar(format.schema));
+    case 'grammar':
+      return parseGrammar(format.grammar, format.root);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Constrained generation exports
+ */
+
+export {
+  GrammarMatcher,
+  parseGrammar,
+  initialState,
+  step,
+  advance,
+  isAccepting,
+} from './GBNFGrammar';
+export type {
+  CompiledGrammar,
+  GrammarElement,
+  GrammarState,
+} from './GBNFGrammar';
+export {
+  jsonSchemaToGrammar,
+  jsonObjectGrammar,
+  gbnfLiteral,
+} from './JsonSchemaGrammar';
+export type { JsonSchema } from './JsonSchemaGrammar';
+export {
+  TokenVocabulary,
+  createGrammarLogitsProcessor,
+} from './GrammarLogitsProcessor';
+export type {
+  LogitsProcessorFunction,
+  LogitsInputIds,
+  LogitsBatch,
+} from './GrammarLogitsProcessor';
+export { compileResponseFormat } from './ResponseFormat';
+export { GenerationTracker } from './GenerationTracker';
+export type { ResponseFormat } from '../../core/types';
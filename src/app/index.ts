@@ -4,6 +4,12 @@ export * from './AIProvider';
 export * from './router';
 export * from './cache/ModelCache';
 export * from './vectorization';
+export * from './rag';
+export * from './tools';
+export * from './generation';
+export * from './transcription';
+export * from './synthesis';
+export * from './ocr';
 export { ProgressTracker } from '../utils/ProgressTracker';
 export type {
   JobMetadata,
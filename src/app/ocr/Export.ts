@@ -0,0 +1,245 @@
+/**
+ * hOCR and ALTO export of OCR results
+ */
+
+import type {
+  OCRBBox,
+  OCRDocumentResult,
+  OCRExportOptions,
+  OCRLayoutBlock,
+  OCRResult,
+} from '../../core/types';
+import { ValidationError } from '@domain/errors';
+import { resultLayout } from './Layout';
+
+/** One page to export: its layout and size in pixels */
+export interface ExportPage {
+  result: OCRResult;
+  layout: OCRLayoutBlock[];
+  width: number;
+  height: number;
+}
+
+const SOFTWARE = 'transformers-router';
+
+/**
+ * hOCR (HTML with ocr_page, ocr_carea, ocr_par, ocr_line and ocrx_word
+ * elements carrying bbox and x_wconf), one ocr_page per page
+ *
+ * @example
+ * ```typescript
+ * const result = await provider.recognize(scan, { layout: true });
+ * const html = toHOCR(result, { width: 2480, height: 3508, fileName: 'scan.png' });
+ * ```
+ */
+export function toHOCR(
+  input: OCRResult | OCRDocumentResult,
+  options: OCRExportOptions = {}
+): string {
+  const pages = exportPages(input, options);
+  const language = languageOf(pages[0]?.result);
+  const body = pages.map((page, pageIndex) => {
+    const p = pageIndex + 1;
+    const image = options.fileName
+      ? `image ${escapeXml(`"${options.fileName.replace(/"/g, '')}"`)}; `
+      : '';
+    const blocks = page.layout.map((block, b) => {
+      const paragraphs = block.paragraphs.map((paragraph, i) => {
+        const lines = paragraph.lines.map((line, l) => {
+          const words = line.words.map(
+            (word, w) =>
+              `      <span class="ocrx_word" id="word_${p}_${b + 1}_${i + 1}_${l + 1}_${w + 1}" title="${bbox(word.bbox)}; x_wconf ${Math.round(word.confidence)}">${escapeXml(word.text)}</span>`
+          );
+          return [
+            `     <span class="ocr_line" id="line_${p}_${b + 1}_${i + 1}_${l + 1}" title="${bbox(line.bbox)}; x_size ${Math.round(line.bbox.y1 - line.bbox.y0)}">`,
+            words.join('\n'),
+            '     </span>',
+          ].join('\n');
+        });
+        return [
+          `    <p class="ocr_par" id="par_${p}_${b + 1}_${i + 1}" title="${bbox(paragraph.bbox)}">`,
+          ...lines,
+          '    </p>',
+        ].join('\n');
+      });
+      return [
+        `   <div class="ocr_carea" id="block_${p}_${b + 1}" title="${bbox(block.bbox)}">`,
+        ...paragraphs,
+        '   </div>',
+      ].join('\n');
+    });
+    return [
+      `  <div class="ocr_page" id="page_${p}" title="${image}bbox 0 0 ${page.width} ${page.height}; ppageno ${pageIndex}">`,
+      ...blocks,
+      '  </div>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+    `<html xmlns="http://www.w3.org/1999/xhtml"${language ? ` xml:lang="${language}" lang="${language}"` : ''}>`,
+    ' <head>',
+    `  <title>${escapeXml(options.title ?? 'OCR output')}</title>`,
+    '  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>',
+    `  <meta name="ocr-system" content="${SOFTWARE}"/>`,
+    '  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf"/>',
+    ' </head>',
+    ' <body>',
+    ...body,
+    ' </body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * ALTO 4 XML: a Page per page, a ComposedBlock per layout block, a
+ * TextBlock per paragraph, and TextLine elements of String and SP
+ * elements, in pixels
+ */
+export function toALTO(
+  input: OCRResult | OCRDocumentResult,
+  options: OCRExportOptions = {}
+): string {
+  const pages = exportPages(input, options);
+  const body = pages.map((page, pageIndex) => {
+    const p = pageIndex + 1;
+    const language = languageOf(page.result);
+    const blocks = page.layout.map((block, b) => {
+      const paragraphs = block.paragraphs.map((paragraph, i) => {
+        const lines = paragraph.lines.map((line, l) => {
+          const id = `line_${p}_${b + 1}_${i + 1}_${l + 1}`;
+          const strings = line.words.flatMap((word, w) => {
+            const string = `            <String ID="string_${p}_${b + 1}_${i + 1}_${l + 1}_${w + 1}" ${position(word.bbox)} WC="${(word.confidence / 100).toFixed(2)}" CONTENT="${escapeXml(word.text)}"/>`;
+            const next = line.words[w + 1];
+            if (!next) {
+              return [string];
+            }
+            const hpos = Math.round(word.bbox.x1);
+            return [
+              string,
+              `            <SP WIDTH="${Math.max(0, Math.round(next.bbox.x0) - hpos)}" VPOS="${Math.round(word.bbox.y0)}" HPOS="${hpos}"/>`,
+            ];
+          });
+          return [
+            `          <TextLine ID="${id}" ${position(line.bbox)}>`,
+            ...strings,
+            '          </TextLine>',
+          ].join('\n');
+        });
+        return [
+          `        <TextBlock ID="block_${p}_${b + 1}_${i + 1}" ${position(paragraph.bbox)}${language ? ` LANG="${language}"` : ''}>`,
+          ...lines,
+          '        </TextBlock>',
+        ].join('\n');
+      });
+      return [
+        `      <ComposedBlock ID="cblock_${p}_${b + 1}" ${position(block.bbox)}>`,
+        ...paragraphs,
+        '      </ComposedBlock>',
+      ].join('\n');
+    });
+    return [
+      `    <Page ID="page_${p}" PHYSICAL_IMG_NR="${p}" WIDTH="${page.width}" HEIGHT="${page.height}">`,
+      `     <PrintSpace HPOS="0" VPOS="0" WIDTH="${page.width}" HEIGHT="${page.height}">`,
+      ...blocks,
+      '     </PrintSpace>',
+      '    </Page>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">',
+    '  <Description>',
+    '    <MeasurementUnit>pixel</MeasurementUnit>',
+    ...(options.fileName
+      ? [
+          '    <sourceImageInformation>',
+          `      <fileName>${escapeXml(options.fileName)}</fileName>`,
+          '    </sourceImageInformation>',
+        ]
+      : []),
+    '    <OCRProcessing ID="OCR_0">',
+    '      <ocrProcessingStep>',
+    '        <processingSoftware>',
+    `          <softwareName>${SOFTWARE}</softwareName>`,
+    '        </processingSoftware>',
+    '      </ocrProcessingStep>',
+    '    </OCRProcessing>',
+    '  </Description>',
+    '  <Layout>',
+    ...body,
+    '  </Layout>',
+    '</alto>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Pages of a result or document result with their layouts; an OCRResult
+ * takes its size from the options or, failing that, its boxes
+ */
+export function exportPages(
+  input: OCRResult | OCRDocumentResult,
+  options: { width?: number; height?: number } = {}
+): ExportPage[] {
+  const pages =
+    'pages' in input && Array.isArray(input.pages)
+      ? input.pages.map(page => ({
+          result: page as OCRResult,
+          width: page.width,
+          height: page.height,
+        }))
+      : [
+          {
+            result: input as OCRResult,
+            width: options.width,
+            height: options.height,
+          },
+        ];
+
+  return pages.map(({ result, width, height }, index) => {
+    const layout = resultLayout(result);
+    if (layout.length === 0 && result.text.trim() !== '') {
+      throw new ValidationError(
+        `Page ${index + 1} has text but no word boxes; recognize with includeBbox or layout to export it`,
+        'result'
+      );
+    }
+    const boxes = layout.map(block => block.bbox);
+    return {
+      result,
+      layout,
+      width: Math.round(width ?? Math.max(0, ...boxes.map(box => box.x1))),
+      height: Math.round(height ?? Math.max(0, ...boxes.map(box => box.y1))),
+    };
+  });
+}
+
+/** Escape text for XML content and attribute values */
+export function escapeXml(text: string): string {
+  return text.replace(
+    /[&<>"']/g,
+    char =>
+      ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[
+        char
+      ] as string
+  );
+}
+
+function bbox(box: OCRBBox): string {
+  return `bbox ${Math.round(box.x0)} ${Math.round(box.y0)} ${Math.round(box.x1)} ${Math.round(box.y1)}`;
+}
+
+function position(box: OCRBBox): string {
+  const x = Math.round(box.x0);
+  const y = Math.round(box.y0);
+  return `HPOS="${x}" VPOS="${y}" WIDTH="${Math.round(box.x1) - x}" HEIGHT="${Math.round(box.y1) - y}"`;
+}
+
+/** First Tesseract language of a result, e.g. 'eng' for 'eng+pol' */
+function languageOf(result: OCRResult | undefined): string | undefined {
+  return result?.usedLanguage?.split('+')[0] || undefined;
+}
@@ -0,0 +1,231 @@
+/**
+ * Hierarchical OCR layout (block → paragraph → line → word) built from
+ * Tesseract's block output, with blocks sorted into reading order
+ */
+
+import type {
+  OCRBBox,
+  OCRLayoutBlock,
+  OCRLayoutLine,
+  OCRLayoutWord,
+  OCRResult,
+} from '../../core/types';
+
+interface TesseractNode {
+  text: string;
+  confidence: number;
+  bbox: OCRBBox;
+}
+
+/** The parts of a tesseract.js page result used here */
+export interface TesseractPageData {
+  blocks?: Array<
+    TesseractNode & {
+      blocktype?: string;
+      paragraphs: Array<
+        TesseractNode & {
+          lines: Array<TesseractNode & { words: TesseractNode[] }>;
+        }
+      >;
+    }
+  > | null;
+}
+
+/**
+ * Convert Tesseract blocks to layout blocks in reading order. `mapBox`
+ * converts box coordinates, e.g. back to the size of an upscaled input.
+ */
+export function buildLayout(
+  data: TesseractPageData,
+  mapBox: (bbox: OCRBBox) => OCRBBox = bbox => ({ ...bbox })
+): OCRLayoutBlock[] {
+  const node = ({ text, confidence, bbox }: TesseractNode) => ({
+    text: text.trim(),
+    confidence,
+    bbox: mapBox(bbox),
+  });
+
+  const blocks = (data.blocks ?? []).map(
+    (block): OCRLayoutBlock => ({
+      ...node(block),
+      ...(block.blocktype && { blockType: block.blocktype }),
+      paragraphs: block.paragraphs.map(paragraph => ({
+        ...node(paragraph),
+        lines: paragraph.lines.map(line => ({
+          ...node(line),
+          words: line.words.map(node),
+        })),
+      })),
+    })
+  );
+  return readingOrder(blocks);
+}
+
+/**
+ * Sort regions into reading order by recursive XY-cut: split at horizontal
+ * gaps that cross the whole region (read top to bottom), otherwise at
+ * vertical gaps (columns, left to right), and repeat inside each part.
+ * Where both cross the region, tall and narrow parts are read as columns:
+ * text columns whose paragraph gaps line up are not rows.
+ */
+export function readingOrder<T extends { bbox: OCRBBox }>(items: T[]): T[] {
+  if (items.length <= 1) {
+    return [...items];
+  }
+  const bands = splitAtGaps(items, 'y0', 'y1');
+  const columns = splitAtGaps(items, 'x0', 'x1');
+  const byColumns =
+    columns.length > 1 &&
+    (bands.length === 1 ||
+      columns.every(column => {
+        const { x0, y0, x1, y1 } = unionBox(column.map(item => item.bbox));
+        return y1 - y0 > x1 - x0;
+      }));
+  if (byColumns) {
+    return columns.flatMap(column => readingOrder(column));
+  }
+  if (bands.length > 1) {
+    return bands.flatMap(band => readingOrder(band));
+  }
+  // Overlapping regions: top to bottom, then left to right
+  return [...items].sort(
+    (a, b) => a.bbox.y0 - b.bbox.y0 || a.bbox.x0 - b.bbox.x0
+  );
+}
+
+/**
+ * The layout of a result: `result.layout` when recognized with `layout`,
+ * otherwise one block holding `result.lines` with their `result.words`
+ * (words outside every line become lines of their own)
+ */
+export function resultLayout(result: OCRResult): OCRLayoutBlock[] {
+  if (result.layout && result.layout.length > 0) {
+    return result.layout;
+  }
+  const words = (result.words ?? []).filter(word => word.text.trim() !== '');
+  const lines: OCRLayoutLine[] = (result.lines ?? [])
+    .filter(line => line.text.trim() !== '')
+    .map(line => ({ ...line, text: line.text.trim(), words: [] }));
+  const loose: OCRLayoutWord[] = [];
+  for (const word of words) {
+    const x = (word.bbox.x0 + word.bbox.x1) / 2;
+    const y = (word.bbox.y0 + word.bbox.y1) / 2;
+    const line = lines.find(
+      ({ bbox }) => x >= bbox.x0 && x <= bbox.x1 && y >= bbox.y0 && y <= bbox.y1
+    );
+    (line ? line.words : loose).push(word);
+  }
+  for (const line of lines) {
+    if (line.words.length === 0) {
+      line.words.push({
+        text: line.text,
+        confidence: line.confidence,
+        bbox: line.bbox,
+      });
+    }
+  }
+  lines.push(...groupLines(loose));
+  if (lines.length === 0) {
+    return [];
+  }
+  lines.sort((a, b) => a.bbox.y0 - b.bbox.y0 || a.bbox.x0 - b.bbox.x0);
+
+  const bbox = unionBox(lines.map(line => line.bbox));
+  const text = lines.map(line => line.text).join('\n');
+  const confidence = result.confidence;
+  return [
+    { text, confidence, bbox, paragraphs: [{ text, confidence, bbox, lines }] },
+  ];
+}
+
+/**
+ * Tesseract page segmentation mode suited to a page, from the layout found
+ * with automatic segmentation (PSM 3):
+ * - 11 (sparse text) when nothing was found, or for many small blocks
+ * - 8 (single word) or 7 (single line) for one line
+ * - 6 (uniform block) for one block of one paragraph
+ * - 3 (automatic) otherwise, e.g. for columns
+ */
+export function suggestPsm(blocks: OCRLayoutBlock[]): number {
+  const lines = layoutLines(blocks).filter(line => line.text !== '');
+  const words = lines.flatMap(line => line.words);
+  if (words.length === 0) {
+    return 11;
+  }
+  if (lines.length === 1) {
+    return words.length === 1 ? 8 : 7;
+  }
+  if (blocks.length >= 4 && words.length / blocks.length < 4) {
+    return 11;
+  }
+  if (blocks.length === 1 && blocks[0].paragraphs.length === 1) {
+    return 6;
+  }
+  return 3;
+}
+
+/** All lines, in reading order */
+export function layoutLines(blocks: OCRLayoutBlock[]): OCRLayoutLine[] {
+  return blocks.flatMap(block =>
+    block.paragraphs.flatMap(paragraph => paragraph.lines)
+  );
+}
+
+/** All words, in reading order */
+export function layoutWords(blocks: OCRLayoutBlock[]): OCRLayoutWord[] {
+  return layoutLines(blocks).flatMap(line => line.words);
+}
+
+/** Smallest box containing all the given boxes */
+export function unionBox(boxes: OCRBBox[]): OCRBBox {
+  return {
+    x0: Math.min(...boxes.map(box => box.x0)),
+    y0: Math.min(...boxes.map(box => box.y0)),
+    x1: Math.max(...boxes.map(box => box.x1)),
+    y1: Math.max(...boxes.map(box => box.y1)),
+  };
+}
+
+/** Words whose vertical centers fall in the same band, left to right */
+function groupLines(words: OCRLayoutWord[]): OCRLayoutLine[] {
+  const center = (word: OCRLayoutWord) => (word.bbox.y0 + word.bbox.y1) / 2;
+  const groups: OCRLayoutWord[][] = [];
+  let bottom = -Infinity;
+  for (const word of [...words].sort((a, b) => center(a) - center(b))) {
+    if (center(word) > bottom) {
+      groups.push([]);
+      bottom = word.bbox.y1;
+    }
+    groups[groups.length - 1].push(word);
+    bottom = Math.max(bottom, word.bbox.y1);
+  }
+  return groups.map(group => {
+    const lineWords = group.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+    return {
+      text: lineWords.map(word => word.text).join(' '),
+      confidence:
+        lineWords.reduce((sum, word) => sum + word.confidence, 0) /
+        lineWords.length,
+      bbox: unionBox(lineWords.map(word => word.bbox)),
+      words: lineWords,
+    };
+  });
+}
+
+function splitAtGaps<T extends { bbox: OCRBBox }>(
+  items: T[],
+  start: 'x0' | 'y0',
+  end: 'x1' | 'y1'
+): T[][] {
+  const sorted = [...items].sort((a, b) => a.bbox[start] - b.bbox[start]);
+  const groups: T[][] = [];
+  let reach = -Infinity;
+  for (const item of sorted) {
+    if (item.bbox[start] >= reach) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(item);
+    reach = Math.max(reach, item.bbox[end]);
+  }
+  return groups;
+}
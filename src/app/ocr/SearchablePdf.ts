@@ -0,0 +1,402 @@
+/**
+ * Searchable PDF export: each page image with an invisible text layer
+ * placed over the recognized words, so the text can be searched, selected
+ * and copied
+ */
+
+import type {
+  OCRDocumentResult,
+  OCRResult,
+  OCRSearchablePDFOptions,
+} from '../../core/types';
+import type { PixelImage } from '../../utils/ocr/imageFilters';
+import { ValidationError } from '@domain/errors';
+import { exportPages } from './Export';
+import { layoutWords } from './Layout';
+
+/**
+ * A page image: JPEG bytes (embedded as is) or decoded pixels, e.g. from
+ * `decodeImage` (embedded run-length encoded)
+ */
+export type PDFPageImage = Uint8Array | ArrayBuffer | PixelImage;
+
+interface EmbeddedImage {
+  width: number;
+  height: number;
+  dictionary: string;
+  data: Uint8Array;
+}
+
+// PDF syntax is ASCII; text is written as hex strings
+const ascii = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * Build a PDF with one page per result page: the page image fills the page
+ * and every word is written in invisible text (render mode 3), scaled to
+ * its box. Text uses a glyphless font whose ToUnicode map makes any BMP
+ * character extractable.
+ *
+ * @example
+ * ```typescript
+ * const image = await fs.readFile('scan.jpg');
+ * const result = await provider.recognize(image, { includeBbox: true });
+ * await fs.writeFile('scan.pdf', toSearchablePDF(result, image, { dpi: 300 }));
+ * ```
+ */
+export function toSearchablePDF(
+  input: OCRResult | OCRDocumentResult,
+  images: PDFPageImage | PDFPageImage[],
+  options: OCRSearchablePDFOptions = {}
+): Uint8Array {
+  const dpi = options.dpi ?? 300;
+  if (!(dpi > 0)) {
+    throw new ValidationError('dpi must be a positive number', 'dpi');
+  }
+  const list = Array.isArray(images) ? images : [images];
+  const embedded = list.map(embedImage);
+  const pages = exportPages(input, {
+    width: embedded[0]?.width,
+    height: embedded[0]?.height,
+  });
+  if (embedded.length !== pages.length) {
+    throw new ValidationError(
+      `Expected ${pages.length} page image(s), got ${embedded.length}`,
+      'images'
+    );
+  }
+
+  const pdf = new PdfWriter();
+  const catalog = pdf.reserve();
+  const pageTree = pdf.reserve();
+  const font = pdf.reserve();
+  const codes = new Set<number>();
+  const kids = pages.map((page, index) => {
+    const image = embedded[index];
+    const pageWidth = (image.width * 72) / dpi;
+    const pageHeight = (image.height * 72) / dpi;
+    // Boxes are in the page's pixels, which may differ from the image's
+    const scaleX = pageWidth / (page.width || image.width);
+    const scaleY = pageHeight / (page.height || image.height);
+
+    const content = [
+      'q',
+      `${num(pageWidth)} 0 0 ${num(pageHeight)} 0 0 cm`,
+      '/Im0 Do',
+      'Q',
+      'BT',
+      '3 Tr',
+    ];
+    for (const word of layoutWords(page.layout)) {
+      const units = utf16(word.text.trim());
+      const size = (word.bbox.y1 - word.bbox.y0) * scaleY;
+      const width = (word.bbox.x1 - word.bbox.x0) * scaleX;
+      if (units.length === 0 || size <= 0 || width <= 0) {
+        continue;
+      }
+      units.forEach(unit => codes.add(unit));
+      // Every glyph advances half an em (DW 500): stretch to the box width
+      const stretch = (100 * width) / (units.length * 0.5 * size);
+      content.push(
+        `/F0 ${num(size)} Tf`,
+        `${num(stretch)} Tz`,
+        `1 0 0 1 ${num(word.bbox.x0 * scaleX)} ${num(pageHeight - word.bbox.y1 * scaleY)} Tm`,
+        `<${units.map(hex4).join('')}> Tj`
+      );
+    }
+    content.push('ET');
+
+    const xobject = pdf.add(
+      stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ${image.dictionary}`,
+        image.data
+      )
+    );
+    const contents = pdf.add(stream('', ascii(content.join('\n'))));
+    return pdf.add(
+      `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /XObject << /Im0 ${xobject} 0 R >> /Font << /F0 ${font} 0 R >> >> /Contents ${contents} 0 R >>`
+    );
+  });
+
+  const descriptor = pdf.add(
+    '<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 /FontBBox [0 0 500 1000] /ItalicAngle 0 /Ascent 1000 /Descent 0 /CapHeight 1000 /StemV 80 >>'
+  );
+  const cidFont = pdf.add(
+    `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R /DW 500 /CIDToGIDMap /Identity >>`
+  );
+  const toUnicode = pdf.add(stream('', ascii(unicodeCMap(codes))));
+  pdf.set(
+    font,
+    `<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H /DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`
+  );
+  pdf.set(
+    pageTree,
+    `<< /Type /Pages /Kids [${kids.map(kid => `${kid} 0 R`).join(' ')}] /Count ${kids.length} >>`
+  );
+  pdf.set(catalog, `<< /Type /Catalog /Pages ${pageTree} 0 R >>`);
+  const info = pdf.add(
+    `<< /Title <FEFF${utf16(options.title ?? 'OCR output')
+      .map(hex4)
+      .join('')}> /Producer (transformers-router) >>`
+  );
+  return pdf.finish(catalog, info);
+}
+
+/** Objects numbered from 1, serialized with a cross-reference table */
+class PdfWriter {
+  private objects: Array<Uint8Array | undefined> = [];
+
+  reserve(): number {
+    this.objects.push(undefined);
+    return this.objects.length;
+  }
+
+  add(body: string | Uint8Array): number {
+    const id = this.reserve();
+    this.set(id, body);
+    return id;
+  }
+
+  set(id: number, body: string | Uint8Array): void {
+    this.objects[id - 1] = typeof body === 'string' ? ascii(body) : body;
+  }
+
+  finish(root: number, info: number): Uint8Array {
+    // The comment's high bytes mark the file as binary
+    const chunks: Uint8Array[] = [
+      concat([
+        ascii('%PDF-1.4\n%'),
+        new Uint8Array([0xe2, 0xe3, 0xcf, 0xd3, 0x0a]),
+      ]),
+    ];
+    let offset = chunks[0].length;
+    const offsets = this.objects.map((body, index) => {
+      if (!body) {
+        throw new Error(`PDF object ${index + 1} was reserved but never set`);
+      }
+      const object = concat([
+        ascii(`${index + 1} 0 obj\n`),
+        body,
+        ascii('\nendobj\n'),
+      ]);
+      chunks.push(object);
+      const start = offset;
+      offset += object.length;
+      return start;
+    });
+    const size = this.objects.length + 1;
+    chunks.push(
+      ascii(
+        [
+          'xref',
+          `0 ${size}`,
+          '0000000000 65535 f ',
+          ...offsets.map(
+            start => `${String(start).padStart(10, '0')} 00000 n `
+          ),
+          'trailer',
+          `<< /Size ${size} /Root ${root} 0 R /Info ${info} 0 R >>`,
+          'startxref',
+          String(offset),
+          '%%EOF',
+          '',
+        ].join('\n')
+      )
+    );
+    return concat(chunks);
+  }
+}
+
+function embedImage(image: PDFPageImage, index: number): EmbeddedImage {
+  if (image instanceof Uint8Array || image instanceof ArrayBuffer) {
+    const bytes = image instanceof Uint8Array ? image : new Uint8Array(image);
+    const jpeg = jpegInfo(bytes);
+    if (!jpeg) {
+      throw new ValidationError(
+        `images[${index}]: expected JPEG bytes or decoded pixels (see decodeImage)`,
+        'images'
+      );
+    }
+    // Four-component JPEGs are Adobe CMYK, stored inverted
+    const colorSpace =
+      jpeg.components === 1
+        ? '/DeviceGray'
+        : jpeg.components === 4
+          ? '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]'
+          : '/DeviceRGB';
+    return {
+      width: jpeg.width,
+      height: jpeg.height,
+      dictionary: `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+      data: bytes,
+    };
+  }
+
+  // Pixels: alpha is composited onto white; gray stays gray
+  const { data, width, height, channels } = image;
+  const color = channels >= 3 ? 3 : 1;
+  const pixels = new Uint8Array(width * height * color);
+  for (let i = 0; i < width * height; i++) {
+    const alpha =
+      channels === 2 || channels === 4
+        ? data[i * channels + channels - 1] / 255
+        : 1;
+    for (let c = 0; c < color; c++) {
+      pixels[i * color + c] = Math.round(
+        data[i * channels + c] * alpha + 255 * (1 - alpha)
+      );
+    }
+  }
+  return {
+    width,
+    height,
+    dictionary: `/ColorSpace ${color === 3 ? '/DeviceRGB' : '/DeviceGray'} /BitsPerComponent 8 /Filter /RunLengthDecode`,
+    data: runLength(pixels),
+  };
+}
+
+/** Size and component count from a JPEG's start-of-frame segment */
+function jpegInfo(
+  bytes: Uint8Array
+): { width: number; height: number; components: number } | undefined {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return undefined;
+  }
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) {
+      i++;
+      continue;
+    }
+    const marker = bytes[i + 1];
+    // Fill bytes and standalone markers have no length
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      i += 2;
+      continue;
+    }
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        height: (bytes[i + 5] << 8) | bytes[i + 6],
+        width: (bytes[i + 7] << 8) | bytes[i + 8],
+        components: bytes[i + 9],
+      };
+    }
+    i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+  }
+  return undefined;
+}
+
+/**
+ * PDF RunLengthDecode encoding: runs of three or more equal bytes are
+ * stored as a count and the byte, everything else as literal chunks
+ */
+function runLength(data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + Math.ceil(data.length / 128) + 1);
+  let o = 0;
+  let i = 0;
+  const runAt = (at: number) =>
+    at + 2 < data.length &&
+    data[at] === data[at + 1] &&
+    data[at] === data[at + 2];
+  while (i < data.length) {
+    if (runAt(i)) {
+      let run = 3;
+      while (run < 128 && i + run < data.length && data[i + run] === data[i]) {
+        run++;
+      }
+      out[o++] = 257 - run;
+      out[o++] = data[i];
+      i += run;
+      continue;
+    }
+    const start = i;
+    while (i < data.length && i - start < 128 && !runAt(i)) {
+      i++;
+    }
+    out[o++] = i - start - 1;
+    out.set(data.subarray(start, i), o);
+    o += i - start;
+  }
+  out[o++] = 128;
+  return out.slice(0, o);
+}
+
+/** ToUnicode CMap mapping each used code (a UTF-16 unit) to itself */
+function unicodeCMap(codes: Set<number>): string {
+  const sorted = [...codes].sort((a, b) => a - b);
+  const chunks: string[] = [];
+  // At most 100 entries per bfchar section
+  for (let i = 0; i < sorted.length; i += 100) {
+    const part = sorted.slice(i, i + 100);
+    chunks.push(
+      `${part.length} beginbfchar`,
+      ...part.map(code => `<${hex4(code)}> <${hex4(code)}>`),
+      'endbfchar'
+    );
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...chunks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
+
+function stream(dictionary: string, data: Uint8Array): Uint8Array {
+  return concat([
+    ascii(
+      `<< ${dictionary ? `${dictionary} ` : ''}/Length ${data.length} >>\nstream\n`
+    ),
+    data,
+    ascii('\nendstream'),
+  ]);
+}
+
+/** UTF-16 code units; characters outside the BMP become U+FFFD */
+function utf16(text: string): number[] {
+  return Array.from(text, char => {
+    const code = char.codePointAt(0) as number;
+    return code > 0xffff ? 0xfffd : code;
+  });
+}
+
+function hex4(code: number): string {
+  return code.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
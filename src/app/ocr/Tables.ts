@@ -0,0 +1,238 @@
+/**
+ * Table detection over OCR words, and CSV/JSON export of detected tables
+ */
+
+import type {
+  OCRBBox,
+  OCRLayoutWord,
+  OCRTable,
+  OCRTableCell,
+  OCRTableOptions,
+} from '../../core/types';
+import { unionBox } from './Layout';
+
+interface Row {
+  y0: number;
+  y1: number;
+  words: OCRLayoutWord[];
+}
+
+interface Cell extends OCRTableCell {
+  bbox: OCRBBox;
+}
+
+/**
+ * Find tables: words are grouped into visual rows, rows are split into
+ * cells at gaps wider than `columnGap` word heights, and runs of at least
+ * `minRows` consecutive multi-cell rows become a table whose columns are
+ * taken from the rows with the most common cell count
+ *
+ * @example
+ * ```typescript
+ * // Receipt line items: "Milk 2 3.49", "Bread 1 2.10"
+ * const [items] = detectTables(layoutWords(result.layout));
+ * items.rows.map(row => row.map(cell => cell.text)); // [['Milk', '2', '3.49'], ...]
+ * ```
+ */
+export function detectTables(
+  words: OCRLayoutWord[],
+  options: OCRTableOptions = {}
+): OCRTable[] {
+  const minRows = options.minRows ?? 2;
+  const minColumns = options.minColumns ?? 2;
+  const columnGap = options.columnGap ?? 1.2;
+
+  const visible = words.filter(word => word.text.trim() !== '');
+  if (visible.length === 0) {
+    return [];
+  }
+  const wordHeight = median(visible.map(word => word.bbox.y1 - word.bbox.y0));
+  const rows = groupRows(visible);
+
+  // Runs of consecutive rows with two or more cells, without large gaps
+  const tables: OCRTable[] = [];
+  let run: Cell[][] = [];
+  let previous: Row | undefined;
+  const flush = () => {
+    if (run.length >= minRows) {
+      const table = buildTable(run);
+      if (table.columns.length >= minColumns) {
+        tables.push(table);
+      }
+    }
+    run = [];
+  };
+  for (const row of rows) {
+    const cells = splitCells(row.words, columnGap * wordHeight);
+    const adjacent =
+      previous !== undefined && row.y0 - previous.y1 <= 1.5 * wordHeight;
+    if (!adjacent || cells.length < 2) {
+      flush();
+    }
+    if (cells.length >= 2) {
+      run.push(cells);
+    }
+    previous = row;
+  }
+  flush();
+  return tables;
+}
+
+/**
+ * CSV (RFC 4180): fields with commas, quotes or line breaks are quoted and
+ * rows end with CRLF
+ */
+export function tableToCSV(
+  table: OCRTable,
+  options: { delimiter?: string } = {}
+): string {
+  const delimiter = options.delimiter ?? ',';
+  const quote = (text: string) =>
+    text.includes(delimiter) || /["\r\n]/.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  return table.rows
+    .map(row => row.map(cell => quote(cell.text)).join(delimiter) + '\r\n')
+    .join('');
+}
+
+/**
+ * JSON text of the table: with `header` (default), an array of objects
+ * keyed by the first row's cells; otherwise an array of rows of strings
+ */
+export function tableToJSON(
+  table: OCRTable,
+  options: { header?: boolean; space?: number } = {}
+): string {
+  const rows = table.rows.map(row => row.map(cell => cell.text));
+  if (options.header === false) {
+    return JSON.stringify(rows, null, options.space);
+  }
+  const [header = [], ...body] = rows;
+  const keys: string[] = [];
+  header.forEach((text, index) => {
+    let key = text || `column${index + 1}`;
+    // Keep every key unique so no column is lost
+    for (let n = 2; keys.includes(key); n++) {
+      key = `${text || `column${index + 1}`}_${n}`;
+    }
+    keys.push(key);
+  });
+  const records = body.map(row =>
+    Object.fromEntries(keys.map((key, index) => [key, row[index]]))
+  );
+  return JSON.stringify(records, null, options.space);
+}
+
+/** Words whose vertical centers fall in the same band, left to right */
+function groupRows(words: OCRLayoutWord[]): Row[] {
+  const center = (word: OCRLayoutWord) => (word.bbox.y0 + word.bbox.y1) / 2;
+  const rows: Row[] = [];
+  for (const word of [...words].sort((a, b) => center(a) - center(b))) {
+    const row = rows[rows.length - 1];
+    if (row && center(word) <= row.y1) {
+      row.words.push(word);
+      row.y0 = Math.min(row.y0, word.bbox.y0);
+      row.y1 = Math.max(row.y1, word.bbox.y1);
+    } else {
+      rows.push({ y0: word.bbox.y0, y1: word.bbox.y1, words: [word] });
+    }
+  }
+  for (const row of rows) {
+    row.words.sort((a, b) => a.bbox.x0 - b.bbox.x0);
+  }
+  return rows;
+}
+
+function splitCells(words: OCRLayoutWord[], gap: number): Cell[] {
+  const groups: OCRLayoutWord[][] = [];
+  words.forEach((word, index) => {
+    if (index === 0 || word.bbox.x0 - words[index - 1].bbox.x1 > gap) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(word);
+  });
+  return groups.map(toCell);
+}
+
+function toCell(words: Array<OCRLayoutWord | Cell>): Cell {
+  return {
+    text: words.map(word => word.text).join(' '),
+    bbox: unionBox(words.map(word => word.bbox)),
+    confidence:
+      words.reduce((sum, word) => sum + (word.confidence ?? 0), 0) /
+      words.length,
+  };
+}
+
+function buildTable(rows: Cell[][]): OCRTable {
+  // Columns come from the rows with the most common cell count (the
+  // larger count on ties), widened to cover those rows' cells
+  const counts = new Map<number, number>();
+  for (const row of rows) {
+    counts.set(row.length, (counts.get(row.length) ?? 0) + 1);
+  }
+  const [count] = [...counts].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+  const columns: Array<{ x0: number; x1: number }> = [];
+  for (const row of rows.filter(row => row.length === count)) {
+    row.forEach((cell, index) => {
+      const column = (columns[index] ??= {
+        x0: cell.bbox.x0,
+        x1: cell.bbox.x1,
+      });
+      column.x0 = Math.min(column.x0, cell.bbox.x0);
+      column.x1 = Math.max(column.x1, cell.bbox.x1);
+    });
+  }
+  // Columns that ended up overlapping are one column
+  const merged: Array<{ x0: number; x1: number }> = [];
+  for (const column of columns) {
+    const last = merged[merged.length - 1];
+    if (last && column.x0 <= last.x1) {
+      last.x1 = Math.max(last.x1, column.x1);
+    } else {
+      merged.push({ ...column });
+    }
+  }
+
+  // Put every cell in the column it overlaps most (or the nearest one)
+  const cells = rows.map(row => {
+    const slots: Cell[][] = merged.map(() => []);
+    for (const cell of row) {
+      slots[closestColumn(merged, cell.bbox)].push(cell);
+    }
+    return slots.map(
+      (slot): OCRTableCell => (slot.length > 0 ? toCell(slot) : { text: '' })
+    );
+  });
+
+  return {
+    bbox: unionBox(rows.flat().map(cell => cell.bbox)),
+    columns: merged,
+    rows: cells,
+  };
+}
+
+function closestColumn(
+  columns: Array<{ x0: number; x1: number }>,
+  bbox: OCRBBox
+): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  columns.forEach((column, index) => {
+    const overlap = Math.min(column.x1, bbox.x1) - Math.max(column.x0, bbox.x0);
+    if (overlap > bestScore) {
+      bestScore = overlap;
+      best = index;
+    }
+  });
+  return best;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,30 @@
+/**
+ * OCR layout analysis and export
+ */
+
+export {
+  buildLayout,
+  readingOrder,
+  layoutLines,
+  layoutWords,
+  resultLayout,
+  suggestPsm,
+  unionBox,
+} from './Layout';
+export type { TesseractPageData } from './Layout';
+export { detectTables, tableToCSV, tableToJSON } from './Tables';
+export { toHOCR, toALTO } from './Export';
+export { toSearchablePDF } from './SearchablePdf';
+export type { PDFPageImage } from './SearchablePdf';
+export type {
+  OCRBBox,
+  OCRLayoutBlock,
+  OCRLayoutParagraph,
+  OCRLayoutLine,
+  OCRLayoutWord,
+  OCRTable,
+  OCRTableCell,
+  OCRTableOptions,
+  OCRExportOptions,
+  OCRSearchablePDFOptions,
+} from '../../core/types';
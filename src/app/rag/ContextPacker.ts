@@ -0,0 +1,126 @@
+/**
+ * Prompt building for retrieval-augmented generation: turns vector query
+ * hits into a numbered context block that fits the LLM's token budget
+ */
+
+import type { Citation, VectorDocMeta } from '../../core/types';
+import type { QueryResult } from '../vectorization/VectorizationService';
+import { ValidationError } from '@domain/errors';
+
+export const DEFAULT_ASK_PROMPT_TEMPLATE = [
+  'Answer the question using only the context below. Cite the passages you use with their [n] markers. If the context does not contain the answer, say that you do not know.',
+  '',
+  'Context:',
+  '{{context}}',
+  '',
+  'Question: {{question}}',
+].join('\n');
+
+export type TokenCounter = (text: string) => number | Promise<number>;
+
+export interface RetrievedChunk {
+  id: string;
+  score: number;
+  metadata: VectorDocMeta;
+}
+
+export interface PackedContext {
+  context: string;
+  citations: Citation[];
+  droppedIds: string[]; // chunks that did not fit into the budget
+  tokens: number;
+}
+
+const PASSAGE_SEPARATOR = '\n\n';
+
+/**
+ * Throw a ValidationError if the template has no {{context}} placeholder
+ */
+export function validatePromptTemplate(template: string): void {
+  if (!template.includes('{{context}}')) {
+    throw new ValidationError(
+      'promptTemplate must contain a {{context}} placeholder',
+      'promptTemplate'
+    );
+  }
+}
+
+export function renderPrompt(
+  template: string,
+  question: string,
+  context: string
+): string {
+  // Function replacers so "$" in user text is not treated as a pattern
+  return template
+    .replace(/\{\{context\}\}/g, () => context)
+    .replace(/\{\{question\}\}/g, () => question);
+}
+
+/**
+ * Query hits that carry chunk text, in result order. Hits without stored
+ * text (e.g. image or audio documents) cannot be quoted and are skipped.
+ */
+export function toRetrievedChunks(result: QueryResult): RetrievedChunk[] {
+  const chunks: RetrievedChunk[] = [];
+  result.ids.forEach((id, i) => {
+    const metadata = result.metadata?.[i];
+    if (metadata && typeof metadata.text === 'string' && metadata.text) {
+      chunks.push({ id, score: result.scores[i], metadata });
+    }
+  });
+  return chunks;
+}
+
+/**
+ * Greedily add chunks, best first, while they fit into `budget` tokens.
+ * A chunk that does not fit is dropped and smaller ones after it are still
+ * tried. Token counts are summed per passage, so they may differ by a few
+ * tokens from a count over the joined context.
+ */
+export async function packContext(
+  chunks: RetrievedChunk[],
+  budget: number,
+  countTokens: TokenCounter
+): Promise<PackedContext> {
+  const passages: string[] = [];
+  const citations: Citation[] = [];
+  const droppedIds: string[] = [];
+  let tokens = 0;
+
+  for (const chunk of chunks) {
+    const marker = citations.length + 1;
+    const passage = `[${marker}] ${normalizeWhitespace(chunk.metadata.text as string)}`;
+    const cost = await countTokens(
+      passages.length > 0 ? PASSAGE_SEPARATOR + passage : passage
+    );
+
+    if (tokens + cost > budget) {
+      droppedIds.push(chunk.id);
+      continue;
+    }
+
+    tokens += cost;
+    passages.push(passage);
+    citations.push({
+      marker,
+      id: chunk.id,
+      score: chunk.score,
+      chunkIndex: chunk.metadata.chunkIndex,
+      startChar: chunk.metadata.startChar,
+      endChar: chunk.metadata.endChar,
+      text: chunk.metadata.text as string,
+      metadata: chunk.metadata,
+    });
+  }
+
+  return {
+    context: passages.join(PASSAGE_SEPARATOR),
+    citations,
+    droppedIds,
+    tokens,
+  };
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
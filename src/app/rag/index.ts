@@ -0,0 +1,22 @@
+/**
+ * Retrieval-augmented generation exports
+ */
+
+export {
+  DEFAULT_ASK_PROMPT_TEMPLATE,
+  packContext,
+  renderPrompt,
+  toRetrievedChunks,
+  validatePromptTemplate,
+} from './ContextPacker';
+export type {
+  PackedContext,
+  RetrievedChunk,
+  TokenCounter,
+} from './ContextPacker';
+export type {
+  AskOptions,
+  AskResponse,
+  AskProgressEventData,
+  Citation,
+} from '../../core/types';
@@ -0,0 +1,143 @@
+/**
+ * Sentence segmentation for incremental speech synthesis: text arrives in
+ * arbitrary pieces (e.g. LLM tokens), sentences come out once complete
+ */
+
+export interface SentenceChunkerOptions {
+  /** Sentences longer than this (characters) are split at clause breaks */
+  maxSentenceLength?: number;
+}
+
+// Sentence end: terminal punctuation plus closing quotes, confirmed by the
+// word after it (a streamed "3." may still become "3.14"), or a newline
+const BOUNDARY = /[.!?…]+["'”’)\]]*(?=\s)|\n/g;
+
+// Words whose trailing period does not end a sentence
+const ABBREVIATIONS = new Set([
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'prof',
+  'sr',
+  'jr',
+  'st',
+  'vs',
+  'etc',
+  'e.g',
+  'i.e',
+  'fig',
+  'no',
+  'approx',
+]);
+
+const SPEAKABLE = /[\p{L}\p{N}]/u;
+
+/**
+ * Buffers text and returns every sentence it completes
+ *
+ * @example
+ * ```typescript
+ * const chunker = new SentenceChunker();
+ * chunker.push('Hello there. How'); // ['Hello there.']
+ * chunker.push(' are you?');        // []
+ * chunker.flush();                  // ['How are you?']
+ * ```
+ */
+export class SentenceChunker {
+  private readonly maxLength: number;
+  private buffer = '';
+
+  constructor(options: SentenceChunkerOptions = {}) {
+    this.maxLength = Math.max(1, options.maxSentenceLength ?? 300);
+  }
+
+  /**
+   * Add text; returns the sentences it completes, in order
+   */
+  push(text: string): string[] {
+    this.buffer += text;
+    const sentences: string[] = [];
+
+    let start = 0;
+    BOUNDARY.lastIndex = 0;
+    for (let match; (match = BOUNDARY.exec(this.buffer)); ) {
+      const end = match.index + match[0].length;
+      if (match[0] !== '\n') {
+        // A lowercase word after it continues the sentence ('"Why?" he asked')
+        const next = /\S/.exec(this.buffer.slice(end))?.[0];
+        if (next === undefined) break;
+        if (/\p{Ll}/u.test(next) || !this.endsSentence(start, match.index)) {
+          continue;
+        }
+      }
+      this.emit(this.buffer.slice(start, end), sentences);
+      start = end;
+    }
+    this.buffer = this.buffer.slice(start).trimStart();
+
+    // Run-on text without punctuation would otherwise hold back all speech
+    while (this.buffer.length > this.maxLength) {
+      const cut = this.cutPosition(this.buffer);
+      this.emit(this.buffer.slice(0, cut), sentences);
+      this.buffer = this.buffer.slice(cut).trimStart();
+    }
+    return sentences;
+  }
+
+  /**
+   * End of text: returns whatever is left as the last sentence
+   */
+  flush(): string[] {
+    const sentences: string[] = [];
+    this.emit(this.buffer, sentences);
+    this.buffer = '';
+    return sentences;
+  }
+
+  private endsSentence(start: number, index: number): boolean {
+    if (this.buffer[index] !== '.') {
+      return true;
+    }
+    const before = this.buffer.slice(start, index);
+    const word = /[^\s(["']*$/.exec(before)?.[0] ?? '';
+    if (ABBREVIATIONS.has(word.toLowerCase())) {
+      return false;
+    }
+    // Initials ("J. R. R. Tolkien") and list markers ("2. Add salt")
+    if (/^\p{Lu}$/u.test(word)) {
+      return false;
+    }
+    return !(/^\d+$/.test(word) && before.trim() === word);
+  }
+
+  private cutPosition(text: string): number {
+    const head = text.slice(0, this.maxLength);
+    const clause = Math.max(
+      ...[',', ';', ':', '—', '–'].map(mark => head.lastIndexOf(`${mark} `))
+    );
+    if (clause > 0) {
+      return clause + 1;
+    }
+    const space = head.lastIndexOf(' ');
+    return space > 0 ? space : this.maxLength;
+  }
+
+  private emit(text: string, sentences: string[]): void {
+    const sentence = text.replace(/\s+/g, ' ').trim();
+    if (SPEAKABLE.test(sentence)) {
+      sentences.push(sentence);
+    }
+  }
+}
+
+/**
+ * Split a complete text into sentences
+ */
+export function splitSentences(
+  text: string,
+  options: SentenceChunkerOptions = {}
+): string[] {
+  const chunker = new SentenceChunker(options);
+  return [...chunker.push(text), ...chunker.flush()];
+}
@@ -0,0 +1,135 @@
+/**
+ * Incremental speech synthesis: sentences are synthesized as soon as they
+ * are complete and delivered in text order
+ */
+
+import { AbortError } from '@domain/errors';
+import { throwIfAborted } from '../../utils/abort';
+import {
+  SentenceChunker,
+  type SentenceChunkerOptions,
+} from './SentenceChunker';
+
+/** Renders one sentence; `index` is its position in the text */
+export type SynthesizeSentence<T> = (
+  sentence: string,
+  index: number
+) => Promise<T>;
+
+export interface SpeechStreamOptions extends SentenceChunkerOptions {
+  /** Sentences synthesized at once, default 1 */
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Segment `source` into sentences, synthesize up to `concurrency` of them
+ * at a time and yield the results in sentence order. Synthesis of the next
+ * sentences keeps going while the consumer handles the current one.
+ *
+ * @example
+ * ```typescript
+ * for await (const audio of streamSynthesis(llmTokens, s => tts(s))) {
+ *   player.enqueue(audio);
+ * }
+ * ```
+ */
+export async function* streamSynthesis<T>(
+  source: string | AsyncIterable<string>,
+  synthesize: SynthesizeSentence<T>,
+  options: SpeechStreamOptions = {}
+): AsyncGenerator<T, void> {
+  const { signal } = options;
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1) || 1);
+  const chunker = new SentenceChunker(options);
+
+  // Jobs in sentence order; the consumer takes them from the front
+  const jobs: Promise<T>[] = [];
+  let sentenceCount = 0;
+  let reading = true;
+  let readError: unknown;
+  let stopped = false;
+  let wake: (() => void) | undefined;
+  const notify = () => {
+    wake?.();
+    wake = undefined;
+  };
+
+  // Slots are handed over in FIFO order, so sentences start in order too
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  const run = async (sentence: string, index: number): Promise<T> => {
+    if (active < concurrency) {
+      active++;
+    } else {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    try {
+      // Sentences still queued when the consumer stops are not rendered
+      if (stopped) {
+        throw new AbortError('Speech stream closed');
+      }
+      throwIfAborted(signal);
+      return await synthesize(sentence, index);
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+
+  const enqueue = (sentences: string[]) => {
+    for (const sentence of sentences) {
+      const job = run(sentence, sentenceCount++);
+      // Failures surface when the consumer reaches the job
+      job.catch(() => undefined);
+      jobs.push(job);
+    }
+    if (sentences.length > 0) {
+      notify();
+    }
+  };
+
+  // Runs ahead of the consumer so synthesis starts as sentences complete
+  void (async () => {
+    try {
+      if (typeof source === 'string') {
+        enqueue(chunker.push(source));
+      } else {
+        for await (const text of source) {
+          if (stopped || signal?.aborted) break;
+          enqueue(chunker.push(text));
+        }
+      }
+      if (!stopped && !signal?.aborted) {
+        enqueue(chunker.flush());
+      }
+    } catch (error) {
+      readError = error;
+    } finally {
+      reading = false;
+      notify();
+    }
+  })();
+
+  try {
+    for (;;) {
+      while (jobs.length === 0 && reading) {
+        await new Promise<void>(resolve => (wake = resolve));
+      }
+      throwIfAborted(signal);
+      const job = jobs.shift();
+      if (!job) {
+        if (readError) throw readError;
+        return;
+      }
+      yield await job;
+    }
+  } finally {
+    // An early return leaves the source at its next piece of text
+    stopped = true;
+  }
+}
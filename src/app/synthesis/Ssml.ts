@@ -0,0 +1,463 @@
+/**
+ * SSML subset for speech synthesis: <speak>, <break>, <prosody rate pitch>,
+ * <voice name>, <say-as interpret-as>, <emphasis>, <sub alias>, <p> and <s>.
+ * Other elements are read as plain containers.
+ */
+
+import { ValidationError } from '@domain/errors';
+
+/**
+ * Text to synthesize with one voice and prosody, or a pause. `speed` and
+ * `pitch` multiply those of the voice (1 = unchanged).
+ */
+export type SsmlSegment =
+  | {
+      type: 'text';
+      text: string;
+      voice?: string;
+      speed: number;
+      pitch: number;
+    }
+  | { type: 'break'; seconds: number };
+
+interface Frame {
+  tag: string;
+  voice?: string;
+  speed: number;
+  pitch: number;
+  sayAs?: string;
+  alias?: string;
+}
+
+const TOKEN =
+  /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([A-Za-z][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const RATES: Record<string, number> = {
+  'x-slow': 0.5,
+  slow: 0.75,
+  medium: 1,
+  default: 1,
+  fast: 1.25,
+  'x-fast': 1.75,
+};
+const PITCHES: Record<string, number> = {
+  'x-low': 0.7,
+  low: 0.85,
+  medium: 1,
+  default: 1,
+  high: 1.15,
+  'x-high': 1.3,
+};
+const BREAKS: Record<string, number> = {
+  none: 0,
+  'x-weak': 0.1,
+  weak: 0.25,
+  medium: 0.5,
+  strong: 0.75,
+  'x-strong': 1.2,
+};
+const EMPHASIS: Record<string, { speed: number; pitch: number }> = {
+  strong: { speed: 0.85, pitch: 1.1 },
+  moderate: { speed: 0.92, pitch: 1.05 },
+  none: { speed: 1, pitch: 1 },
+  reduced: { speed: 1.08, pitch: 0.95 },
+};
+
+/**
+ * Whether `text` is an SSML document (starts with <speak>)
+ */
+export function isSsml(text: string): boolean {
+  return /^\s*(<\?xml[\s\S]*?\?>\s*)?<speak[\s>/]/.test(text);
+}
+
+/**
+ * Parse SSML into text segments and pauses, in document order. Adjacent
+ * text with the same voice and prosody is merged; say-as content is
+ * expanded to words (numbers, digits, spelled-out characters).
+ *
+ * @throws ValidationError for malformed markup or unsupported values
+ *
+ * @example
+ * ```typescript
+ * parseSsml('<speak>Gate <say-as interpret-as="characters">B12</say-as>' +
+ *   '<break time="300ms"/><prosody rate="slow">now boarding</prosody></speak>');
+ * // [{ type: 'text', text: 'Gate B one two', speed: 1, pitch: 1 },
+ * //  { type: 'break', seconds: 0.3 },
+ * //  { type: 'text', text: 'now boarding', speed: 0.75, pitch: 1 }]
+ * ```
+ */
+export function parseSsml(ssml: string): SsmlSegment[] {
+  const segments: SsmlSegment[] = [];
+  const stack: Frame[] = [];
+  let seenRoot = false;
+  // Pause implied by a closed <p> or <s>, added before the next text
+  let gap = 0;
+
+  const addBreak = (seconds: number) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === 'break') {
+      last.seconds += seconds;
+    } else if (seconds > 0) {
+      segments.push({ type: 'break', seconds });
+    }
+  };
+
+  const addText = (raw: string) => {
+    const frame = stack[stack.length - 1];
+    if (!frame) {
+      if (raw.trim()) {
+        throw invalid('text outside <speak>');
+      }
+      return;
+    }
+    if (stack.some(f => f.alias !== undefined)) {
+      return;
+    }
+    const speakable = /\S/.test(raw);
+    const text = frame.sayAs && speakable ? sayAs(raw, frame.sayAs) : raw;
+    if (speakable && gap > 0) {
+      addBreak(gap);
+      gap = 0;
+    }
+    const last = segments[segments.length - 1];
+    if (
+      last?.type === 'text' &&
+      last.voice === frame.voice &&
+      last.speed === frame.speed &&
+      last.pitch === frame.pitch
+    ) {
+      last.text += text;
+    } else if (speakable) {
+      segments.push({
+        type: 'text',
+        text,
+        ...(frame.voice !== undefined && { voice: frame.voice }),
+        speed: frame.speed,
+        pitch: frame.pitch,
+      });
+    }
+  };
+
+  // <sub alias="..."> is spoken as its alias, in place of its content
+  const speakAlias = (frame: Frame) => {
+    stack.push({ ...frame, alias: undefined });
+    addText(` ${frame.alias} `);
+    stack.pop();
+  };
+
+  let position = 0;
+  TOKEN.lastIndex = 0;
+  for (let match; (match = TOKEN.exec(ssml)); ) {
+    addText(textBetween(ssml, position, match.index));
+    position = match.index + match[0].length;
+    const [token, closing, name, attributeText, selfClosing] = match;
+    if (token.startsWith('<!--') || token.startsWith('<?')) continue;
+    const tag = name.toLowerCase();
+
+    if (closing) {
+      const frame = stack.pop();
+      if (frame?.tag !== tag) {
+        throw invalid(
+          `</${tag}> does not close ${frame ? `<${frame.tag}>` : 'anything'}`
+        );
+      }
+      if (frame.alias !== undefined) {
+        speakAlias(frame);
+      }
+      if (tag === 'p') gap = Math.max(gap, BREAKS.strong);
+      if (tag === 's') gap = Math.max(gap, BREAKS.medium);
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeText);
+    if (tag === 'speak') {
+      if (stack.length > 0 || seenRoot) {
+        throw invalid('<speak> must be the single root element');
+      }
+      seenRoot = true;
+    } else if (stack.length === 0) {
+      throw invalid(`<${tag}> outside <speak>`);
+    }
+
+    const parent = stack[stack.length - 1];
+    const frame: Frame = {
+      tag,
+      voice: parent?.voice,
+      speed: parent?.speed ?? 1,
+      pitch: parent?.pitch ?? 1,
+      sayAs: parent?.sayAs,
+    };
+    switch (tag) {
+      case 'break':
+        gap = 0;
+        addBreak(breakSeconds(attributes));
+        break;
+      case 'prosody':
+        if (attributes.rate !== undefined) {
+          frame.speed *= prosodyValue(attributes.rate, RATES, 'rate');
+        }
+        if (attributes.pitch !== undefined) {
+          frame.pitch *= prosodyValue(attributes.pitch, PITCHES, 'pitch');
+        }
+        break;
+      case 'voice':
+        if (!attributes.name) {
+          throw invalid('<voice> needs a name attribute');
+        }
+        frame.voice = attributes.name;
+        break;
+      case 'say-as':
+        if (!attributes['interpret-as']) {
+          throw invalid('<say-as> needs an interpret-as attribute');
+        }
+        frame.sayAs = attributes['interpret-as'].toLowerCase();
+        break;
+      case 'emphasis': {
+        const level = EMPHASIS[attributes.level ?? 'moderate'];
+        if (!level) {
+          throw invalid(`unknown emphasis level "${attributes.level}"`);
+        }
+        frame.speed *= level.speed;
+        frame.pitch *= level.pitch;
+        break;
+      }
+      case 'sub':
+        frame.alias = attributes.alias ?? '';
+        break;
+    }
+    if (!selfClosing) {
+      stack.push(frame);
+    } else if (frame.alias !== undefined) {
+      speakAlias(frame);
+    }
+  }
+
+  addText(textBetween(ssml, position, ssml.length));
+  if (!seenRoot) {
+    throw invalid('missing <speak> root element');
+  }
+  if (stack.length > 0) {
+    throw invalid(`<${stack[stack.length - 1].tag}> is not closed`);
+  }
+
+  return segments.flatMap((segment): SsmlSegment[] => {
+    if (segment.type === 'break') return [segment];
+    // Expanded say-as content is padded with spaces, also before punctuation
+    const text = segment.text
+      .replace(/\s+/g, ' ')
+      .replace(/ ([,.;:!?])/g, '$1')
+      .trim();
+    return text ? [{ ...segment, text }] : [];
+  });
+}
+
+/**
+ * English words for a number: 42 → "forty two", -1.5 → "minus one point
+ * five"
+ */
+export function numberToWords(value: string | number): string {
+  const text = String(value).replace(/,/g, '').trim();
+  const match = /^([-+]?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match) {
+    return String(value);
+  }
+  const [, sign, integer, fraction] = match;
+  const words = [sign === '-' ? 'minus' : '', integerWords(integer)];
+  if (fraction) {
+    words.push('point', digitWords(fraction));
+  }
+  return words.filter(Boolean).join(' ');
+}
+
+const ONES = [
+  'zero',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+const TENS = [
+  '',
+  '',
+  'twenty',
+  'thirty',
+  'forty',
+  'fifty',
+  'sixty',
+  'seventy',
+  'eighty',
+  'ninety',
+];
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion'];
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+function integerWords(digits: string): string {
+  const trimmed = digits.replace(/^0+(?=\d)/, '');
+  if (trimmed.length > SCALES.length * 3) {
+    // Too large to name; read digit by digit
+    return digitWords(trimmed);
+  }
+  if (trimmed === '0') {
+    return ONES[0];
+  }
+  const words: string[] = [];
+  for (let scale = 0, end = trimmed.length; end > 0; scale++, end -= 3) {
+    const group = Number(trimmed.slice(Math.max(0, end - 3), end));
+    if (group > 0) {
+      words.unshift([hundredWords(group), SCALES[scale]].join(' ').trim());
+    }
+  }
+  return words.join(' ');
+}
+
+function hundredWords(value: number): string {
+  const words: string[] = [];
+  if (value >= 100) {
+    words.push(ONES[Math.floor(value / 100)], 'hundred');
+    value %= 100;
+  }
+  if (value >= 20) {
+    words.push(TENS[Math.floor(value / 10)]);
+    value %= 10;
+    if (value > 0) words.push(ONES[value]);
+  } else if (value > 0) {
+    words.push(ONES[value]);
+  }
+  return words.join(' ');
+}
+
+function digitWords(digits: string): string {
+  return [...digits].map(digit => ONES[Number(digit)]).join(' ');
+}
+
+function ordinalWords(value: string): string {
+  const words = numberToWords(value.replace(/(st|nd|rd|th)$/i, ''));
+  return words.replace(/(\w+)$/, last => {
+    if (IRREGULAR_ORDINALS[last]) return IRREGULAR_ORDINALS[last];
+    if (last.endsWith('y')) return `${last.slice(0, -1)}ieth`;
+    return /^[a-z]+$/.test(last) ? `${last}th` : last;
+  });
+}
+
+function sayAs(text: string, interpretAs: string): string {
+  const spaced = (words: string) => ` ${words} `;
+  switch (interpretAs) {
+    case 'characters':
+    case 'spell-out':
+    case 'verbatim':
+      return spaced(
+        [...text.replace(/\s+/g, '')]
+          .map(char => (/\d/.test(char) ? ONES[Number(char)] : char))
+          .join(' ')
+      );
+    case 'cardinal':
+    case 'number':
+      return spaced(text.replace(/[-+]?[\d,]*\d(?:\.\d+)?/g, numberToWords));
+    case 'ordinal':
+      return spaced(ordinalWords(text.trim()));
+    case 'digits':
+    case 'telephone':
+      return spaced(text.replace(/\d+/g, digits => ` ${digitWords(digits)} `));
+    default:
+      // date, time, ... are read as written
+      return text;
+  }
+}
+
+function breakSeconds(attributes: Record<string, string>): number {
+  if (attributes.time !== undefined) {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*(ms|s)\s*$/i.exec(attributes.time);
+    if (!match) {
+      throw invalid(`invalid break time "${attributes.time}"`);
+    }
+    const amount = Number(match[1]);
+    return match[2].toLowerCase() === 'ms' ? amount / 1000 : amount;
+  }
+  const strength = attributes.strength ?? 'medium';
+  if (!(strength in BREAKS)) {
+    throw invalid(`unknown break strength "${strength}"`);
+  }
+  return BREAKS[strength];
+}
+
+// Keyword, percentage ("150%", "+20%"), semitones for pitch ("-2st") or a
+// plain multiplier ("1.2")
+function prosodyValue(
+  value: string,
+  keywords: Record<string, number>,
+  field: 'rate' | 'pitch'
+): number {
+  const text = value.trim().toLowerCase();
+  if (text in keywords) {
+    return keywords[text];
+  }
+  const match = /^([-+]?)(\d+(?:\.\d+)?)(%|st)?$/.exec(text);
+  if (match && !(match[3] === 'st' && field === 'rate')) {
+    const [, sign, number, unit] = match;
+    const amount = Number(number) * (sign === '-' ? -1 : 1);
+    if (unit === 'st') return Math.pow(2, amount / 12);
+    if (unit === '%') return sign ? 1 + amount / 100 : amount / 100;
+    if (!sign) return amount;
+  }
+  throw new ValidationError(`Unsupported SSML ${field} "${value}"`, field);
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE.lastIndex = 0;
+  for (let match; (match = ATTRIBUTE.exec(text)); ) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function textBetween(ssml: string, from: number, to: number): string {
+  const text = ssml.slice(from, to);
+  if (text.includes('<')) {
+    throw invalid(`unexpected "<" in "${text.trim().slice(0, 20)}"`);
+  }
+  return decodeEntities(text);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, e) => {
+    const entity = e.toLowerCase();
+    if (entity.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(Number(entity.slice(1)));
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[
+      entity as 'amp'
+    ];
+  });
+}
+
+function invalid(reason: string): ValidationError {
+  return new ValidationError(`Invalid SSML: ${reason}`, 'ssml');
+}
@@ -0,0 +1,11 @@
+/**
+ * Streaming speech synthesis and SSML exports
+ */
+
+export { SentenceChunker, splitSentences } from './SentenceChunker';
+export type { SentenceChunkerOptions } from './SentenceChunker';
+export { streamSynthesis } from './SpeechStream';
+export type { SynthesizeSentence, SpeechStreamOptions } from './SpeechStream';
+export { parseSsml, isSsml, numberToWords } from './Ssml';
+export type { SsmlSegment } from './Ssml';
+export type { SpeakStreamOptions, SpeechStreamChunk } from '../../core/types';
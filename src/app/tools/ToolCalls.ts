@@ -0,0 +1,278 @@
+/**
+ * Tool calling helpers: prompt preparation for chat templates and parsing
+ * of tool calls out of generated text
+ */
+
+import type {
+  Message,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+} from '../../core/types';
+
+/**
+ * Message shape handed to tokenizer chat templates. Templates with tool
+ * support expect tool call arguments as objects, not JSON strings.
+ */
+export interface TemplateMessage {
+  role: string;
+  content: string;
+  name?: string;
+  tool_calls?: Array<{
+    type: 'function';
+    function: { name: string; arguments: unknown };
+  }>;
+  tool_call_id?: string;
+}
+
+export interface ParsedToolOutput {
+  content: string; // generated text with the tool call markup removed
+  toolCalls: ToolCall[];
+}
+
+export interface ToolPromptOptions {
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  // The chat template renders `tools` itself (e.g. Qwen2.5, Llama 3.1, Hermes)
+  nativeTools: boolean;
+}
+
+const HERMES_TOOL_CALL = /<tool_call>\s*([\s\S]*?)\s*(?:<\/tool_call>|$)/g;
+const QWEN_FUNCTION_CALL =
+  /✿FUNCTION✿:\s*([^\n]+)\s*\n✿ARGS✿:\s*([\s\S]*?)(?=\n?✿(?:FUNCTION|RESULT|RETURN)✿|$)/g;
+const JSON_FENCE = /```(?:json)?\s*([\s\S]*?)```/;
+
+/**
+ * Whether a tokenizer chat template renders tool definitions
+ */
+export function templateSupportsTools(chatTemplate: unknown): boolean {
+  if (!chatTemplate) return false;
+  const source =
+    typeof chatTemplate === 'string'
+      ? chatTemplate
+      : JSON.stringify(chatTemplate);
+  return /\btools\b/.test(source);
+}
+
+/**
+ * Tools that may be offered for the given choice ('none' offers nothing)
+ */
+export function selectTools(
+  tools: ToolDefinition[] = [],
+  toolChoice: ToolChoice = 'auto'
+): ToolDefinition[] {
+  if (toolChoice === 'none') return [];
+  if (typeof toolChoice === 'object') {
+    return tools.filter(t => t.function.name === toolChoice.function.name);
+  }
+  return tools;
+}
+
+/**
+ * Convert a conversation (including tool calls and tool results) into
+ * messages a chat template can render. Without native tool support, tool
+ * definitions are described in the system prompt and calls/results are
+ * encoded in the Hermes <tool_call>/<tool_response> text format.
+ */
+export function prepareToolMessages(
+  messages: Message[],
+  options: ToolPromptOptions
+): TemplateMessage[] {
+  const { nativeTools, toolChoice = 'auto' } = options;
+  const tools = selectTools(options.tools, toolChoice);
+
+  const prepared: TemplateMessage[] = messages.map(message => {
+    if (message.role === 'tool' || message.role === 'function') {
+      return nativeTools
+        ? {
+            role: 'tool',
+            content: message.content,
+            ...(message.name && { name: message.name }),
+            ...(message.tool_call_id && {
+              tool_call_id: message.tool_call_id,
+            }),
+          }
+        : {
+            role: 'user',
+            content: `<tool_response>\n${message.content}\n</tool_response>`,
+          };
+    }
+
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      if (nativeTools) {
+        return {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.tool_calls.map(call => ({
+            type: 'function' as const,
+            function: {
+              name: call.function.name,
+              arguments: parseArguments(call.function.arguments),
+            },
+          })),
+        };
+      }
+      const calls = message.tool_calls.map(
+        call =>
+          `<tool_call>\n${JSON.stringify({
+            name: call.function.name,
+            arguments: parseArguments(call.function.arguments),
+          })}\n</tool_call>`
+      );
+      return {
+        role: 'assistant',
+        content: [message.content, ...calls].filter(Boolean).join('\n'),
+      };
+    }
+
+    return { role: message.role, content: message.content };
+  });
+
+  const instructions: string[] = [];
+  if (tools.length > 0 && !nativeTools) {
+    instructions.push(describeTools(tools));
+  }
+  if (toolChoice === 'required') {
+    instructions.push('You must call at least one function.');
+  } else if (typeof toolChoice === 'object') {
+    instructions.push(
+      `You must call the "${toolChoice.function.name}" function.`
+    );
+  }
+
+  if (instructions.length > 0) {
+    if (prepared[0]?.role === 'system') {
+      prepared[0] = {
+        ...prepared[0],
+        content: [prepared[0].content, ...instructions].join('\n\n'),
+      };
+    } else {
+      prepared.unshift({ role: 'system', content: instructions.join('\n\n') });
+    }
+  }
+
+  return prepared;
+}
+
+/**
+ * Extract tool calls from generated text. Understands Hermes / Qwen2.5
+ * <tool_call> blocks, Qwen ✿FUNCTION✿/✿ARGS✿ markers and bare JSON
+ * ({name, arguments|parameters}, arrays of those, or {tool_calls: [...]},
+ * optionally inside a ```json fence). Bare JSON only counts as a call when
+ * it names one of `toolNames`, so ordinary JSON answers are left alone.
+ */
+export function parseToolCalls(
+  text: string,
+  toolNames?: string[]
+): ParsedToolOutput {
+  const hermes = [...text.matchAll(HERMES_TOOL_CALL)];
+  if (hermes.length > 0) {
+    const toolCalls = hermes
+      .map(match => toToolCall(safeJsonParse(match[1])))
+      .filter((call): call is ToolCall => call !== null);
+    return {
+      content: text.replace(HERMES_TOOL_CALL, '').trim(),
+      toolCalls,
+    };
+  }
+
+  const qwen = [...text.matchAll(QWEN_FUNCTION_CALL)];
+  if (qwen.length > 0) {
+    const toolCalls = qwen
+      .map(match =>
+        toToolCall({
+          name: match[1].trim(),
+          arguments: safeJsonParse(match[2].trim()) ?? match[2].trim(),
+        })
+      )
+      .filter((call): call is ToolCall => call !== null);
+    return {
+      content: text.slice(0, qwen[0].index).trim(),
+      toolCalls,
+    };
+  }
+
+  const trimmed = text.trim();
+  const fenced = JSON_FENCE.exec(trimmed);
+  const json = safeJsonParse(trimmed) ?? (fenced && safeJsonParse(fenced[1]));
+  const toolCalls = jsonToToolCalls(json).filter(
+    call => !toolNames || toolNames.includes(call.function.name)
+  );
+  if (toolCalls.length > 0) {
+    const content =
+      fenced && safeJsonParse(trimmed) === null
+        ? trimmed.replace(fenced[0], '').trim()
+        : '';
+    return { content, toolCalls };
+  }
+
+  return { content: text, toolCalls: [] };
+}
+
+function jsonToToolCalls(json: unknown): ToolCall[] {
+  if (Array.isArray(json)) {
+    return json
+      .map(toToolCall)
+      .filter((call): call is ToolCall => call !== null);
+  }
+  if (isRecord(json) && Array.isArray(json.tool_calls)) {
+    return jsonToToolCalls(json.tool_calls);
+  }
+  const call = toToolCall(json);
+  return call ? [call] : [];
+}
+
+function toToolCall(value: unknown): ToolCall | null {
+  if (!isRecord(value)) return null;
+
+  // OpenAI shape: { type: 'function', function: { name, arguments } }
+  const fn = isRecord(value.function) ? value.function : value;
+  const name = fn.name;
+  if (typeof name !== 'string' || !name) return null;
+
+  const args = fn.arguments ?? fn.parameters ?? {};
+  return {
+    id: typeof value.id === 'string' ? value.id : generateCallId(),
+    type: 'function',
+    function: {
+      name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args),
+    },
+  };
+}
+
+function describeTools(tools: ToolDefinition[]): string {
+  return [
+    'You may call one or more functions to assist with the user query.',
+    '',
+    'You are provided with function signatures within <tools></tools> XML tags:',
+    '<tools>',
+    ...tools.map(tool => JSON.stringify(tool)),
+    '</tools>',
+    '',
+    'For each function call, return a json object with function name and arguments within <tool_call></tool_call> XML tags:',
+    '<tool_call>',
+    '{"name": <function-name>, "arguments": <args-json-object>}',
+    '</tool_call>',
+  ].join('\n');
+}
+
+function parseArguments(args: string): unknown {
+  return safeJsonParse(args) ?? args;
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function generateCallId(): string {
+  return `call_${Math.random().toString(36).slice(2, 11)}`;
+}
@@ -0,0 +1,183 @@
+/**
+ * Registry of JS functions exposed to the LLM as tools, and the agent loop
+ * that executes requested calls and feeds the results back
+ */
+
+import type {
+  ChatOptions,
+  ChatResponse,
+  Message,
+  ToolCall,
+  ToolDefinition,
+} from '../../core/types';
+import { ValidationError } from '@domain/errors';
+import { throwIfAborted } from '../../utils/abort';
+
+export type ToolHandler<TArgs = Record<string, unknown>> = (
+  args: TArgs,
+  call: ToolCall
+) => unknown | Promise<unknown>;
+
+export interface ToolSpec {
+  description?: string;
+  parameters?: Record<string, unknown>; // JSON Schema of the arguments
+}
+
+export type ChatFunction = (
+  messages: Message[],
+  options: ChatOptions
+) => Promise<ChatResponse>;
+
+export interface ToolLoopOptions extends Omit<ChatOptions, 'tools'> {
+  maxIterations?: number; // model turns that may request tools, default 5
+  onToolCall?: (call: ToolCall, result: string) => void;
+}
+
+export interface ToolLoopResult {
+  response: ChatResponse; // final answer without tool calls
+  messages: Message[]; // full conversation including tool turns
+  iterations: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 5;
+
+export class ToolRegistry {
+  private tools = new Map<
+    string,
+    { definition: ToolDefinition; handler: ToolHandler }
+  >();
+
+  /**
+   * Register a function under a unique tool name
+   */
+  register<TArgs = Record<string, unknown>>(
+    name: string,
+    spec: ToolSpec,
+    handler: ToolHandler<TArgs>
+  ): this {
+    if (!/^[a-zA-Z0-9_-]{1,64}$/.test(name)) {
+      throw new ValidationError(`Invalid tool name: ${name}`, 'name');
+    }
+    if (this.tools.has(name)) {
+      throw new ValidationError(`Tool already registered: ${name}`, 'name');
+    }
+
+    this.tools.set(name, {
+      definition: {
+        type: 'function',
+        function: {
+          name,
+          ...(spec.description && { description: spec.description }),
+          parameters: spec.parameters ?? { type: 'object', properties: {} },
+        },
+      },
+      handler: handler as ToolHandler,
+    });
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get definitions(): ToolDefinition[] {
+    return Array.from(this.tools.values(), tool => tool.definition);
+  }
+
+  /**
+   * Run a tool call. Failures (unknown tool, bad JSON, handler errors) are
+   * returned as a JSON error so the model can recover instead of the loop
+   * aborting.
+   */
+  async execute(call: ToolCall): Promise<string> {
+    const tool = this.tools.get(call.function.name);
+    if (!tool) {
+      return JSON.stringify({
+        error: `Unknown tool: ${call.function.name}`,
+      });
+    }
+
+    let args: Record<string, unknown>;
+    try {
+      args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      return JSON.stringify({
+        error: `Invalid JSON arguments for ${call.function.name}`,
+      });
+    }
+
+    try {
+      const result = await tool.handler(args, call);
+      return typeof result === 'string'
+        ? result
+        : JSON.stringify(result ?? null);
+    } catch (error) {
+      return JSON.stringify({ error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Chat until the model answers without requesting tools. Requested calls
+ * run in order and their results are appended as `tool` messages. After
+ * `maxIterations` tool turns the model is asked once more with tools
+ * disabled.
+ */
+export async function runToolLoop(
+  chat: ChatFunction,
+  input: Message[] | string,
+  registry: ToolRegistry,
+  options: ToolLoopOptions = {}
+): Promise<ToolLoopResult> {
+  const {
+    maxIterations = DEFAULT_MAX_ITERATIONS,
+    onToolCall,
+    ...chatOptions
+  } = options;
+  const messages: Message[] = Array.isArray(input)
+    ? [...input]
+    : [{ role: 'user', content: input }];
+  const tools = registry.definitions;
+
+  for (let iteration = 1; ; iteration++) {
+    const exhausted = iteration > maxIterations;
+    // A forced choice applies to the first turn only, or the model could
+    // never give its final answer
+    const toolChoice = exhausted
+      ? 'none'
+      : iteration === 1
+        ? chatOptions.toolChoice
+        : 'auto';
+    const response = await chat(messages, {
+      ...chatOptions,
+      tools,
+      toolChoice,
+    });
+
+    if (!response.tool_calls?.length || exhausted) {
+      messages.push({ role: 'assistant', content: response.content });
+      return { response, messages, iterations: iteration };
+    }
+
+    messages.push({
+      role: 'assistant',
+      content: response.content,
+      tool_calls: response.tool_calls,
+    });
+    for (const call of response.tool_calls) {
+      throwIfAborted(chatOptions.signal);
+      const result = await registry.execute(call);
+      onToolCall?.(call, result);
+      messages.push({
+        role: 'tool',
+        content: result,
+        name: call.function.name,
+        tool_call_id: call.id,
+      });
+    }
+  }
+}
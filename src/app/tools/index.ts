@@ -0,0 +1,24 @@
+/**
+ * Tool calling exports
+ */
+
+export { ToolRegistry, runToolLoop } from './ToolRegistry';
+export type {
+  ToolHandler,
+  ToolSpec,
+  ChatFunction,
+  ToolLoopOptions,
+  ToolLoopResult,
+} from './ToolRegistry';
+export {
+  parseToolCalls,
+  prepareToolMessages,
+  selectTools,
+  templateSupportsTools,
+} from './ToolCalls';
+export type {
+  ParsedToolOutput,
+  TemplateMessage,
+  ToolPromptOptions,
+} from './ToolCalls';
+export type { ToolDefinition, ToolChoice, ToolCall } from '../../core/types';
@@ -0,0 +1,235 @@
+/**
+ * Long-form transcription: overlapping audio windows and stitching their
+ * transcripts back together without repeating the overlapped words
+ */
+
+import { ValidationError } from '@domain/errors';
+import type { WhisperPipelineOutput } from './Segments';
+
+export interface AudioWindow {
+  index: number;
+  /** Window bounds in seconds */
+  start: number;
+  end: number;
+  /** Part of the window whose transcript is kept (the rest is overlap) */
+  keepStart: number;
+  keepEnd: number;
+}
+
+export interface WindowTranscript {
+  window: AudioWindow;
+  /** Pipeline chunks with timestamps relative to the window start */
+  chunks: NonNullable<WhisperPipelineOutput['chunks']>;
+  /** Mean log probability per chunk, when known */
+  logprobs?: Array<number | undefined>;
+}
+
+export interface StitchedTranscript {
+  /** Chunks with absolute timestamps, in order */
+  output: WhisperPipelineOutput;
+  logprobs: Array<number | undefined>;
+}
+
+/** Whisper sees at most 30 seconds of audio per window */
+export const MAX_CHUNK_LENGTH_S = 30;
+
+// Longest run of words compared when removing overlap duplicates
+const MAX_OVERLAP_WORDS = 12;
+// A repeated word counts as a duplicate only if both copies overlap in time
+const OVERLAP_TOLERANCE_S = 0.5;
+
+/**
+ * Split `duration` seconds into windows of `chunkLengthS` that overlap by
+ * `strideLengthS` on each side, like the Transformers.js ASR pipeline.
+ * Consecutive keep ranges meet exactly, so every instant is kept once.
+ */
+export function planWindows(
+  duration: number,
+  chunkLengthS: number,
+  strideLengthS: number
+): AudioWindow[] {
+  validateWindowing(chunkLengthS, strideLengthS);
+
+  const jump = chunkLengthS - 2 * strideLengthS;
+  const windows: AudioWindow[] = [];
+  for (let index = 0; ; index++) {
+    const start = index * jump;
+    const isLast = start + chunkLengthS >= duration;
+    windows.push({
+      index,
+      start,
+      end: Math.min(start + chunkLengthS, duration),
+      keepStart: index === 0 ? 0 : start + strideLengthS,
+      keepEnd: isLast ? duration : start + chunkLengthS - strideLengthS,
+    });
+    if (isLast) {
+      return windows;
+    }
+  }
+}
+
+/**
+ * Windows covering only the given speech regions (seconds), each region
+ * planned like a recording of its own; the audio between them is skipped
+ */
+export function planSpeechWindows(
+  regions: Array<{ start: number; end: number }>,
+  chunkLengthS: number,
+  strideLengthS: number
+): AudioWindow[] {
+  validateWindowing(chunkLengthS, strideLengthS);
+
+  const windows: AudioWindow[] = [];
+  for (const region of regions) {
+    const planned = planWindows(
+      region.end - region.start,
+      chunkLengthS,
+      strideLengthS
+    );
+    for (const window of planned) {
+      windows.push({
+        index: windows.length,
+        start: region.start + window.start,
+        end: region.start + window.end,
+        keepStart: region.start + window.keepStart,
+        keepEnd: region.start + window.keepEnd,
+      });
+    }
+  }
+  return windows;
+}
+
+function validateWindowing(chunkLengthS: number, strideLengthS: number) {
+  if (!(chunkLengthS > 0) || chunkLengthS > MAX_CHUNK_LENGTH_S) {
+    throw new ValidationError(
+      `chunkLengthS must be between 0 and ${MAX_CHUNK_LENGTH_S} seconds`,
+      'chunkLengthS'
+    );
+  }
+  if (!(strideLengthS >= 0) || 2 * strideLengthS >= chunkLengthS) {
+    throw new ValidationError(
+      'strideLengthS must be less than half of chunkLengthS',
+      'strideLengthS'
+    );
+  }
+}
+
+interface Piece {
+  text: string;
+  start: number;
+  end: number;
+  logprob?: number;
+}
+
+/**
+ * Merge window transcripts in window order. Each chunk is kept by the window
+ * whose keep range holds its midpoint; words repeated on both sides of a
+ * boundary (a chunk straddling it) are dropped from the later window.
+ */
+export function stitchWindows(
+  transcripts: WindowTranscript[]
+): StitchedTranscript {
+  const merged: Piece[] = [];
+  let previousEnd = -Infinity;
+
+  for (const { window, chunks, logprobs } of transcripts) {
+    const isLast = window.keepEnd >= window.end;
+    const pieces: Piece[] = [];
+    chunks.forEach((chunk, index) => {
+      const start = window.start + (chunk.timestamp[0] ?? 0);
+      const end = Math.max(
+        start,
+        window.start + (chunk.timestamp[1] ?? window.end - window.start)
+      );
+      const midpoint = (start + end) / 2;
+      if (
+        midpoint >= window.keepStart &&
+        (midpoint < window.keepEnd || (isLast && midpoint <= window.keepEnd))
+      ) {
+        pieces.push({
+          text: chunk.text,
+          start,
+          end,
+          logprob: logprobs?.[index],
+        });
+      }
+    });
+
+    // Windows of separate speech regions share no audio
+    if (window.start < previousEnd) {
+      removeOverlap(merged, pieces);
+    }
+    merged.push(...pieces);
+    previousEnd = window.end;
+  }
+
+  return {
+    output: {
+      text: merged.map(piece => piece.text).join(''),
+      chunks: merged.map(piece => ({
+        text: piece.text,
+        timestamp: [piece.start, piece.end],
+      })),
+    },
+    logprobs: merged.map(piece => piece.logprob),
+  };
+}
+
+/**
+ * Drop the leading words of `next` that repeat the trailing words of
+ * `previous`, picking the longest such overlap
+ */
+function removeOverlap(previous: Piece[], next: Piece[]): void {
+  const last = previous[previous.length - 1];
+  const first = next[0];
+  if (!last || !first || first.start >= last.end + OVERLAP_TOLERANCE_S) {
+    return;
+  }
+
+  const tail = lastWords(previous, MAX_OVERLAP_WORDS);
+  const head = firstWords(next, MAX_OVERLAP_WORDS);
+  let overlap = 0;
+  for (let k = Math.min(tail.length, head.length); k > 0; k--) {
+    const suffix = tail.slice(tail.length - k);
+    if (suffix.every((word, i) => word && word === head[i])) {
+      overlap = k;
+      break;
+    }
+  }
+
+  while (overlap > 0 && next.length > 0) {
+    const words = next[0].text.trim().split(/\s+/).filter(Boolean);
+    if (words.length <= overlap) {
+      overlap -= words.length;
+      next.shift();
+    } else {
+      next[0] = { ...next[0], text: ` ${words.slice(overlap).join(' ')}` };
+      overlap = 0;
+    }
+  }
+}
+
+function lastWords(pieces: Piece[], limit: number): string[] {
+  const words: string[] = [];
+  for (let i = pieces.length - 1; i >= 0 && words.length < limit; i--) {
+    words.unshift(...splitWords(pieces[i].text));
+  }
+  return words.slice(-limit);
+}
+
+function firstWords(pieces: Piece[], limit: number): string[] {
+  const words: string[] = [];
+  for (let i = 0; i < pieces.length && words.length < limit; i++) {
+    words.push(...splitWords(pieces[i].text));
+  }
+  return words.slice(0, limit);
+}
+
+// Compare words case- and punctuation-insensitively
+function splitWords(text: string): string[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ''));
+}
@@ -0,0 +1,149 @@
+/**
+ * Turn Whisper pipeline output into timed transcription segments
+ */
+
+import type {
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord,
+} from '../../core/types';
+
+/**
+ * Output of the automatic-speech-recognition pipeline with
+ * `return_timestamps` set (`true` gives segments, `'word'` gives words)
+ */
+export interface WhisperPipelineOutput {
+  text: string;
+  chunks?: Array<{
+    text: string;
+    timestamp: [number | null, number | null] | number[];
+  }>;
+}
+
+export interface BuildTranscriptionOptions {
+  /** Audio length in seconds, used for open-ended timestamps */
+  duration: number;
+  language?: string;
+  /** Chunks are words rather than segments */
+  words?: boolean;
+  /** Mean log probability per segment, in chunk order */
+  segmentLogprobs?: Array<number | undefined>;
+  /** Used for every segment when per-segment values don't line up */
+  meanLogprob?: number;
+  /** Word mode: start a new segment after a pause this long (seconds) */
+  maxPause?: number;
+}
+
+const SENTENCE_END = /[.!?…。！？]["')\]»”’]*$/;
+
+export function buildTranscriptionResult(
+  output: WhisperPipelineOutput,
+  options: BuildTranscriptionOptions
+): TranscriptionResult {
+  const { duration } = options;
+  const chunks = output.chunks ?? [];
+
+  let segments: TranscriptionSegment[];
+  if (options.words) {
+    segments = groupWords(chunks, duration, options.maxPause ?? 1);
+    segments.forEach(segment => {
+      segment.confidence = toConfidence(options.meanLogprob);
+    });
+  } else {
+    const perSegment =
+      options.segmentLogprobs?.length === chunks.length
+        ? options.segmentLogprobs
+        : undefined;
+    let previousEnd = 0;
+    segments = chunks.map((chunk, index) => {
+      const start = chunk.timestamp[0] ?? previousEnd;
+      const end = Math.max(start, chunk.timestamp[1] ?? duration);
+      previousEnd = end;
+      return {
+        id: index,
+        start,
+        end,
+        text: chunk.text.trim(),
+        confidence: toConfidence(perSegment?.[index] ?? options.meanLogprob),
+      };
+    });
+  }
+
+  segments = segments.filter(segment => segment.text.length > 0);
+  if (segments.length === 0 && output.text.trim()) {
+    segments = [
+      {
+        id: 0,
+        start: 0,
+        end: duration,
+        text: output.text.trim(),
+        confidence: toConfidence(options.meanLogprob),
+      },
+    ];
+  }
+  segments.forEach((segment, index) => {
+    segment.id = index;
+    if (segment.confidence === undefined) {
+      delete segment.confidence;
+    }
+  });
+
+  return {
+    text: output.text.trim(),
+    language: options.language,
+    duration,
+    segments,
+  };
+}
+
+/**
+ * Group word chunks into segments at sentence ends and longer pauses
+ */
+function groupWords(
+  chunks: NonNullable<WhisperPipelineOutput['chunks']>,
+  duration: number,
+  maxPause: number
+): TranscriptionSegment[] {
+  const segments: TranscriptionSegment[] = [];
+  let words: TranscriptionWord[] = [];
+  let rawText = '';
+
+  const flush = () => {
+    if (words.length > 0) {
+      segments.push({
+        id: segments.length,
+        start: words[0].start,
+        end: words[words.length - 1].end,
+        text: rawText.trim(),
+        words,
+      });
+    }
+    words = [];
+    rawText = '';
+  };
+
+  let previousEnd = 0;
+  for (const chunk of chunks) {
+    const text = chunk.text.trim();
+    if (!text) continue;
+    const start = chunk.timestamp[0] ?? previousEnd;
+    const end = Math.max(start, chunk.timestamp[1] ?? duration);
+
+    if (words.length > 0 && start - previousEnd > maxPause) {
+      flush();
+    }
+    words.push({ text, start, end });
+    rawText += chunk.text;
+    previousEnd = end;
+
+    if (SENTENCE_END.test(text)) {
+      flush();
+    }
+  }
+  flush();
+  return segments;
+}
+
+function toConfidence(logprob: number | undefined): number | undefined {
+  return logprob === undefined ? undefined : Math.exp(logprob);
+}
@@ -0,0 +1,100 @@
+/**
+ * SRT and WebVTT export of transcription segments
+ */
+
+import type {
+  TranscriptionResult,
+  TranscriptionSegment,
+} from '../../core/types';
+
+export interface SubtitleOptions {
+  /** Wrap cue text at word boundaries to lines of at most this length */
+  maxLineLength?: number;
+}
+
+/**
+ * Format seconds as `HH:MM:SS,mmm` (SRT) or `HH:MM:SS.mmm` (WebVTT)
+ */
+export function formatTimestamp(seconds: number, separator = ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Render segments as a SubRip (.srt) document
+ */
+export function toSRT(
+  input: TranscriptionResult | TranscriptionSegment[],
+  options: SubtitleOptions = {}
+): string {
+  return cues(input)
+    .map(
+      (segment, index) =>
+        `${index + 1}\n` +
+        `${formatTimestamp(segment.start)} --> ${formatTimestamp(segment.end)}\n` +
+        `${wrap(segment.text, options.maxLineLength)}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * Render segments as a WebVTT (.vtt) document
+ */
+export function toWebVTT(
+  input: TranscriptionResult | TranscriptionSegment[],
+  options: SubtitleOptions = {}
+): string {
+  const body = cues(input)
+    .map(
+      segment =>
+        `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n` +
+        `${wrap(escapeCueText(segment.text), options.maxLineLength)}\n`
+    )
+    .join('\n');
+  return body ? `WEBVTT\n\n${body}` : 'WEBVTT\n';
+}
+
+function cues(
+  input: TranscriptionResult | TranscriptionSegment[]
+): TranscriptionSegment[] {
+  const segments = Array.isArray(input) ? input : input.segments;
+  // Blank lines would end a cue early in both formats
+  return segments
+    .map(segment => ({
+      ...segment,
+      text: segment.text.replace(/\s*\n\s*/g, ' ').trim(),
+    }))
+    .filter(segment => segment.text.length > 0);
+}
+
+function escapeCueText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function wrap(text: string, maxLineLength?: number): string {
+  if (!maxLineLength || text.length <= maxLineLength) {
+    return text;
+  }
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
@@ -0,0 +1,383 @@
+/**
+ * Live transcription: PCM frames in, utterances found by voice activity
+ * detection, partial and final transcripts out
+ */
+
+import type {
+  STTOptions,
+  TranscriptEvent,
+  TranscriptionSessionOptions,
+} from '../../core/types';
+import { ValidationError } from '@domain/errors';
+import { VoiceActivityDetector } from '../../utils/VoiceActivityDetector';
+import { StreamResampler } from '../../utils/dsp';
+import { getConfig } from '../state';
+
+/** Transcribes one utterance of 16 kHz mono audio */
+export type TranscribeFunction = (
+  audio: Float32Array,
+  options: STTOptions
+) => Promise<string>;
+
+export interface TranscriptionSessionEventMap {
+  partial: TranscriptEvent;
+  final: TranscriptEvent;
+  speechstart: { utteranceId: number; start: number };
+  speechend: { utteranceId: number; end: number };
+  error: Error;
+  close: undefined;
+}
+
+type SessionEvent = keyof TranscriptionSessionEventMap;
+type SessionListener<E extends SessionEvent> = (
+  data: TranscriptionSessionEventMap[E]
+) => void;
+
+interface Reader {
+  events: TranscriptEvent[];
+  error?: Error;
+  wake?: () => void;
+}
+
+// Whisper's input rate; pushed audio is resampled to it
+const SAMPLE_RATE = 16000;
+
+/**
+ * Push frames as they arrive, then `end()` to flush the last utterance.
+ * Transcripts arrive through `on('partial' | 'final')` or by iterating
+ * the session with `for await`.
+ *
+ * @example
+ * ```typescript
+ * const session = provider.createTranscriptionSession({ sampleRate: 48000 });
+ * worklet.port.onmessage = e => session.push(e.data);
+ * for await (const event of session) {
+ *   if (event.type === 'final') console.log(event.text);
+ * }
+ * ```
+ */
+export class TranscriptionSession implements AsyncIterable<TranscriptEvent> {
+  private readonly sttOptions: STTOptions;
+  private readonly vad: VoiceActivityDetector;
+  private readonly resampler?: StreamResampler;
+  private readonly partialInterval: number;
+  private readonly maxUtterance: number;
+  private readonly lookback: number;
+
+  // Audio from `bufferStart` to `position` (16 kHz samples)
+  private chunks: Float32Array[] = [];
+  private bufferStart = 0;
+  private position = 0;
+
+  private utterance?: { id: number; start: number; lastPartialAt: number };
+  private nextUtteranceId = 0;
+  private jobs: Promise<void> = Promise.resolve();
+  private pendingJobs = 0;
+  private closed = false;
+  private finished = false;
+  private readonly readers = new Set<Reader>();
+  private readonly listeners = new Map<
+    SessionEvent,
+    Set<SessionListener<SessionEvent>>
+  >();
+
+  constructor(
+    private readonly transcribe: TranscribeFunction,
+    options: TranscriptionSessionOptions = {}
+  ) {
+    const {
+      sampleRate = SAMPLE_RATE,
+      vad,
+      partialIntervalMs = 1000,
+      maxUtteranceS = 30,
+      ...sttOptions
+    } = options;
+    if (!(sampleRate > 0)) {
+      throw new ValidationError('sampleRate must be positive', 'sampleRate');
+    }
+    if (!(maxUtteranceS > 0)) {
+      throw new ValidationError(
+        'maxUtteranceS must be positive',
+        'maxUtteranceS'
+      );
+    }
+
+    this.sttOptions = sttOptions;
+    this.vad = new VoiceActivityDetector({ ...vad, sampleRate: SAMPLE_RATE });
+    if (sampleRate !== SAMPLE_RATE) {
+      this.resampler = new StreamResampler(sampleRate, SAMPLE_RATE);
+    }
+    this.partialInterval = Math.round((partialIntervalMs / 1000) * SAMPLE_RATE);
+    this.maxUtterance = Math.round(maxUtteranceS * SAMPLE_RATE);
+
+    // A start boundary reaches back over the detection run and padding
+    const { paddingMs, minSpeechMs, frameMs } = this.vad.options;
+    this.lookback = Math.ceil(
+      ((paddingMs + minSpeechMs + 2 * frameMs) / 1000) * SAMPLE_RATE
+    );
+
+    sttOptions.signal?.addEventListener('abort', () => this.abort(), {
+      once: true,
+    });
+  }
+
+  /**
+   * Feed PCM frames: Float32 samples in [-1, 1] or Int16 samples, mono,
+   * at the session's `sampleRate`
+   */
+  push(frame: Float32Array | Int16Array): void {
+    if (this.closed) {
+      throw new ValidationError('Transcription session is closed', 'session');
+    }
+
+    let samples =
+      frame instanceof Int16Array ? Float32Array.from(frame, toFloat) : frame;
+    if (this.resampler) {
+      samples = this.resampler.process(samples);
+    }
+    this.append(samples);
+  }
+
+  /**
+   * Stop accepting audio, transcribe what is left and wait for every
+   * pending transcript
+   */
+  async end(): Promise<void> {
+    if (!this.closed) {
+      this.closed = true;
+      // The resampler holds back the last few samples
+      if (this.resampler) {
+        this.append(this.resampler.flush());
+      }
+      for (const boundary of this.vad.flush()) {
+        if (boundary.type === 'end') {
+          this.finishUtterance(boundary.sample);
+        }
+      }
+    }
+    await this.jobs;
+    this.finish();
+  }
+
+  /**
+   * Stop immediately, dropping utterances not yet transcribed. Also runs
+   * when the `signal` option fires.
+   */
+  abort(): void {
+    this.closed = true;
+    this.utterance = undefined;
+    this.chunks = [];
+    this.finish();
+  }
+
+  on<E extends SessionEvent>(event: E, listener: SessionListener<E>): void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener as SessionListener<SessionEvent>);
+  }
+
+  off<E extends SessionEvent>(event: E, listener: SessionListener<E>): void {
+    this.listeners
+      .get(event)
+      ?.delete(listener as SessionListener<SessionEvent>);
+  }
+
+  /**
+   * Partial and final transcripts in order; ends once the session has ended
+   * and every transcript was delivered. A failed transcription is thrown.
+   */
+  [Symbol.asyncIterator](): AsyncIterator<TranscriptEvent> {
+    const reader: Reader = { events: [] };
+    this.readers.add(reader);
+    return {
+      next: async () => {
+        for (;;) {
+          const event = reader.events.shift();
+          if (event) {
+            return { value: event, done: false };
+          }
+          if (reader.error) {
+            const error = reader.error;
+            reader.error = undefined;
+            throw error;
+          }
+          if (this.finished) {
+            this.readers.delete(reader);
+            return { value: undefined, done: true };
+          }
+          await new Promise<void>(resolve => (reader.wake = resolve));
+        }
+      },
+      return: async () => {
+        this.readers.delete(reader);
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  /**
+   * Buffer 16 kHz samples, track speech in them and transcribe as needed
+   */
+  private append(samples: Float32Array): void {
+    if (samples.length === 0) {
+      return;
+    }
+    this.chunks.push(samples);
+    this.position += samples.length;
+
+    for (const boundary of this.vad.push(samples)) {
+      if (boundary.type === 'start') {
+        this.startUtterance(boundary.sample);
+      } else {
+        this.finishUtterance(boundary.sample);
+      }
+    }
+
+    if (
+      this.utterance &&
+      this.position - this.utterance.start >= this.maxUtterance
+    ) {
+      // Keep utterances within one Whisper window; speech goes on in a new one
+      this.finishUtterance(this.position);
+      this.startUtterance(this.position);
+    }
+
+    this.maybeTranscribePartial();
+    this.trimBuffer();
+  }
+
+  private startUtterance(start: number): void {
+    const id = this.nextUtteranceId++;
+    this.utterance = { id, start, lastPartialAt: start };
+    this.emit('speechstart', { utteranceId: id, start: start / SAMPLE_RATE });
+  }
+
+  private finishUtterance(end: number): void {
+    const utterance = this.utterance;
+    if (!utterance) return;
+    this.utterance = undefined;
+    this.emit('speechend', {
+      utteranceId: utterance.id,
+      end: end / SAMPLE_RATE,
+    });
+    this.enqueue('final', utterance.id, utterance.start, end);
+  }
+
+  private maybeTranscribePartial(): void {
+    const utterance = this.utterance;
+    if (
+      !utterance ||
+      this.partialInterval <= 0 ||
+      this.pendingJobs > 0 ||
+      this.position - utterance.lastPartialAt < this.partialInterval
+    ) {
+      return;
+    }
+    utterance.lastPartialAt = this.position;
+    this.enqueue('partial', utterance.id, utterance.start, this.position);
+  }
+
+  /**
+   * Transcribe [start, end) after the jobs already queued, so transcripts
+   * come out in audio order
+   */
+  private enqueue(
+    type: TranscriptEvent['type'],
+    utteranceId: number,
+    start: number,
+    end: number
+  ): void {
+    const audio = this.slice(start, end);
+    this.pendingJobs++;
+    this.jobs = this.jobs.then(async () => {
+      try {
+        if (this.finished) return;
+        const text = (await this.transcribe(audio, this.sttOptions)).trim();
+        if (!text || this.finished) return;
+        const event: TranscriptEvent = {
+          type,
+          utteranceId,
+          text,
+          start: start / SAMPLE_RATE,
+          end: end / SAMPLE_RATE,
+        };
+        this.emit(type, event);
+        this.readers.forEach(reader => {
+          reader.events.push(event);
+          reader.wake?.();
+        });
+      } catch (error) {
+        if (this.finished) return;
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.emit('error', err);
+        this.readers.forEach(reader => {
+          reader.error = err;
+          reader.wake?.();
+        });
+      } finally {
+        this.pendingJobs--;
+      }
+    });
+  }
+
+  private finish(): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.readers.forEach(reader => reader.wake?.());
+    this.emit('close', undefined);
+  }
+
+  private slice(start: number, end: number): Float32Array {
+    const from = Math.max(start, this.bufferStart);
+    const out = new Float32Array(Math.max(0, end - from));
+    let chunkStart = this.bufferStart;
+    for (const chunk of this.chunks) {
+      const chunkEnd = chunkStart + chunk.length;
+      if (chunkEnd > from && chunkStart < end) {
+        const a = Math.max(from, chunkStart) - chunkStart;
+        const b = Math.min(end, chunkEnd) - chunkStart;
+        out.set(chunk.subarray(a, b), chunkStart + a - from);
+      }
+      chunkStart = chunkEnd;
+    }
+    return out;
+  }
+
+  /**
+   * Drop audio that can no longer become part of an utterance
+   */
+  private trimBuffer(): void {
+    const keepFrom = this.utterance
+      ? this.utterance.start
+      : this.position - this.lookback;
+    while (
+      this.chunks.length > 0 &&
+      this.bufferStart + this.chunks[0].length <= keepFrom
+    ) {
+      this.bufferStart += this.chunks.shift()!.length;
+    }
+  }
+
+  private emit<E extends SessionEvent>(
+    event: E,
+    data: TranscriptionSessionEventMap[E]
+  ): void {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        getConfig().logger.error(
+          `Error in transcription session listener for ${event}:`,
+          error
+        );
+      }
+    });
+  }
+}
+
+function toFloat(sample: number): number {
+  return sample / 0x8000;
+}
@@ -0,0 +1,145 @@
+/**
+ * Records what Whisper decodes in each generate() call, with the probability
+ * of every sampled token, so confidence can be reported per segment
+ */
+
+import type {
+  LogitsBatch,
+  LogitsInputIds,
+} from '../generation/GrammarLogitsProcessor';
+
+export interface DecodedToken {
+  id: number;
+  logprob: number;
+}
+
+/**
+ * One generate() call: the forced prompt tokens and the sampled tokens
+ */
+export interface DecodeRun {
+  prompt: number[];
+  tokens: DecodedToken[];
+}
+
+export class TranscriptionTracker {
+  readonly runs: DecodeRun[] = [];
+  private current?: DecodeRun;
+  private lastLength = 0;
+  private pendingLogits?: ArrayLike<number>;
+
+  /**
+   * Pass in `logits_processor`. Whisper's generate() runs its timestamp and
+   * suppression processors after it, and they mask these same scores in
+   * place; so only a reference is kept here, and the probability is taken
+   * from the final scores once the sampled token is known.
+   */
+  readonly logitsProcessor = (
+    inputIds: LogitsInputIds,
+    logits: LogitsBatch
+  ): LogitsBatch => {
+    const ids = inputIds[0];
+    if (ids) {
+      if (!this.current || ids.length < this.lastLength) {
+        // A shorter sequence means generate() started over (next chunk)
+        this.current = { prompt: Array.from(ids, Number), tokens: [] };
+        this.runs.push(this.current);
+      }
+      this.lastLength = ids.length;
+      this.pendingLogits = logits[0].data;
+    }
+    return logits;
+  };
+
+  /**
+   * Pass in `stopping_criteria`; it runs once the next token was sampled
+   * from the masked scores
+   */
+  readonly stoppingCriteria = (inputIds: LogitsInputIds): boolean[] => {
+    const ids = inputIds[0];
+    if (ids && this.current && this.pendingLogits) {
+      const id = Number(ids[ids.length - 1]);
+      const data = this.pendingLogits;
+      this.current.tokens.push({ id, logprob: data[id] - logSumExp(data) });
+      this.lastLength = ids.length;
+      this.pendingLogits = undefined;
+    }
+    return new Array<boolean>(inputIds.length).fill(false);
+  };
+
+  /**
+   * Language token the decoder was prompted with, e.g. `<|de|>`
+   */
+  languageTokenId(): number | undefined {
+    // Multilingual prompts are <|startoftranscript|> <|lang|> <|task|> ...
+    return this.runs[0]?.prompt[1];
+  }
+}
+
+/**
+ * Split the sampled text tokens of each run into the segments Whisper closed
+ * with a timestamp token, returning the mean log probability per segment
+ *
+ * @param textTokenLimit ids below this are text tokens (the EOS token id)
+ * @param timestampBegin id of `<|0.00|>`; larger ids are timestamps too
+ */
+export function segmentLogprobs(
+  runs: DecodeRun[],
+  textTokenLimit: number,
+  timestampBegin: number
+): number[] {
+  const segments: number[] = [];
+  for (const run of runs) {
+    let sum = 0;
+    let count = 0;
+    for (const token of run.tokens) {
+      if (token.id < textTokenLimit) {
+        sum += token.logprob;
+        count++;
+      } else if (token.id >= timestampBegin && count > 0) {
+        segments.push(sum / count);
+        sum = 0;
+        count = 0;
+      }
+    }
+    if (count > 0) {
+      // Generation ended without a closing timestamp
+      segments.push(sum / count);
+    }
+  }
+  return segments;
+}
+
+/**
+ * Mean log probability of every text token across runs
+ */
+export function meanLogprob(
+  runs: DecodeRun[],
+  textTokenLimit: number
+): number | undefined {
+  let sum = 0;
+  let count = 0;
+  for (const run of runs) {
+    for (const token of run.tokens) {
+      if (token.id < textTokenLimit) {
+        sum += token.logprob;
+        count++;
+      }
+    }
+  }
+  return count > 0 ? sum / count : undefined;
+}
+
+function logSumExp(values: ArrayLike<number>): number {
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+  if (max === -Infinity) {
+    return max;
+  }
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += Math.exp(values[i] - max);
+  }
+  return max + Math.log(sum);
+}
@@ -0,0 +1,42 @@
+/**
+ * Timed transcription exports
+ */
+
+export {
+  TranscriptionTracker,
+  segmentLogprobs,
+  meanLogprob,
+} from './TranscriptionTracker';
+export type { DecodedToken, DecodeRun } from './TranscriptionTracker';
+export { buildTranscriptionResult } from './Segments';
+export type {
+  WhisperPipelineOutput,
+  BuildTranscriptionOptions,
+} from './Segments';
+export {
+  planWindows,
+  planSpeechWindows,
+  stitchWindows,
+  MAX_CHUNK_LENGTH_S,
+} from './LongForm';
+export type {
+  AudioWindow,
+  WindowTranscript,
+  StitchedTranscript,
+} from './LongForm';
+export { TranscriptionSession } from './TranscriptionSession';
+export type {
+  TranscribeFunction,
+  TranscriptionSessionEventMap,
+} from './TranscriptionSession';
+export { toSRT, toWebVTT, formatTimestamp } from './Subtitles';
+export type { SubtitleOptions } from './Subtitles';
+export type {
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord,
+  TranscriptionProgressEventData,
+  TranscriptionSessionOptions,
+  TranscriptEvent,
+  VADOptions,
+} from '../../core/types';
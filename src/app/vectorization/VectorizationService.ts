@@ -7,11 +7,12 @@ import type {
   VectorizationServiceConfig,
   VectorDocMeta,
   QueryOptions,
+  HybridSearchOptions,
   ResourceUsageSnapshot,
   VectorizeOptions,
   QueryVectorizeOptions,
-  ProgressEventData,
   VectorizationProgressEventData,
+  VectorizationStage,
   ChunkingOptions,
 } from '../../core/types';
 import { LocalVectorStoreIndexedDB } from '../../infra/vectorstore/LocalVectorStoreIndexedDB';
@@ -19,11 +20,24 @@ import { LocalResourceUsageEstimator } from '../../infra/resource/LocalResourceU
 import { AudioEmbeddingAdapter } from './adapters/AudioEmbeddingAdapter';
 import { ImageEmbeddingAdapter } from './adapters/ImageEmbeddingAdapter';
 import { VideoAsAudioAdapter } from './adapters/VideoAsAudioAdapter';
+import {
+  TextEmbeddingAdapter,
+  type TextEmbeddingPipeline,
+} from './adapters/TextEmbeddingAdapter';
 import { ExternalEmbeddingBackendMock } from '../backend/external/ExternalEmbeddingBackendMock';
-import type { VectorStore } from '../../infra/vectorstore/VectorStore';
+import type {
+  VectorStore,
+  VectorQueryResult,
+} from '../../infra/vectorstore/VectorStore';
+import { BM25Index } from '../../infra/vectorstore/BM25Index';
+import { matchesFilter } from '../../infra/vectorstore/MetadataFilter';
 import type { ResourceUsageEstimator } from '../../infra/resource/ResourceUsageEstimator';
 import type { EmbeddingAdapter } from './adapters/EmbeddingAdapter';
 import { ProgressTracker } from '../../utils/ProgressTracker';
+import { mapWithConcurrency, toBatches } from '../../utils/concurrency';
+import { throwIfAborted } from '../../utils/abort';
+import { AbortError } from '@domain/errors';
+import { TextSplitter, type TextChunk } from './chunking/TextSplitter';
 
 export interface VectorizationResult {
   indexed: string[];
@@ -34,8 +48,24 @@ export interface QueryResult {
   ids: string[];
   scores: number[];
   metadata?: VectorDocMeta[];
+  // Component scores for hybrid/lexical queries (null = not a candidate)
+  vectorScores?: Array<number | null>;
+  lexicalScores?: Array<number | null>;
+}
+
+/**
+ * Optional collaborators, mainly for tests and custom deployments
+ */
+export interface VectorizationServiceDeps {
+  vectorStore?: VectorStore;
+  adapters?: EmbeddingAdapter[];
+  textEmbeddingPipeline?: TextEmbeddingPipeline;
 }
 
+const DEFAULT_EMBEDDING_BATCH_SIZE = 16;
+// Each side of a hybrid query contributes k * factor candidates to fusion
+const HYBRID_CANDIDATE_FACTOR = 4;
+
 export class VectorizationService {
   private config: VectorizationServiceConfig;
   private initialized = false;
@@ -45,10 +75,16 @@ export class VectorizationService {
   private externalMock?: ExternalEmbeddingBackendMock;
   private eventListeners: Map<string, Set<(data: unknown) => void>> = new Map();
   private progressTracker: ProgressTracker;
+  private deps: VectorizationServiceDeps;
+  private lexicalIndex = new BM25Index();
 
-  constructor(config: VectorizationServiceConfig) {
+  constructor(
+    config: VectorizationServiceConfig,
+    deps: VectorizationServiceDeps = {}
+  ) {
     this.config = config;
-    this.vectorStore = new LocalVectorStoreIndexedDB();
+    this.deps = deps;
+    this.vectorStore = deps.vectorStore || new LocalVectorStoreIndexedDB();
     this.resourceEstimator = new LocalResourceUsageEstimator(
       config.quotaThresholds || { warn: 0.7, high: 0.85, critical: 0.95 }
     );
@@ -71,6 +107,7 @@ export class VectorizationService {
     try {
       // Initialize vector store
       await this.vectorStore.initialize();
+      await this.loadLexicalIndex();
 
       // Initialize resource estimator
       await this.resourceEstimator.initialize();
@@ -113,7 +150,7 @@ export class VectorizationService {
       // Check signal for cancellation
       if (options.signal?.aborted) {
         this.progressTracker.cancelJob(jobId);
-        throw new Error('Operation cancelled');
+        throw new AbortError();
       }
 
       // Stage 1: Initializing
@@ -164,13 +201,16 @@ export class VectorizationService {
       this.progressTracker.startStage(jobId, 'chunking');
       yield this.getProgressEvent(jobId, 'chunking', 0.1);
 
-      const chunks = await this.chunkContent(
-        extractedContent,
-        options.chunking,
-        modality
-      );
+      const chunks =
+        typeof extractedContent === 'string'
+          ? await this.chunkContent(
+              extractedContent,
+              options.chunking,
+              modality
+            )
+          : [];
       this.progressTracker.updateProgress(jobId, 0.5, {
-        chunksTotal: chunks.length,
+        chunksTotal: chunks.length || 1,
       });
 
       this.progressTracker.completeStage(jobId);
@@ -180,7 +220,15 @@ export class VectorizationService {
       this.progressTracker.startStage(jobId, 'embedding');
       yield this.getProgressEvent(jobId, 'embedding', 0.1);
 
-      const embeddings = await this.embedChunks(chunks, modality, jobId);
+      const embeddings =
+        typeof extractedContent === 'string'
+          ? await this.embedChunks(
+              chunks.map(chunk => chunk.text.replace(/\s+/g, ' ')),
+              modality,
+              jobId,
+              options
+            )
+          : [await this.embedFile(this.toBinaryInput(input), modality)];
       this.progressTracker.updateProgress(jobId, 0.5, {
         itemsProcessed: embeddings.length,
       });
@@ -197,7 +245,8 @@ export class VectorizationService {
         modality,
         input,
         extractedMetadata,
-        jobId
+        jobId,
+        chunks
       );
       this.progressTracker.updateProgress(jobId, 0.5, {
         itemsProcessed: result.indexed.length,
@@ -211,7 +260,10 @@ export class VectorizationService {
       this.progressTracker.startStage(jobId, 'finalizing');
       yield this.getProgressEvent(jobId, 'finalizing', 0.5);
 
-      this.progressTracker.completeJob(jobId, result);
+      this.progressTracker.completeJob(jobId, {
+        indexedIds: result.indexed,
+        failedItems: result.failed,
+      });
       yield this.getProgressEvent(jobId, 'finalizing', 1);
 
       return result;
@@ -241,9 +293,12 @@ export class VectorizationService {
       queued: 0,
       initializing: 10,
       extracting: 20,
+      sanitizing: 0,
+      chunking: 0,
       embedding: 50,
       upserting: 18,
       finalizing: 2,
+      cancelled: 0,
     });
 
     const unsubscribe = this.progressTracker.on('stage:progress', event => {
@@ -267,8 +322,10 @@ export class VectorizationService {
       this.progressTracker.startStage(jobId, 'embedding');
       yield this.getProgressEvent(jobId, 'embedding', 0.5);
 
-      let queryVector: Float32Array;
-      if (typeof input === 'string') {
+      let queryVector: Float32Array | null = null;
+      if (options.mode === 'lexical') {
+        // Keyword-only queries don't need an embedding
+      } else if (typeof input === 'string') {
         queryVector = await this.embedText(input, modality);
       } else {
         queryVector = await this.embedFile(input, modality);
@@ -282,10 +339,10 @@ export class VectorizationService {
       this.progressTracker.startStage(jobId, 'upserting'); // Using upserting as search stage
       yield this.getProgressEvent(jobId, 'upserting', 0.5);
 
-      const results = await this.vectorStore.query(queryVector, options);
+      const result = await this.search(input, queryVector, options);
 
       this.progressTracker.updateProgress(jobId, 1, {
-        itemsProcessed: results.length,
+        itemsProcessed: result.ids.length,
       });
       this.progressTracker.completeStage(jobId);
       yield this.getProgressEvent(jobId, 'upserting', 1);
@@ -294,12 +351,6 @@ export class VectorizationService {
       this.progressTracker.startStage(jobId, 'finalizing');
       yield this.getProgressEvent(jobId, 'finalizing', 1);
 
-      const result: QueryResult = {
-        ids: results.map(r => r.id),
-        scores: results.map(r => r.score),
-        metadata: results.map(r => r.metadata),
-      };
-
       this.progressTracker.completeJob(jobId);
       yield this.getProgressEvent(jobId, 'finalizing', 1);
 
@@ -415,17 +466,20 @@ export class VectorizationService {
   async query(
     input: string | File,
     modality?: VectorModality,
-    options: QueryOptions = {}
+    options: QueryOptions & HybridSearchOptions = {}
   ): Promise<QueryResult> {
     await this.ensureInitialized();
 
+    throwIfAborted(options.signal);
     const endMeasurement = this.resourceEstimator.startMeasurement('querying');
 
     try {
-      let queryVector: Float32Array;
+      let queryVector: Float32Array | null = null;
       let queryModality = modality;
 
-      if (typeof input === 'string') {
+      if (options.mode === 'lexical') {
+        // Keyword-only queries don't need an embedding
+      } else if (typeof input === 'string') {
         // Text query - use appropriate adapter
         if (!queryModality) {
           throw new Error('Modality must be specified for text queries');
@@ -461,24 +515,22 @@ export class VectorizationService {
         queryVector = embeddingResult.vector;
       }
 
-      // Query vector store
-      const results = await this.vectorStore.query(queryVector, options);
+      // Query vector store (and lexical index for hybrid/lexical modes)
+      throwIfAborted(options.signal);
+      const result = await this.search(input, queryVector, options);
 
       // Emit events
       this.emit('vector:queried', {
         k: options.k || 10,
         modality: queryModality,
+        mode: options.mode || 'vector',
       });
 
       // Get usage snapshot
       const usage = await this.resourceEstimator.getUsageSnapshot();
       this.resourceEstimator.emitResourceUsage(usage);
 
-      return {
-        ids: results.map(r => r.id),
-        scores: results.map(r => r.score),
-        metadata: results.map(r => r.metadata),
-      };
+      return result;
     } catch (error) {
       this.emit('vector:error', {
         stage: 'query',
@@ -500,6 +552,7 @@ export class VectorizationService {
 
     try {
       await this.vectorStore.delete(ids);
+      ids.forEach(id => this.lexicalIndex.remove(id));
       this.emit('vector:deleted', { count: ids.length });
 
       // Get usage snapshot
@@ -530,13 +583,14 @@ export class VectorizationService {
     if (!this.eventListeners.has(event)) {
       this.eventListeners.set(event, new Set());
     }
-    this.eventListeners.get(event)!.add(handler);
+    const listener = handler as (data: unknown) => void;
+    this.eventListeners.get(event)!.add(listener);
 
     // Return unsubscribe function
     return () => {
       const listeners = this.eventListeners.get(event);
       if (listeners) {
-        listeners.delete(handler);
+        listeners.delete(listener);
         if (listeners.size === 0) {
           this.eventListeners.delete(event);
         }
@@ -550,6 +604,7 @@ export class VectorizationService {
   async close(): Promise<void> {
     // Close vector store
     await this.vectorStore.close();
+    this.lexicalIndex.clear();
 
     // Close resource estimator
     await this.resourceEstimator.close();
@@ -566,6 +621,150 @@ export class VectorizationService {
     this.initialized = false;
   }
 
+  /**
+   * Run a vector, lexical or hybrid search and fuse the ranked lists
+   */
+  private async search(
+    input: string | File | ArrayBuffer,
+    queryVector: Float32Array | null,
+    options: QueryOptions & HybridSearchOptions
+  ): Promise<QueryResult> {
+    const mode = options.mode || 'vector';
+    const k = options.k ?? 10;
+
+    if (mode === 'vector') {
+      const results = await this.vectorStore.query(queryVector!, options);
+      return {
+        ids: results.map(r => r.id),
+        scores: results.map(r => r.score),
+        metadata: results.map(r => r.metadata),
+      };
+    }
+
+    if (typeof input !== 'string') {
+      throw new Error(`${mode} search requires a text query`);
+    }
+
+    const depth = k * HYBRID_CANDIDATE_FACTOR;
+    const vectorHits =
+      mode === 'hybrid'
+        ? await this.vectorStore.query(queryVector!, { ...options, k: depth })
+        : [];
+    const lexicalHits = await this.lexicalSearch(input, depth, options);
+
+    const fused = this.fuseResults(input, vectorHits, lexicalHits, options);
+    const top =
+      mode === 'lexical' ? lexicalHits.slice(0, k) : fused.slice(0, k);
+
+    return {
+      ids: top.map(r => r.id),
+      scores: top.map(r => r.score),
+      metadata: top.map(r => r.metadata),
+      vectorScores: top.map(r =>
+        mode === 'lexical'
+          ? null
+          : (vectorHits.find(v => v.id === r.id)?.score ?? null)
+      ),
+      lexicalScores: top.map(r => this.lexicalIndex.score(input, r.id)),
+    };
+  }
+
+  /**
+   * BM25 hits with metadata, filtered like the vector side
+   */
+  private async lexicalSearch(
+    text: string,
+    depth: number,
+    options: QueryOptions
+  ): Promise<VectorQueryResult[]> {
+    const hits = this.lexicalIndex.search(
+      text,
+      options.filter ? depth * HYBRID_CANDIDATE_FACTOR : depth
+    );
+    if (hits.length === 0) {
+      return [];
+    }
+    if (!this.vectorStore.getMetadata) {
+      throw new Error(
+        'Lexical search requires a vector store with getMetadata'
+      );
+    }
+
+    const metadata = new Map(
+      (await this.vectorStore.getMetadata(hits.map(h => h.id))).map(m => [
+        m.id,
+        m,
+      ])
+    );
+
+    return hits
+      .filter(hit => {
+        const meta = metadata.get(hit.id);
+        return meta && (!options.filter || matchesFilter(meta, options.filter));
+      })
+      .slice(0, depth)
+      .map(hit => ({ ...hit, metadata: metadata.get(hit.id)! }));
+  }
+
+  /**
+   * Reciprocal rank fusion, or a weighted sum of cosine and max-normalized
+   * BM25 scores
+   */
+  private fuseResults(
+    text: string,
+    vectorHits: VectorQueryResult[],
+    lexicalHits: VectorQueryResult[],
+    options: HybridSearchOptions
+  ): VectorQueryResult[] {
+    const vectorWeight = options.vectorWeight ?? 1;
+    const lexicalWeight = options.lexicalWeight ?? 1;
+    const candidates = new Map<string, VectorQueryResult>();
+    [...vectorHits, ...lexicalHits].forEach(hit =>
+      candidates.set(hit.id, { ...hit, score: 0 })
+    );
+
+    if ((options.fusion || 'rrf') === 'rrf') {
+      const rrfK = options.rrfK ?? 60;
+      vectorHits.forEach((hit, rank) => {
+        candidates.get(hit.id)!.score += vectorWeight / (rrfK + rank + 1);
+      });
+      lexicalHits.forEach((hit, rank) => {
+        candidates.get(hit.id)!.score += lexicalWeight / (rrfK + rank + 1);
+      });
+    } else {
+      const maxLexical = lexicalHits[0]?.score || 1;
+      const vectorScores = new Map(vectorHits.map(h => [h.id, h.score]));
+      const totalWeight = vectorWeight + lexicalWeight || 1;
+      for (const candidate of candidates.values()) {
+        const vectorScore = Math.max(0, vectorScores.get(candidate.id) ?? 0);
+        const lexicalScore =
+          this.lexicalIndex.score(text, candidate.id) / maxLexical;
+        candidate.score =
+          (vectorWeight * vectorScore +
+            lexicalWeight * Math.min(1, lexicalScore)) /
+          totalWeight;
+      }
+    }
+
+    return [...candidates.values()].sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Rebuild the in-memory lexical index from stored chunk texts
+   */
+  private async loadLexicalIndex(): Promise<void> {
+    this.lexicalIndex.clear();
+    if (!this.vectorStore.getMetadata) {
+      return;
+    }
+
+    for (const meta of await this.vectorStore.getMetadata()) {
+      if (typeof meta.text === 'string') {
+        this.lexicalIndex.add(meta.id, meta.text);
+      }
+    }
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized) {
       await this.initialize();
@@ -574,8 +773,12 @@ export class VectorizationService {
 
   private async initializeAdapters(): Promise<void> {
     // Initialize all adapters
-    const adapters = [
-      new AudioEmbeddingAdapter(),
+    const adapters = this.deps.adapters || [
+      new TextEmbeddingAdapter({
+        ...this.config.textEmbedding,
+        pipeline: this.deps.textEmbeddingPipeline,
+      }),
+      new AudioEmbeddingAdapter(this.config.audioEmbedding),
       new ImageEmbeddingAdapter(),
       new VideoAsAudioAdapter(),
     ];
@@ -601,6 +804,11 @@ export class VectorizationService {
       return 'image';
     } else if (file.type.startsWith('video/')) {
       return 'video';
+    } else if (
+      file.type.startsWith('text/') ||
+      file.type === 'application/json'
+    ) {
+      return 'text';
     } else {
       throw new Error(`Unsupported file type: ${file.type}`);
     }
@@ -613,36 +821,18 @@ export class VectorizationService {
   // Helper methods for progress tracking
   private getProgressEvent(
     jobId: string,
-    _stage: string,
-    _stageProgress: number
-  ): ProgressEventData {
-    const job = this.progressTracker.getJobStatus(jobId);
-    if (!job) {
+    stage: VectorizationStage,
+    stageProgress: number
+  ): VectorizationProgressEventData {
+    const event = this.progressTracker.getProgressSnapshot(
+      jobId,
+      stage,
+      stageProgress
+    );
+    if (!event) {
       throw new Error(`Job ${jobId} not found`);
     }
-
-    const inputMeta = this.progressTracker.getInputMeta(job.input);
-    const globalProgress = this.progressTracker.calculateGlobalProgress(job);
-
-    return {
-      modality: 'embedding',
-      model: inputMeta.mime,
-      file:
-        job.input instanceof File
-          ? job.input.name
-          : typeof job.input === 'string'
-            ? job.input
-            : 'buffer',
-      progress: globalProgress,
-      loaded: Math.floor(globalProgress * 100),
-      total: 100,
-      status:
-        job.status === 'completed'
-          ? 'ready'
-          : job.status === 'error'
-            ? 'error'
-            : 'loading',
-    };
+    return event;
   }
 
   private detectModalityFromInput(
@@ -668,84 +858,146 @@ export class VectorizationService {
   }
 
   private async extractFromFile(
-    _file: File,
-    _modality: VectorModality
+    file: File,
+    modality: VectorModality
   ): Promise<string | ArrayBuffer> {
-    // TODO: Implement file extraction based on modality
-    // For now, just return the file content as ArrayBuffer
-    return await _file.arrayBuffer();
+    // Text files are decoded so they go through sanitizing and chunking;
+    // other modalities are embedded from the raw bytes by their adapter
+    if (modality === 'text') {
+      return await file.text();
+    }
+    return await file.arrayBuffer();
   }
 
   private sanitizeText(text: string): string {
-    // Basic text sanitization - remove extra whitespace, normalize
-    return text.replace(/\s+/g, ' ').trim();
+    // Replace control characters one-for-one so chunk offsets still point
+    // into the extracted text; whitespace is collapsed per chunk before embedding
+    // eslint-disable-next-line no-control-regex
+    return text.replace(/[\u0000-\u0009\u000b-\u001f\u00a0]/g, ' ');
   }
 
   private async chunkContent(
-    content: string | ArrayBuffer,
-    chunkingOptions?: ChunkingOptions,
-    _modality?: VectorModality
-  ): Promise<string[]> {
-    // TODO: Implement chunking with LangChain TextSplitter
-    // For now, simple fixed-size chunks
-    if (typeof content === 'string') {
-      const chunkSize = chunkingOptions?.chunkSize || 1000;
-      const overlap = chunkingOptions?.chunkOverlap || 100;
-      const chunks: string[] = [];
-
-      for (let i = 0; i < content.length; i += chunkSize - overlap) {
-        chunks.push(content.slice(i, i + chunkSize));
+    content: string,
+    chunkingOptions: ChunkingOptions | undefined,
+    modality: VectorModality
+  ): Promise<TextChunk[]> {
+    const adapter = this.getAdapter(modality);
+
+    let lengthFunction: ((text: string) => Promise<number>) | undefined;
+    if (chunkingOptions?.lengthUnit === 'tokens') {
+      if (!adapter?.countTokens) {
+        throw new Error(
+          `Token-aware chunking not supported for modality: ${modality}`
+        );
       }
-
-      return chunks;
-    } else {
-      // For binary content, return as single chunk
-      return ['binary_data'];
+      lengthFunction = text => adapter.countTokens!(text);
     }
+
+    const splitter = new TextSplitter(chunkingOptions, {
+      lengthFunction,
+      embed: adapter ? texts => this.embedBatch(adapter, texts) : undefined,
+    });
+
+    return splitter.split(content);
   }
 
   private async embedChunks(
     chunks: string[],
-    _modality: VectorModality,
-    jobId: string
+    modality: VectorModality,
+    jobId: string,
+    options: VectorizeOptions = {}
   ): Promise<Float32Array[]> {
-    // TODO: Implement embedding with Transformers.js adapters
-    const embeddings: Float32Array[] = [];
+    const adapter = this.getAdapter(modality);
+    if (!adapter) {
+      throw new Error(`No adapter available for modality: ${modality}`);
+    }
 
-    for (let i = 0; i < chunks.length; i++) {
-      // Update progress for each chunk
-      this.progressTracker.updateProgress(jobId, (i + 1) / chunks.length, {
-        itemsProcessed: i + 1,
-        message: `Embedding chunk ${i + 1}/${chunks.length}`,
-      });
+    const batches = toBatches(
+      chunks,
+      options.batchSize || DEFAULT_EMBEDDING_BATCH_SIZE
+    );
+    let processed = 0;
 
-      // For now, return dummy embeddings
-      const dummyEmbedding = new Float32Array(384); // 384 dimensions for MiniLM
-      dummyEmbedding.fill((0.1 * (i + 1)) / chunks.length);
-      embeddings.push(dummyEmbedding);
-    }
+    const batchResults = await mapWithConcurrency(
+      batches,
+      options.concurrency || 1,
+      async batch => {
+        throwIfAborted(options.signal);
+
+        const vectors = await this.embedBatch(adapter, batch);
+
+        processed += batch.length;
+        this.progressTracker.updateProgress(jobId, processed / chunks.length, {
+          itemsProcessed: processed,
+          message: `Embedding chunk ${processed}/${chunks.length}`,
+        });
 
-    return embeddings;
+        return vectors;
+      }
+    );
+
+    return batchResults.flat();
   }
 
   private async embedText(
-    _text: string,
-    _modality: VectorModality
+    text: string,
+    modality: VectorModality
   ): Promise<Float32Array> {
-    // TODO: Implement text embedding
-    const embedding = new Float32Array(384);
-    embedding.fill(0.5);
-    return embedding;
+    const adapter = this.getAdapter(modality);
+    if (!adapter) {
+      throw new Error(`No adapter available for modality: ${modality}`);
+    }
+    return this.embedWith(adapter, text);
   }
 
   private async embedFile(
-    _file: File | ArrayBuffer,
-    _modality: VectorModality
+    file: File | ArrayBuffer,
+    modality: VectorModality
   ): Promise<Float32Array> {
-    // TODO: Implement file embedding
-    const embedding = new Float32Array(384);
-    embedding.fill(0.7);
-    return embedding;
+    const adapter = this.getAdapter(modality);
+    if (!adapter) {
+      throw new Error(`No adapter available for modality: ${modality}`);
+    }
+
+    if (file instanceof ArrayBuffer) {
+      if (modality === 'text') {
+        return this.embedWith(adapter, new TextDecoder().decode(file));
+      }
+      file = new File([file], 'input', { type: 'application/octet-stream' });
+    }
+
+    const result = await adapter.process(file);
+    return result.vector;
+  }
+
+  private async embedBatch(
+    adapter: EmbeddingAdapter,
+    texts: string[]
+  ): Promise<Float32Array[]> {
+    return adapter.processBatch
+      ? adapter.processBatch(texts)
+      : Promise.all(texts.map(text => this.embedWith(adapter, text)));
+  }
+
+  private async embedWith(
+    adapter: EmbeddingAdapter,
+    text: string
+  ): Promise<Float32Array> {
+    if (!adapter.processText) {
+      throw new Error(
+        `Text processing not supported for modality: ${adapter.getSupportedModalities()[0]}`
+      );
+    }
+    return adapter.processText(text);
+  }
+
+  private toBinaryInput(
+    input: File | string | ArrayBuffer
+  ): File | ArrayBuffer {
+    if (typeof input === 'string') {
+      throw new Error('Binary modality requires File or ArrayBuffer input');
+    }
+    return input;
   }
 
   private async upsertEmbeddings(
@@ -753,7 +1005,8 @@ export class VectorizationService {
     _modality: VectorModality,
     input: File | string | ArrayBuffer,
     _metadata: Record<string, unknown>,
-    jobId: string
+    jobId: string,
+    chunks: TextChunk[] = []
   ): Promise<VectorizationResult> {
     const result: VectorizationResult = { indexed: [], failed: [] };
 
@@ -773,6 +1026,14 @@ export class VectorizationService {
         ..._metadata,
       };
 
+      const chunk = chunks[i];
+      if (chunk) {
+        docMeta.chunkIndex = chunk.chunkIndex;
+        docMeta.startChar = chunk.startChar;
+        docMeta.endChar = chunk.endChar;
+        docMeta.text = chunk.text;
+      }
+
       try {
         await this.vectorStore.upsert([
           {
@@ -782,6 +1043,9 @@ export class VectorizationService {
           },
         ]);
 
+        if (typeof docMeta.text === 'string') {
+          this.lexicalIndex.add(docId, docMeta.text);
+        }
         result.indexed.push(docId);
       } catch {
         result.failed.push(`chunk_${i}`);
@@ -3,11 +3,22 @@
  */
 
 import type { EmbeddingAdapter, EmbeddingResult } from './EmbeddingAdapter';
-import type { VectorModality } from '../../../core/types';
+import type { VADOptions, VectorModality } from '../../../core/types';
+import { audioConverter } from '../../../utils/AudioConverter';
+
+export interface AudioEmbeddingAdapterOptions {
+  /** Embed only the span from the first to the last detected speech */
+  trimSilence?: boolean | Omit<VADOptions, 'sampleRate'>;
+}
 
 export class AudioEmbeddingAdapter implements EmbeddingAdapter {
   private initialized = false;
   private pipeline: any = null;
+  private options: AudioEmbeddingAdapterOptions;
+
+  constructor(options: AudioEmbeddingAdapterOptions = {}) {
+    this.options = options;
+  }
 
   getSupportedModalities(): VectorModality[] {
     return ['audio'];
@@ -122,7 +133,10 @@ export class AudioEmbeddingAdapter implements EmbeddingAdapter {
           const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
 
           // Convert to mono and normalize
-          const channelData = audioBuffer.getChannelData(0);
+          const channelData = this.trimSilence(
+            audioBuffer.getChannelData(0),
+            audioBuffer.sampleRate
+          );
           const samples = channelData.length;
 
           // Simple normalization (could be more sophisticated)
@@ -150,6 +164,19 @@ export class AudioEmbeddingAdapter implements EmbeddingAdapter {
     });
   }
 
+  private trimSilence(channelData: Float32Array, sampleRate: number) {
+    const { trimSilence } = this.options;
+    if (!trimSilence) {
+      return channelData;
+    }
+    const trimmed = audioConverter.trimSilence(channelData, {
+      ...(typeof trimSilence === 'object' ? trimSilence : {}),
+      sampleRate,
+    });
+    // Keep recordings without detected speech whole rather than empty
+    return trimmed.length > 0 ? trimmed : channelData;
+  }
+
   private extractEmbedding(output: any): Float32Array {
     // Extract the embedding from the pipeline output
     // This depends on the specific CLAP model implementation
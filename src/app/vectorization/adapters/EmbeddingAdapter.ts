@@ -40,6 +40,16 @@ export interface EmbeddingAdapter {
    */
   processText?(text: string): Promise<Float32Array>;
 
+  /**
+   * Process several text inputs in one call (used for chunk batching)
+   */
+  processBatch?(texts: string[]): Promise<Float32Array[]>;
+
+  /**
+   * Count tokens with the model's tokenizer (used for token-aware chunking)
+   */
+  countTokens?(text: string): Promise<number>;
+
   /**
    * Cleanup resources
    */
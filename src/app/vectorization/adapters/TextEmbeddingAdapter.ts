@@ -0,0 +1,163 @@
+/**
+ * Text Embedding Adapter using sentence-transformer models (MiniLM, BGE, E5)
+ */
+
+import type { EmbeddingAdapter, EmbeddingResult } from './EmbeddingAdapter';
+import type { EmbeddingConfig, VectorModality } from '../../../core/types';
+import { EmbeddingModel } from '../../../models/EmbeddingModel';
+
+/**
+ * Function that turns a batch of texts into one vector per text.
+ * Injected in tests to get deterministic embeddings without loading a model.
+ */
+export type TextEmbeddingPipeline = (
+  texts: string[]
+) => Promise<ArrayLike<number>[]>;
+
+/**
+ * Function that returns the token count of a text, as seen by the model
+ */
+export type TokenCounter = (text: string) => number | Promise<number>;
+
+export interface TextEmbeddingAdapterOptions extends Partial<EmbeddingConfig> {
+  pipeline?: TextEmbeddingPipeline;
+  tokenCounter?: TokenCounter;
+}
+
+const DEFAULT_TEXT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+export class TextEmbeddingAdapter implements EmbeddingAdapter {
+  private initialized = false;
+  private options: TextEmbeddingAdapterOptions;
+  private model: EmbeddingModel | null = null;
+  private pipeline: TextEmbeddingPipeline | null = null;
+  private tokenCounter: TokenCounter | null = null;
+
+  constructor(options: TextEmbeddingAdapterOptions = {}) {
+    this.options = options;
+  }
+
+  getSupportedModalities(): VectorModality[] {
+    return ['text'];
+  }
+
+  canHandle(file: File): boolean {
+    const textTypes = [
+      'text/',
+      'application/json',
+      'application/xml',
+      'application/x-ndjson',
+    ];
+    return textTypes.some(type => file.type.startsWith(type));
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    if (this.options.pipeline) {
+      this.pipeline = this.options.pipeline;
+      this.tokenCounter = this.options.tokenCounter || null;
+      this.initialized = true;
+      return;
+    }
+
+    try {
+      const { model, dtype, device, performanceMode, pooling, normalize } =
+        this.options;
+      this.model = new EmbeddingModel({
+        model: model || DEFAULT_TEXT_EMBEDDING_MODEL,
+        dtype,
+        device,
+        performanceMode,
+        pooling,
+        normalize,
+      });
+      await this.model.load();
+
+      const embeddingModel = this.model;
+      this.pipeline = texts => embeddingModel.embed(texts);
+      this.tokenCounter =
+        this.options.tokenCounter || (text => embeddingModel.countTokens(text));
+      this.initialized = true;
+    } catch (error) {
+      throw new Error(`Failed to initialize text embedding adapter: ${error}`);
+    }
+  }
+
+  async process(file: File): Promise<EmbeddingResult> {
+    await this.ensureInitialized();
+
+    const startTime = performance.now();
+
+    try {
+      const text = await file.text();
+      const [vector] = await this.processBatch([text]);
+
+      return {
+        vector,
+        metadata: {
+          modality: 'text',
+          originalSize: file.size,
+          processedSize: text.length,
+          processingTimeMs: performance.now() - startTime,
+        },
+      };
+    } catch (error) {
+      throw new Error(`Text processing failed: ${error}`);
+    }
+  }
+
+  async processText(text: string): Promise<Float32Array> {
+    const [vector] = await this.processBatch([text]);
+    return vector;
+  }
+
+  /**
+   * Embed several texts in a single pipeline call
+   */
+  async processBatch(texts: string[]): Promise<Float32Array[]> {
+    await this.ensureInitialized();
+
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const output = await this.pipeline!(texts);
+    if (output.length !== texts.length) {
+      throw new Error(
+        `Text embedding pipeline returned ${output.length} vectors for ${texts.length} inputs`
+      );
+    }
+
+    return output.map(vector =>
+      vector instanceof Float32Array ? vector : Float32Array.from(vector)
+    );
+  }
+
+  async countTokens(text: string): Promise<number> {
+    await this.ensureInitialized();
+
+    if (!this.tokenCounter) {
+      throw new Error('Token counting not available for injected pipeline');
+    }
+    return this.tokenCounter(text);
+  }
+
+  async dispose(): Promise<void> {
+    if (this.model) {
+      await this.model.unload();
+      this.model = null;
+    }
+    this.pipeline = null;
+    this.tokenCounter = null;
+    this.initialized = false;
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+  }
+}
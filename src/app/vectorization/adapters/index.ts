@@ -6,3 +6,10 @@ export { EmbeddingAdapter } from './EmbeddingAdapter';
 export { AudioEmbeddingAdapter } from './AudioEmbeddingAdapter';
 export { ImageEmbeddingAdapter } from './ImageEmbeddingAdapter';
 export { VideoAsAudioAdapter } from './VideoAsAudioAdapter';
+export { TextEmbeddingAdapter } from './TextEmbeddingAdapter';
+export type {
+  TextEmbeddingPipeline,
+  TextEmbeddingAdapterOptions,
+  TokenCounter,
+} from './TextEmbeddingAdapter';
+export type { AudioEmbeddingAdapterOptions } from './AudioEmbeddingAdapter';
@@ -0,0 +1,346 @@
+/**
+ * Text Splitter - fixed, recursive and semantic chunking with source offsets
+ */
+
+import type { ChunkingOptions } from '../../../core/types';
+
+export interface TextChunk {
+  text: string;
+  chunkIndex: number;
+  startChar: number; // inclusive
+  endChar: number; // exclusive
+}
+
+/**
+ * Measures a piece of text in the unit used by `chunkSize` (characters or tokens)
+ */
+export type LengthFunction = (text: string) => number | Promise<number>;
+
+/**
+ * Embeds a batch of texts, one vector per text (used by the semantic strategy)
+ */
+export type SentenceEmbedder = (texts: string[]) => Promise<Float32Array[]>;
+
+export interface TextSplitterDeps {
+  lengthFunction?: LengthFunction;
+  embed?: SentenceEmbedder;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export const DEFAULT_SEPARATORS = ['\n\n', '\n', '. ', ' ', ''];
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 100;
+const DEFAULT_BREAKPOINT_PERCENTILE = 0.95;
+
+export class TextSplitter {
+  private options: ChunkingOptions;
+  private lengthFunction: LengthFunction;
+  private embed?: SentenceEmbedder;
+
+  constructor(
+    options: Partial<ChunkingOptions> = {},
+    deps: TextSplitterDeps = {}
+  ) {
+    const chunkSize = Math.max(1, options.chunkSize || DEFAULT_CHUNK_SIZE);
+    this.options = {
+      strategy: options.strategy || 'recursive',
+      chunkSize,
+      chunkOverlap: Math.min(
+        Math.max(0, options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP),
+        chunkSize - 1
+      ),
+      separators: options.separators || DEFAULT_SEPARATORS,
+      lengthUnit: options.lengthUnit,
+      breakpointPercentile:
+        options.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE,
+    };
+    this.lengthFunction = deps.lengthFunction || (text => text.length);
+    this.embed = deps.embed;
+  }
+
+  /**
+   * Split text into chunks according to the configured strategy
+   */
+  async split(text: string): Promise<TextChunk[]> {
+    let spans: Span[];
+
+    switch (this.options.strategy) {
+      case 'fixed':
+        spans = this.splitFixed(text);
+        break;
+      case 'semantic':
+        spans = await this.splitSemantic(text);
+        break;
+      case 'recursive':
+      default:
+        spans = await this.splitRecursive(text, {
+          start: 0,
+          end: text.length,
+        });
+        break;
+    }
+
+    return spans.map((span, chunkIndex) => ({
+      text: text.slice(span.start, span.end),
+      chunkIndex,
+      startChar: span.start,
+      endChar: span.end,
+    }));
+  }
+
+  /**
+   * Fixed character windows with overlap (ignores separators and lengthUnit)
+   */
+  private splitFixed(text: string): Span[] {
+    const { chunkSize, chunkOverlap } = this.options;
+    const spans: Span[] = [];
+
+    for (let i = 0; i < text.length; i += chunkSize - chunkOverlap) {
+      const span = { start: i, end: Math.min(i + chunkSize, text.length) };
+      if (text.slice(span.start, span.end).trim()) {
+        spans.push(span);
+      }
+      if (span.end === text.length) {
+        break;
+      }
+    }
+
+    return spans;
+  }
+
+  /**
+   * Split on the first separator present in the text, recurse into pieces
+   * that are still too long, then merge neighbours back up to chunkSize
+   */
+  private async splitRecursive(
+    text: string,
+    range: Span,
+    separators: string[] = this.options.separators || DEFAULT_SEPARATORS
+  ): Promise<Span[]> {
+    const segment = text.slice(range.start, range.end);
+    const separatorIndex = separators.findIndex(
+      separator => separator === '' || segment.includes(separator)
+    );
+    const separator = separators[separatorIndex] ?? '';
+    const remaining = separators.slice(separatorIndex + 1);
+
+    const pieces = this.splitKeepingSeparator(text, range, separator);
+    const result: Span[] = [];
+    let mergeable: Array<Span & { length: number }> = [];
+
+    for (const piece of pieces) {
+      const length = await this.measure(text, piece);
+      if (length <= this.options.chunkSize) {
+        mergeable.push({ ...piece, length });
+        continue;
+      }
+
+      if (mergeable.length > 0) {
+        result.push(...this.mergeSpans(text, mergeable));
+        mergeable = [];
+      }
+
+      if (remaining.length > 0) {
+        result.push(...(await this.splitRecursive(text, piece, remaining)));
+      } else {
+        const trimmed = this.trimSpan(text, piece);
+        if (trimmed) result.push(trimmed);
+      }
+    }
+
+    if (mergeable.length > 0) {
+      result.push(...this.mergeSpans(text, mergeable));
+    }
+
+    return result;
+  }
+
+  /**
+   * Split a range so that every piece keeps its trailing separator,
+   * which keeps pieces contiguous and offsets exact
+   */
+  private splitKeepingSeparator(
+    text: string,
+    range: Span,
+    separator: string
+  ): Span[] {
+    if (separator === '') {
+      return Array.from({ length: range.end - range.start }, (_, i) => ({
+        start: range.start + i,
+        end: range.start + i + 1,
+      }));
+    }
+
+    const pieces: Span[] = [];
+    let start = range.start;
+    let index = text.indexOf(separator, start);
+
+    while (index !== -1 && index + separator.length <= range.end) {
+      pieces.push({ start, end: index + separator.length });
+      start = index + separator.length;
+      index = text.indexOf(separator, start);
+    }
+    if (start < range.end) {
+      pieces.push({ start, end: range.end });
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Greedily merge contiguous pieces into chunks, carrying up to
+   * chunkOverlap worth of trailing pieces into the next chunk
+   */
+  private mergeSpans(
+    text: string,
+    pieces: Array<Span & { length: number }>
+  ): Span[] {
+    const { chunkSize, chunkOverlap } = this.options;
+    const spans: Span[] = [];
+    const window: Array<Span & { length: number }> = [];
+    let total = 0;
+
+    const flush = () => {
+      if (window.length === 0) return;
+      const trimmed = this.trimSpan(text, {
+        start: window[0].start,
+        end: window[window.length - 1].end,
+      });
+      const last = spans[spans.length - 1];
+      // Whitespace-only tails can trim down to the chunk already emitted
+      if (
+        trimmed &&
+        !(last?.start === trimmed.start && last?.end === trimmed.end)
+      ) {
+        spans.push(trimmed);
+      }
+    };
+
+    for (const piece of pieces) {
+      if (total + piece.length > chunkSize && window.length > 0) {
+        flush();
+        while (
+          window.length > 0 &&
+          (total > chunkOverlap || total + piece.length > chunkSize)
+        ) {
+          total -= window.shift()!.length;
+        }
+      }
+      window.push(piece);
+      total += piece.length;
+    }
+    flush();
+
+    return spans;
+  }
+
+  /**
+   * Group sentences and start a new chunk where the embedding distance
+   * between neighbouring sentences is unusually large
+   */
+  private async splitSemantic(text: string): Promise<Span[]> {
+    if (!this.embed) {
+      throw new Error('Semantic chunking requires an embedding function');
+    }
+
+    const sentences = this.splitSentences(text);
+    if (sentences.length <= 1) {
+      return this.splitRecursive(text, { start: 0, end: text.length });
+    }
+
+    const vectors = await this.embed(
+      sentences.map(s => text.slice(s.start, s.end))
+    );
+    const distances = sentences
+      .slice(1)
+      .map((_, i) => 1 - cosineSimilarity(vectors[i], vectors[i + 1]));
+    const threshold = percentile(
+      distances,
+      this.options.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE
+    );
+
+    const groups: Span[] = [];
+    let groupStart = sentences[0].start;
+    for (let i = 0; i < distances.length; i++) {
+      if (distances[i] > threshold) {
+        groups.push({ start: groupStart, end: sentences[i].end });
+        groupStart = sentences[i + 1].start;
+      }
+    }
+    groups.push({
+      start: groupStart,
+      end: sentences[sentences.length - 1].end,
+    });
+
+    // Groups larger than chunkSize are split further without losing offsets
+    const spans: Span[] = [];
+    for (const group of groups) {
+      if ((await this.measure(text, group)) <= this.options.chunkSize) {
+        spans.push(group);
+      } else {
+        spans.push(...(await this.splitRecursive(text, group)));
+      }
+    }
+
+    return spans;
+  }
+
+  private splitSentences(text: string): Span[] {
+    const sentences: Span[] = [];
+    const boundary = /[.!?]+["')\]]*(?=\s|$)|\n+/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(text)) !== null) {
+      const trimmed = this.trimSpan(text, {
+        start,
+        end: match.index + match[0].length,
+      });
+      if (trimmed) sentences.push(trimmed);
+      start = match.index + match[0].length;
+    }
+    const rest = this.trimSpan(text, { start, end: text.length });
+    if (rest) sentences.push(rest);
+
+    return sentences;
+  }
+
+  private trimSpan(text: string, span: Span): Span | null {
+    let { start, end } = span;
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    return start < end ? { start, end } : null;
+  }
+
+  private async measure(text: string, span: Span): Promise<number> {
+    return this.lengthFunction(text.slice(span.start, span.end));
+  }
+}
+
+function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+/**
+ * Linear-interpolated percentile, p in 0-1
+ */
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = Math.min(Math.max(p, 0), 1) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
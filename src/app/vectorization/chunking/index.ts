@@ -0,0 +1,11 @@
+/**
+ * Chunking exports
+ */
+
+export { TextSplitter, DEFAULT_SEPARATORS } from './TextSplitter';
+export type {
+  TextChunk,
+  LengthFunction,
+  SentenceEmbedder,
+  TextSplitterDeps,
+} from './TextSplitter';
@@ -4,6 +4,8 @@
 
 export { VectorizationService } from './VectorizationService';
 export type { VectorizationResult, QueryResult } from './VectorizationService';
+export { TextSplitter, DEFAULT_SEPARATORS } from './chunking';
+export type { TextChunk, LengthFunction, SentenceEmbedder } from './chunking';
 export type {
   VectorizeOptions,
   QueryVectorizeOptions,
@@ -11,4 +13,8 @@ export type {
   ChunkingOptions,
   VectorizationStage,
   JobStatus,
+  MetadataFilter,
+  FilterOperators,
+  FilterValue,
+  HybridSearchOptions,
 } from '../../core/types';
@@ -0,0 +1,323 @@
+/**
+ * Speaker encoders: embeddings of a voice from reference audio. Voice
+ * cloning needs one whose vectors live in the space SpeechT5 was trained on
+ * (speechbrain spkrec-xvect-voxceleb x-vectors, 512-dim, unit length);
+ * SpeechBrainXVectorEncoder computes exactly those
+ */
+
+import {
+  ModelLoadError,
+  InferenceError,
+  AbortError,
+  ValidationError,
+} from '@domain/errors';
+import { throwIfAborted } from '../utils/abort';
+import { readTorchStateDict } from '../utils/torchCheckpoint';
+import { computeFbank, XVectorNetwork } from './XVectorNetwork';
+
+/** Dimension of SpeechT5 speaker embeddings */
+export const SPEAKER_EMBEDDING_SIZE = 512;
+
+/**
+ * Turns 16 kHz mono speech into a speaker embedding. Implementations used
+ * for cloning must match SpeechT5's x-vector space, as
+ * SpeechBrainXVectorEncoder does; other 512-dim vectors are accepted but
+ * give an arbitrary voice.
+ */
+export interface SpeakerEncoder {
+  encode(samples: Float32Array, signal?: AbortSignal): Promise<Float32Array>;
+}
+
+export interface SpeechBrainXVectorEncoderOptions {
+  /** Hub repository, default 'speechbrain/spkrec-xvect-voxceleb' */
+  model?: string;
+  /** Hub revision, default 'main' */
+  revision?: string;
+  /**
+   * URL of the embedding_model.ckpt checkpoint, e.g. a self-hosted copy;
+   * default is the file in `model` on the host Transformers.js loads
+   * models from
+   */
+  url?: string;
+}
+
+export interface XVectorEncoderOptions {
+  /** WavLM x-vector model, default 'Xenova/wavlm-base-plus-sv' */
+  model?: string;
+  /** Longer speech is encoded in pieces of this many seconds, default 20 */
+  maxSegmentSeconds?: number;
+}
+
+type XVectorModel = (inputs: unknown) => Promise<{
+  embeddings: { data: ArrayLike<number>; dims: number[] };
+}>;
+
+const SAMPLE_RATE = 16000;
+
+// Cache Transformers.js keeps its model files in
+const BROWSER_CACHE = 'transformers-cache';
+
+/**
+ * Speaker encoder producing the x-vectors SpeechT5 was trained with: the
+ * speechbrain spkrec-xvect-voxceleb model, run in TypeScript from its
+ * PyTorch checkpoint (about 17 MB, fetched on first use and kept in the
+ * browser cache like Transformers.js models). Embeddings are unit length,
+ * as SpeechT5 expects. This is the default encoder of voice cloning.
+ *
+ * @example
+ * ```typescript
+ * const encoder = new SpeechBrainXVectorEncoder();
+ * const embedding = await encoder.encode(samples); // Float32Array(512)
+ * await provider.speak('Hello!', { speaker: embedding });
+ * ```
+ */
+export class SpeechBrainXVectorEncoder implements SpeakerEncoder {
+  private readonly model: string;
+  private readonly revision: string;
+  private readonly url?: string;
+  private loading: Promise<XVectorNetwork> | null = null;
+
+  constructor(options: SpeechBrainXVectorEncoderOptions = {}) {
+    this.model = options.model ?? 'speechbrain/spkrec-xvect-voxceleb';
+    this.revision = options.revision ?? 'main';
+    this.url = options.url;
+  }
+
+  /**
+   * Embed `samples` (16 kHz mono speech, at least a few tens of ms)
+   */
+  async encode(
+    samples: Float32Array,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
+    throwIfAborted(signal);
+    const network = await this.load();
+    throwIfAborted(signal);
+
+    try {
+      const embedding = network.embed(computeFbank(samples), signal);
+      return averageEmbeddings([embedding]);
+    } catch (error) {
+      if (error instanceof AbortError || error instanceof ValidationError) {
+        throw error;
+      }
+      throw new InferenceError(
+        `Speaker encoding failed: ${(error as Error).message}`,
+        'tts',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Release the weights; the next encode() loads them again
+   */
+  unload(): void {
+    this.loading = null;
+  }
+
+  private load(): Promise<XVectorNetwork> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const url = this.url ?? (await this.hubUrl('embedding_model.ckpt'));
+          const network = XVectorNetwork.fromStateDict(
+            readTorchStateDict(await fetchCached(url))
+          );
+          if (network.size !== SPEAKER_EMBEDDING_SIZE) {
+            throw new ValidationError(
+              `Model gives ${network.size}-dim embeddings, expected ${SPEAKER_EMBEDDING_SIZE}`,
+              'model'
+            );
+          }
+          return network;
+        } catch (error) {
+          throw new ModelLoadError(
+            `Failed to load speaker encoder: ${this.url ?? this.model}`,
+            this.model,
+            'tts',
+            error as Error
+          );
+        }
+      })();
+      // Let a failed load be retried
+      this.loading.catch(() => (this.loading = null));
+    }
+    return this.loading;
+  }
+
+  // Same host and path layout Transformers.js loads models from
+  private async hubUrl(file: string): Promise<string> {
+    const { env } = await import('@huggingface/transformers');
+    const path = env.remotePathTemplate
+      .replaceAll('{model}', this.model)
+      .replaceAll('{revision}', encodeURIComponent(this.revision));
+    return new URL(path + file, env.remoteHost).href;
+  }
+}
+
+async function fetchCached(url: string): Promise<ArrayBuffer> {
+  const cache =
+    typeof caches !== 'undefined'
+      ? await caches.open(BROWSER_CACHE).catch(() => null)
+      : null;
+  let response = await cache?.match(url);
+  if (!response) {
+    response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${url}: ${response.status} ${response.statusText}`
+      );
+    }
+    await cache?.put(url, response.clone()).catch(() => undefined);
+  }
+  return response.arrayBuffer();
+}
+
+/**
+ * Speaker encoder backed by a Transformers.js x-vector model, loaded on
+ * first use.
+ *
+ * The default WavLM model gives 512-dim vectors fit for comparing speakers
+ * (verification, similarity), but not from the embedding space SpeechT5
+ * was trained on: used as `speaker_embeddings` they do not reproduce the
+ * reference voice; voice cloning uses SpeechBrainXVectorEncoder instead.
+ *
+ * @example
+ * ```typescript
+ * const encoder = new XVectorEncoder();
+ * const embedding = await encoder.encode(samples); // Float32Array(512)
+ * ```
+ */
+export class XVectorEncoder implements SpeakerEncoder {
+  private readonly model: string;
+  private readonly maxSegment: number;
+  private loading: Promise<{
+    processor: (audio: Float32Array) => Promise<unknown>;
+    model: XVectorModel;
+  }> | null = null;
+
+  constructor(options: XVectorEncoderOptions = {}) {
+    this.model = options.model ?? 'Xenova/wavlm-base-plus-sv';
+    this.maxSegment = Math.round(
+      (options.maxSegmentSeconds ?? 20) * SAMPLE_RATE
+    );
+  }
+
+  /**
+   * Embed `samples` (16 kHz mono); long audio is split into segments whose
+   * embeddings are averaged by duration
+   */
+  async encode(
+    samples: Float32Array,
+    signal?: AbortSignal
+  ): Promise<Float32Array> {
+    throwIfAborted(signal);
+    const { processor, model } = await this.load();
+
+    try {
+      const segments: Float32Array[] = [];
+      for (let start = 0; start < samples.length; start += this.maxSegment) {
+        segments.push(samples.subarray(start, start + this.maxSegment));
+      }
+      const embeddings: Float32Array[] = [];
+      for (const segment of segments) {
+        throwIfAborted(signal);
+        const { embeddings: output } = await model(await processor(segment));
+        embeddings.push(Float32Array.from(output.data));
+      }
+      return averageEmbeddings(
+        embeddings,
+        segments.map(segment => segment.length)
+      );
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      throw new InferenceError(
+        `Speaker encoding failed: ${(error as Error).message}`,
+        'tts',
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Release the model; the next encode() loads it again
+   */
+  unload(): void {
+    this.loading = null;
+  }
+
+  private load() {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const { AutoProcessor, WavLMForXVector } = await import(
+            '@huggingface/transformers'
+          );
+          const [processor, model] = await Promise.all([
+            AutoProcessor.from_pretrained(this.model),
+            WavLMForXVector.from_pretrained(this.model),
+          ]);
+          return {
+            processor: processor as unknown as (
+              audio: Float32Array
+            ) => Promise<unknown>,
+            model: model as unknown as XVectorModel,
+          };
+        } catch (error) {
+          throw new ModelLoadError(
+            `Failed to load speaker encoder: ${this.model}`,
+            this.model,
+            'tts',
+            error as Error
+          );
+        }
+      })();
+      // Let a failed load be retried
+      this.loading.catch(() => (this.loading = null));
+    }
+    return this.loading;
+  }
+}
+
+/**
+ * Weighted mean of speaker embeddings, each scaled to unit length first so
+ * loud clips do not outweigh quiet ones; the result is unit length
+ *
+ * @param embeddings - One embedding per clip or segment
+ * @param weights - Relative weight of each, e.g. its speech duration
+ */
+export function averageEmbeddings(
+  embeddings: Float32Array[],
+  weights?: number[]
+): Float32Array {
+  if (embeddings.length === 0) {
+    throw new ValidationError('No embeddings to average', 'embeddings');
+  }
+  const size = embeddings[0].length;
+  const sum = new Float32Array(size);
+  embeddings.forEach((embedding, i) => {
+    if (embedding.length !== size) {
+      throw new ValidationError(
+        `Embedding sizes differ: ${embedding.length} and ${size}`,
+        'embeddings'
+      );
+    }
+    const scale = (weights?.[i] ?? 1) / (norm(embedding) || 1);
+    for (let j = 0; j < size; j++) {
+      sum[j] += embedding[j] * scale;
+    }
+  });
+  const length = norm(sum) || 1;
+  return sum.map(value => value / length);
+}
+
+function norm(vector: Float32Array): number {
+  let sum = 0;
+  for (const value of vector) {
+    sum += value * value;
+  }
+  return Math.sqrt(sum);
+}
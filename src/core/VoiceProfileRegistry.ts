@@ -7,14 +7,62 @@ import type {
   VoiceProfileOptions,
   VoiceGender,
 } from './VoiceProfile';
+import type { VADOptions } from './types';
+import { ValidationError } from '@domain/errors';
+import { validateProsody } from '../utils/dsp';
+import { audioConverter, type AudioInput } from '../utils/AudioConverter';
+import { throwIfAborted } from '../utils/abort';
+import {
+  averageEmbeddings,
+  SpeechBrainXVectorEncoder,
+  SPEAKER_EMBEDDING_SIZE,
+  type SpeakerEncoder,
+} from './SpeakerEncoder';
+import {
+  serializeProfiles,
+  parseProfiles,
+  type VoiceProfileBundle,
+  type VoiceProfileStorage,
+} from './VoiceProfileStorage';
+
+export interface VoiceProfileRegistryOptions {
+  /**
+   * Encoder used by createFromAudio(), default SpeechBrainXVectorEncoder.
+   * Its vectors must be in SpeechT5's x-vector space (speechbrain
+   * spkrec-xvect-voxceleb)
+   */
+  speakerEncoder?: SpeakerEncoder;
+}
+
+export interface VoiceFromAudioOptions
+  extends Partial<Omit<VoiceProfileOptions, 'id' | 'embeddings'>> {
+  /** Encode only the speech in each clip (default true) */
+  trimSilence?: boolean | Omit<VADOptions, 'sampleRate'>;
+  signal?: AbortSignal;
+}
+
+export interface ImportProfilesOptions {
+  /** Replace profiles with the same ID (default true) */
+  overwrite?: boolean;
+}
 
 /**
  * Registry for managing voice profiles
  */
 export class VoiceProfileRegistry {
   private profiles: Map<string, VoiceProfile> = new Map();
+  private speakerEncoder: SpeakerEncoder;
+  // Profiles added after the built-in ones; these are exported and saved
+  private custom = new Set<string>();
+  private storage: VoiceProfileStorage | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  // Off while built-in or loaded profiles are registered
+  private trackChanges = false;
 
-  constructor() {
+  constructor(options: VoiceProfileRegistryOptions = {}) {
+    // Loads its weights on first use only
+    this.speakerEncoder =
+      options.speakerEncoder ?? new SpeechBrainXVectorEncoder();
     this.initializeDefaultProfiles();
   }
 
@@ -22,6 +70,7 @@ export class VoiceProfileRegistry {
    * Register a new voice profile
    */
   register(profile: VoiceProfileOptions): void {
+    validateProsody(profile.parameters ?? {});
     const voiceProfile: VoiceProfile = {
       id: profile.id,
       name: profile.name,
@@ -38,6 +87,95 @@ export class VoiceProfileRegistry {
     };
 
     this.profiles.set(profile.id, voiceProfile);
+    if (this.trackChanges) {
+      this.custom.add(profile.id);
+      this.persist();
+    }
+  }
+
+  /**
+   * Set the encoder used by createFromAudio()
+   */
+  setSpeakerEncoder(encoder: SpeakerEncoder): void {
+    this.speakerEncoder = encoder;
+  }
+
+  /**
+   * Create and register a profile from reference recordings of a voice.
+   * Each clip is decoded to 16 kHz mono, trimmed to its speech and encoded
+   * to an x-vector; several clips are averaged, weighted by speech length.
+   * The default encoder downloads the speechbrain x-vector model (about
+   * 17 MB) on first use; see setSpeakerEncoder() to use another.
+   *
+   * @param id - Profile ID, also the default name
+   * @param audio - One clip or several of the same speaker (Blob, URL or
+   *   16 kHz samples)
+   * @returns The registered profile
+   *
+   * @example
+   * ```typescript
+   * await voiceProfileRegistry.createFromAudio('narrator', [clip1, clip2], {
+   *   gender: 'female',
+   * });
+   * await provider.speak('Hello!', { voiceProfile: 'narrator' });
+   * ```
+   */
+  async createFromAudio(
+    id: string,
+    audio: AudioInput | AudioInput[],
+    options: VoiceFromAudioOptions = {}
+  ): Promise<VoiceProfile> {
+    const clips = Array.isArray(audio) ? audio : [audio];
+    if (clips.length === 0) {
+      throw new ValidationError(
+        'At least one reference clip is required',
+        'audio'
+      );
+    }
+    validateProsody(options.parameters ?? {});
+    const { signal, trimSilence = true } = options;
+    const encoder = this.speakerEncoder;
+
+    const embeddings: Float32Array[] = [];
+    const durations: number[] = [];
+    for (const clip of clips) {
+      throwIfAborted(signal);
+      let samples = await audioConverter.toFloat32Array(clip, 16000);
+      if (trimSilence) {
+        const speech = audioConverter.trimSilence(samples, {
+          ...(typeof trimSilence === 'object' ? trimSilence : {}),
+          sampleRate: 16000,
+        });
+        // Keep clips without detected speech whole rather than empty
+        samples = speech.length > 0 ? speech : samples;
+      }
+      if (samples.length === 0) {
+        throw new ValidationError('Reference clip is empty', 'audio');
+      }
+
+      const embedding = await encoder.encode(samples, signal);
+      if (embedding.length !== SPEAKER_EMBEDDING_SIZE) {
+        throw new ValidationError(
+          `Speaker encoder returned ${embedding.length} values, expected ${SPEAKER_EMBEDDING_SIZE}`,
+          'embeddings'
+        );
+      }
+      embeddings.push(embedding);
+      durations.push(samples.length);
+    }
+    throwIfAborted(signal);
+
+    this.register({
+      id,
+      name: options.name ?? id,
+      gender: options.gender ?? 'male',
+      embeddings: averageEmbeddings(embeddings, durations),
+      parameters: options.parameters,
+      description:
+        options.description ??
+        `Cloned from ${clips.length} reference clip${clips.length === 1 ? '' : 's'}`,
+    });
+    return this.profiles.get(id)!;
   }
 
   /**
@@ -59,6 +197,9 @@ export class VoiceProfileRegistry {
    */
   remove(id: string): void {
     this.profiles.delete(id);
+    if (this.custom.delete(id)) {
+      this.persist();
+    }
   }
 
   /**
@@ -80,7 +221,114 @@ export class VoiceProfileRegistry {
    */
   clear(): void {
     this.profiles.clear();
+    this.custom.clear();
     this.initializeDefaultProfiles();
+    this.persist();
+  }
+
+  /**
+   * Export profiles in the versioned bundle format (see VoiceProfileBundle)
+   *
+   * @param ids - Profiles to export, default every profile added to the
+   *   built-in ones
+   */
+  exportProfiles(ids?: string[]): VoiceProfileBundle {
+    const selected = ids ?? Array.from(this.custom);
+    return serializeProfiles(
+      selected.map(id => {
+        const profile = this.profiles.get(id);
+        if (!profile) {
+          throw new ValidationError(`Voice profile not found: ${id}`, 'id');
+        }
+        return profile;
+      })
+    );
+  }
+
+  /**
+   * Import exported profiles. The whole bundle is validated (format
+   * version, embedding size, parameter ranges) before any profile is
+   * registered.
+   *
+   * @returns IDs of the profiles registered
+   *
+   * @example
+   * ```typescript
+   * const json = JSON.stringify(registry.exportProfiles());
+   * otherRegistry.importProfiles(json);
+   * ```
+   */
+  importProfiles(
+    bundle: VoiceProfileBundle | string,
+    options: ImportProfilesOptions = {}
+  ): string[] {
+    const imported = this.registerAll(parseProfiles(bundle), options);
+    if (imported.length > 0) {
+      this.persist();
+    }
+    return imported;
+  }
+
+  /**
+   * Keep profiles in `storage`: registers what it holds now and saves every
+   * later change to the registry's own profiles
+   *
+   * @returns IDs of the profiles loaded
+   *
+   * @example
+   * ```typescript
+   * // IndexedDB in browsers, ./voice-profiles.json in Node
+   * await voiceProfileRegistry.attachStorage(createVoiceProfileStorage());
+   * ```
+   */
+  async attachStorage(storage: VoiceProfileStorage): Promise<string[]> {
+    this.storage = storage;
+    const bundle = await storage.load();
+    return bundle ? this.registerAll(parseProfiles(bundle)) : [];
+  }
+
+  /**
+   * Write the registry's own profiles to its storage now
+   */
+  save(): Promise<void> {
+    const { storage } = this;
+    if (!storage) {
+      return Promise.resolve();
+    }
+    // Writes run one at a time, each with the state at the time it runs
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => storage.save(this.exportProfiles()));
+    return this.saving;
+  }
+
+  private registerAll(
+    profiles: VoiceProfileOptions[],
+    { overwrite = true }: ImportProfilesOptions = {}
+  ): string[] {
+    const imported: string[] = [];
+    this.trackChanges = false;
+    try {
+      for (const profile of profiles) {
+        if (!overwrite && this.profiles.has(profile.id)) continue;
+        this.register(profile);
+        this.custom.add(profile.id);
+        imported.push(profile.id);
+      }
+    } finally {
+      this.trackChanges = true;
+    }
+    return imported;
+  }
+
+  private persist(): void {
+    if (this.storage) {
+      this.save().catch(error => {
+        if (typeof console !== 'undefined' && console.warn) {
+          console.warn('[VoiceProfileRegistry] saving profiles failed:', error);
+        }
+      });
+    }
   }
 
   /**
@@ -94,6 +342,7 @@ export class VoiceProfileRegistry {
    * Initialize default voice profiles
    */
   private initializeDefaultProfiles(): void {
+    this.trackChanges = false;
     // Male profiles
     this.register({
       id: 'male-neutral',
@@ -185,6 +434,7 @@ export class VoiceProfileRegistry {
       },
       description: 'Friendly female voice with warm and approachable tone',
     });
+    this.trackChanges = true;
   }
 
   /**
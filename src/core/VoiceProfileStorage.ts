@@ -0,0 +1,401 @@
+/**
+ * Voice profile persistence: a versioned JSON format for sharing profiles
+ * and storage backends (IndexedDB in browsers, a JSON file in Node)
+ */
+
+import { ValidationError } from '@domain/errors';
+import { validateProsody } from '../utils/dsp';
+import { SPEAKER_EMBEDDING_SIZE } from './SpeakerEncoder';
+import type {
+  VoiceProfile,
+  VoiceProfileOptions,
+  VoiceParameters,
+} from './VoiceProfile';
+
+export const VOICE_PROFILES_FORMAT = 'transformers-router.voice-profiles';
+export const VOICE_PROFILES_VERSION = 1;
+
+/**
+ * Exported voice profiles (version 1)
+ *
+ * @example
+ * ```json
+ * {
+ *   "format": "transformers-router.voice-profiles",
+ *   "version": 1,
+ *   "exportedAt": "2025-01-01T00:00:00.000Z",
+ *   "profiles": [{
+ *     "id": "narrator",
+ *     "name": "Narrator",
+ *     "gender": "female",
+ *     "parameters": { "pitch": 1, "speed": 0.9 },
+ *     "embeddings": { "dtype": "float32", "length": 512, "data": "AAB..." }
+ *   }]
+ * }
+ * ```
+ */
+export interface VoiceProfileBundle {
+  format: typeof VOICE_PROFILES_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  profiles: SerializedVoiceProfile[];
+}
+
+export interface SerializedVoiceProfile {
+  id: string;
+  name: string;
+  gender: VoiceProfile['gender'];
+  parameters: VoiceParameters;
+  description?: string;
+  embeddings: {
+    dtype: 'float32';
+    length: number;
+    data: string; // base64 of little-endian float32 values
+  };
+}
+
+/** Where a registry keeps its profiles between sessions */
+export interface VoiceProfileStorage {
+  /** The saved bundle, or null when nothing was saved yet */
+  load(): Promise<VoiceProfileBundle | null>;
+  save(bundle: VoiceProfileBundle): Promise<void>;
+}
+
+const GENDERS = ['male', 'female'];
+const EMOTIONS = ['neutral', 'happy', 'sad', 'angry', 'calm'];
+const AGES = ['young', 'adult', 'senior'];
+const STYLES = ['formal', 'casual', 'professional', 'friendly'];
+
+/**
+ * Serialize profiles to the current bundle format
+ */
+export function serializeProfiles(
+  profiles: VoiceProfile[]
+): VoiceProfileBundle {
+  return {
+    format: VOICE_PROFILES_FORMAT,
+    version: VOICE_PROFILES_VERSION,
+    exportedAt: new Date().toISOString(),
+    profiles: profiles.map(profile => ({
+      id: profile.id,
+      name: profile.name,
+      gender: profile.gender,
+      parameters: { ...profile.parameters },
+      ...(profile.description !== undefined && {
+        description: profile.description,
+      }),
+      embeddings: {
+        dtype: 'float32',
+        length: profile.embeddings.length,
+        data: encodeFloat32(profile.embeddings),
+      },
+    })),
+  };
+}
+
+/**
+ * Validate a bundle (object or JSON text) and turn it back into profile
+ * options. Throws a ValidationError naming the first invalid profile.
+ */
+export function parseProfiles(
+  bundle: VoiceProfileBundle | string
+): VoiceProfileOptions[] {
+  let data: unknown = bundle;
+  if (typeof bundle === 'string') {
+    try {
+      data = JSON.parse(bundle);
+    } catch (error) {
+      throw new ValidationError(
+        `Voice profiles are not valid JSON: ${(error as Error).message}`,
+        'profiles'
+      );
+    }
+  }
+  if (!isRecord(data) || data.format !== VOICE_PROFILES_FORMAT) {
+    throw new ValidationError(
+      `Not a voice profile export (expected format "${VOICE_PROFILES_FORMAT}")`,
+      'format'
+    );
+  }
+  if (
+    typeof data.version !== 'number' ||
+    data.version < 1 ||
+    data.version > VOICE_PROFILES_VERSION
+  ) {
+    throw new ValidationError(
+      `Unsupported voice profile format version: ${String(data.version)}`,
+      'version'
+    );
+  }
+  if (!Array.isArray(data.profiles)) {
+    throw new ValidationError('profiles must be an array', 'profiles');
+  }
+
+  const ids = new Set<string>();
+  return data.profiles.map((entry: unknown, index) => {
+    const where = `profiles[${index}]`;
+    const profile = parseProfile(entry, where);
+    if (ids.has(profile.id)) {
+      throw new ValidationError(`${where}: duplicate id "${profile.id}"`, 'id');
+    }
+    ids.add(profile.id);
+    return profile;
+  });
+}
+
+/**
+ * Profiles in an IndexedDB object store (browsers)
+ */
+export class IndexedDBVoiceProfileStorage implements VoiceProfileStorage {
+  private db: Promise<IDBDatabase> | null = null;
+  private readonly storeName = 'bundles';
+  private readonly key = 'profiles';
+
+  constructor(private readonly dbName = 'TransformersRouterVoices') {}
+
+  async load(): Promise<VoiceProfileBundle | null> {
+    const db = await this.open();
+    const store = db
+      .transaction(this.storeName, 'readonly')
+      .objectStore(this.storeName);
+    const bundle = await requestToPromise(store.get(this.key));
+    return (bundle as VoiceProfileBundle | undefined) ?? null;
+  }
+
+  async save(bundle: VoiceProfileBundle): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(this.storeName, 'readwrite');
+    transaction.objectStore(this.storeName).put(bundle, this.key);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(new Error(`IndexedDB error: ${transaction.error}`));
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onerror = () =>
+          reject(new Error(`IndexedDB error: ${request.error}`));
+        request.onsuccess = () => resolve(request.result);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+      });
+      this.db.catch(() => (this.db = null));
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Profiles in a JSON file (Node). Writes go to a temporary file first, so
+ * an interrupted save leaves the previous file intact.
+ */
+export class FileVoiceProfileStorage implements VoiceProfileStorage {
+  constructor(private readonly path = 'voice-profiles.json') {}
+
+  async load(): Promise<VoiceProfileBundle | null> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(bundle: VoiceProfileBundle): Promise<void> {
+    const { writeFile, rename, mkdir } = await import('node:fs/promises');
+    const { dirname } = await import('node:path');
+    await mkdir(dirname(this.path), { recursive: true });
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, JSON.stringify(bundle, null, 2), 'utf8');
+    await rename(temporary, this.path);
+  }
+}
+
+/**
+ * IndexedDB storage where available, otherwise a JSON file at `path`
+ */
+export function createVoiceProfileStorage(
+  options: { dbName?: string; path?: string } = {}
+): VoiceProfileStorage {
+  return typeof indexedDB !== 'undefined'
+    ? new IndexedDBVoiceProfileStorage(options.dbName)
+    : new FileVoiceProfileStorage(options.path);
+}
+
+function parseProfile(entry: unknown, where: string): VoiceProfileOptions {
+  if (!isRecord(entry)) {
+    throw new ValidationError(`${where} must be an object`, 'profiles');
+  }
+  for (const field of ['id', 'name'] as const) {
+    if (typeof entry[field] !== 'string' || entry[field] === '') {
+      throw new ValidationError(
+        `${where}.${field} must be a non-empty string`,
+        field
+      );
+    }
+  }
+  if (!GENDERS.includes(entry.gender as string)) {
+    throw new ValidationError(
+      `${where}.gender must be one of ${GENDERS.join(', ')}`,
+      'gender'
+    );
+  }
+  if (
+    entry.description !== undefined &&
+    typeof entry.description !== 'string'
+  ) {
+    throw new ValidationError(
+      `${where}.description must be a string`,
+      'description'
+    );
+  }
+
+  return {
+    id: entry.id as string,
+    name: entry.name as string,
+    gender: entry.gender as VoiceProfile['gender'],
+    embeddings: parseEmbeddings(entry.embeddings, where),
+    parameters: parseParameters(entry.parameters, where),
+    description: entry.description as string | undefined,
+  };
+}
+
+function parseEmbeddings(value: unknown, where: string): Float32Array {
+  if (
+    !isRecord(value) ||
+    value.dtype !== 'float32' ||
+    typeof value.data !== 'string'
+  ) {
+    throw new ValidationError(
+      `${where}.embeddings must be { dtype: 'float32', length, data }`,
+      'embeddings'
+    );
+  }
+  let embeddings: Float32Array;
+  try {
+    embeddings = decodeFloat32(value.data);
+  } catch {
+    throw new ValidationError(
+      `${where}.embeddings.data is not base64-encoded float32`,
+      'embeddings'
+    );
+  }
+  if (
+    embeddings.length !== value.length ||
+    embeddings.length !== SPEAKER_EMBEDDING_SIZE
+  ) {
+    throw new ValidationError(
+      `${where}.embeddings must have ${SPEAKER_EMBEDDING_SIZE} values, got ${embeddings.length}`,
+      'embeddings'
+    );
+  }
+  if (!embeddings.every(Number.isFinite)) {
+    throw new ValidationError(
+      `${where}.embeddings contains non-finite values`,
+      'embeddings'
+    );
+  }
+  return embeddings;
+}
+
+function parseParameters(value: unknown, where: string): VoiceParameters {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    throw new ValidationError(
+      `${where}.parameters must be an object`,
+      'parameters'
+    );
+  }
+  const parameters = value as VoiceParameters;
+  for (const field of ['speed', 'pitch'] as const) {
+    if (
+      parameters[field] !== undefined &&
+      typeof parameters[field] !== 'number'
+    ) {
+      throw new ValidationError(
+        `${where}.parameters.${field} must be a number`,
+        field
+      );
+    }
+  }
+  try {
+    validateProsody(parameters);
+  } catch (error) {
+    const { message, field } = error as ValidationError;
+    throw new ValidationError(`${where}.parameters: ${message}`, field);
+  }
+  const allowed: Array<[keyof VoiceParameters, string[]]> = [
+    ['emotion', EMOTIONS],
+    ['age', AGES],
+    ['style', STYLES],
+  ];
+  for (const [field, values] of allowed) {
+    if (
+      parameters[field] !== undefined &&
+      !values.includes(parameters[field] as string)
+    ) {
+      throw new ValidationError(
+        `${where}.parameters.${field} must be one of ${values.join(', ')}`,
+        field
+      );
+    }
+  }
+  if (
+    parameters.accent !== undefined &&
+    typeof parameters.accent !== 'string'
+  ) {
+    throw new ValidationError(
+      `${where}.parameters.accent must be a string`,
+      'accent'
+    );
+  }
+  return { ...parameters };
+}
+
+function encodeFloat32(values: Float32Array): string {
+  const view = new DataView(new ArrayBuffer(values.length * 4));
+  values.forEach((value, i) => view.setFloat32(i * 4, value, true));
+  const bytes = new Uint8Array(view.buffer);
+  let binary = '';
+  // Chunked so long arrays stay within the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function decodeFloat32(base64: string): Float32Array {
+  const binary = atob(base64);
+  if (binary.length % 4 !== 0) {
+    throw new Error('Length is not a multiple of 4 bytes');
+  }
+  const view = new DataView(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    view.setUint8(i, binary.charCodeAt(i));
+  }
+  return Float32Array.from({ length: binary.length / 4 }, (_, i) =>
+    view.getFloat32(i * 4, true)
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(new Error(`IndexedDB error: ${request.error}`));
+  });
+}
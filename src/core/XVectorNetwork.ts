@@ -0,0 +1,323 @@
+/**
+ * The speechbrain spkrec-xvect-voxceleb speaker embedding model, the
+ * source of SpeechT5's speaker embeddings: 24 log-mel filterbank features
+ * with per-utterance mean removal, five TDNN layers, mean and standard
+ * deviation pooling and a 512-unit projection
+ */
+
+import { ValidationError } from '@domain/errors';
+import { throwIfAborted } from '../utils/abort';
+import type { TorchTensor } from '../utils/torchCheckpoint';
+
+const N_FFT = 400; // 25 ms at 16 kHz
+const HOP = 160; // 10 ms
+const N_MELS = 24;
+const N_BINS = N_FFT / 2 + 1;
+const TOP_DB = 80;
+const DILATIONS = [1, 2, 3, 1, 1];
+const BATCH_NORM_EPS = 1e-5;
+const LEAKY_SLOPE = 0.01;
+// Added to the pooled standard deviation, as speechbrain does
+const STD_EPS = 1e-5;
+
+/** Features laid out frame by frame */
+export interface FrameMatrix {
+  data: Float32Array;
+  frames: number;
+  channels: number;
+}
+
+let tables: {
+  window: Float32Array;
+  cos: Float32Array;
+  sin: Float32Array;
+  mel: Float32Array;
+} | null = null;
+
+function getTables() {
+  if (!tables) {
+    const window = new Float32Array(N_FFT);
+    const cos = new Float32Array(N_FFT);
+    const sin = new Float32Array(N_FFT);
+    for (let n = 0; n < N_FFT; n++) {
+      // Periodic Hamming window, as torch.hamming_window
+      window[n] = 0.54 - 0.46 * Math.cos((2 * Math.PI * n) / N_FFT);
+      cos[n] = Math.cos((2 * Math.PI * n) / N_FFT);
+      sin[n] = Math.sin((2 * Math.PI * n) / N_FFT);
+    }
+
+    // Triangles centred on mel-spaced frequencies; both slopes use the
+    // width of the lower band, as speechbrain's Filterbank
+    const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+    const maxMel = 2595 * Math.log10(1 + 8000 / 700);
+    const hz = Array.from({ length: N_MELS + 2 }, (_, i) =>
+      toHz((maxMel * i) / (N_MELS + 1))
+    );
+    const mel = new Float32Array(N_BINS * N_MELS);
+    for (let bin = 0; bin < N_BINS; bin++) {
+      const frequency = (8000 * bin) / (N_BINS - 1);
+      for (let m = 0; m < N_MELS; m++) {
+        const slope = (frequency - hz[m + 1]) / (hz[m + 1] - hz[m]);
+        mel[bin * N_MELS + m] = Math.max(0, Math.min(1 + slope, 1 - slope));
+      }
+    }
+    tables = { window, cos, sin, mel };
+  }
+  return tables;
+}
+
+/**
+ * Log-mel filterbank of 16 kHz mono audio, one frame per 10 ms, with the
+ * utterance mean of each channel removed
+ */
+export function computeFbank(samples: Float32Array): FrameMatrix {
+  const { window, cos, sin, mel } = getTables();
+  const frames = 1 + Math.floor(samples.length / HOP);
+  const data = new Float32Array(frames * N_MELS);
+  const frame = new Float32Array(N_FFT);
+  const power = new Float32Array(N_BINS);
+  let max = -Infinity;
+
+  for (let f = 0; f < frames; f++) {
+    // Frames are centred: the signal is padded with N_FFT / 2 zeros
+    const start = f * HOP - N_FFT / 2;
+    for (let n = 0; n < N_FFT; n++) {
+      const i = start + n;
+      frame[n] = i >= 0 && i < samples.length ? samples[i] * window[n] : 0;
+    }
+    for (let bin = 0; bin < N_BINS; bin++) {
+      let re = 0;
+      let im = 0;
+      let phase = 0;
+      for (let n = 0; n < N_FFT; n++) {
+        re += frame[n] * cos[phase];
+        im -= frame[n] * sin[phase];
+        phase += bin;
+        if (phase >= N_FFT) phase -= N_FFT;
+      }
+      power[bin] = re * re + im * im;
+    }
+    for (let m = 0; m < N_MELS; m++) {
+      let energy = 0;
+      for (let bin = 0; bin < N_BINS; bin++) {
+        energy += power[bin] * mel[bin * N_MELS + m];
+      }
+      const db = 10 * Math.log10(Math.max(energy, 1e-10));
+      data[f * N_MELS + m] = db;
+      max = Math.max(max, db);
+    }
+  }
+
+  // Limit the dynamic range, then remove the mean of each channel
+  const floor = max - TOP_DB;
+  const mean = new Float64Array(N_MELS);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.max(data[i], floor);
+    mean[i % N_MELS] += data[i];
+  }
+  for (let i = 0; i < data.length; i++) {
+    data[i] -= mean[i % N_MELS] / frames;
+  }
+  return { data, frames, channels: N_MELS };
+}
+
+interface TdnnLayer {
+  // [kernel][out][in], so each output is a dot product over a frame
+  weight: Float32Array;
+  bias: Float32Array;
+  kernel: number;
+  dilation: number;
+  inputs: number;
+  outputs: number;
+  // Batch norm folded to a scale and shift
+  scale: Float32Array;
+  shift: Float32Array;
+}
+
+/**
+ * Forward pass of the x-vector network in plain TypeScript
+ */
+export class XVectorNetwork {
+  private constructor(
+    private readonly layers: TdnnLayer[],
+    private readonly projection: { weight: Float32Array; bias: Float32Array }
+  ) {}
+
+  /**
+   * Build the network from the model's state dict (embedding_model.ckpt)
+   */
+  static fromStateDict(tensors: Map<string, TorchTensor>): XVectorNetwork {
+    // Modules are numbered in order: conv, activation, batch norm per
+    // layer, then pooling and the projection
+    const byBlock = (suffix: string) =>
+      [...tensors.entries()]
+        .filter(([name]) => name.endsWith(suffix))
+        .sort(([a], [b]) => blockIndex(a) - blockIndex(b))
+        .map(([, tensor]) => tensor);
+    const convWeights = byBlock('conv.weight');
+    const convBiases = byBlock('conv.bias');
+    const norms = ['weight', 'bias', 'running_mean', 'running_var'].map(name =>
+      byBlock(`norm.${name}`)
+    );
+    const [projectionWeight] = byBlock('w.weight');
+    const [projectionBias] = byBlock('w.bias');
+
+    if (
+      convWeights.length !== DILATIONS.length ||
+      convBiases.length !== DILATIONS.length ||
+      norms.some(tensor => tensor.length !== DILATIONS.length) ||
+      !projectionWeight ||
+      !projectionBias
+    ) {
+      throw new ValidationError(
+        'State dict is not a speechbrain Xvector model',
+        'checkpoint'
+      );
+    }
+
+    let inputs = N_MELS;
+    const layers = convWeights.map((conv, i): TdnnLayer => {
+      const [outputs, convInputs, kernel] = conv.shape;
+      if (convInputs !== inputs) {
+        throw new ValidationError(
+          `TDNN layer ${i + 1} expects ${convInputs} inputs, got ${inputs}`,
+          'checkpoint'
+        );
+      }
+      const weight = new Float32Array(conv.data.length);
+      for (let o = 0; o < outputs; o++) {
+        for (let c = 0; c < inputs; c++) {
+          for (let k = 0; k < kernel; k++) {
+            weight[(k * outputs + o) * inputs + c] =
+              conv.data[(o * inputs + c) * kernel + k];
+          }
+        }
+      }
+      const [gamma, beta, mean, variance] = norms.map(tensor => tensor[i].data);
+      const scale = gamma.map(
+        (value, o) => value / Math.sqrt(variance[o] + BATCH_NORM_EPS)
+      );
+      const shift = beta.map((value, o) => value - mean[o] * scale[o]);
+      inputs = outputs;
+      return {
+        weight,
+        bias: convBiases[i].data,
+        kernel,
+        dilation: DILATIONS[i],
+        inputs: convInputs,
+        outputs,
+        scale,
+        shift,
+      };
+    });
+
+    if (projectionWeight.shape[1] !== inputs * 2) {
+      throw new ValidationError(
+        `Projection expects ${projectionWeight.shape[1]} inputs, got ${inputs * 2}`,
+        'checkpoint'
+      );
+    }
+    return new XVectorNetwork(layers, {
+      weight: projectionWeight.data,
+      bias: projectionBias.data,
+    });
+  }
+
+  /** Size of the embeddings */
+  get size(): number {
+    return this.projection.bias.length;
+  }
+
+  /**
+   * Embed filterbank features from computeFbank()
+   */
+  embed(features: FrameMatrix, signal?: AbortSignal): Float32Array {
+    // Reflection padding needs more frames than the widest layer pads
+    const minFrames =
+      Math.max(
+        ...this.layers.map(layer => ((layer.kernel - 1) * layer.dilation) / 2)
+      ) + 1;
+    if (features.frames < Math.max(minFrames, 2)) {
+      throw new ValidationError(
+        'Audio is too short for a speaker embedding',
+        'audio'
+      );
+    }
+
+    let x = features.data;
+    for (const layer of this.layers) {
+      throwIfAborted(signal);
+      x = tdnn(x, features.frames, layer);
+    }
+
+    // Mean and unbiased standard deviation of each channel over time
+    const { frames } = features;
+    const channels = this.layers[this.layers.length - 1].outputs;
+    const pooled = new Float32Array(channels * 2);
+    for (let c = 0; c < channels; c++) {
+      let sum = 0;
+      for (let t = 0; t < frames; t++) {
+        sum += x[t * channels + c];
+      }
+      const mean = sum / frames;
+      let squares = 0;
+      for (let t = 0; t < frames; t++) {
+        const deviation = x[t * channels + c] - mean;
+        squares += deviation * deviation;
+      }
+      pooled[c] = mean;
+      pooled[channels + c] = Math.sqrt(squares / (frames - 1)) + STD_EPS;
+    }
+
+    const { weight, bias } = this.projection;
+    const embedding = new Float32Array(bias.length);
+    for (let o = 0; o < bias.length; o++) {
+      let sum = bias[o];
+      const row = o * pooled.length;
+      for (let i = 0; i < pooled.length; i++) {
+        sum += weight[row + i] * pooled[i];
+      }
+      embedding[o] = sum;
+    }
+    return embedding;
+  }
+}
+
+// Dilated convolution with reflected edges ("same" length), leaky ReLU,
+// then batch norm
+function tdnn(x: Float32Array, frames: number, layer: TdnnLayer): Float32Array {
+  const { weight, bias, kernel, dilation, inputs, outputs, scale, shift } =
+    layer;
+  const pad = ((kernel - 1) * dilation) / 2;
+  const y = new Float32Array(frames * outputs);
+
+  for (let t = 0; t < frames; t++) {
+    const row = t * outputs;
+    y.set(bias, row);
+    for (let k = 0; k < kernel; k++) {
+      let source = t + k * dilation - pad;
+      if (source < 0) source = -source;
+      if (source >= frames) source = 2 * (frames - 1) - source;
+      const input = source * inputs;
+      for (let o = 0; o < outputs; o++) {
+        const w = (k * outputs + o) * inputs;
+        let sum = 0;
+        for (let c = 0; c < inputs; c++) {
+          sum += weight[w + c] * x[input + c];
+        }
+        y[row + o] += sum;
+      }
+    }
+    for (let o = 0; o < outputs; o++) {
+      const value = y[row + o];
+      y[row + o] =
+        (value > 0 ? value : value * LEAKY_SLOPE) * scale[o] + shift[o];
+    }
+  }
+  return y;
+}
+
+function blockIndex(name: string): number {
+  const match = /blocks\.(\d+)\./.exec(name);
+  return match ? Number(match[1]) : 0;
+}
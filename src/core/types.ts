@@ -27,9 +27,36 @@ export type DType = 'fp32' | 'fp16' | 'q8' | 'q4' | 'q4f16';
 
 // Message format (OpenAI-compatible)
 export interface Message {
-  role: 'system' | 'user' | 'assistant' | 'function';
+  role: 'system' | 'user' | 'assistant' | 'function' | 'tool';
   content: string;
   name?: string;
+  tool_calls?: ToolCall[]; // assistant turns that requested tool calls
+  tool_call_id?: string; // tool turns: the call this result answers
+}
+
+// Tool (function) calling, OpenAI-compatible shapes
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>; // JSON Schema of the arguments
+  };
+}
+
+export type ToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded arguments object
+  };
 }
 
 // LLM Configuration
@@ -43,6 +70,7 @@ export interface LLMConfig {
   topP?: number;
   topK?: number;
   repetitionPenalty?: number;
+  contextLength?: number; // prompt + completion tokens, read from the model if unset
 }
 
 // TTS Configuration
@@ -110,14 +138,32 @@ export interface ChatOptions {
   repetitionPenalty?: number;
   stopSequences?: string[];
   systemPrompt?: string;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice; // default 'auto' when tools are given
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal; // cancels generation; the call rejects with AbortError
+}
+
+// Token counting (AIProvider.countTokens)
+export interface CountTokensOptions extends ChatOptions {
+  modality?: 'llm' | 'embedding'; // whose tokenizer to use, default 'llm'
 }
 
+// Constrained decoding: output is forced to match JSON or a GBNF grammar
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; schema: Record<string, unknown>; name?: string }
+  | { type: 'grammar'; grammar: string; root?: string }; // GBNF source
+
 // Completion Options
 export interface CompletionOptions {
   maxTokens?: number;
   temperature?: number;
   topP?: number;
   stopSequences?: string[];
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal;
 }
 
 // TTS Options
@@ -127,11 +173,27 @@ export interface TTSOptions {
   speed?: number;
   pitch?: number;
   quality?: number;
-  format?: 'wav' | 'mp3' | 'ogg';
+  format?: 'wav' | 'mp3' | 'ogg'; // output encoding, default 'wav'; ogg is Ogg Opus
+  bitrate?: number; // kbps for mp3 (8-320 CBR steps, up to 160 below 32 kHz) and ogg (6-510, VBR), default 64
   emotion?: import('./VoiceProfile').VoiceEmotion;
   age?: import('./VoiceProfile').VoiceAge;
   accent?: string;
   style?: import('./VoiceProfile').VoiceStyle;
+  signal?: AbortSignal;
+}
+
+// Streaming TTS (speakStream)
+export interface SpeakStreamOptions extends TTSOptions {
+  concurrency?: number; // sentences synthesized at once, default 1
+  maxSentenceLength?: number; // longer sentences are split at clause breaks, default 300 characters
+}
+
+export interface SpeechStreamChunk {
+  index: number; // sentence position; chunks always arrive in this order
+  text: string;
+  audio: Float32Array; // mono PCM in [-1, 1]
+  sampleRate: number;
+  blob: Blob; // the sentence encoded as `format`
 }
 
 // STT Options
@@ -139,18 +201,83 @@ export interface STTOptions {
   language?: string;
   task?: 'transcribe' | 'translate';
   timestamps?: boolean;
+  wordTimestamps?: boolean; // word-level timing, needs alignment heads (e.g. *_timestamped models)
+  // Long-form: audio longer than chunkLengthS is split into overlapping windows
+  chunkLengthS?: number; // window length, default and max 30
+  strideLengthS?: number; // overlap on each side of a window, default chunkLengthS / 6
+  concurrency?: number; // windows transcribed at once, default 1
+  onProgress?: (event: TranscriptionProgressEventData) => void;
+  vad?: boolean | Omit<VADOptions, 'sampleRate'>; // transcribe detected speech only, skipping silence
+  signal?: AbortSignal;
+}
+
+// Voice activity detection (energy based)
+export interface VADOptions {
+  sampleRate?: number; // default 16000
+  frameMs?: number; // analysis frame, default 30
+  threshold?: number; // speech when louder than noise floor * threshold, default 3
+  minEnergy?: number; // RMS below this is always silence, default 0.003
+  minSpeechMs?: number; // speech needed to open a segment, default 90
+  minSilenceMs?: number; // silence needed to close it, default 500
+  paddingMs?: number; // kept before and after speech, default 200
+}
+
+// Streaming transcription (createTranscriptionSession)
+export interface TranscriptionSessionOptions
+  extends Omit<
+    STTOptions,
+    'chunkLengthS' | 'strideLengthS' | 'concurrency' | 'onProgress' | 'vad'
+  > {
+  sampleRate?: number; // rate of pushed frames, default 16000
+  vad?: Omit<VADOptions, 'sampleRate'>;
+  partialIntervalMs?: number; // re-transcribe an open utterance this often, default 1000; 0 disables
+  maxUtteranceS?: number; // force a final after this long, default 30
+}
+
+export interface TranscriptEvent {
+  type: 'partial' | 'final';
+  utteranceId: number;
+  text: string;
+  start: number; // seconds since the session started
+  end: number;
+}
+
+// Transcription Result (transcribeDetailed / listenDetailed)
+export interface TranscriptionWord {
+  text: string;
+  start: number; // seconds
+  end: number;
+}
+
+export interface TranscriptionSegment {
+  id: number;
+  start: number; // seconds
+  end: number;
+  text: string;
+  confidence?: number; // 0-1, geometric mean of token probabilities
+  words?: TranscriptionWord[]; // with wordTimestamps
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string; // ISO 639-1 code, detected when not given
+  duration: number; // seconds
+  segments: TranscriptionSegment[];
 }
 
 // Embedding Options
 export interface EmbeddingOptions {
   pooling?: 'mean' | 'cls';
   normalize?: boolean;
+  signal?: AbortSignal;
 }
 
 // OCR Options
 export interface OCROptions {
   language?: string | string[];
   includeBbox?: boolean; // zwrócić współrzędne bounding box
+  layout?: boolean; // block/paragraph/line/word hierarchy in reading order
+  tables?: boolean | OCRTableOptions; // detect tables from aligned words
   includeConfidence?: boolean; // zwrócić poziom pewności
   psm?: number; // Page Segmentation Mode (0-13)
   oem?: number; // OCR Engine Mode (0-3)
@@ -158,9 +285,42 @@ export interface OCROptions {
   allowedLanguages?: string[]; // lista wspieranych języków do których ograniczamy ranking (np. ['eng','pol'])
   detectionMinTextLength?: number; // minimalna długość tekstu do detekcji języka (domyślnie 20)
   detectionMaxCandidates?: number; // ilu kandydatów zwrócić w rankingu (domyślnie 5)
-  autoPSM?: boolean; // automatyczny dobór PSM na podstawie układu tekstu
+  autoPSM?: boolean; // detect orientation and script (OSD), turn the page upright, pick the PSM from the layout and recognize again
   autoWhitelist?: boolean; // automatyczna whitelist znaków na podstawie języka
-  preprocess?: 'none' | 'fast'; // opcjonalne proste preprocessing (placeholder)
+  preprocess?: OCRPreprocessPreset | OCRPreprocessStep[]; // image cleanup before recognition, default 'none'
+  dpi?: number; // source resolution for the upscale step; estimated from the width when omitted
+  signal?: AbortSignal; // przerywa rozpoznawanie (worker Tesseracta jest zamykany)
+}
+
+// OCR image preprocessing, run in order on a grayscale copy of the image
+export type OCRPreprocessPreset = 'none' | 'fast' | 'document' | 'photo';
+
+export type OCRPreprocessStepName =
+  | 'grayscale'
+  | 'upscale'
+  | 'denoise'
+  | 'removeBorders'
+  | 'deskew'
+  | 'binarize';
+
+export type OCRPreprocessStep =
+  | OCRPreprocessStepName
+  | { step: 'grayscale' }
+  | { step: 'upscale'; targetDpi?: number; maxScale?: number } // default 300 dpi, at most 4x
+  | { step: 'denoise'; radius?: number } // median filter, default 1 (3x3)
+  | { step: 'removeBorders'; maxBorder?: number } // fraction of each side searched, default 0.1
+  | { step: 'deskew'; maxAngle?: number } // degrees searched either way, default 15
+  | {
+      step: 'binarize';
+      method?: 'otsu' | 'sauvola'; // global or adaptive threshold, default 'otsu'
+      windowSize?: number; // sauvola window in pixels, default 31
+      k?: number; // sauvola sensitivity, default 0.34
+    };
+
+export interface OCRPreprocessReport {
+  step: OCRPreprocessStepName;
+  durationMs: number;
+  details?: Record<string, number | string>; // e.g. { angle: -2.1 } for deskew
 }
 
 // OCR Result
@@ -179,6 +339,128 @@ export interface OCRResult {
   }>;
   usedLanguage?: string; // język faktycznie użyty do końcowego rozpoznania
   detectedLanguages?: Array<{ lang: string; score: number }>; // ranking języków ISO-639-3
+  preprocessing?: OCRPreprocessReport[]; // preprocessing steps that ran, in order
+  layout?: OCRLayoutBlock[]; // with `layout`: blocks in reading order
+  tables?: OCRTable[]; // with `tables`: top to bottom
+  orientation?: OCROrientation; // with `autoPSM`, when OSD found one
+  script?: OCRScriptDetection; // with `autoPSM`, when OSD found one
+  psm?: number; // with `autoPSM`: PSM of the returned recognition
+}
+
+// Orientation and script detection (Tesseract OSD), used by autoPSM
+export interface OCROrientation {
+  degrees: 0 | 90 | 180 | 270; // clockwise rotation that makes the page upright
+  confidence: number;
+  rotated: boolean; // whether the page was turned before recognition; boxes still refer to the input
+}
+
+export interface OCRScriptDetection {
+  name: string; // Tesseract script name, e.g. 'Latin', 'Cyrillic', 'Han'
+  confidence: number;
+}
+
+// OCR layout (pixel coordinates of the input image)
+export interface OCRBBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRLayoutWord {
+  text: string;
+  confidence: number;
+  bbox: OCRBBox;
+}
+
+export interface OCRLayoutLine {
+  text: string;
+  confidence: number;
+  bbox: OCRBBox;
+  words: OCRLayoutWord[];
+}
+
+export interface OCRLayoutParagraph {
+  text: string;
+  confidence: number;
+  bbox: OCRBBox;
+  lines: OCRLayoutLine[];
+}
+
+export interface OCRLayoutBlock {
+  text: string;
+  confidence: number;
+  bbox: OCRBBox;
+  blockType?: string; // Tesseract's block type, e.g. 'FLOWING_TEXT', 'TABLE'
+  paragraphs: OCRLayoutParagraph[];
+}
+
+// Table detection: rows of words split into cells by wide gaps, with cells
+// aligned into columns across consecutive rows
+export interface OCRTableOptions {
+  minRows?: number; // default 2
+  minColumns?: number; // default 2
+  columnGap?: number; // gap that separates cells, in word heights, default 1.2
+}
+
+export interface OCRTableCell {
+  text: string; // '' for an empty cell
+  bbox?: OCRBBox;
+  confidence?: number;
+}
+
+export interface OCRTable {
+  bbox: OCRBBox;
+  columns: Array<{ x0: number; x1: number }>;
+  rows: OCRTableCell[][]; // every row has one cell per column
+}
+
+// Export of OCR results (toHOCR, toALTO, toSearchablePDF). Word boxes are
+// required: recognize with `includeBbox` or `layout`
+export interface OCRExportOptions {
+  title?: string; // document title, default 'OCR output'
+  fileName?: string; // source image name recorded in the output
+  width?: number; // page size in pixels for an OCRResult, default the extent of its boxes
+  height?: number;
+}
+
+export interface OCRSearchablePDFOptions {
+  title?: string; // document title, default 'OCR output'
+  dpi?: number; // resolution of the page images, sets the page size, default 300
+}
+
+// Multi-page OCR (recognizeDocument): PDF, TIFF or a single image
+export type OCRDocumentFormat = 'pdf' | 'tiff' | 'image';
+
+export interface OCRDocumentOptions extends OCROptions {
+  pages?: number[]; // 1-based page numbers to recognize, default all
+  concurrency?: number; // pages recognized at once, one Tesseract worker each, default 2
+  renderDpi?: number; // resolution PDF pages are rasterized at, default 300
+  pageSeparator?: string; // joins page texts in `text`, default '\n\n'
+  onProgress?: (event: OCRProgressEventData) => void;
+}
+
+export interface OCRPageResult extends OCRResult {
+  page: number; // 1-based
+  width: number; // raster size in pixels
+  height: number;
+}
+
+export interface OCRDocumentResult {
+  text: string; // page texts in page order
+  confidence: number; // mean page confidence
+  format: OCRDocumentFormat;
+  pageCount: number; // pages in the document, recognized or not
+  pages: OCRPageResult[];
+}
+
+export interface OCRProgressEventData {
+  status: 'started' | 'progress' | 'completed';
+  page?: number; // page that just finished ('progress')
+  pagesCompleted: number;
+  pagesTotal: number;
+  progress: number; // 0-1
+  etaMs?: number;
 }
 
 // Chat Message
@@ -191,8 +473,9 @@ export interface ChatMessage {
 export interface ChatResponse {
   content: string;
   role: 'assistant';
+  tool_calls?: ToolCall[];
   usage?: TokenUsage;
-  finishReason?: 'stop' | 'length' | 'error';
+  finishReason?: 'stop' | 'length' | 'error' | 'tool_calls';
 }
 
 // Token Usage
@@ -202,6 +485,19 @@ export interface TokenUsage {
   totalTokens: number;
 }
 
+// Completion Response (completeDetailed)
+export interface CompletionResponse {
+  text: string;
+  usage: TokenUsage;
+  finishReason: 'stop' | 'length'; // 'length' when maxTokens was reached
+}
+
+// Returned by stream() generators once the last chunk has been yielded
+export interface StreamSummary {
+  usage: TokenUsage;
+  finishReason: 'stop' | 'length';
+}
+
 // Progress Info
 export interface ProgressInfo {
   modality: Modality;
@@ -247,12 +543,34 @@ export interface UnloadEventData {
   modality: Modality;
 }
 
+export interface AskProgressEventData {
+  stage: 'retrieval' | 'generation';
+  status: 'started' | 'streaming' | 'completed';
+  question: string;
+  retrieved?: number; // chunks returned by the vector query
+  packed?: number; // chunks that fit into the context budget
+  contextTokens?: number;
+  generatedChunks?: number; // streamed text pieces so far
+}
+
+export interface TranscriptionProgressEventData {
+  status: 'started' | 'progress' | 'completed';
+  chunksCompleted: number;
+  chunksTotal: number;
+  progress: number; // 0-1
+  audioSeconds: number; // length of the whole input
+  etaMs?: number;
+}
+
 // Event data map (discriminated union)
 export interface EventDataMap {
   progress: ProgressEventData;
   ready: ReadyEventData;
   error: ErrorEventData;
   unload: UnloadEventData;
+  'ask:progress': AskProgressEventData;
+  'transcription:progress': TranscriptionProgressEventData;
+  'ocr:progress': OCRProgressEventData;
 }
 
 // Event types
@@ -272,7 +590,23 @@ export interface OpenAIChatCompletionRequest {
   max_tokens?: number;
   stop?: string | string[];
   stream?: boolean;
-}
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  response_format?: OpenAIResponseFormat;
+  stream_options?: { include_usage?: boolean }; // usage chunk before [DONE]
+}
+
+export type OpenAIResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        schema?: Record<string, unknown>;
+        strict?: boolean;
+      };
+    };
 
 export interface OpenAIChatCompletionResponse {
   id: string;
@@ -323,6 +657,8 @@ export interface VectorizationServiceConfig {
   storage: 'indexeddb' | 'opfs';
   externalMock?: { enabled: boolean; latencyMs?: number; errorRate?: number };
   quotaThresholds?: { warn: number; high: number; critical: number }; // 0-1
+  textEmbedding?: Partial<EmbeddingConfig>; // model used for the 'text' modality
+  audioEmbedding?: { trimSilence?: boolean | Omit<VADOptions, 'sampleRate'> }; // embed speech without leading/trailing silence
 }
 
 export interface ChunkingOptions {
@@ -330,6 +666,8 @@ export interface ChunkingOptions {
   chunkSize: number;
   chunkOverlap: number;
   separators?: string[];
+  lengthUnit?: 'characters' | 'tokens'; // 'tokens' counts with the embedding model's tokenizer
+  breakpointPercentile?: number; // semantic: split where sentence distance exceeds this percentile (0-1, default 0.95)
 }
 
 export interface VectorizeOptions {
@@ -349,9 +687,18 @@ export interface VectorizeOptions {
   signal?: AbortSignal;
 }
 
-export interface QueryVectorizeOptions {
+// Hybrid (BM25 + vector) search, per query
+export interface HybridSearchOptions {
+  mode?: 'vector' | 'lexical' | 'hybrid'; // default 'vector'
+  fusion?: 'rrf' | 'weighted'; // default 'rrf'
+  vectorWeight?: number; // default 1
+  lexicalWeight?: number; // default 1
+  rrfK?: number; // reciprocal rank fusion constant, default 60
+}
+
+export interface QueryVectorizeOptions extends HybridSearchOptions {
   k?: number;
-  filter?: Partial<VectorDocMeta>;
+  filter?: MetadataFilter;
   modality?: VectorModality;
   scoreThreshold?: number;
   onProgress?: (event: VectorizationProgressEventData) => void;
@@ -363,12 +710,73 @@ export interface VectorDocMeta {
   mime: string;
   sizeBytes: number;
   createdAt: number;
+  chunkIndex?: number; // position of the chunk within its source
+  startChar?: number; // inclusive offset into the extracted source text
+  endChar?: number; // exclusive offset into the extracted source text
+  text?: string; // chunk text, used for highlighting hits
   [k: string]: unknown;
 }
 
+// Metadata filter DSL for vector queries, e.g.
+// { mime: { $prefix: 'image/' }, createdAt: { $gt: since }, $or: [...] }
+export type FilterValue = string | number | boolean | null;
+
+export interface FilterOperators {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+  $exists?: boolean;
+  $prefix?: string;
+}
+
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  // Field conditions; keys may be dotted paths into nested metadata
+  [field: string]: FilterValue | FilterOperators | MetadataFilter[] | undefined;
+}
+
 export interface QueryOptions {
   k?: number;
-  filter?: Partial<VectorDocMeta>;
+  filter?: MetadataFilter;
+  efSearch?: number; // ANN candidate list size; higher = better recall, slower
+  exact?: boolean; // skip the ANN index and scan all vectors
+  signal?: AbortSignal;
+}
+
+// Retrieval-augmented generation (AIProvider.ask)
+export interface AskOptions extends ChatOptions, HybridSearchOptions {
+  k?: number; // chunks to retrieve, default 4
+  filter?: MetadataFilter;
+  scoreThreshold?: number; // drop retrieved chunks scoring below this
+  // Must contain {{context}}; {{question}} is replaced with the question
+  promptTemplate?: string;
+  maxContextTokens?: number; // cap on packed context, below the model budget
+  onToken?: (text: string) => void;
+  onProgress?: (event: AskProgressEventData) => void;
+}
+
+export interface Citation {
+  marker: number; // [n] label used in the prompt
+  id: string;
+  score: number;
+  chunkIndex?: number;
+  startChar?: number;
+  endChar?: number;
+  text: string;
+  metadata: VectorDocMeta;
+}
+
+export interface AskResponse {
+  answer: string;
+  citations: Citation[];
+  // Retrieved chunks left out because the token budget ran out
+  droppedIds: string[];
 }
 
 export interface ResourceUsageSnapshot {
@@ -77,3 +77,10 @@ export class ConfigurationError extends Error {
     this.name = 'ConfigurationError';
   }
 }
+
+export class AbortError extends Error {
+  constructor(message = 'Operation cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
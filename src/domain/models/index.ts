@@ -36,6 +36,10 @@ export interface ITTSModel extends IModel {
     text: string,
     options?: import('../../core/types').TTSOptions
   ): Promise<Blob>;
+  synthesizeStream(
+    text: string | AsyncIterable<string>,
+    options?: import('../../core/types').SpeakStreamOptions
+  ): AsyncGenerator<import('../../core/types').SpeechStreamChunk, void>;
 }
 
 export interface ISTTModel extends IModel {
@@ -43,6 +47,10 @@ export interface ISTTModel extends IModel {
     audio: Blob | Float32Array | string,
     options?: import('../../core/types').STTOptions
   ): Promise<string>;
+  transcribeDetailed(
+    audio: Blob | Float32Array | string,
+    options?: import('../../core/types').STTOptions
+  ): Promise<import('../../core/types').TranscriptionResult>;
 }
 
 export interface IEmbeddingModel extends IModel {
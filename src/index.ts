@@ -42,6 +42,122 @@ export type {
   ChunkingOptions,
 } from './core/types';
 
+// Retrieval-augmented generation
+export {
+  DEFAULT_ASK_PROMPT_TEMPLATE,
+  packContext,
+  renderPrompt,
+} from './app/rag';
+export type {
+  AskOptions,
+  AskResponse,
+  AskProgressEventData,
+  Citation,
+} from './core/types';
+
+// Tool calling
+export {
+  ToolRegistry,
+  runToolLoop,
+  parseToolCalls,
+  templateSupportsTools,
+} from './app/tools';
+export type {
+  ToolHandler,
+  ToolSpec,
+  ToolLoopOptions,
+  ToolLoopResult,
+} from './app/tools';
+export type { ToolDefinition, ToolChoice, ToolCall } from './core/types';
+
+// Constrained generation
+export {
+  parseGrammar,
+  GrammarMatcher,
+  jsonSchemaToGrammar,
+  TokenVocabulary,
+  createGrammarLogitsProcessor,
+} from './app/generation';
+export type {
+  CompiledGrammar,
+  JsonSchema,
+  LogitsProcessorFunction,
+} from './app/generation';
+export type { ResponseFormat, OpenAIResponseFormat } from './core/types';
+
+// Timed transcription
+export {
+  toSRT,
+  toWebVTT,
+  formatTimestamp,
+  TranscriptionSession,
+} from './app/transcription';
+export type {
+  SubtitleOptions,
+  TranscribeFunction,
+  TranscriptionSessionEventMap,
+} from './app/transcription';
+export {
+  VoiceActivityDetector,
+  detectSpeech,
+} from './utils/VoiceActivityDetector';
+export type {
+  TranscriptionResult,
+  TranscriptionSegment,
+  TranscriptionWord,
+  TranscriptionProgressEventData,
+  TranscriptionSessionOptions,
+  TranscriptEvent,
+  VADOptions,
+} from './core/types';
+
+// Streaming speech synthesis
+export {
+  SentenceChunker,
+  splitSentences,
+  streamSynthesis,
+} from './app/synthesis';
+export type {
+  SentenceChunkerOptions,
+  SynthesizeSentence,
+  SpeechStreamOptions,
+} from './app/synthesis';
+export type { SpeakStreamOptions, SpeechStreamChunk } from './core/types';
+
+// SSML
+export { parseSsml, isSsml, numberToWords } from './app/synthesis';
+export type { SsmlSegment } from './app/synthesis';
+
+// OCR layout, tables and export
+export {
+  buildLayout,
+  readingOrder,
+  layoutLines,
+  layoutWords,
+  resultLayout,
+  suggestPsm,
+  detectTables,
+  tableToCSV,
+  tableToJSON,
+  toHOCR,
+  toALTO,
+  toSearchablePDF,
+} from './app/ocr';
+export type {
+  TesseractPageData,
+  PDFPageImage,
+  OCRExportOptions,
+  OCRSearchablePDFOptions,
+  OCRBBox,
+  OCRLayoutBlock,
+  OCRLayoutParagraph,
+  OCRLayoutLine,
+  OCRLayoutWord,
+  OCRTable,
+  OCRTableCell,
+  OCRTableOptions,
+} from './app/ocr';
+
 // Backend and AutoScaling
 export { BackendSelector } from './app/backend/BackendSelector';
 export { AutoScaler } from './app/autoscaler/AutoScaler';
@@ -51,6 +167,36 @@ export {
   VoiceProfileRegistry,
   voiceProfileRegistry,
 } from './core/VoiceProfileRegistry';
+export type {
+  VoiceProfileRegistryOptions,
+  VoiceFromAudioOptions,
+  ImportProfilesOptions,
+} from './core/VoiceProfileRegistry';
+export {
+  IndexedDBVoiceProfileStorage,
+  FileVoiceProfileStorage,
+  createVoiceProfileStorage,
+  serializeProfiles,
+  parseProfiles,
+  VOICE_PROFILES_FORMAT,
+  VOICE_PROFILES_VERSION,
+} from './core/VoiceProfileStorage';
+export type {
+  VoiceProfileBundle,
+  SerializedVoiceProfile,
+  VoiceProfileStorage,
+} from './core/VoiceProfileStorage';
+export {
+  SpeechBrainXVectorEncoder,
+  XVectorEncoder,
+  averageEmbeddings,
+  SPEAKER_EMBEDDING_SIZE,
+} from './core/SpeakerEncoder';
+export type {
+  SpeakerEncoder,
+  SpeechBrainXVectorEncoderOptions,
+  XVectorEncoderOptions,
+} from './core/SpeakerEncoder';
 
 // Types
 export type {
@@ -66,14 +212,28 @@ export type {
   Message,
   ChatResponse,
   TokenUsage,
+  CompletionResponse,
+  StreamSummary,
   // Options types
   ChatOptions,
   CompletionOptions,
+  CountTokensOptions,
   TTSOptions,
   STTOptions,
   EmbeddingOptions,
   OCROptions,
   OCRResult,
+  OCRPreprocessPreset,
+  OCRPreprocessStep,
+  OCRPreprocessStepName,
+  OCRPreprocessReport,
+  OCRDocumentFormat,
+  OCRDocumentOptions,
+  OCRDocumentResult,
+  OCRPageResult,
+  OCRProgressEventData,
+  OCROrientation,
+  OCRScriptDetection,
   // Status types
   ModelStatus,
   ProgressInfo,
@@ -102,6 +262,10 @@ export type {
   ChunkingOptions,
   VectorizationStage,
   JobStatus,
+  MetadataFilter,
+  FilterOperators,
+  FilterValue,
+  HybridSearchOptions,
 } from './core/types';
 
 // Utility types and classes
@@ -109,8 +273,41 @@ export type {
   AudioInput,
   AudioOutput,
   AudioMetadata,
+  SpeechRegion,
+  SpeechChunk,
+  AudioFormat,
+  AudioEncodeOptions,
+  Mp3Bitrate,
+} from './utils/AudioConverter';
+export {
+  audioConverter,
+  AudioConverter,
+  MP3_BITRATES,
 } from './utils/AudioConverter';
-export { audioConverter, AudioConverter } from './utils/AudioConverter';
+export {
+  applyProsody,
+  timeStretch,
+  pitchShift,
+  resample,
+  StreamResampler,
+  validateProsody,
+  clampProsody,
+  PROSODY_RANGE,
+} from './utils/dsp';
+export type { Prosody, TimeStretchOptions } from './utils/dsp';
+export {
+  preprocessImage,
+  decodeImage,
+  resolvePreprocessPipeline,
+  OCR_PREPROCESS_PRESETS,
+} from './utils/ocr/preprocess';
+export type {
+  PreprocessResult,
+  ResolvedPreprocessStep,
+} from './utils/ocr/preprocess';
+export type { PixelImage } from './utils/ocr/imageFilters';
+export { openDocument, detectDocumentFormat } from './utils/ocr/documents';
+export type { OCRDocument, DocumentPage } from './utils/ocr/documents';
 
 // Progress tracking
 export { ProgressTracker } from './utils/ProgressTracker';
@@ -141,6 +338,7 @@ export {
   InferenceError,
   InitializationError,
   ConfigurationError,
+  AbortError,
 } from './domain/errors';
 
 // Domain model contracts
@@ -50,6 +50,11 @@ export interface ResourceUsageEstimator {
     exceeded: string[];
   };
 
+  /**
+   * Emit a usage snapshot (and quota warnings when thresholds are exceeded)
+   */
+  emitResourceUsage(usage: ResourceUsageSnapshot): void;
+
   /**
    * Start measuring resource usage for an operation
    */
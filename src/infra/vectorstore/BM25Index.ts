@@ -0,0 +1,158 @@
+/**
+ * In-memory inverted index with Okapi BM25 scoring, used for the lexical
+ * half of hybrid search
+ */
+
+export interface BM25Options {
+  k1?: number; // term frequency saturation
+  b?: number; // document length normalization (0-1)
+}
+
+export interface BM25SearchResult {
+  id: string;
+  score: number;
+}
+
+interface IndexedDocument {
+  length: number;
+  terms: Map<string, number>; // term -> frequency
+}
+
+export class BM25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>(); // term -> document ids
+  private totalLength = 0;
+
+  constructor(options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Index (or re-index) a document's text
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const terms = new Map<string, number>();
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) || 0) + 1);
+    }
+
+    this.documents.set(id, { length: tokens.length, terms });
+    this.totalLength += tokens.length;
+    for (const term of terms.keys()) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+      }
+      this.postings.get(term)!.add(id);
+    }
+  }
+
+  remove(id: string): boolean {
+    const doc = this.documents.get(id);
+    if (!doc) {
+      return false;
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= doc.length;
+    for (const term of doc.terms.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    return true;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Top-k documents by BM25 score, best first. Documents sharing no term
+   * with the query are not returned.
+   */
+  search(query: string, k = 10): BM25SearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      for (const id of this.postings.get(term) ?? []) {
+        scores.set(id, (scores.get(id) || 0) + this.termScore(term, id));
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  /**
+   * BM25 score of a single document for the query (0 when unindexed)
+   */
+  score(query: string, id: string): number {
+    if (!this.documents.has(id)) {
+      return 0;
+    }
+    return [...new Set(tokenize(query))].reduce(
+      (sum, term) => sum + this.termScore(term, id),
+      0
+    );
+  }
+
+  private termScore(term: string, id: string): number {
+    const doc = this.documents.get(id)!;
+    const frequency = doc.terms.get(term);
+    if (!frequency) {
+      return 0;
+    }
+
+    const documentCount = this.documents.size;
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    const idf = Math.log(
+      1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)
+    );
+    const averageLength = this.totalLength / documentCount || 1;
+    const norm = this.k1 * (1 - this.b + (this.b * doc.length) / averageLength);
+
+    return (idf * frequency * (this.k1 + 1)) / (frequency + norm);
+  }
+}
+
+/**
+ * Lowercased word tokens. Compound tokens such as part numbers ("AB-1234",
+ * "v2.1") are kept whole and also split into their parts.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words =
+    text
+      .normalize('NFKC')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu) || [];
+
+  for (const word of words) {
+    tokens.push(word);
+    const parts = word.split(/[-_./]/);
+    if (parts.length > 1) {
+      tokens.push(...parts);
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,487 @@
+/**
+ * HNSW (Hierarchical Navigable Small World) index for approximate
+ * nearest-neighbour search by cosine similarity
+ */
+
+export interface HNSWOptions {
+  M?: number; // max links per node on upper layers (2*M on layer 0)
+  efConstruction?: number; // candidate list size while inserting
+  efSearch?: number; // candidate list size while querying (recall/speed knob)
+  seed?: number; // makes level assignment deterministic (tests)
+}
+
+/**
+ * Persisted form of a single graph node (vectors are stored separately)
+ */
+export interface HNSWNodeRecord {
+  id: string;
+  level: number;
+  neighbors: string[][];
+}
+
+export interface HNSWMetaRecord {
+  key: string; // 'hnsw', or one key per index when a store keeps several
+  entryPoint: string | null;
+  maxLevel: number;
+  M: number;
+  efConstruction: number;
+  dimension: number | null;
+}
+
+/**
+ * Nodes touched since the last call to takeChanges()
+ */
+export interface HNSWChanges {
+  meta: HNSWMetaRecord;
+  updated: HNSWNodeRecord[];
+  removed: string[];
+}
+
+export interface HNSWSearchResult {
+  id: string;
+  score: number;
+}
+
+interface HNSWNode {
+  id: string;
+  vector: Float32Array; // L2-normalized
+  level: number;
+  neighbors: string[][];
+}
+
+export class HNSWIndex {
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+
+  private nodes = new Map<string, HNSWNode>();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private dimension: number | null = null;
+  private levelMultiplier: number;
+  private random: () => number;
+  private dirty = new Set<string>();
+  private removed = new Set<string>();
+
+  constructor(options: HNSWOptions = {}) {
+    this.M = Math.max(2, options.M ?? 16);
+    this.efConstruction = Math.max(this.M, options.efConstruction ?? 200);
+    this.efSearch = Math.max(1, options.efSearch ?? 50);
+    this.levelMultiplier = 1 / Math.log(this.M);
+    this.random =
+      options.seed !== undefined ? seededRandom(options.seed) : Math.random;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Insert or replace a vector
+   */
+  add(id: string, vector: ArrayLike<number>): void {
+    if (this.dimension !== null && vector.length !== this.dimension) {
+      throw new Error('Vector dimensions do not match');
+    }
+
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+    this.removed.delete(id);
+    this.dimension = vector.length;
+
+    const level = Math.floor(
+      -Math.log(1 - this.random()) * this.levelMultiplier
+    );
+    const node: HNSWNode = {
+      id,
+      vector: normalize(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    this.nodes.set(id, node);
+    this.dirty.add(id);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = [this.entryPoint];
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = [this.searchLayer(node.vector, entry, 1, l)[0].id];
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(
+        node.vector,
+        entry,
+        this.efConstruction,
+        l
+      );
+      node.neighbors[l] = candidates
+        .slice(0, this.maxConnections(l))
+        .map(c => c.id);
+
+      for (const neighborId of node.neighbors[l]) {
+        this.link(this.nodes.get(neighborId)!, id, l);
+      }
+      entry = candidates.map(c => c.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Remove a vector and reconnect its neighbours
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) {
+      return false;
+    }
+
+    this.nodes.delete(id);
+    this.dirty.delete(id);
+    this.removed.add(id);
+
+    for (let l = 0; l <= node.level; l++) {
+      for (const neighborId of node.neighbors[l]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || neighbor.level < l) continue;
+
+        const candidates = new Set(
+          neighbor.neighbors[l].filter(n => n !== id && this.nodes.has(n))
+        );
+        for (const other of node.neighbors[l]) {
+          if (other !== neighborId && this.nodes.has(other)) {
+            candidates.add(other);
+          }
+        }
+        neighbor.neighbors[l] = this.selectNeighbors(
+          neighbor.vector,
+          [...candidates],
+          this.maxConnections(l)
+        );
+        this.dirty.add(neighborId);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > this.maxLevel) {
+          this.maxLevel = candidate.level;
+          this.entryPoint = candidate.id;
+        }
+      }
+    }
+    if (this.nodes.size === 0) {
+      this.dimension = null;
+    }
+
+    return true;
+  }
+
+  /**
+   * Approximate k nearest neighbours, best first. Higher `ef` trades
+   * speed for recall.
+   */
+  search(
+    query: ArrayLike<number>,
+    k: number,
+    ef: number = this.efSearch
+  ): HNSWSearchResult[] {
+    if (this.entryPoint === null || k <= 0) {
+      return [];
+    }
+    if (query.length !== this.dimension) {
+      throw new Error('Vector dimensions do not match');
+    }
+
+    const vector = normalize(query);
+    let entry = [this.entryPoint];
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = [this.searchLayer(vector, entry, 1, l)[0].id];
+    }
+
+    return this.searchLayer(vector, entry, Math.max(ef, k), 0).slice(0, k);
+  }
+
+  clear(): void {
+    for (const id of this.nodes.keys()) {
+      this.removed.add(id);
+    }
+    this.nodes.clear();
+    this.dirty.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    this.dimension = null;
+  }
+
+  getMeta(): HNSWMetaRecord {
+    return {
+      key: 'hnsw',
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      dimension: this.dimension,
+    };
+  }
+
+  /**
+   * All node records, for a full write of the index
+   */
+  toRecords(): HNSWNodeRecord[] {
+    return Array.from(this.nodes.values(), toRecord);
+  }
+
+  /**
+   * Collect and reset pending changes for incremental persistence
+   */
+  takeChanges(): HNSWChanges {
+    const changes: HNSWChanges = {
+      meta: this.getMeta(),
+      updated: Array.from(this.dirty, id => toRecord(this.nodes.get(id)!)),
+      removed: Array.from(this.removed),
+    };
+    this.dirty.clear();
+    this.removed.clear();
+    return changes;
+  }
+
+  /**
+   * Rebuild an index from persisted records. Returns null when the records
+   * don't match the vectors or the options, so the caller can rebuild.
+   */
+  static restore(
+    meta: HNSWMetaRecord,
+    records: HNSWNodeRecord[],
+    vectors: Map<string, ArrayLike<number>>,
+    options: HNSWOptions = {}
+  ): HNSWIndex | null {
+    const index = new HNSWIndex(options);
+    if (
+      meta.M !== index.M ||
+      meta.efConstruction !== index.efConstruction ||
+      records.length !== vectors.size
+    ) {
+      return null;
+    }
+
+    for (const record of records) {
+      const vector = vectors.get(record.id);
+      if (!vector || vector.length !== meta.dimension) {
+        return null;
+      }
+      index.nodes.set(record.id, {
+        id: record.id,
+        vector: normalize(vector),
+        level: record.level,
+        neighbors: record.neighbors.map(list => [...list]),
+      });
+    }
+
+    if (meta.entryPoint !== null && !index.nodes.has(meta.entryPoint)) {
+      return null;
+    }
+
+    index.entryPoint = meta.entryPoint;
+    index.maxLevel = meta.maxLevel;
+    index.dimension = meta.dimension;
+    return index;
+  }
+
+  private maxConnections(level: number): number {
+    return level === 0 ? this.M * 2 : this.M;
+  }
+
+  private link(node: HNSWNode, neighborId: string, level: number): void {
+    if (node.neighbors[level].includes(neighborId)) {
+      return;
+    }
+
+    node.neighbors[level].push(neighborId);
+    if (node.neighbors[level].length > this.maxConnections(level)) {
+      node.neighbors[level] = this.selectNeighbors(
+        node.vector,
+        node.neighbors[level],
+        this.maxConnections(level)
+      );
+    }
+    this.dirty.add(node.id);
+  }
+
+  private selectNeighbors(
+    vector: Float32Array,
+    ids: string[],
+    max: number
+  ): string[] {
+    return ids
+      .filter(id => this.nodes.has(id))
+      .map(id => ({ id, score: dot(vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, max)
+      .map(c => c.id);
+  }
+
+  /**
+   * Best-first search on one layer, returns up to `ef` results best first
+   */
+  private searchLayer(
+    query: Float32Array,
+    entryIds: string[],
+    ef: number,
+    level: number
+  ): HNSWSearchResult[] {
+    const visited = new Set<string>();
+    // Max-heap of candidates to expand, min-heap of current results
+    const candidates = new BinaryHeap<HNSWSearchResult>(
+      (a, b) => b.score - a.score
+    );
+    const results = new BinaryHeap<HNSWSearchResult>(
+      (a, b) => a.score - b.score
+    );
+
+    for (const id of entryIds) {
+      const node = this.nodes.get(id);
+      if (!node || visited.has(id)) continue;
+      visited.add(id);
+      const entry = { id, score: dot(query, node.vector) };
+      candidates.push(entry);
+      results.push(entry);
+      if (results.size > ef) results.pop();
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.score < results.peek()!.score) {
+        break;
+      }
+
+      const node = this.nodes.get(current.id)!;
+      for (const neighborId of node.neighbors[level] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const score = dot(query, neighbor.vector);
+        if (results.size < ef || score > results.peek()!.score) {
+          const entry = { id: neighborId, score };
+          candidates.push(entry);
+          results.push(entry);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.score - a.score);
+  }
+}
+
+function toRecord(node: HNSWNode): HNSWNodeRecord {
+  return {
+    id: node.id,
+    level: node.level,
+    neighbors: node.neighbors.map(list => [...list]),
+  };
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * mulberry32 PRNG
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Minimal binary heap; the comparator returns < 0 when `a` should be on top
+ */
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.compare(items[left], items[best]) < 0)
+          best = left;
+        if (right < items.length && this.compare(items[right], items[best]) < 0)
+          best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
@@ -8,7 +8,19 @@ import type {
   VectorQueryResult,
   QueryOptions,
 } from './VectorStore';
-import type { VectorDocMeta } from '../../core/types';
+import type { VectorDocMeta, MetadataFilter } from '../../core/types';
+import {
+  HNSWIndex,
+  type HNSWOptions,
+  type HNSWMetaRecord,
+  type HNSWNodeRecord,
+} from './HNSWIndex';
+import {
+  matchesFilter,
+  planIndexScan,
+  validateFilter,
+  type IndexKeyRange,
+} from './MetadataFilter';
 
 interface StoredDocument {
   id: string;
@@ -17,14 +29,32 @@ interface StoredDocument {
   createdAt: number;
 }
 
+export interface LocalVectorStoreOptions {
+  index?: 'hnsw' | 'none'; // default 'hnsw'
+  hnsw?: HNSWOptions;
+  bruteForceThreshold?: number; // below this many vectors query scans linearly (default 1000)
+}
+
+// Metadata fields backed by IndexedDB indexes, most selective first
+const INDEXED_FIELDS = ['mime', 'createdAt', 'modality'];
+
+// How many extra ANN candidates to fetch when a metadata filter is applied
+const FILTER_OVERFETCH = 4;
+
 export class LocalVectorStoreIndexedDB implements VectorStore {
   private db: IDBDatabase | null = null;
   private readonly dbName = 'TransformersRouterVectors';
   private readonly storeName = 'vectors';
+  private readonly nodesStoreName = 'hnsw_nodes';
+  private readonly metaStoreName = 'hnsw_meta';
   private readonly vectorDimension: number;
+  private readonly options: LocalVectorStoreOptions;
+  // One graph per vector dimension: text and image/audio vectors differ in size
+  private indexes: Map<number, HNSWIndex> | null = null;
 
-  constructor(vectorDimension = 512) {
+  constructor(vectorDimension = 512, options: LocalVectorStoreOptions = {}) {
     this.vectorDimension = vectorDimension;
+    this.options = options;
   }
 
   /**
@@ -35,8 +65,8 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
       return;
     }
 
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, 1);
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 2);
 
       request.onerror = () =>
         reject(new Error(`IndexedDB error: ${request.error}`));
@@ -58,8 +88,20 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
           });
           store.createIndex('mime', 'metadata.mime', { unique: false });
         }
+
+        // ANN graph, persisted next to the vectors (added in version 2)
+        if (!db.objectStoreNames.contains(this.nodesStoreName)) {
+          db.createObjectStore(this.nodesStoreName, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(this.metaStoreName)) {
+          db.createObjectStore(this.metaStoreName, { keyPath: 'key' });
+        }
       };
     });
+
+    if (this.options.index !== 'none') {
+      await this.loadIndex();
+    }
   }
 
   /**
@@ -87,11 +129,21 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
       });
     });
 
-    await Promise.all(promises);
+    await Promise.all([...promises, this.transactionToPromise(transaction)]);
+
+    // Only stored vectors enter the graph; a failed graph write is repaired
+    // by the rebuild in loadIndex
+    if (this.indexes) {
+      documents.forEach(doc => {
+        this.removeFromIndexes(doc.id, doc.vector.length);
+        this.getIndex(doc.vector.length).add(doc.id, doc.vector);
+      });
+      await this.persistIndexChanges();
+    }
   }
 
   /**
-   * Query vectors using cosine similarity
+   * Query vectors using cosine similarity (HNSW index for large stores)
    */
   async query(
     queryVector: Float32Array,
@@ -100,7 +152,26 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
     await this.ensureInitialized();
 
     const { k = 10, filter } = options;
-    const allResults = await this.getAllDocuments(filter);
+    if (filter) {
+      validateFilter(filter);
+    }
+
+    const index = this.indexes?.get(queryVector.length);
+    if (
+      index &&
+      !options.exact &&
+      index.size >= (this.options.bruteForceThreshold ?? 1000)
+    ) {
+      const results = await this.queryIndex(index, queryVector, options);
+      if (results) {
+        return results;
+      }
+    }
+
+    // Only vectors of the query's dimension are comparable
+    const allResults = (await this.getAllDocuments(filter)).filter(
+      doc => doc.vector.length === queryVector.length
+    );
 
     // Calculate similarities
     const resultsWithScores: VectorQueryResult[] = allResults.map(doc => {
@@ -120,6 +191,29 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
     return resultsWithScores.slice(0, k);
   }
 
+  /**
+   * Get metadata for the given IDs (missing IDs are skipped), or for all documents
+   */
+  async getMetadata(ids?: string[]): Promise<VectorDocMeta[]> {
+    await this.ensureInitialized();
+
+    if (!ids) {
+      const documents = await this.getAllDocuments();
+      return documents.map(doc => doc.metadata);
+    }
+
+    const transaction = this.db!.transaction([this.storeName], 'readonly');
+    const store = transaction.objectStore(this.storeName);
+    const documents = await Promise.all(
+      ids.map(id =>
+        this.requestToPromise<StoredDocument | undefined>(store.get(id))
+      )
+    );
+    return documents
+      .filter((doc): doc is StoredDocument => doc !== undefined)
+      .map(doc => doc.metadata);
+  }
+
   /**
    * Delete vectors by IDs
    */
@@ -138,7 +232,12 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
       });
     });
 
-    await Promise.all(promises);
+    await Promise.all([...promises, this.transactionToPromise(transaction)]);
+
+    if (this.indexes) {
+      ids.forEach(id => this.removeFromIndexes(id));
+      await this.persistIndexChanges();
+    }
   }
 
   /**
@@ -163,14 +262,25 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
   async clear(): Promise<void> {
     await this.ensureInitialized();
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.clear();
-
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(new Error('Failed to clear store'));
-    });
+    this.indexes?.clear();
+
+    // Always drop the graph too, so a later index load can't pick up stale nodes
+    const storeNames = [
+      this.storeName,
+      this.nodesStoreName,
+      this.metaStoreName,
+    ];
+    const transaction = this.db!.transaction(storeNames, 'readwrite');
+    await Promise.all(
+      storeNames.map(
+        name =>
+          new Promise<void>((resolve, reject) => {
+            const request = transaction.objectStore(name).clear();
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(new Error('Failed to clear store'));
+          })
+      )
+    );
   }
 
   /**
@@ -181,6 +291,7 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
       this.db.close();
       this.db = null;
     }
+    this.indexes = null;
   }
 
   private async ensureInitialized(): Promise<void> {
@@ -189,31 +300,246 @@ export class LocalVectorStoreIndexedDB implements VectorStore {
     }
   }
 
+  private getIndex(dimension: number): HNSWIndex {
+    let index = this.indexes!.get(dimension);
+    if (!index) {
+      index = new HNSWIndex(this.options.hnsw);
+      this.indexes!.set(dimension, index);
+    }
+    return index;
+  }
+
+  /**
+   * Drop an id from every graph, except the one for `keepDimension`
+   */
+  private removeFromIndexes(id: string, keepDimension?: number): void {
+    this.indexes!.forEach((index, dimension) => {
+      if (dimension !== keepDimension) {
+        index.remove(id);
+      }
+    });
+  }
+
+  private metaKey(dimension: number): string {
+    return `hnsw:${dimension}`;
+  }
+
+  /**
+   * Restore the persisted HNSW graphs, or rebuild them from the stored
+   * vectors when any is missing or out of sync
+   */
+  private async loadIndex(): Promise<void> {
+    const transaction = this.db!.transaction(
+      [this.storeName, this.nodesStoreName, this.metaStoreName],
+      'readonly'
+    );
+    const [documents, records, metas] = await Promise.all([
+      this.requestToPromise<StoredDocument[]>(
+        transaction.objectStore(this.storeName).getAll()
+      ),
+      this.requestToPromise<HNSWNodeRecord[]>(
+        transaction.objectStore(this.nodesStoreName).getAll()
+      ),
+      this.requestToPromise<HNSWMetaRecord[]>(
+        transaction.objectStore(this.metaStoreName).getAll()
+      ),
+    ]);
+
+    const byDimension = new Map<number, Map<string, number[]>>();
+    documents.forEach(doc => {
+      const vectors = byDimension.get(doc.vector.length) ?? new Map();
+      vectors.set(doc.id, doc.vector);
+      byDimension.set(doc.vector.length, vectors);
+    });
+
+    this.indexes = new Map();
+    if (
+      records.length === documents.length &&
+      metas.length === byDimension.size
+    ) {
+      for (const [dimension, vectors] of byDimension) {
+        const meta = metas.find(m => m.key === this.metaKey(dimension));
+        const restored =
+          meta &&
+          HNSWIndex.restore(
+            meta,
+            records.filter(record => vectors.has(record.id)),
+            vectors,
+            this.options.hnsw
+          );
+        if (!restored) {
+          break;
+        }
+        this.indexes.set(dimension, restored);
+      }
+      if (this.indexes.size === byDimension.size) {
+        return;
+      }
+    }
+
+    this.indexes = new Map();
+    documents.forEach(doc =>
+      this.getIndex(doc.vector.length).add(doc.id, doc.vector)
+    );
+
+    const rebuild = this.db!.transaction(
+      [this.nodesStoreName, this.metaStoreName],
+      'readwrite'
+    );
+    // Requests run in order, so stale records are cleared before the writes
+    await Promise.all([
+      this.requestToPromise(rebuild.objectStore(this.nodesStoreName).clear()),
+      this.requestToPromise(rebuild.objectStore(this.metaStoreName).clear()),
+      ...this.writeIndexChanges(rebuild),
+    ]);
+  }
+
+  /**
+   * Write the graph changes in a transaction of their own
+   */
+  private async persistIndexChanges(): Promise<void> {
+    const transaction = this.db!.transaction(
+      [this.nodesStoreName, this.metaStoreName],
+      'readwrite'
+    );
+    await Promise.all([
+      ...this.writeIndexChanges(transaction),
+      this.transactionToPromise(transaction),
+    ]);
+  }
+
+  /**
+   * Write nodes touched since the last write within the given transaction;
+   * graphs left empty are dropped
+   */
+  private writeIndexChanges(transaction: IDBTransaction): Promise<unknown>[] {
+    const nodes = transaction.objectStore(this.nodesStoreName);
+    const metas = transaction.objectStore(this.metaStoreName);
+    const writes: Promise<unknown>[] = [];
+    this.indexes?.forEach((index, dimension) => {
+      const changes = index.takeChanges();
+      writes.push(
+        ...changes.updated.map(record =>
+          this.requestToPromise(nodes.put(record))
+        ),
+        ...changes.removed.map(id => this.requestToPromise(nodes.delete(id)))
+      );
+      const key = this.metaKey(dimension);
+      if (index.size === 0) {
+        this.indexes!.delete(dimension);
+        writes.push(this.requestToPromise(metas.delete(key)));
+      } else {
+        writes.push(this.requestToPromise(metas.put({ ...changes.meta, key })));
+      }
+    });
+    return writes;
+  }
+
+  /**
+   * ANN query; returns null when a filter leaves too few candidates so the
+   * caller can fall back to a linear scan
+   */
+  private async queryIndex(
+    index: HNSWIndex,
+    queryVector: Float32Array,
+    options: QueryOptions
+  ): Promise<VectorQueryResult[] | null> {
+    const { k = 10, filter, efSearch } = options;
+    const fetchK = filter ? k * FILTER_OVERFETCH : k;
+    const candidates = index.search(
+      queryVector,
+      fetchK,
+      Math.max(efSearch ?? index.efSearch, fetchK)
+    );
+
+    const transaction = this.db!.transaction([this.storeName], 'readonly');
+    const store = transaction.objectStore(this.storeName);
+    const documents = await Promise.all(
+      candidates.map(c =>
+        this.requestToPromise<StoredDocument | undefined>(store.get(c.id))
+      )
+    );
+
+    const results: VectorQueryResult[] = [];
+    candidates.forEach((candidate, i) => {
+      const doc = documents[i];
+      if (doc && (!filter || matchesFilter(doc.metadata, filter))) {
+        results.push({
+          id: candidate.id,
+          score: candidate.score,
+          metadata: doc.metadata,
+        });
+      }
+    });
+
+    if (filter && results.length < k && candidates.length === fetchK) {
+      return null;
+    }
+    return results.slice(0, k);
+  }
+
+  /**
+   * Load documents matching the filter, narrowing the scan with the
+   * modality/mime/createdAt indexes when the filter allows it
+   */
   private async getAllDocuments(
-    filter?: Partial<VectorDocMeta>
+    filter?: MetadataFilter
   ): Promise<StoredDocument[]> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], 'readonly');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.getAll();
+    const transaction = this.db!.transaction([this.storeName], 'readonly');
+    const store = transaction.objectStore(this.storeName);
+    const plan = filter ? planIndexScan(filter, INDEXED_FIELDS) : null;
+
+    let results: StoredDocument[];
+    try {
+      if (plan) {
+        const index = store.index(plan.index);
+        const batches = await Promise.all(
+          plan.ranges.map(range =>
+            this.requestToPromise<StoredDocument[]>(
+              index.getAll(this.toKeyRange(range))
+            )
+          )
+        );
+        results = batches.flat();
+      } else {
+        results = await this.requestToPromise<StoredDocument[]>(store.getAll());
+      }
+    } catch {
+      throw new Error('Failed to retrieve documents');
+    }
 
-      request.onsuccess = () => {
-        let results = request.result as StoredDocument[];
-
-        // Apply filters if provided
-        if (filter) {
-          results = results.filter(doc => {
-            const metadata = doc.metadata;
-            return Object.entries(filter).every(([key, value]) => {
-              return metadata[key as keyof VectorDocMeta] === value;
-            });
-          });
-        }
+    return filter
+      ? results.filter(doc => matchesFilter(doc.metadata, filter))
+      : results;
+  }
 
-        resolve(results);
-      };
+  private toKeyRange(range: IndexKeyRange): IDBKeyRange {
+    const { lower, upper, lowerOpen = false, upperOpen = false } = range;
+    if (lower !== undefined && upper !== undefined) {
+      return lower === upper && !lowerOpen && !upperOpen
+        ? IDBKeyRange.only(lower)
+        : IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+    }
+    return lower !== undefined
+      ? IDBKeyRange.lowerBound(lower, lowerOpen)
+      : IDBKeyRange.upperBound(upper!, upperOpen);
+  }
 
-      request.onerror = () => reject(new Error('Failed to retrieve documents'));
+  private transactionToPromise(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(new Error(`IndexedDB error: ${transaction.error}`));
+      transaction.onabort = () =>
+        reject(new Error(`IndexedDB error: ${transaction.error}`));
+    });
+  }
+
+  private requestToPromise<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () =>
+        reject(new Error(`IndexedDB error: ${request.error}`));
     });
   }
 
@@ -0,0 +1,333 @@
+/**
+ * Metadata filter evaluation and IndexedDB index planning
+ */
+
+import type {
+  FilterOperators,
+  FilterValue,
+  MetadataFilter,
+} from '../../core/types';
+import { ValidationError } from '@domain/errors';
+
+/**
+ * Key range over a single IndexedDB index, kept free of IDBKeyRange so it
+ * can be planned (and tested) without a browser
+ */
+export interface IndexKeyRange {
+  lower?: string | number;
+  upper?: string | number;
+  lowerOpen?: boolean;
+  upperOpen?: boolean;
+}
+
+/**
+ * Index lookup covering every document that can match the filter (no
+ * ranges when none can). Results still have to be checked with
+ * matchesFilter().
+ */
+export interface IndexScanPlan {
+  index: string;
+  ranges: IndexKeyRange[];
+}
+
+const OPERATORS = new Set([
+  '$eq',
+  '$ne',
+  '$in',
+  '$nin',
+  '$gt',
+  '$gte',
+  '$lt',
+  '$lte',
+  '$exists',
+  '$prefix',
+]);
+
+// Highest code unit, used as the exclusive upper bound of prefix ranges
+const PREFIX_END = '\uffff';
+
+/**
+ * Throw a ValidationError if the filter uses unknown operators or shapes
+ */
+export function validateFilter(filter: MetadataFilter): void {
+  for (const [key, condition] of Object.entries(filter)) {
+    if (condition === undefined) continue;
+
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition)) {
+        throw new ValidationError(`${key} expects an array of filters`, key);
+      }
+      (condition as MetadataFilter[]).forEach(validateFilter);
+      continue;
+    }
+    if (key.startsWith('$')) {
+      throw new ValidationError(`Unknown filter operator: ${key}`, key);
+    }
+
+    if (isOperatorObject(condition)) {
+      for (const [op, operand] of Object.entries(condition)) {
+        if (!OPERATORS.has(op)) {
+          throw new ValidationError(`Unknown filter operator: ${op}`, key);
+        }
+        if ((op === '$in' || op === '$nin') && !Array.isArray(operand)) {
+          throw new ValidationError(`${op} expects an array`, key);
+        }
+      }
+    } else if (!isFilterValue(condition)) {
+      throw new ValidationError(
+        `Unsupported filter value for "${key}", use an operator object`,
+        key
+      );
+    }
+  }
+}
+
+/**
+ * Evaluate a filter against document metadata
+ */
+export function matchesFilter(
+  metadata: Record<string, unknown>,
+  filter: MetadataFilter
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (condition === undefined) return true;
+
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every(f =>
+        matchesFilter(metadata, f)
+      );
+    }
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some(f =>
+        matchesFilter(metadata, f)
+      );
+    }
+
+    const value = getField(metadata, key);
+    const operators: FilterOperators = isOperatorObject(condition)
+      ? condition
+      : { $eq: condition as FilterValue };
+    return matchesOperators(value, operators);
+  });
+}
+
+/**
+ * Pick one indexed field condition that bounds the result set. Only
+ * top-level and $and conditions are used; $or branches are left to the
+ * in-memory check.
+ */
+export function planIndexScan(
+  filter: MetadataFilter,
+  indexedFields: string[]
+): IndexScanPlan | null {
+  const plans: Array<IndexScanPlan & { rank: number }> = [];
+
+  const collect = (f: MetadataFilter) => {
+    for (const [key, condition] of Object.entries(f)) {
+      if (key === '$and') {
+        (condition as MetadataFilter[]).forEach(collect);
+        continue;
+      }
+      if (!indexedFields.includes(key) || condition === undefined) continue;
+
+      const operators: FilterOperators = isOperatorObject(condition)
+        ? condition
+        : { $eq: condition as FilterValue };
+      const plan = planField(key, operators);
+      if (plan) plans.push(plan);
+    }
+  };
+  collect(filter);
+
+  if (plans.length === 0) return null;
+  // Empty ranges first, then equality, $in and ranges; earlier indexedFields
+  // win ties
+  plans.sort(
+    (a, b) =>
+      a.rank - b.rank ||
+      indexedFields.indexOf(a.index) - indexedFields.indexOf(b.index)
+  );
+  const { index, ranges } = plans[0];
+  return { index, ranges };
+}
+
+function planField(
+  index: string,
+  operators: FilterOperators
+): (IndexScanPlan & { rank: number }) | null {
+  if (isKey(operators.$eq)) {
+    return {
+      index,
+      rank: 0,
+      ranges: [{ lower: operators.$eq, upper: operators.$eq }],
+    };
+  }
+
+  if (operators.$in && operators.$in.every(isKey)) {
+    const keys = [...new Set(operators.$in as Array<string | number>)];
+    return {
+      index,
+      rank: 1,
+      ranges: keys.map(key => ({ lower: key, upper: key })),
+    };
+  }
+
+  const range: IndexKeyRange = {};
+  if (isKey(operators.$gt)) {
+    range.lower = operators.$gt;
+    range.lowerOpen = true;
+  }
+  if (isKey(operators.$gte) && !isKey(operators.$gt)) {
+    range.lower = operators.$gte;
+  }
+  if (isKey(operators.$lt)) {
+    range.upper = operators.$lt;
+    range.upperOpen = true;
+  }
+  if (isKey(operators.$lte) && !isKey(operators.$lt)) {
+    range.upper = operators.$lte;
+  }
+  if (
+    typeof operators.$prefix === 'string' &&
+    range.lower === undefined &&
+    range.upper === undefined
+  ) {
+    range.lower = operators.$prefix;
+    range.upper = operators.$prefix + PREFIX_END;
+  }
+
+  if (range.lower === undefined && range.upper === undefined) {
+    return null;
+  }
+  if (range.lower !== undefined && range.upper !== undefined) {
+    // Numbers and strings don't share a key order we can rely on
+    if (typeof range.lower !== typeof range.upper) {
+      return null;
+    }
+    // An empty range: nothing to scan, nothing can match
+    if (
+      range.lower > range.upper ||
+      (range.lower === range.upper && (range.lowerOpen || range.upperOpen))
+    ) {
+      return { index, rank: -1, ranges: [] };
+    }
+  }
+  return { index, rank: 2, ranges: [range] };
+}
+
+function matchesOperators(value: unknown, operators: FilterOperators): boolean {
+  const values = Array.isArray(value) ? value : [value];
+
+  for (const [op, operand] of Object.entries(operators)) {
+    if (operand === undefined) continue;
+
+    switch (op) {
+      case '$eq':
+        if (!values.some(v => isEqual(v, operand))) return false;
+        break;
+      case '$ne':
+        if (values.some(v => isEqual(v, operand))) return false;
+        break;
+      case '$in':
+        if (
+          !values.some(v => (operand as FilterValue[]).some(o => isEqual(v, o)))
+        )
+          return false;
+        break;
+      case '$nin':
+        if (
+          values.some(v => (operand as FilterValue[]).some(o => isEqual(v, o)))
+        )
+          return false;
+        break;
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        if (!values.some(v => compare(v, operand, op))) return false;
+        break;
+      case '$exists':
+        if ((value !== undefined) !== operand) return false;
+        break;
+      case '$prefix':
+        if (
+          !values.some(
+            v => typeof v === 'string' && v.startsWith(operand as string)
+          )
+        )
+          return false;
+        break;
+      default:
+        throw new ValidationError(`Unknown filter operator: ${op}`);
+    }
+  }
+
+  return true;
+}
+
+// null matches both null and missing fields
+function isEqual(value: unknown, operand: unknown): boolean {
+  if (operand === null) {
+    return value === null || value === undefined;
+  }
+  return value === operand;
+}
+
+function compare(value: unknown, operand: unknown, op: string): boolean {
+  if (
+    typeof value !== typeof operand ||
+    (typeof value !== 'number' && typeof value !== 'string')
+  ) {
+    return false;
+  }
+  const a = value as number | string;
+  const b = operand as number | string;
+  switch (op) {
+    case '$gt':
+      return a > b;
+    case '$gte':
+      return a >= b;
+    case '$lt':
+      return a < b;
+    default:
+      return a <= b;
+  }
+}
+
+function getField(metadata: Record<string, unknown>, path: string): unknown {
+  if (path in metadata) {
+    return metadata[path];
+  }
+
+  let current: unknown = metadata;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function isOperatorObject(condition: unknown): condition is FilterOperators {
+  return (
+    condition !== null &&
+    typeof condition === 'object' &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).every(key => key.startsWith('$'))
+  );
+}
+
+function isFilterValue(value: unknown): value is FilterValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  );
+}
+
+// Only strings and numbers are valid keys in our IndexedDB indexes
+function isKey(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number';
+}
@@ -37,6 +37,12 @@ export interface VectorStore {
     options?: QueryOptions
   ): Promise<VectorQueryResult[]>;
 
+  /**
+   * Metadata of the given documents, or of every document when ids are
+   * omitted (used to rebuild the lexical index and resolve keyword hits)
+   */
+  getMetadata?(ids?: string[]): Promise<VectorDocMeta[]>;
+
   /**
    * Delete vectors from the store
    */
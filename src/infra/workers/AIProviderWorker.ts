@@ -14,7 +14,7 @@ import type {
 import { WorkerPool } from './WorkerPool';
 import { EventEmitter } from '../events/EventEmitter';
 import { getConfig } from '../../app/state';
-import { ValidationError } from '@domain/errors';
+import { ValidationError, AbortError } from '@domain/errors';
 
 export class AIProviderWorker {
   private workerPool: WorkerPool | null = null;
@@ -107,14 +107,18 @@ export class AIProviderWorker {
       const result = await pool.execute<{
         content: string;
         role: 'assistant';
-      }>('chat', {
-        messages,
-        options: {
-          maxTokens: options.maxTokens,
-          temperature: options.temperature,
-          topP: options.topP,
+      }>(
+        'chat',
+        {
+          messages,
+          options: {
+            maxTokens: options.maxTokens,
+            temperature: options.temperature,
+            topP: options.topP,
+          },
         },
-      });
+        { signal: options.signal }
+      );
 
       return {
         content: result.content,
@@ -122,6 +126,9 @@ export class AIProviderWorker {
         finishReason: 'stop',
       };
     } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
       throw new ValidationError(
         `Chat failed: ${(error as Error).message}`,
         'llm'
@@ -145,17 +152,24 @@ export class AIProviderWorker {
     const pool = await this.ensureWorkerPool();
 
     try {
-      const result = await pool.execute<{ text: string }>('complete', {
-        prompt,
-        options: {
-          maxTokens: options.maxTokens,
-          temperature: options.temperature,
-          topP: options.topP,
+      const result = await pool.execute<{ text: string }>(
+        'complete',
+        {
+          prompt,
+          options: {
+            maxTokens: options.maxTokens,
+            temperature: options.temperature,
+            topP: options.topP,
+          },
         },
-      });
+        { signal: options.signal }
+      );
 
       return result.text;
     } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
       throw new ValidationError(
         `Completion failed: ${(error as Error).message}`,
         'llm'
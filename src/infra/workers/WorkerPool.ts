@@ -3,6 +3,7 @@
  */
 
 import { getConfig } from '../../app/state';
+import { AbortError } from '@domain/errors';
 
 export interface WorkerTask<T = unknown> {
   id: string;
@@ -12,6 +13,14 @@ export interface WorkerTask<T = unknown> {
   reject: (error: Error) => void;
 }
 
+export interface ExecuteOptions {
+  /**
+   * Cancels the task: queued tasks are dropped, running ones are sent an
+   * `abort` message and the promise rejects with AbortError right away
+   */
+  signal?: AbortSignal;
+}
+
 export interface WorkerMessage {
   id: string;
   type: string;
@@ -31,6 +40,7 @@ export class WorkerPool {
   private availableWorkers: Worker[] = [];
   private taskQueue: WorkerTask[] = [];
   private activeTasks: Map<string, WorkerTask> = new Map();
+  private taskWorkers: Map<string, Worker> = new Map();
   private workerScript: string | URL;
   private poolSize: number;
   private taskIdCounter = 0;
@@ -72,16 +82,34 @@ export class WorkerPool {
   /**
    * Execute a task on an available worker
    */
-  async execute<T = unknown>(type: string, data?: unknown): Promise<T> {
+  async execute<T = unknown>(
+    type: string,
+    data?: unknown,
+    options: ExecuteOptions = {}
+  ): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+
     return new Promise((resolve, reject) => {
       const taskId = this.generateTaskId();
+      const onAbort = () => this.abortTask(task);
+      const settle = () => signal?.removeEventListener('abort', onAbort);
       const task: WorkerTask = {
         id: taskId,
         type,
         data,
-        resolve: resolve as (value: unknown) => void,
-        reject,
+        resolve: value => {
+          settle();
+          resolve(value as T);
+        },
+        reject: error => {
+          settle();
+          reject(error);
+        },
       };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       const worker = this.getAvailableWorker();
       if (worker) {
@@ -97,6 +125,7 @@ export class WorkerPool {
    */
   private executeTask(worker: Worker, task: WorkerTask): void {
     this.activeTasks.set(task.id, task);
+    this.taskWorkers.set(task.id, worker);
     this.removeFromAvailable(worker);
 
     worker.postMessage({
@@ -106,6 +135,22 @@ export class WorkerPool {
     });
   }
 
+  /**
+   * Cancel a task. A running task keeps its worker busy until the worker
+   * answers, so the worker is not handed a new task while still generating.
+   */
+  private abortTask(task: WorkerTask): void {
+    const queuedIndex = this.taskQueue.indexOf(task);
+    if (queuedIndex !== -1) {
+      this.taskQueue.splice(queuedIndex, 1);
+    } else {
+      this.taskWorkers
+        .get(task.id)
+        ?.postMessage({ id: task.id, type: 'abort' });
+    }
+    task.reject(new AbortError());
+  }
+
   /**
    * Handle message from worker
    */
@@ -131,6 +176,7 @@ export class WorkerPool {
 
     // Cleanup
     this.activeTasks.delete(message.id);
+    this.taskWorkers.delete(message.id);
     this.makeAvailable(worker);
 
     // Process next task in queue
@@ -145,6 +191,7 @@ export class WorkerPool {
     for (const [taskId, task] of this.activeTasks.entries()) {
       task.reject(new Error(`Worker error: ${error.message}`));
       this.activeTasks.delete(taskId);
+      this.taskWorkers.delete(taskId);
     }
 
     // Restart worker
@@ -235,6 +282,7 @@ export class WorkerPool {
     this.availableWorkers = [];
     this.taskQueue = [];
     this.activeTasks.clear();
+    this.taskWorkers.clear();
   }
 
   /**
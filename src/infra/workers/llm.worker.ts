@@ -2,12 +2,15 @@
  * LLM Worker - Handles text generation in Web Worker
  */
 
-import { pipeline } from '@huggingface/transformers';
+import {
+  pipeline,
+  InterruptableStoppingCriteria,
+} from '@huggingface/transformers';
 import type { Message } from '../../core/types';
 
 interface WorkerRequest {
   id: string;
-  type: 'load' | 'chat' | 'complete' | 'unload';
+  type: 'load' | 'chat' | 'complete' | 'unload' | 'abort';
   data?: {
     model?: string;
     dtype?: string;
@@ -39,6 +42,9 @@ interface WorkerResponse {
 let llmPipeline: unknown | null = null;
 let modelLoaded = false;
 
+// Running generations by task id, so an `abort` message can stop them
+const runningTasks = new Map<string, InterruptableStoppingCriteria>();
+
 // Handle messages from main thread
 (globalThis as unknown as Worker).addEventListener(
   'message',
@@ -59,6 +65,10 @@ let modelLoaded = false;
         case 'unload':
           handleUnload(id);
           break;
+        case 'abort':
+          // The caller already gave up on the task; it answers with an error
+          runningTasks.get(id)?.interrupt();
+          break;
         default:
           throw new Error(`Unknown task type: ${type}`);
       }
@@ -134,7 +144,9 @@ async function handleChat(id: string, data?: WorkerRequest['data']) {
     opts: unknown
   ) => Promise<Array<{ generated_text: Message[] }>>;
 
-  const result = await pipeline(messageArray, options);
+  const result = await generateInterruptibly(id, stoppingCriteria =>
+    pipeline(messageArray, { ...options, stopping_criteria: stoppingCriteria })
+  );
   const generatedMessage = result[0].generated_text.at(-1);
 
   if (!generatedMessage) {
@@ -172,13 +184,35 @@ async function handleComplete(id: string, data?: WorkerRequest['data']) {
     opts: unknown
   ) => Promise<Array<{ generated_text: string }>>;
 
-  const result = await pipeline(prompt, options);
+  const result = await generateInterruptibly(id, stoppingCriteria =>
+    pipeline(prompt, { ...options, stopping_criteria: stoppingCriteria })
+  );
 
   postResponse(id, {
     text: result[0].generated_text,
   });
 }
 
+/**
+ * Run a generation that an `abort` message for the task can stop
+ */
+async function generateInterruptibly<T>(
+  id: string,
+  generate: (stoppingCriteria: InterruptableStoppingCriteria) => Promise<T>
+): Promise<T> {
+  const stoppingCriteria = new InterruptableStoppingCriteria();
+  runningTasks.set(id, stoppingCriteria);
+  try {
+    const result = await generate(stoppingCriteria);
+    if (stoppingCriteria.interrupted) {
+      throw new Error('Operation cancelled');
+    }
+    return result;
+  } finally {
+    runningTasks.delete(id);
+  }
+}
+
 /**
  * Unload model
  */
@@ -5,8 +5,9 @@
 import type { EmbeddingConfig, EmbeddingOptions, Device } from '../core/types';
 import { BaseModel } from './BaseModel';
 import { getConfig } from '../app/state';
-import { ModelLoadError, InferenceError } from '@domain/errors';
+import { ModelLoadError, InferenceError, AbortError } from '@domain/errors';
 import type { BackendSelector } from '../app/backend/BackendSelector';
+import { throwIfAborted } from '../utils/abort';
 
 // Interface for Tensor from Transformers.js
 interface Tensor {
@@ -241,6 +242,7 @@ export class EmbeddingModel extends BaseModel<EmbeddingConfig> {
     options: EmbeddingOptions = {}
   ): Promise<number[][]> {
     await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
     const pipeline = this.getPipeline() as (
       input: string | string[],
@@ -253,9 +255,14 @@ export class EmbeddingModel extends BaseModel<EmbeddingConfig> {
         normalize: options.normalize ?? this.config.normalize ?? true,
       });
 
+      throwIfAborted(options.signal);
+
       // Type-safe conversion
       return this.tensorToArray(result);
     } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
       throw new InferenceError(
         `Embedding generation failed: ${(error as Error).message}`,
         'embedding',
@@ -264,6 +271,25 @@ export class EmbeddingModel extends BaseModel<EmbeddingConfig> {
     }
   }
 
+  /**
+   * Count tokens using the model's own tokenizer
+   */
+  async countTokens(text: string): Promise<number> {
+    await this.ensureLoaded();
+
+    const pipeline = this.getPipeline() as {
+      tokenizer?: { encode: (text: string) => number[] };
+    };
+    if (!pipeline.tokenizer) {
+      throw new InferenceError(
+        'Tokenizer not available for embedding model',
+        'embedding'
+      );
+    }
+
+    return pipeline.tokenizer.encode(text).length;
+  }
+
   /**
    * Convert Tensor to 2D array
    * Handles different tensor formats from Transformers.js
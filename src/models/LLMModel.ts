@@ -9,30 +9,61 @@ import type {
   ChatOptions,
   CompletionOptions,
   Device,
+  ResponseFormat,
+  TokenUsage,
+  CompletionResponse,
+  StreamSummary,
 } from '../core/types';
 import { BaseModel } from './BaseModel';
 import { getConfig } from '../app/state';
-import { ModelLoadError, InferenceError } from '@domain/errors';
+import { ModelLoadError, InferenceError, AbortError } from '@domain/errors';
 import type { BackendSelector } from '../app/backend/BackendSelector';
+import {
+  parseToolCalls,
+  prepareToolMessages,
+  selectTools,
+  templateSupportsTools,
+} from '../app/tools/ToolCalls';
+import { compileResponseFormat } from '../app/generation/ResponseFormat';
+import {
+  TokenVocabulary,
+  createGrammarLogitsProcessor,
+  type LogitsProcessorFunction,
+} from '../app/generation/GrammarLogitsProcessor';
+import { GenerationTracker } from '../app/generation/GenerationTracker';
+import { abortStoppingCriteria, throwIfAborted } from '../utils/abort';
 
 // Type definitions for LLM pipeline components
 interface LLMTokenizer {
   eos_token_id?: number;
   pad_token_id?: number;
   chat_template?: string;
-  decode?: (tokens: number[]) => string;
-  encode?: (text: string) => number[];
+  add_bos_token?: boolean;
+  add_eos_token?: boolean;
+  decode?: (tokens: number[], options?: Record<string, unknown>) => string;
+  encode?: (text: string, options?: Record<string, unknown>) => number[];
+  model?: { vocab?: unknown[] };
+  apply_chat_template?: (
+    conversation: unknown[],
+    options?: Record<string, unknown>
+  ) => unknown;
 }
 
 interface LLMModelConfig {
   eos_token_id?: number;
   pad_token_id?: number;
+  max_position_embeddings?: number;
+  n_positions?: number;
 }
 
 interface LLMPipelineModel {
-  config?: LLMModelConfig;
+  config?: LLMModelConfig & { vocab_size?: number };
+  generation_config?: { eos_token_id?: number | number[] };
 }
 
+// Used when neither the config nor the model declares a context window
+const DEFAULT_CONTEXT_LENGTH = 2048;
+
 // Dynamically import Transformers.js to avoid bundling issues
 let transformersModule: typeof import('@huggingface/transformers') | null =
   null;
@@ -46,6 +77,7 @@ async function getTransformers() {
 
 export class LLMModel extends BaseModel<LLMConfig> {
   private backendSelector?: BackendSelector;
+  private tokenVocabulary?: TokenVocabulary;
 
   constructor(config: LLMConfig, backendSelector?: BackendSelector) {
     super('llm', config);
@@ -278,6 +310,7 @@ export class LLMModel extends BaseModel<LLMConfig> {
     options: ChatOptions = {}
   ): Promise<ChatResponse> {
     await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
     const pipeline = this.getPipeline() as {
       (
@@ -288,18 +321,7 @@ export class LLMModel extends BaseModel<LLMConfig> {
       model?: LLMPipelineModel;
     };
 
-    // Convert string to messages array
-    const messageArray: Message[] = Array.isArray(messages)
-      ? messages
-      : [{ role: 'user' as const, content: messages }];
-
-    // Add system prompt if provided
-    if (options.systemPrompt && messageArray[0]?.role !== 'system') {
-      messageArray.unshift({
-        role: 'system',
-        content: options.systemPrompt,
-      });
-    }
+    const messageArray = this.toMessageArray(messages, options);
 
     // Build generation options
     // Derive special tokens from tokenizer/model config when available
@@ -326,37 +348,32 @@ export class LLMModel extends BaseModel<LLMConfig> {
       eos_token_id: eosId,
       pad_token_id: padId,
     } as Record<string, unknown>;
+    const logitsProcessor = this.createLogitsProcessor(options.responseFormat);
+    if (logitsProcessor) {
+      generationOptions.logits_processor = [logitsProcessor];
+    }
+    const tracker = new GenerationTracker(this.getEosTokenIds());
+    generationOptions.stopping_criteria = options.signal
+      ? [tracker.stoppingCriteria, abortStoppingCriteria(options.signal)]
+      : [tracker.stoppingCriteria];
 
     try {
-      // For models without chat_template, convert messages to simple text
-      let input: string | Message[];
-
-      // Check if tokenizer has chat_template
-      const hasChatTemplate =
-        pipeline.tokenizer &&
-        'chat_template' in pipeline.tokenizer &&
-        pipeline.tokenizer.chat_template;
-
-      if (hasChatTemplate) {
-        // Use messageArray for models with chat_template
-        input = messageArray;
-      } else {
-        // Convert to simple text for models without chat_template
-        input = messageArray
-          .filter(msg => msg.role !== 'system') // Skip system messages for simple models
-          .map(msg => msg.content)
-          .join('\n');
-        if ((input as string).trim().length === 0) {
-          input = ' ';
-        }
+      const { input, prerendered } = this.buildChatInput(
+        pipeline.tokenizer,
+        messageArray,
+        options
+      );
+      if (prerendered) {
+        generationOptions.add_special_tokens = false;
       }
 
       const result = await pipeline(input, generationOptions);
+      throwIfAborted(options.signal);
 
       // Handle different response formats
       let generatedMessage: Message;
       const gen = result[0].generated_text as unknown;
-      if (hasChatTemplate) {
+      if (Array.isArray(input)) {
         // Expect an array of messages
         const arr = Array.isArray(gen) ? (gen as Message[]) : [];
         const lastMessage = arr.at(-1);
@@ -377,23 +394,45 @@ export class LLMModel extends BaseModel<LLMConfig> {
         throw new InferenceError('No response generated', 'llm');
       }
 
-      // Calculate token usage (approximate)
-      const promptTokens = this.estimateTokens(
-        messageArray.map(m => m.content).join(' ')
+      const usage = this.resolveUsage(
+        tracker,
+        pipeline.tokenizer,
+        input,
+        !prerendered,
+        generatedMessage.content
       );
-      const completionTokens = this.estimateTokens(generatedMessage.content);
+
+      const offeredTools = selectTools(options.tools, options.toolChoice);
+      if (offeredTools.length > 0) {
+        const parsed = parseToolCalls(
+          generatedMessage.content,
+          offeredTools.map(tool => tool.function.name)
+        );
+        if (parsed.toolCalls.length > 0) {
+          return {
+            content: parsed.content,
+            role: 'assistant',
+            tool_calls: parsed.toolCalls,
+            usage,
+            finishReason: 'tool_calls',
+          };
+        }
+      }
 
       return {
         content: generatedMessage.content,
         role: 'assistant',
-        usage: {
-          promptTokens,
-          completionTokens,
-          totalTokens: promptTokens + completionTokens,
-        },
-        finishReason: 'stop',
+        usage,
+        finishReason: tracker.hitLengthLimit(
+          generationOptions.max_new_tokens as number
+        )
+          ? 'length'
+          : 'stop',
       };
     } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
       throw new InferenceError(
         `Chat generation failed: ${(error as Error).message}`,
         'llm',
@@ -409,7 +448,18 @@ export class LLMModel extends BaseModel<LLMConfig> {
     prompt: string,
     options: CompletionOptions = {}
   ): Promise<string> {
+    return (await this.completeDetailed(prompt, options)).text;
+  }
+
+  /**
+   * Complete a prompt, with token usage and finish reason
+   */
+  async completeDetailed(
+    prompt: string,
+    options: CompletionOptions = {}
+  ): Promise<CompletionResponse> {
     await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
     const pipeline = this.getPipeline() as (
       input: string,
@@ -440,11 +490,38 @@ export class LLMModel extends BaseModel<LLMConfig> {
       eos_token_id: eosId,
       pad_token_id: padId,
     } as Record<string, unknown>;
+    const logitsProcessor = this.createLogitsProcessor(options.responseFormat);
+    if (logitsProcessor) {
+      generationOptions.logits_processor = [logitsProcessor];
+    }
+    const tracker = new GenerationTracker(this.getEosTokenIds());
+    generationOptions.stopping_criteria = options.signal
+      ? [tracker.stoppingCriteria, abortStoppingCriteria(options.signal)]
+      : [tracker.stoppingCriteria];
 
     try {
       const result = await pipeline(prompt, generationOptions);
-      return result[0].generated_text;
+      throwIfAborted(options.signal);
+      const text = result[0].generated_text;
+      return {
+        text,
+        usage: this.resolveUsage(
+          tracker,
+          typedPipeline.tokenizer,
+          prompt,
+          true,
+          text
+        ),
+        finishReason: tracker.hitLengthLimit(
+          generationOptions.max_new_tokens as number
+        )
+          ? 'length'
+          : 'stop',
+      };
     } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
       throw new InferenceError(
         `Completion failed: ${(error as Error).message}`,
         'llm',
@@ -459,8 +536,9 @@ export class LLMModel extends BaseModel<LLMConfig> {
   async *stream(
     messages: Message[] | string,
     options: ChatOptions = {}
-  ): AsyncGenerator<string> {
+  ): AsyncGenerator<string, StreamSummary> {
     await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
     const { TextStreamer } = await getTransformers();
 
@@ -473,34 +551,12 @@ export class LLMModel extends BaseModel<LLMConfig> {
       model?: LLMPipelineModel;
     };
 
-    const messageArray: Message[] = Array.isArray(messages)
-      ? messages
-      : [{ role: 'user' as const, content: messages }];
-
-    if (options.systemPrompt && messageArray[0]?.role !== 'system') {
-      messageArray.unshift({
-        role: 'system',
-        content: options.systemPrompt,
-      });
-    }
-
-    // Check if tokenizer has chat_template
-    const hasChatTemplate =
-      pipeline.tokenizer &&
-      'chat_template' in pipeline.tokenizer &&
-      pipeline.tokenizer.chat_template;
-
-    // Prepare input based on model capabilities
-    let input: string | Message[];
-    if (hasChatTemplate) {
-      input = messageArray;
-    } else {
-      // Convert to simple text for models without chat_template
-      input = messageArray
-        .filter(msg => msg.role !== 'system') // Skip system messages for simple models
-        .map(msg => msg.content)
-        .join('\n');
-    }
+    // Tool calls are streamed as raw text; use chat() to get tool_calls
+    const { input, prerendered } = this.buildChatInput(
+      pipeline.tokenizer,
+      this.toMessageArray(messages, options),
+      options
+    );
 
     const tokens: string[] = [];
 
@@ -532,6 +588,17 @@ export class LLMModel extends BaseModel<LLMConfig> {
       eos_token_id: eosId,
       pad_token_id: padId,
     } as Record<string, unknown>;
+    const logitsProcessor = this.createLogitsProcessor(options.responseFormat);
+    if (logitsProcessor) {
+      generationOptions.logits_processor = [logitsProcessor];
+    }
+    const tracker = new GenerationTracker(this.getEosTokenIds());
+    generationOptions.stopping_criteria = options.signal
+      ? [tracker.stoppingCriteria, abortStoppingCriteria(options.signal)]
+      : [tracker.stoppingCriteria];
+    if (prerendered) {
+      generationOptions.add_special_tokens = false;
+    }
 
     // Start generation
     const generationPromise = pipeline(input, generationOptions);
@@ -539,6 +606,11 @@ export class LLMModel extends BaseModel<LLMConfig> {
     // Yield tokens as they arrive
     let lastIndex = 0;
     while (true) {
+      if (options.signal?.aborted) {
+        // The stopping criterion ends generation at the next token
+        await generationPromise.catch(() => undefined);
+        throw new AbortError();
+      }
       if (lastIndex < tokens.length) {
         yield tokens[lastIndex];
         lastIndex++;
@@ -554,6 +626,274 @@ export class LLMModel extends BaseModel<LLMConfig> {
         }
       }
     }
+
+    return {
+      usage: this.resolveUsage(
+        tracker,
+        pipeline.tokenizer,
+        input,
+        !prerendered,
+        tokens.join('')
+      ),
+      finishReason: tracker.hitLengthLimit(
+        generationOptions.max_new_tokens as number
+      )
+        ? 'length'
+        : 'stop',
+    };
+  }
+
+  /**
+   * Normalize chat input to messages, with the system prompt first
+   */
+  private toMessageArray(
+    messages: Message[] | string,
+    options: ChatOptions
+  ): Message[] {
+    const messageArray: Message[] = Array.isArray(messages)
+      ? [...messages]
+      : [{ role: 'user' as const, content: messages }];
+
+    if (options.systemPrompt && messageArray[0]?.role !== 'system') {
+      messageArray.unshift({
+        role: 'system',
+        content: options.systemPrompt,
+      });
+    }
+    return messageArray;
+  }
+
+  /**
+   * Pipeline input for a conversation: messages for models with a chat
+   * template, plain text otherwise. `prerendered` marks prompts we rendered
+   * with the template ourselves (tool requests), which must not get special
+   * tokens added again.
+   */
+  private buildChatInput(
+    tokenizer: LLMTokenizer | undefined,
+    messages: Message[],
+    options: ChatOptions
+  ): { input: string | Message[]; prerendered: boolean } {
+    const hasChatTemplate = Boolean(tokenizer?.chat_template);
+
+    const toolPrompt = this.buildToolPrompt(tokenizer, messages, options);
+    if (toolPrompt !== null) {
+      // Tools (or tool turns) need a prompt rendered by us
+      return { input: toolPrompt, prerendered: hasChatTemplate };
+    }
+    if (hasChatTemplate) {
+      return { input: messages, prerendered: false };
+    }
+
+    // Convert to simple text for models without chat_template
+    const text = messages
+      .filter(msg => msg.role !== 'system') // Skip system messages for simple models
+      .map(msg => msg.content)
+      .join('\n');
+    return {
+      input: text.trim().length === 0 ? ' ' : text,
+      prerendered: false,
+    };
+  }
+
+  /**
+   * Render a prompt for requests that offer tools or replay tool turns.
+   * Returns null when the regular chat path applies.
+   */
+  private buildToolPrompt(
+    tokenizer: LLMTokenizer | undefined,
+    messages: Message[],
+    options: ChatOptions
+  ): string | null {
+    const hasToolTurns = messages.some(
+      m => m.role === 'tool' || m.role === 'function' || m.tool_calls?.length
+    );
+    if (!options.tools?.length && !hasToolTurns) {
+      return null;
+    }
+
+    const nativeTools = templateSupportsTools(tokenizer?.chat_template);
+    const prepared = prepareToolMessages(messages, {
+      tools: options.tools,
+      toolChoice: options.toolChoice,
+      nativeTools,
+    });
+
+    if (tokenizer?.chat_template && tokenizer.apply_chat_template) {
+      const tools = selectTools(options.tools, options.toolChoice);
+      return String(
+        tokenizer.apply_chat_template(prepared, {
+          tools: nativeTools && tools.length > 0 ? tools : undefined,
+          tokenize: false,
+          add_generation_prompt: true,
+        })
+      );
+    }
+
+    // Plain text models keep the system message, it lists the tools
+    return prepared.map(m => m.content).join('\n');
+  }
+
+  /**
+   * Logits processor enforcing the response format (null if unconstrained)
+   */
+  private createLogitsProcessor(
+    format?: ResponseFormat
+  ): LogitsProcessorFunction | null {
+    const grammar = compileResponseFormat(format);
+    if (!grammar) {
+      return null;
+    }
+    return createGrammarLogitsProcessor(grammar, this.getTokenVocabulary());
+  }
+
+  /**
+   * Decoded vocabulary, built once per loaded model
+   */
+  private getTokenVocabulary(): TokenVocabulary {
+    if (this.tokenVocabulary) {
+      return this.tokenVocabulary;
+    }
+
+    const pipeline = this.getPipeline() as {
+      tokenizer?: LLMTokenizer;
+      model?: LLMPipelineModel;
+    };
+    const tokenizer = pipeline.tokenizer;
+    const decode = tokenizer?.decode;
+    const vocabSize =
+      tokenizer?.model?.vocab?.length ?? pipeline.model?.config?.vocab_size;
+    if (!decode || !vocabSize) {
+      throw new InferenceError(
+        'Constrained generation requires a tokenizer vocabulary',
+        'llm'
+      );
+    }
+
+    this.tokenVocabulary = TokenVocabulary.fromTokenizer(
+      { decode: (ids, opts) => decode.call(tokenizer, ids, opts) },
+      vocabSize,
+      this.getEosTokenIds()
+    );
+    return this.tokenVocabulary;
+  }
+
+  /**
+   * Every id that ends generation, from the tokenizer and model configs
+   */
+  private getEosTokenIds(): number[] {
+    const pipeline = this.getPipeline() as {
+      tokenizer?: LLMTokenizer;
+      model?: LLMPipelineModel;
+    };
+    const eosTokenIds = [
+      pipeline.tokenizer?.eos_token_id,
+      pipeline.model?.config?.eos_token_id,
+      pipeline.model?.generation_config?.eos_token_id,
+    ]
+      .flat()
+      .filter((id): id is number => typeof id === 'number');
+    return [...new Set(eosTokenIds)];
+  }
+
+  /**
+   * Count tokens with the model's tokenizer (estimated if it has no
+   * encoder). Text is counted as is; messages are counted as chat() sends
+   * them, including the system prompt, tools and chat template tokens.
+   */
+  async countTokens(
+    input: string | Message[],
+    options: ChatOptions = {}
+  ): Promise<number> {
+    await this.ensureLoaded();
+
+    const tokenizer = (this.getPipeline() as { tokenizer?: LLMTokenizer })
+      .tokenizer;
+    if (typeof input === 'string') {
+      return this.countInputTokens(tokenizer, input, false);
+    }
+
+    const { input: prepared, prerendered } = this.buildChatInput(
+      tokenizer,
+      this.toMessageArray(input, options),
+      options
+    );
+    return this.countInputTokens(tokenizer, prepared, !prerendered);
+  }
+
+  /**
+   * Tokens of a pipeline input. Plain text gets special tokens only when
+   * the tokenizer adds them by default, as the text-generation pipeline does.
+   */
+  private countInputTokens(
+    tokenizer: LLMTokenizer | undefined,
+    input: string | Message[],
+    allowSpecialTokens: boolean
+  ): number {
+    if (Array.isArray(input)) {
+      if (tokenizer?.apply_chat_template) {
+        const ids = tokenizer.apply_chat_template(input, {
+          tokenize: true,
+          add_generation_prompt: true,
+          return_tensor: false,
+        });
+        if (Array.isArray(ids)) {
+          return ids.length;
+        }
+      }
+      return this.estimateTokens(input.map(m => m.content).join(' '));
+    }
+
+    if (!tokenizer?.encode) {
+      return this.estimateTokens(input);
+    }
+    const addSpecialTokens =
+      allowSpecialTokens &&
+      Boolean(tokenizer.add_bos_token || tokenizer.add_eos_token);
+    return tokenizer.encode(input, { add_special_tokens: addSpecialTokens })
+      .length;
+  }
+
+  /**
+   * Usage as observed during generation; re-tokenized if generate() never
+   * reported a token
+   */
+  private resolveUsage(
+    tracker: GenerationTracker,
+    tokenizer: LLMTokenizer | undefined,
+    input: string | Message[],
+    allowSpecialTokens: boolean,
+    completion: string
+  ): TokenUsage {
+    const promptTokens = tracker.observed
+      ? tracker.promptTokens!
+      : this.countInputTokens(tokenizer, input, allowSpecialTokens);
+    const completionTokens = tracker.observed
+      ? tracker.completionTokens
+      : this.countInputTokens(tokenizer, completion, false);
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Maximum prompt + completion length in tokens
+   */
+  async getContextLength(): Promise<number> {
+    if (this.config.contextLength) {
+      return this.config.contextLength;
+    }
+    await this.ensureLoaded();
+
+    const pipeline = this.getPipeline() as { model?: LLMPipelineModel };
+    const modelConfig = pipeline.model?.config;
+    return (
+      modelConfig?.max_position_embeddings ??
+      modelConfig?.n_positions ??
+      DEFAULT_CONTEXT_LENGTH
+    );
   }
 
   /**
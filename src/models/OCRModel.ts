@@ -2,14 +2,59 @@
  * OCR Model for optical character recognition (Tesseract.js)
  */
 
-import type { OCRConfig, OCROptions, OCRResult } from '../core/types';
+import type {
+  OCRConfig,
+  OCRDocumentOptions,
+  OCRDocumentResult,
+  OCROptions,
+  OCRPageResult,
+  OCRBBox,
+  OCROrientation,
+  OCRProgressEventData,
+  OCRResult,
+  OCRScriptDetection,
+} from '../core/types';
 import { BaseModel } from './BaseModel';
-import { ModelLoadError, InferenceError } from '@domain/errors';
+import {
+  ModelLoadError,
+  InferenceError,
+  AbortError,
+  ValidationError,
+} from '@domain/errors';
 import type { BackendSelector } from '../app/backend/BackendSelector';
+import { raceWithSignal, throwIfAborted } from '../utils/abort';
 import {
   resolveTesseractLangs,
   getWhitelistFor,
+  narrowByScript,
 } from '../utils/ocr/LangRegistry';
+import {
+  decodeImage,
+  preprocessImage,
+  resolvePreprocessPipeline,
+  type PreprocessResult,
+  type ResolvedPreprocessStep,
+} from '../utils/ocr/preprocess';
+import {
+  encodePgm,
+  rotateQuarter,
+  toGrayscale,
+  type PixelImage,
+} from '../utils/ocr/imageFilters';
+import {
+  openDocument,
+  readDocumentBytes,
+  type OCRDocument,
+} from '../utils/ocr/documents';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  buildLayout,
+  layoutLines,
+  layoutWords,
+  suggestPsm,
+  type TesseractPageData,
+} from '../app/ocr/Layout';
+import { detectTables } from '../app/ocr/Tables';
 
 // Dynamically import Tesseract.js
 let tesseractModule: typeof import('tesseract.js') | null = null;
@@ -19,6 +64,64 @@ type FrancAllFn = (
   opts?: { only?: string[]; ignore?: string[]; minLength?: number }
 ) => Array<[string, number]>;
 
+// A word, line or block of recognized text
+interface TesseractText {
+  text: string;
+  confidence: number;
+  bbox: OCRBBox;
+}
+
+// Result of worker.recognize(); tesseract.js before 5 also lists the words
+// and lines of the page, later versions only report them inside blocks
+type TesseractRecognizeResult = {
+  data: TesseractPageData & {
+    text: string;
+    confidence: number;
+    words?: TesseractText[] | null;
+    lines?: TesseractText[] | null;
+  };
+};
+
+// The worker methods used here, in the form this model calls them
+interface TesseractWorker {
+  load(): Promise<unknown>;
+  loadLanguage(langs: string): Promise<unknown>;
+  initialize(langs: string): Promise<unknown>;
+  setParameters(params: Record<string, string | number>): Promise<unknown>;
+  recognize(
+    image: string | Blob | Buffer | Uint8Array,
+    options?: { tessedit_pageseg_mode?: string },
+    output?: { text?: boolean; blocks?: boolean }
+  ): Promise<TesseractRecognizeResult>;
+  terminate(): Promise<unknown>;
+}
+
+// The methods of the OSD worker used here
+interface TesseractOsdWorker {
+  detect(image: string | Blob | Uint8Array): Promise<TesseractDetectResult>;
+  terminate(): Promise<unknown>;
+}
+
+// A clockwise turn of a page of the given size
+interface QuarterTurn {
+  degrees: 0 | 90 | 180 | 270;
+  width: number;
+  height: number;
+}
+
+// Result of worker.detect() (OSD)
+type TesseractDetectResult = {
+  data: {
+    script: string | null;
+    script_confidence: number | null;
+    orientation_degrees: number | null; // clockwise rotation to upright
+    orientation_confidence: number | null;
+  };
+};
+
+// OSD orientation confidence needed before a page is turned
+const MIN_ORIENTATION_CONFIDENCE = 2;
+
 async function getTesseract() {
   if (!tesseractModule) {
     tesseractModule = await import('tesseract.js');
@@ -28,7 +131,11 @@ async function getTesseract() {
 
 export class OCRModel extends BaseModel<OCRConfig> {
   private backendSelector?: BackendSelector;
-  private worker: any = null;
+  private worker: TesseractWorker | null = null;
+  // Extra workers for recognizeDocument(), created on demand
+  private extraWorkers: TesseractWorker[] = [];
+  // Worker with the legacy engine and osd data for autoPSM, created on demand
+  private osdWorker: Promise<TesseractOsdWorker> | null = null;
 
   constructor(config: OCRConfig, backendSelector?: BackendSelector) {
     super('ocr', config);
@@ -70,27 +177,7 @@ export class OCRModel extends BaseModel<OCRConfig> {
     this.loading = true;
 
     try {
-      const { createWorker } = await getTesseract();
-      if (typeof console !== 'undefined' && console.log) {
-        console.log('[OCRModel] load(): tesseract loaded');
-      }
-
-      // Create Tesseract worker
-      this.worker = createWorker();
-
-      // Load the worker
-      const worker = this.worker as any;
-      await worker.load();
-
-      // Load language data
-      const languages = this.config.language || 'eng';
-      const langArray = Array.isArray(languages) ? languages : [languages];
-      const mapped = resolveTesseractLangs(langArray);
-      const langJoined = mapped || langArray.join('+');
-      await worker.loadLanguage(langJoined);
-
-      // Initialize the worker with language(s)
-      await worker.initialize(langJoined);
+      this.worker = await this.createTesseractWorker();
 
       this.loaded = true;
       this.loading = false;
@@ -112,6 +199,33 @@ export class OCRModel extends BaseModel<OCRConfig> {
     }
   }
 
+  /**
+   * Create a Tesseract worker with the configured languages loaded
+   */
+  private async createTesseractWorker(): Promise<TesseractWorker> {
+    const { createWorker } = await getTesseract();
+    if (typeof console !== 'undefined' && console.log) {
+      console.log('[OCRModel] load(): tesseract loaded');
+    }
+
+    // Create Tesseract worker
+    const worker = (await createWorker()) as unknown as TesseractWorker;
+
+    // Load the worker
+    await worker.load();
+
+    // Load language data
+    const languages = this.config.language || 'eng';
+    const langArray = Array.isArray(languages) ? languages : [languages];
+    const mapped = resolveTesseractLangs(langArray);
+    const langJoined = mapped || langArray.join('+');
+    await worker.loadLanguage(langJoined);
+
+    // Initialize the worker with language(s)
+    await worker.initialize(langJoined);
+    return worker;
+  }
+
   /**
    * Recognize text from image
    */
@@ -119,211 +233,562 @@ export class OCRModel extends BaseModel<OCRConfig> {
     image: string | Blob | File | Buffer,
     options: OCROptions = {}
   ): Promise<OCRResult> {
+    const pipeline = resolveOCROptions(options);
     await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
     try {
       if (!this.worker) {
         throw new InferenceError('OCR worker not initialized', 'ocr');
       }
-      const worker = this.worker as any;
+      return await this.recognizeWith(this.worker, image, pipeline, options);
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      const inferenceError = new InferenceError(
+        `OCR recognition failed: ${error instanceof Error ? error.message : String(error)}`,
+        'ocr'
+      );
+      if (typeof console !== 'undefined' && console.error) {
+        console.error('[OCRModel] recognize(): error', inferenceError);
+      }
+      throw inferenceError;
+    }
+  }
 
-      // Set recognition parameters
-      if (options.psm !== undefined) {
-        await worker.setParameters({
-          tessedit_pageseg_mode: options.psm,
-        });
+  /**
+   * Recognize every page of a PDF or multi-page TIFF (a plain image is one
+   * page). Pages are rasterized one at a time and recognized in parallel by
+   * up to `concurrency` Tesseract workers.
+   */
+  async recognizeDocument(
+    input: string | Blob | File | Uint8Array,
+    options: OCRDocumentOptions = {}
+  ): Promise<OCRDocumentResult> {
+    const pipeline = resolveOCROptions(options);
+    const concurrency = options.concurrency ?? 2;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError(
+        'concurrency must be a positive integer',
+        'concurrency'
+      );
+    }
+    if (options.renderDpi !== undefined && !(options.renderDpi > 0)) {
+      throw new ValidationError(
+        'renderDpi must be a positive number',
+        'renderDpi'
+      );
+    }
+    await this.ensureLoaded();
+    throwIfAborted(options.signal);
+
+    let document: OCRDocument | undefined;
+    try {
+      document = await openDocument(await readDocumentBytes(input), {
+        renderDpi: options.renderDpi,
+      });
+      const pageCount = document.pageCount;
+      const pageNumbers =
+        options.pages ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+      const invalid = pageNumbers.find(
+        page => !Number.isInteger(page) || page < 1 || page > pageCount
+      );
+      if (pageNumbers.length === 0 || invalid !== undefined) {
+        throw new ValidationError(
+          `pages must be page numbers between 1 and ${pageCount}` +
+            (invalid !== undefined ? `, got ${invalid}` : ''),
+          'pages'
+        );
       }
 
-      if (options.oem !== undefined) {
-        await worker.setParameters({
-          tessedit_ocr_engine_mode: options.oem,
+      const workers = await this.acquireWorkers(
+        Math.min(concurrency, pageNumbers.length)
+      );
+      const idle = [...workers];
+
+      const startedAt = Date.now();
+      let pagesCompleted = 0;
+      const report = (
+        status: OCRProgressEventData['status'],
+        page?: number
+      ) => {
+        const progress =
+          status === 'completed' ? 1 : pagesCompleted / pageNumbers.length;
+        const elapsed = Date.now() - startedAt;
+        options.onProgress?.({
+          status,
+          page,
+          pagesCompleted,
+          pagesTotal: pageNumbers.length,
+          progress,
+          etaMs:
+            status === 'progress' && progress > 0
+              ? Math.round((elapsed / progress) * (1 - progress))
+              : undefined,
         });
+      };
+      report('started');
+
+      const source = document;
+      const pages = await mapWithConcurrency(
+        pageNumbers,
+        workers.length,
+        async (page): Promise<OCRPageResult> => {
+          throwIfAborted(options.signal);
+          const { image, dpi } = await source.renderPage(page);
+          throwIfAborted(options.signal);
+          // One task per worker at most, so one is always free here
+          const worker = idle.pop()!;
+          try {
+            const result = await this.recognizeWith(worker, image, pipeline, {
+              ...options,
+              dpi: dpi ?? options.dpi,
+            });
+            pagesCompleted++;
+            report('progress', page);
+            return {
+              page,
+              width: image.width,
+              height: image.height,
+              ...result,
+            };
+          } finally {
+            idle.push(worker);
+          }
+        }
+      );
+      report('completed');
+
+      return {
+        text: pages
+          .map(page => page.text.trim())
+          .join(options.pageSeparator ?? '\n\n'),
+        confidence:
+          pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length,
+        format: document.format,
+        pageCount,
+        pages,
+      };
+    } catch (error) {
+      if (error instanceof AbortError || error instanceof ValidationError) {
+        throw error;
+      }
+      const inferenceError = new InferenceError(
+        `OCR recognition failed: ${error instanceof Error ? error.message : String(error)}`,
+        'ocr'
+      );
+      if (typeof console !== 'undefined' && console.error) {
+        console.error('[OCRModel] recognizeDocument(): error', inferenceError);
+      }
+      throw inferenceError;
+    } finally {
+      await document?.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * The main worker plus enough extra workers to make `count`
+   */
+  private async acquireWorkers(count: number): Promise<TesseractWorker[]> {
+    if (!this.worker) {
+      throw new InferenceError('OCR worker not initialized', 'ocr');
+    }
+    while (this.extraWorkers.length < count - 1) {
+      this.extraWorkers.push(await this.createTesseractWorker());
+    }
+    return [this.worker, ...this.extraWorkers.slice(0, count - 1)];
+  }
+
+  /**
+   * Orientation and script of a page (Tesseract OSD). OSD needs the legacy
+   * engine and osd traineddata, so it runs on a worker of its own; when
+   * that is unavailable or the page has too little text, nothing is found.
+   */
+  private async detectOrientation(
+    input: string | Blob | Uint8Array,
+    signal?: AbortSignal
+  ): Promise<{ orientation?: OCROrientation; script?: OCRScriptDetection }> {
+    try {
+      if (!this.osdWorker) {
+        const { createWorker } = await getTesseract();
+        // OEM 0: the legacy engine
+        this.osdWorker = createWorker('osd', 0, {
+          legacyCore: true,
+          legacyLang: true,
+        }) as unknown as Promise<TesseractOsdWorker>;
       }
+      const pending = this.osdWorker;
+      const worker = await pending.catch((error: unknown) => {
+        if (this.osdWorker === pending) {
+          this.osdWorker = null;
+        }
+        throw error;
+      });
+      throwIfAborted(signal);
+      const { data } = await raceWithSignal<TesseractDetectResult>(
+        worker.detect(input),
+        signal,
+        () => {
+          this.osdWorker = null;
+          this.abortWorker(worker);
+        }
+      );
+
+      const degrees = data.orientation_degrees;
+      return {
+        ...((degrees === 0 ||
+          degrees === 90 ||
+          degrees === 180 ||
+          degrees === 270) && {
+          orientation: {
+            degrees,
+            confidence: data.orientation_confidence ?? 0,
+            rotated: false,
+          },
+        }),
+        ...(data.script && {
+          script: {
+            name: data.script,
+            confidence: data.script_confidence ?? 0,
+          },
+        }),
+      };
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      if (typeof console !== 'undefined' && console.warn) {
+        console.warn('[OCRModel] autoPSM: orientation detection failed', error);
+      }
+      return {};
+    }
+  }
+
+  /**
+   * Recognize one image on the given worker
+   */
+  private async recognizeWith(
+    worker: TesseractWorker,
+    image: string | Blob | Buffer | PixelImage,
+    pipeline: ResolvedPreprocessStep[],
+    options: OCROptions
+  ): Promise<OCRResult> {
+    // Set recognition parameters
+    if (options.psm !== undefined) {
+      await worker.setParameters({
+        tessedit_pageseg_mode: options.psm,
+      });
+    }
+
+    if (options.oem !== undefined) {
+      await worker.setParameters({
+        tessedit_ocr_engine_mode: options.oem,
+      });
+    }
 
-      // Determine initial languages
-      let usedLanguage: string | undefined;
-      if (options.language) {
-        const langArray = Array.isArray(options.language)
-          ? options.language
-          : [options.language];
-        const mapped = resolveTesseractLangs(langArray);
-        const langJoined = mapped || langArray.join('+');
-        await worker.loadLanguage(langJoined);
-        await worker.initialize(langJoined);
-        usedLanguage = langArray[0];
+    // Clean up the image; Tesseract reads the result as a PGM
+    let input: string | Blob | Uint8Array;
+    let preprocessed: PreprocessResult | undefined;
+    if (pipeline.length > 0 || isPixelImage(image)) {
+      preprocessed = preprocessImage(
+        isPixelImage(image) ? image : await decodeImage(image),
+        pipeline,
+        { dpi: options.dpi }
+      );
+      throwIfAborted(options.signal);
+      input = encodePgm(preprocessed.image);
+    } else {
+      input = image;
+    }
+    const dpi = preprocessed ? preprocessed.dpi : options.dpi;
+    if (dpi !== undefined) {
+      await worker.setParameters({
+        user_defined_dpi: String(Math.round(dpi)),
+      });
+    }
+
+    // autoPSM: turn the page upright when OSD is confident about it
+    let osd: { orientation?: OCROrientation; script?: OCRScriptDetection } = {};
+    // The turn applied and the size of the page before it
+    let turn: QuarterTurn | undefined;
+    if (options.autoPSM) {
+      osd = await this.detectOrientation(input, options.signal);
+      const { orientation } = osd;
+      if (
+        orientation &&
+        orientation.degrees !== 0 &&
+        orientation.confidence >= MIN_ORIENTATION_CONFIDENCE
+      ) {
+        const gray = preprocessed
+          ? preprocessed.image
+          : toGrayscale(await decodeImage(image as string | Blob | Buffer));
+        input = encodePgm(rotateQuarter(gray, orientation.degrees));
+        orientation.rotated = true;
+        turn = {
+          degrees: orientation.degrees,
+          width: gray.width,
+          height: gray.height,
+        };
       }
+    }
 
-      // Perform initial OCR
-      let { data } = await worker.recognize(image);
+    // Determine initial languages
+    let usedLanguage: string | undefined;
+    if (options.language) {
+      const langArray = Array.isArray(options.language)
+        ? options.language
+        : [options.language];
+      const mapped = resolveTesseractLangs(langArray);
+      const langJoined = mapped || langArray.join('+');
+      await worker.loadLanguage(langJoined);
+      await worker.initialize(langJoined);
+      usedLanguage = langArray[0];
+    }
 
-      // Optional: auto language detection & re-run with best language
-      const shouldAutoDetect =
-        (options.autoLanguage ?? !options.language) &&
-        (data?.text?.length || 0) > (options.detectionMinTextLength ?? 20);
-      let detectedLanguages: Array<{ lang: string; score: number }> | undefined;
-      if (shouldAutoDetect) {
+    // Languages that detection may pick from, narrowed to the OSD script.
+    // Without a language, a page in a script the configured languages don't
+    // use starts from a language written in it.
+    const configuredLangs = Array.isArray(this.config.language)
+      ? this.config.language
+      : this.config.language
+        ? [this.config.language]
+        : undefined;
+    const candidateLangs = narrowByScript(
+      options.allowedLanguages && options.allowedLanguages.length > 0
+        ? options.allowedLanguages
+        : configuredLangs,
+      osd.script?.name
+    );
+    if (!options.language && osd.script && candidateLangs?.length) {
+      const current = configuredLangs ?? ['eng'];
+      if (!current.some(lang => candidateLangs.includes(lang))) {
+        const mapped =
+          resolveTesseractLangs([candidateLangs[0]]) || candidateLangs[0];
+        await worker.loadLanguage(mapped);
+        await worker.initialize(mapped);
+        usedLanguage = candidateLangs[0];
+      }
+    }
+
+    // Block output (the layout tree) has to be requested; autoPSM needs it to
+    // pick the PSM, which is passed per call so it doesn't stay set
+    const withBlocks = Boolean(
+      options.layout || options.tables || options.includeBbox || options.autoPSM
+    );
+    let psm = options.autoPSM ? (options.psm ?? 3) : undefined;
+    const recognizePage = () =>
+      withBlocks
+        ? worker.recognize(
+            input,
+            psm === undefined ? {} : { tessedit_pageseg_mode: String(psm) },
+            { text: true, blocks: true }
+          )
+        : worker.recognize(input);
+
+    // Perform initial OCR
+    let { data } = await raceWithSignal<TesseractRecognizeResult>(
+      recognizePage(),
+      options.signal,
+      () => this.abortWorker(worker)
+    );
+
+    // Optional: auto language detection & re-run with best language
+    const shouldAutoDetect =
+      (options.autoLanguage ?? !options.language) &&
+      (data?.text?.length || 0) > (options.detectionMinTextLength ?? 20);
+    let detectedLanguages: Array<{ lang: string; score: number }> | undefined;
+    if (shouldAutoDetect) {
+      try {
+        // Prefer full franc (187+ lang), fallback to franc-min
+        let francAll: FrancAllFn | undefined;
         try {
-          // Prefer full franc (187+ lang), fallback to franc-min
-          let francAll: FrancAllFn | undefined;
-          try {
-            francAll = (await import('franc'))
-              .francAll as unknown as FrancAllFn;
-          } catch {
-            francAll = (await import('franc-min'))
-              .francAll as unknown as FrancAllFn;
-          }
-          if (!francAll) throw new Error('Language detector unavailable');
-          const only =
-            options.allowedLanguages && options.allowedLanguages.length > 0
-              ? options.allowedLanguages
-              : Array.isArray(this.config.language)
-                ? this.config.language
-                : this.config.language
-                  ? [this.config.language]
-                  : undefined;
-
-          const ranking = francAll(data.text, {
-            minLength: options.detectionMinTextLength ?? 20,
-            only,
-          });
-
-          const maxCand = Math.max(1, options.detectionMaxCandidates ?? 5);
-          detectedLanguages = ranking
-            .slice(0, maxCand)
-            .map(([lang, score]) => ({ lang, score }));
-
-          // Pick best candidate present in `only` (if provided), otherwise the top one
-          const best = detectedLanguages[0]?.lang;
-          if (best) {
-            // If we didn't explicitly set a single language, or best is not included in current, re-run
-            const currentLangs = usedLanguage
-              ? [usedLanguage]
-              : Array.isArray(this.config.language)
-                ? this.config.language
-                : this.config.language
-                  ? [this.config.language]
-                  : ['eng'];
-
-            const alreadyCovers = currentLangs.includes(best);
-            if (!alreadyCovers || currentLangs.length > 1) {
-              const mappedBest = resolveTesseractLangs([best]) || best;
-              await worker.loadLanguage(mappedBest);
-              await worker.initialize(mappedBest);
-              usedLanguage = best;
-              ({ data } = await worker.recognize(image));
-            } else {
-              usedLanguage = best;
-            }
-          }
+          francAll = (await import('franc')).francAll as unknown as FrancAllFn;
         } catch {
-          // If franc-min is not available for some reason, skip auto detection silently
+          francAll = (await import('franc-min'))
+            .francAll as unknown as FrancAllFn;
         }
-      }
+        if (!francAll) throw new Error('Language detector unavailable');
+        const only = candidateLangs;
 
-      // Optional heuristics: autoPSM and autoWhitelist
-      if (options.autoWhitelist && usedLanguage) {
-        const wl = getWhitelistFor(usedLanguage);
-        if (wl) {
-          try {
-            await worker.setParameters({ tessedit_char_whitelist: wl });
-          } catch {
-            // ignore if unsupported in current build
+        const ranking = francAll(data.text, {
+          minLength: options.detectionMinTextLength ?? 20,
+          only,
+        });
+
+        const maxCand = Math.max(1, options.detectionMaxCandidates ?? 5);
+        detectedLanguages = ranking
+          .slice(0, maxCand)
+          .map(([lang, score]) => ({ lang, score }));
+
+        // Pick best candidate present in `only` (if provided), otherwise the top one
+        const best = detectedLanguages[0]?.lang;
+        if (best) {
+          // If we didn't explicitly set a single language, or best is not included in current, re-run
+          const currentLangs = usedLanguage
+            ? [usedLanguage]
+            : Array.isArray(this.config.language)
+              ? this.config.language
+              : this.config.language
+                ? [this.config.language]
+                : ['eng'];
+
+          const alreadyCovers = currentLangs.includes(best);
+          if (!alreadyCovers || currentLangs.length > 1) {
+            const mappedBest = resolveTesseractLangs([best]) || best;
+            await worker.loadLanguage(mappedBest);
+            await worker.initialize(mappedBest);
+            usedLanguage = best;
+            ({ data } = await raceWithSignal<TesseractRecognizeResult>(
+              recognizePage(),
+              options.signal,
+              () => this.abortWorker(worker)
+            ));
+          } else {
+            usedLanguage = best;
           }
         }
+      } catch (error) {
+        if (error instanceof AbortError) {
+          throw error;
+        }
+        // If franc-min is not available for some reason, skip auto detection silently
       }
+    }
 
-      if (options.autoPSM) {
-        // Very simple heuristic: many short lines => assume single line (7), else default (3)
-        const lineCount = data?.lines?.length ?? 0;
-        const avgLen = lineCount
-          ? data.lines.reduce(
-              (s: number, l: { text?: string }) => s + (l.text?.length || 0),
-              0
-            ) / lineCount
-          : data?.text?.length || 0;
-        const psm = lineCount > 10 && avgLen < 25 ? 7 : 3;
+    // autoPSM: recognize again with the PSM the layout suggests, keeping
+    // whichever pass is more confident
+    if (options.autoPSM && options.psm === undefined) {
+      const suggested = suggestPsm(buildLayout(data));
+      if (suggested !== psm) {
+        const first = { data, psm };
+        psm = suggested;
+        ({ data } = await raceWithSignal<TesseractRecognizeResult>(
+          recognizePage(),
+          options.signal,
+          () => this.abortWorker(worker)
+        ));
+        if ((data?.confidence ?? 0) < (first.data?.confidence ?? 0)) {
+          ({ data, psm } = first);
+        }
+      }
+    }
+
+    // Optional heuristic: autoWhitelist
+    if (options.autoWhitelist && usedLanguage) {
+      const wl = getWhitelistFor(usedLanguage);
+      if (wl) {
         try {
-          await worker.setParameters({ tessedit_pageseg_mode: psm });
+          await worker.setParameters({ tessedit_char_whitelist: wl });
         } catch {
-          // ignore if unsupported
+          // ignore if unsupported in current build
         }
       }
+    }
+
+    // Build result
+    const result: OCRResult = {
+      text: data.text,
+      confidence: data.confidence,
+      usedLanguage,
+      detectedLanguages,
+      ...(osd.orientation && { orientation: osd.orientation }),
+      ...(osd.script && { script: osd.script }),
+      ...(psm !== undefined && { psm }),
+    };
+    if (preprocessed && pipeline.length > 0) {
+      result.preprocessing = preprocessed.steps;
+    }
 
-      // Build result
-      const result: OCRResult = {
-        text: data.text,
-        confidence: data.confidence,
-        usedLanguage,
-        detectedLanguages,
+    // Boxes refer to the input image, not the upscaled or upright copy
+    const scale = preprocessed?.scale ?? 1;
+    const toInput = (bbox: OCRBBox): OCRBBox => {
+      const { x0, y0, x1, y1 } = turn ? turnBack(bbox, turn) : bbox;
+      return {
+        x0: Math.round(x0 / scale),
+        y0: Math.round(y0 / scale),
+        x1: Math.round(x1 / scale),
+        y1: Math.round(y1 / scale),
       };
+    };
 
-      // Add word-level data if requested
-      const dataAny = data as any;
-      if (options.includeBbox && dataAny.words) {
-        result.words = dataAny.words.map(
-          (word: {
-            text: string;
-            bbox: { x0: number; y0: number; x1: number; y1: number };
-            confidence: number;
-          }) => ({
-            text: word.text,
-            bbox: {
-              x0: word.bbox.x0,
-              y0: word.bbox.y0,
-              x1: word.bbox.x1,
-              y1: word.bbox.y1,
-            },
-            confidence: word.confidence,
-          })
-        );
-      }
+    const layout = withBlocks ? buildLayout(data, toInput) : undefined;
+    if (options.layout) {
+      result.layout = layout;
+    }
+    if (options.tables && layout) {
+      result.tables = detectTables(
+        layoutWords(layout),
+        options.tables === true ? {} : options.tables
+      );
+    }
 
-      // Add line-level data if requested
-      if (options.includeBbox && dataAny.lines) {
-        result.lines = dataAny.lines.map(
-          (line: {
-            text: string;
-            bbox: { x0: number; y0: number; x1: number; y1: number };
-            confidence: number;
-          }) => ({
-            text: line.text,
-            bbox: {
-              x0: line.bbox.x0,
-              y0: line.bbox.y0,
-              x1: line.bbox.x1,
-              y1: line.bbox.y1,
-            },
-            confidence: line.confidence,
-          })
-        );
-      }
+    // Add word-level data if requested
+    if (options.includeBbox && layout && !data.words) {
+      // tesseract.js 5+ only reports words and lines inside blocks
+      result.words = layoutWords(layout);
+      result.lines = layoutLines(layout).map(({ text, bbox, confidence }) => ({
+        text,
+        bbox,
+        confidence,
+      }));
+    }
+    if (options.includeBbox && data.words) {
+      result.words = data.words.map(word => ({
+        text: word.text,
+        bbox: toInput(word.bbox),
+        confidence: word.confidence,
+      }));
+    }
 
-      return result;
-    } catch (error) {
-      const inferenceError = new InferenceError(
-        `OCR recognition failed: ${error instanceof Error ? error.message : String(error)}`,
-        'ocr'
-      );
+    // Add line-level data if requested
+    if (options.includeBbox && data.lines) {
+      result.lines = data.lines.map(line => ({
+        text: line.text,
+        bbox: toInput(line.bbox),
+        confidence: line.confidence,
+      }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Tesseract cannot cancel a running job, so an aborted recognition
+   * terminates the worker; the next call loads a fresh one
+   */
+  private abortWorker(worker: { terminate: () => Promise<unknown> }): void {
+    if (this.worker === worker) {
+      this.worker = null;
+      this.loaded = false;
+    }
+    this.extraWorkers = this.extraWorkers.filter(extra => extra !== worker);
+    worker.terminate().catch(error => {
       if (typeof console !== 'undefined' && console.error) {
-        console.error('[OCRModel] recognize(): error', inferenceError);
+        console.error('[OCRModel] abort: error terminating worker', error);
       }
-      throw inferenceError;
-    }
+    });
   }
 
   /**
    * Unload the model and free resources
    */
   async unload(): Promise<void> {
-    if (this.worker) {
+    const osdWorker = await this.osdWorker?.catch(() => null);
+    const workers = [this.worker, ...this.extraWorkers, osdWorker].filter(
+      (worker): worker is TesseractWorker | TesseractOsdWorker => !!worker
+    );
+    this.worker = null;
+    this.extraWorkers = [];
+    this.osdWorker = null;
+    for (const worker of workers) {
       try {
-        await this.worker.terminate();
+        await worker.terminate();
       } catch (error) {
         if (typeof console !== 'undefined' && console.error) {
           console.error('[OCRModel] unload(): error terminating worker', error);
         }
       }
-      this.worker = null;
     }
 
     await super.unload();
@@ -332,10 +797,50 @@ export class OCRModel extends BaseModel<OCRConfig> {
   /**
    * Get the underlying worker
    */
-  protected getWorker(): any {
+  protected getWorker(): TesseractWorker {
     if (!this.worker) {
       throw new InferenceError('OCR worker not loaded', 'ocr');
     }
     return this.worker;
   }
 }
+
+/**
+ * Map a box on the turned page back to the page before the turn
+ */
+function turnBack(
+  bbox: OCRBBox,
+  { degrees, width, height }: QuarterTurn
+): OCRBBox {
+  const { x0, y0, x1, y1 } = bbox;
+  switch (degrees) {
+    case 90:
+      return { x0: y0, y0: height - x1, x1: y1, y1: height - x0 };
+    case 180:
+      return {
+        x0: width - x1,
+        y0: height - y1,
+        x1: width - x0,
+        y1: height - y0,
+      };
+    case 270:
+      return { x0: width - y1, y0: x0, x1: width - y0, y1: x1 };
+    default:
+      return bbox;
+  }
+}
+
+/**
+ * Check OCROptions and resolve the preprocessing pipeline
+ */
+function resolveOCROptions(options: OCROptions): ResolvedPreprocessStep[] {
+  const pipeline = resolvePreprocessPipeline(options.preprocess);
+  if (options.dpi !== undefined && !(options.dpi > 0)) {
+    throw new ValidationError('dpi must be a positive number', 'dpi');
+  }
+  return pipeline;
+}
+
+function isPixelImage(image: unknown): image is PixelImage {
+  return typeof image === 'object' && image !== null && 'channels' in image;
+}
@@ -2,12 +2,41 @@
  * STT Model for speech-to-text transcription (Whisper)
  */
 
-import type { STTConfig, STTOptions, Device } from '../core/types';
+import type {
+  STTConfig,
+  STTOptions,
+  Device,
+  TranscriptionResult,
+  TranscriptionProgressEventData,
+} from '../core/types';
 import { BaseModel } from './BaseModel';
 import { audioConverter, type AudioInput } from '../utils/AudioConverter';
 import { getConfig } from '../app/state';
-import { ModelLoadError, InferenceError } from '@domain/errors';
+import {
+  ModelLoadError,
+  InferenceError,
+  AbortError,
+  ValidationError,
+} from '@domain/errors';
 import type { BackendSelector } from '../app/backend/BackendSelector';
+import { abortStoppingCriteria, throwIfAborted } from '../utils/abort';
+import {
+  TranscriptionTracker,
+  buildTranscriptionResult,
+  meanLogprob,
+  segmentLogprobs,
+  planWindows,
+  planSpeechWindows,
+  stitchWindows,
+  MAX_CHUNK_LENGTH_S,
+  type WhisperPipelineOutput,
+  type WindowTranscript,
+} from '../app/transcription';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type {
+  LogitsBatch,
+  LogitsInputIds,
+} from '../app/generation/GrammarLogitsProcessor';
 
 // Dynamically import Transformers.js
 let transformersModule: typeof import('@huggingface/transformers') | null =
@@ -20,6 +49,38 @@ async function getTransformers() {
   return transformersModule;
 }
 
+// Whisper expects 16 kHz mono input
+const SAMPLE_RATE = 16000;
+
+interface WhisperTranscriptionOptions {
+  language?: string;
+  task?: string;
+  return_timestamps?: boolean | 'word';
+  logits_processor?: unknown[];
+  stopping_criteria?: unknown[];
+}
+
+// The parts of the ASR pipeline used beyond calling it
+interface WhisperGenerationConfig {
+  is_multilingual?: boolean;
+  lang_to_id?: Record<string, number>;
+  decoder_start_token_id?: number;
+  eos_token_id?: number | number[];
+  no_timestamps_token_id?: number;
+}
+
+type WhisperPipeline = ((
+  input: Float32Array,
+  opts?: WhisperTranscriptionOptions
+) => Promise<WhisperPipelineOutput>) & {
+  model: {
+    generation_config?: WhisperGenerationConfig;
+    generate: (options: Record<string, unknown>) => Promise<unknown>;
+  };
+  processor: (audio: Float32Array) => Promise<{ input_features: unknown }>;
+  tokenizer: { timestamp_begin?: number };
+};
+
 export class STTModel extends BaseModel<STTConfig> {
   private backendSelector?: BackendSelector;
 
@@ -240,45 +301,77 @@ export class STTModel extends BaseModel<STTConfig> {
   }
 
   /**
-   * Transcribe audio to text
+   * Transcribe audio to text. Audio longer than `chunkLengthS` (30 s by
+   * default) is transcribed in overlapping windows; with `vad` only the
+   * detected speech is.
    */
   async transcribe(
     audio: AudioInput, // Use AudioConverter type
     options: STTOptions = {}
   ): Promise<string> {
     await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
-    const pipeline = this.getPipeline() as (
-      input: Float32Array,
-      opts?: unknown
-    ) => Promise<{ text: string }>;
+    const pipeline = this.getPipeline() as WhisperPipeline;
 
     try {
       // Convert audio to Float32Array using AudioConverter
-      const audioData = await audioConverter.toFloat32Array(audio, 16000);
+      const audioData = await audioConverter.toFloat32Array(audio, SAMPLE_RATE);
+      if (
+        options.vad ||
+        options.chunkLengthS !== undefined ||
+        audioData.length / SAMPLE_RATE > MAX_CHUNK_LENGTH_S
+      ) {
+        return (await this.transcribeWindows(audioData, options)).text;
+      }
 
-      const transcriptionOptions: {
-        language?: string;
-        task?: string;
-        return_timestamps?: boolean;
-      } = {};
+      const transcriptionOptions = this.buildTranscriptionOptions(options);
 
-      if (options.language) {
-        transcriptionOptions.language = options.language;
-      }
+      throwIfAborted(options.signal);
+      const result = await pipeline(audioData, transcriptionOptions);
+      throwIfAborted(options.signal);
 
-      if (options.task) {
-        transcriptionOptions.task = options.task;
+      return result.text;
+    } catch (error) {
+      if (error instanceof AbortError || error instanceof ValidationError) {
+        throw error;
       }
+      throw new InferenceError(
+        `STT transcription failed: ${(error as Error).message}`,
+        'stt',
+        error as Error
+      );
+    }
+  }
 
-      if (options.timestamps) {
-        transcriptionOptions.return_timestamps = true;
-      }
+  /**
+   * Transcribe audio into timed segments with confidence, the spoken
+   * language and, with `wordTimestamps`, per-word timing. Without
+   * `options.language` a multilingual model detects it first.
+   */
+  async transcribeDetailed(
+    audio: AudioInput,
+    options: STTOptions = {}
+  ): Promise<TranscriptionResult> {
+    await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
-      const result = await pipeline(audioData, transcriptionOptions);
+    try {
+      const audioData = await audioConverter.toFloat32Array(audio, SAMPLE_RATE);
+      const language =
+        options.language ??
+        (await this.detectLanguage(
+          options.vad
+            ? audioConverter.trimSilence(audioData, this.vadOptions(options))
+            : audioData
+        ));
+      throwIfAborted(options.signal);
 
-      return result.text;
+      return await this.transcribeWindows(audioData, { ...options, language });
     } catch (error) {
+      if (error instanceof AbortError || error instanceof ValidationError) {
+        throw error;
+      }
       throw new InferenceError(
         `STT transcription failed: ${(error as Error).message}`,
         'stt',
@@ -287,6 +380,212 @@ export class STTModel extends BaseModel<STTConfig> {
     }
   }
 
+  /**
+   * Transcribe overlapping windows with bounded concurrency and stitch
+   * their timed chunks together; short audio is a single window
+   */
+  private async transcribeWindows(
+    audioData: Float32Array,
+    options: STTOptions
+  ): Promise<TranscriptionResult> {
+    const pipeline = this.getPipeline() as WhisperPipeline;
+    const duration = audioData.length / SAMPLE_RATE;
+    const chunkLengthS = options.chunkLengthS ?? MAX_CHUNK_LENGTH_S;
+    const strideLengthS = options.strideLengthS ?? chunkLengthS / 6;
+    // Without speech there is nothing to transcribe
+    const windows = options.vad
+      ? planSpeechWindows(
+          audioConverter.detectSpeech(audioData, this.vadOptions(options)),
+          chunkLengthS,
+          strideLengthS
+        )
+      : planWindows(duration, chunkLengthS, strideLengthS);
+    const { textTokenLimit, timestampBegin } = this.getTokenLayout();
+
+    const startedAt = Date.now();
+    let chunksCompleted = 0;
+    const report = (status: TranscriptionProgressEventData['status']) => {
+      const progress =
+        status === 'completed'
+          ? 1
+          : chunksCompleted / Math.max(windows.length, 1);
+      const elapsed = Date.now() - startedAt;
+      options.onProgress?.({
+        status,
+        chunksCompleted,
+        chunksTotal: windows.length,
+        progress,
+        audioSeconds: duration,
+        etaMs:
+          status === 'progress' && progress > 0
+            ? Math.round((elapsed / progress) * (1 - progress))
+            : undefined,
+      });
+    };
+    report('started');
+
+    const trackers: TranscriptionTracker[] = [];
+    const transcripts = await mapWithConcurrency(
+      windows,
+      options.concurrency ?? 1,
+      async (window): Promise<WindowTranscript> => {
+        throwIfAborted(options.signal);
+        const tracker = new TranscriptionTracker();
+        trackers[window.index] = tracker;
+        const transcriptionOptions = this.buildTranscriptionOptions({
+          ...options,
+          timestamps: true,
+        });
+        transcriptionOptions.logits_processor = [tracker.logitsProcessor];
+        transcriptionOptions.stopping_criteria = [
+          tracker.stoppingCriteria,
+          ...(transcriptionOptions.stopping_criteria ?? []),
+        ];
+
+        const samples = audioData.subarray(
+          Math.round(window.start * SAMPLE_RATE),
+          Math.round(window.end * SAMPLE_RATE)
+        );
+        const result = await pipeline(samples, transcriptionOptions);
+        throwIfAborted(options.signal);
+
+        const chunks = result.chunks?.length
+          ? result.chunks
+          : result.text.trim()
+            ? [{ text: result.text, timestamp: [0, window.end - window.start] }]
+            : [];
+        const logprobs = segmentLogprobs(
+          tracker.runs,
+          textTokenLimit,
+          timestampBegin
+        );
+
+        chunksCompleted++;
+        report('progress');
+        return {
+          window,
+          chunks,
+          logprobs: logprobs.length === chunks.length ? logprobs : undefined,
+        };
+      }
+    );
+
+    const { output, logprobs } = stitchWindows(transcripts);
+    report('completed');
+
+    const runs = trackers.flatMap(tracker => tracker.runs);
+    return buildTranscriptionResult(output, {
+      duration,
+      language:
+        this.languageCode(trackers[0]?.languageTokenId()) ?? options.language,
+      words: options.wordTimestamps,
+      segmentLogprobs: logprobs,
+      meanLogprob: meanLogprob(runs, textTokenLimit),
+    });
+  }
+
+  private vadOptions(options: STTOptions) {
+    const vad = typeof options.vad === 'object' ? options.vad : {};
+    return { ...vad, sampleRate: SAMPLE_RATE };
+  }
+
+  private buildTranscriptionOptions(
+    options: STTOptions
+  ): WhisperTranscriptionOptions {
+    const transcriptionOptions: WhisperTranscriptionOptions = {};
+
+    if (options.language) {
+      transcriptionOptions.language = options.language;
+    }
+
+    if (options.task) {
+      transcriptionOptions.task = options.task;
+    }
+
+    if (options.wordTimestamps) {
+      transcriptionOptions.return_timestamps = 'word';
+    } else if (options.timestamps) {
+      transcriptionOptions.return_timestamps = true;
+    }
+
+    if (options.signal) {
+      // Whisper decodes with generate(), which honours stopping criteria
+      transcriptionOptions.stopping_criteria = [
+        abortStoppingCriteria(options.signal),
+      ];
+    }
+
+    return transcriptionOptions;
+  }
+
+  /**
+   * Pick the most likely language token for the first 30 seconds of audio.
+   * Transformers.js would otherwise assume English.
+   */
+  private async detectLanguage(
+    audioData: Float32Array
+  ): Promise<string | undefined> {
+    const { model, processor } = this.getPipeline() as WhisperPipeline;
+    const config = model.generation_config;
+    if (!config?.is_multilingual || !config.lang_to_id) {
+      return undefined;
+    }
+
+    const languageTokens = Object.entries(config.lang_to_id);
+    const { input_features } = await processor(
+      audioData.subarray(0, MAX_CHUNK_LENGTH_S * SAMPLE_RATE)
+    );
+    let best: { token: string; score: number } | undefined;
+    await model.generate({
+      inputs: input_features,
+      decoder_input_ids: [config.decoder_start_token_id],
+      max_new_tokens: 1,
+      logits_processor: [
+        (_inputIds: LogitsInputIds, logits: LogitsBatch) => {
+          const scores = logits[0].data;
+          for (const [token, id] of languageTokens) {
+            if (!best || scores[id] > best.score) {
+              best = { token, score: scores[id] };
+            }
+          }
+          return logits;
+        },
+      ],
+    });
+    return best ? best.token.slice(2, -2) : undefined;
+  }
+
+  /**
+   * Language code of a `<|xx|>` token id; English-only models are 'en'
+   */
+  private languageCode(tokenId: number | undefined): string | undefined {
+    const { model } = this.getPipeline() as WhisperPipeline;
+    const config = model.generation_config;
+    if (!config?.is_multilingual) {
+      return 'en';
+    }
+    const entry = Object.entries(config.lang_to_id ?? {}).find(
+      ([, id]) => id === tokenId
+    );
+    return entry ? entry[0].slice(2, -2) : undefined;
+  }
+
+  /**
+   * Text tokens are the ids below EOS; timestamps start at `<|0.00|>`
+   */
+  private getTokenLayout(): { textTokenLimit: number; timestampBegin: number } {
+    const { model, tokenizer } = this.getPipeline() as WhisperPipeline;
+    const config = model.generation_config ?? {};
+    const eos = config.eos_token_id;
+    const textTokenLimit = Array.isArray(eos)
+      ? Math.min(...eos)
+      : (eos ?? 50257);
+    const timestampBegin =
+      tokenizer.timestamp_begin ??
+      (config.no_timestamps_token_id ?? textTokenLimit) + 1;
+    return { textTokenLimit, timestampBegin };
+  }
+
   /**
    * Transcribe audio from URL
    */
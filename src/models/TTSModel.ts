@@ -2,12 +2,31 @@
  * TTS Model for text-to-speech synthesis
  */
 
-import type { TTSConfig, TTSOptions, Device } from '../core/types';
+import type {
+  TTSConfig,
+  TTSOptions,
+  Device,
+  SpeakStreamOptions,
+  SpeechStreamChunk,
+} from '../core/types';
 import { BaseModel } from './BaseModel';
 import { audioConverter } from '../utils/AudioConverter';
-import { ModelLoadError, InferenceError } from '@domain/errors';
+import {
+  ModelLoadError,
+  InferenceError,
+  AbortError,
+  ValidationError,
+} from '@domain/errors';
 import { voiceProfileRegistry } from '../core/VoiceProfileRegistry';
 import type { BackendSelector } from '../app/backend/BackendSelector';
+import { throwIfAborted } from '../utils/abort';
+import { streamSynthesis, isSsml, parseSsml } from '../app/synthesis';
+import {
+  applyProsody,
+  clampProsody,
+  validateProsody,
+  type Prosody,
+} from '../utils/dsp';
 
 // Dynamically import Transformers.js
 let transformersModule: typeof import('@huggingface/transformers') | null =
@@ -229,10 +248,116 @@ export class TTSModel extends BaseModel<TTSConfig> {
   }
 
   /**
-   * Synthesize speech from text
+   * Synthesize speech from text, encoded as `options.format` (WAV by default).
+   * Text starting with `<speak>` is read as SSML (see parseSsml).
    */
   async synthesize(text: string, options: TTSOptions = {}): Promise<Blob> {
+    const { audio, sampleRate } = isSsml(text)
+      ? await this.renderSsml(text, options)
+      : await this.render(text, options);
+    return audioConverter.encode(audio, sampleRate, options.format, {
+      bitrate: options.bitrate,
+    });
+  }
+
+  /**
+   * Synthesize text sentence by sentence, yielding each sentence's audio
+   * as soon as it is ready. `text` may be a token stream, e.g. from
+   * `AIProvider.stream`; chunks keep the order of the text.
+   */
+  async *synthesizeStream(
+    text: string | AsyncIterable<string>,
+    options: SpeakStreamOptions = {}
+  ): AsyncGenerator<SpeechStreamChunk, void> {
+    const { concurrency, maxSentenceLength, ...ttsOptions } = options;
+    await this.ensureLoaded();
+    throwIfAborted(options.signal);
+
+    yield* streamSynthesis(
+      text,
+      async (sentence, index): Promise<SpeechStreamChunk> => {
+        const { audio, sampleRate } = await this.render(sentence, ttsOptions);
+        return {
+          index,
+          text: sentence,
+          audio,
+          sampleRate,
+          blob: await audioConverter.encode(audio, sampleRate, options.format, {
+            bitrate: options.bitrate,
+          }),
+        };
+      },
+      { concurrency, maxSentenceLength, signal: options.signal }
+    );
+  }
+
+  /**
+   * Render each SSML segment with its voice and prosody and join them with
+   * the requested pauses
+   */
+  private async renderSsml(
+    ssml: string,
+    options: TTSOptions
+  ): Promise<{ audio: Float32Array; sampleRate: number }> {
+    const segments = parseSsml(ssml);
+    for (const segment of segments) {
+      if (
+        segment.type === 'text' &&
+        segment.voice !== undefined &&
+        !voiceProfileRegistry.has(segment.voice)
+      ) {
+        throw new ValidationError(
+          `Unknown voice in SSML: "${segment.voice}"`,
+          'voice'
+        );
+      }
+    }
+
+    const pieces: Array<Float32Array | number> = [];
+    let sampleRate: number | undefined;
+    for (const segment of segments) {
+      if (segment.type === 'break') {
+        pieces.push(segment.seconds);
+        continue;
+      }
+      const rendered = await this.render(
+        segment.text,
+        segment.voice !== undefined
+          ? { ...options, voiceProfile: segment.voice, speaker: undefined }
+          : options,
+        { speed: segment.speed, pitch: segment.pitch }
+      );
+      sampleRate ??= rendered.sampleRate;
+      pieces.push(rendered.audio);
+    }
+
+    // SpeechT5 rate when there is nothing but pauses
+    const rate = sampleRate ?? 16000;
+    const lengths = pieces.map(piece =>
+      typeof piece === 'number' ? Math.round(piece * rate) : piece.length
+    );
+    const audio = new Float32Array(lengths.reduce((sum, n) => sum + n, 0));
+    let offset = 0;
+    pieces.forEach((piece, i) => {
+      if (typeof piece !== 'number') audio.set(piece, offset);
+      offset += lengths[i];
+    });
+    return { audio, sampleRate: rate };
+  }
+
+  /**
+   * Run the pipeline with the resolved speaker and voice parameters, then
+   * apply speed and pitch to the waveform (times `scale`, e.g. from SSML).
+   * Options must be in range; the product with `scale` is clamped to it.
+   */
+  private async render(
+    text: string,
+    options: TTSOptions,
+    scale: Prosody = {}
+  ): Promise<{ audio: Float32Array; sampleRate: number }> {
+    validateProsody({ speed: options.speed, pitch: options.pitch });
     await this.ensureLoaded();
+    throwIfAborted(options.signal);
 
     const pipeline = this.getPipeline() as (
       input: string,
@@ -291,7 +416,10 @@ export class TTSModel extends BaseModel<TTSConfig> {
             );
           }
         }
-      } else if (this.config.speaker !== undefined) {
+      } else if (
+        this.config.speaker !== undefined &&
+        options.voiceProfile === undefined
+      ) {
         if (typeof this.config.speaker === 'string') {
           // Handle string speaker (not supported in this implementation)
           if (typeof console !== 'undefined' && console.warn) {
@@ -317,9 +445,15 @@ export class TTSModel extends BaseModel<TTSConfig> {
       if (options.accent !== undefined) voiceParams.accent = options.accent;
       if (options.style !== undefined) voiceParams.style = options.style;
 
+      // Speed and pitch are applied to the waveform, not by the model
+      const { speed, pitch, ...modelParams } = voiceParams;
+      const prosody = clampProsody({
+        speed: ((speed as number | undefined) ?? 1) * (scale.speed ?? 1),
+        pitch: ((pitch as number | undefined) ?? 1) * (scale.pitch ?? 1),
+      });
       const inferOptions = {
         speaker_embeddings: speakerEmbeddings,
-        ...voiceParams,
+        ...modelParams,
       } as Record<string, unknown>;
 
       if (typeof console !== 'undefined' && console.log) {
@@ -333,13 +467,14 @@ export class TTSModel extends BaseModel<TTSConfig> {
       }
 
       const result = await pipeline(text, inferOptions);
+      throwIfAborted(options.signal);
 
-      // Use AudioConverter instead of own implementation
-      return audioConverter.toWavBlob(result.audio, result.sampling_rate, {
-        channels: 1,
-        bitDepth: 16,
-      });
+      const audio = applyProsody(result.audio, result.sampling_rate, prosody);
+      return { audio, sampleRate: result.sampling_rate };
     } catch (error) {
+      if (error instanceof AbortError || error instanceof ValidationError) {
+        throw error;
+      }
       throw new InferenceError(
         `TTS synthesis failed: ${(error as Error).message}`,
         'tts',
@@ -2,9 +2,11 @@
  * React Hook for Chat functionality
  */
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import type { AIProvider } from '@app/AIProvider';
 import type { Message, ChatResponse, ChatOptions } from '../../core/types';
+import { AbortError } from '@domain/errors';
+import { linkedAbortController } from '../../utils/abort';
 
 export interface UseChatOptions extends ChatOptions {
   initialMessages?: Message[];
@@ -20,6 +22,7 @@ export interface UseChatReturn {
   sendMessages: (messages: Message[]) => Promise<void>;
   clear: () => void;
   retry: () => Promise<void>;
+  stop: () => void; // cancel the pending response
 }
 
 /**
@@ -36,8 +39,30 @@ export function useChat(
   const [error, setError] = useState<Error | null>(null);
 
   const lastUserMessageRef = useRef<string>('');
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { onResponse, onError, ...chatOptions } = options;
 
+  /**
+   * Start a request, cancelling the previous one if it is still running
+   */
+  const beginRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+    const controller = linkedAbortController(options.signal);
+    abortControllerRef.current = controller;
+    return controller;
+  }, [options.signal]);
+
+  /**
+   * Finish a request; returns false if a newer one has taken over
+   */
+  const endRequest = useCallback((controller: AbortController) => {
+    if (abortControllerRef.current !== controller) {
+      return false;
+    }
+    abortControllerRef.current = null;
+    return true;
+  }, []);
+
   /**
    * Send a user message
    */
@@ -54,6 +79,7 @@ export function useChat(
         return;
       }
 
+      const controller = beginRequest();
       setIsLoading(true);
       setError(null);
       lastUserMessageRef.current = content;
@@ -68,10 +94,10 @@ export function useChat(
 
       try {
         // Get response from provider
-        const response = await provider.chat(
-          [...messages, userMessage],
-          chatOptions
-        );
+        const response = await provider.chat([...messages, userMessage], {
+          ...chatOptions,
+          signal: controller.signal,
+        });
 
         // Add assistant response
         const assistantMessage: Message = {
@@ -82,17 +108,32 @@ export function useChat(
         setMessages((prev: Message[]) => [...prev, assistantMessage]);
         onResponse?.(response);
       } catch (err) {
-        const error = err as Error;
-        setError(error);
-        onError?.(error);
+        // A stopped request is not an error
+        if (!(err instanceof AbortError)) {
+          const error = err as Error;
+          setError(error);
+          onError?.(error);
+        }
 
         // Remove user message on error
-        setMessages((prev: Message[]) => prev.slice(0, -1));
+        setMessages((prev: Message[]) =>
+          prev.filter(message => message !== userMessage)
+        );
       } finally {
-        setIsLoading(false);
+        if (endRequest(controller)) {
+          setIsLoading(false);
+        }
       }
     },
-    [provider, messages, chatOptions, onResponse, onError]
+    [
+      provider,
+      messages,
+      chatOptions,
+      onResponse,
+      onError,
+      beginRequest,
+      endRequest,
+    ]
   );
 
   /**
@@ -107,11 +148,15 @@ export function useChat(
         return;
       }
 
+      const controller = beginRequest();
       setIsLoading(true);
       setError(null);
 
       try {
-        const response = await provider.chat(customMessages, chatOptions);
+        const response = await provider.chat(customMessages, {
+          ...chatOptions,
+          signal: controller.signal,
+        });
 
         // Add all messages
         setMessages(customMessages);
@@ -125,14 +170,18 @@ export function useChat(
         setMessages((prev: Message[]) => [...prev, assistantMessage]);
         onResponse?.(response);
       } catch (err) {
-        const error = err as Error;
-        setError(error);
-        onError?.(error);
+        if (!(err instanceof AbortError)) {
+          const error = err as Error;
+          setError(error);
+          onError?.(error);
+        }
       } finally {
-        setIsLoading(false);
+        if (endRequest(controller)) {
+          setIsLoading(false);
+        }
       }
     },
-    [provider, chatOptions, onResponse, onError]
+    [provider, chatOptions, onResponse, onError, beginRequest, endRequest]
   );
 
   /**
@@ -154,6 +203,20 @@ export function useChat(
     await send(lastUserMessageRef.current);
   }, [send]);
 
+  /**
+   * Stop the pending response; the unanswered user message is removed
+   */
+  const stop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Stop generating when the component unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
   return {
     messages,
     isLoading,
@@ -162,5 +225,6 @@ export function useChat(
     sendMessages,
     clear,
     retry,
+    stop,
   };
 }
@@ -2,9 +2,11 @@
  * Vue Composable for Chat functionality
  */
 
-import { ref, type Ref } from 'vue';
+import { ref, onUnmounted, getCurrentInstance, type Ref } from 'vue';
 import type { AIProvider } from '@app/AIProvider';
 import type { Message, ChatResponse, ChatOptions } from '../../core/types';
+import { AbortError } from '@domain/errors';
+import { linkedAbortController } from '../../utils/abort';
 
 export interface UseChatOptions extends ChatOptions {
   initialMessages?: Message[];
@@ -20,6 +22,7 @@ export interface UseChatReturn {
   sendMessages: (messages: Message[]) => Promise<void>;
   clear: () => void;
   retry: () => Promise<void>;
+  stop: () => void; // cancel the pending response
 }
 
 /**
@@ -34,8 +37,29 @@ export function useChat(
   const error = ref<Error | null>(null);
 
   let lastUserMessage = '';
+  let abortController: AbortController | null = null;
   const { onResponse, onError, ...chatOptions } = options;
 
+  /**
+   * Start a request, cancelling the previous one if it is still running
+   */
+  const beginRequest = (): AbortController => {
+    abortController?.abort();
+    abortController = linkedAbortController(options.signal);
+    return abortController;
+  };
+
+  /**
+   * Finish a request; returns false if a newer one has taken over
+   */
+  const endRequest = (controller: AbortController): boolean => {
+    if (abortController !== controller) {
+      return false;
+    }
+    abortController = null;
+    return true;
+  };
+
   // Get provider value
   const getProvider = (): AIProvider | null => {
     if (!provider) return null;
@@ -59,6 +83,7 @@ export function useChat(
       return;
     }
 
+    const controller = beginRequest();
     isLoading.value = true;
     error.value = null;
     lastUserMessage = content;
@@ -73,10 +98,10 @@ export function useChat(
 
     try {
       // Get response from provider
-      const response = await currentProvider.chat(
-        [...messages.value],
-        chatOptions
-      );
+      const response = await currentProvider.chat([...messages.value], {
+        ...chatOptions,
+        signal: controller.signal,
+      });
 
       // Add assistant response
       const assistantMessage: Message = {
@@ -87,14 +112,21 @@ export function useChat(
       messages.value = [...messages.value, assistantMessage];
       onResponse?.(response);
     } catch (err) {
-      const errorObj = err as Error;
-      error.value = errorObj;
-      onError?.(errorObj);
+      // A stopped request is not an error
+      if (!(err instanceof AbortError)) {
+        const errorObj = err as Error;
+        error.value = errorObj;
+        onError?.(errorObj);
+      }
 
       // Remove user message on error
-      messages.value = messages.value.slice(0, -1);
+      messages.value = messages.value.filter(
+        message => message !== userMessage
+      );
     } finally {
-      isLoading.value = false;
+      if (endRequest(controller)) {
+        isLoading.value = false;
+      }
     }
   };
 
@@ -111,11 +143,15 @@ export function useChat(
       return;
     }
 
+    const controller = beginRequest();
     isLoading.value = true;
     error.value = null;
 
     try {
-      const response = await currentProvider.chat(customMessages, chatOptions);
+      const response = await currentProvider.chat(customMessages, {
+        ...chatOptions,
+        signal: controller.signal,
+      });
 
       // Set messages
       messages.value = customMessages;
@@ -129,11 +165,15 @@ export function useChat(
       messages.value = [...messages.value, assistantMessage];
       onResponse?.(response);
     } catch (err) {
-      const errorObj = err as Error;
-      error.value = errorObj;
-      onError?.(errorObj);
+      if (!(err instanceof AbortError)) {
+        const errorObj = err as Error;
+        error.value = errorObj;
+        onError?.(errorObj);
+      }
     } finally {
-      isLoading.value = false;
+      if (endRequest(controller)) {
+        isLoading.value = false;
+      }
     }
   };
 
@@ -156,6 +196,18 @@ export function useChat(
     await send(lastUserMessage);
   };
 
+  /**
+   * Stop the pending response; the unanswered user message is removed
+   */
+  const stop = () => {
+    abortController?.abort();
+  };
+
+  // Stop generating on unmount (guard for tests calling composable outside component)
+  if (getCurrentInstance()) {
+    onUnmounted(stop);
+  }
+
   return {
     messages,
     isLoading,
@@ -164,5 +216,6 @@ export function useChat(
     sendMessages,
     clear,
     retry,
+    stop,
   };
 }
@@ -11,16 +11,49 @@
 
 import type { Blob as NodeBlob } from 'buffer';
 import { ValidationError } from '@domain/errors';
+import type { VADOptions } from '../core/types';
+import { detectSpeech } from './VoiceActivityDetector';
+import { resample } from './dsp';
+import { writeOggOpus } from './oggOpus';
+import type { WasmMediaEncoder } from 'wasm-media-encoders';
 
 export type AudioInput = Blob | NodeBlob | Float32Array | Float64Array | string;
 export type AudioOutput = Float32Array;
 
+export type AudioFormat = 'wav' | 'mp3' | 'ogg';
+
+/** Constant bitrates (kbps) an MP3 frame can carry */
+export const MP3_BITRATES = [
+  8, 16, 24, 32, 40, 48, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320,
+] as const;
+export type Mp3Bitrate = (typeof MP3_BITRATES)[number];
+
+export interface AudioEncodeOptions {
+  /**
+   * Target bitrate in kbps (mp3: one of MP3_BITRATES the sample rate allows,
+   * ogg: 6-510, variable)
+   */
+  bitrate?: number;
+}
+
 export interface AudioMetadata {
   sampleRate: number;
   channels: number;
   duration?: number;
 }
 
+/**
+ * Stretch of speech found by voice activity detection, in seconds
+ */
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+export interface SpeechChunk extends SpeechRegion {
+  samples: Float32Array;
+}
+
 /**
  * Converts various audio formats to Float32Array for ML models
  * Uses @huggingface/transformers read_audio for Node.js compatibility
@@ -43,6 +76,29 @@ export class AudioConverter {
     return this.transformersModule;
   }
 
+  // The MP3 encoder is compiled once and reconfigured for every file
+  private mp3Encoder: Promise<Mp3Encoder> | null = null;
+  private opusModule: Promise<typeof import('libopus-wasm')> | null = null;
+
+  private getMp3Encoder(): Promise<Mp3Encoder> {
+    if (!this.mp3Encoder) {
+      this.mp3Encoder = import('wasm-media-encoders').then(module =>
+        module.createMp3Encoder()
+      );
+      // Let a failed load be retried
+      this.mp3Encoder.catch(() => (this.mp3Encoder = null));
+    }
+    return this.mp3Encoder;
+  }
+
+  private getOpus(): Promise<typeof import('libopus-wasm')> {
+    if (!this.opusModule) {
+      this.opusModule = import('libopus-wasm');
+      this.opusModule.catch(() => (this.opusModule = null));
+    }
+    return this.opusModule;
+  }
+
   /**
    * Convert audio input to Float32Array
    *
@@ -222,6 +278,342 @@ export class AudioConverter {
     return new Blob([buffer], { type: 'audio/wav' });
   }
 
+  /**
+   * Encode mono samples as WAV, MP3 or Ogg
+   *
+   * @param audioData - Float32Array audio data
+   * @param sampleRate - Sample rate of audio data
+   * @param format - Container and codec (default: 'wav')
+   * @param options - Bitrate for the compressed formats
+   * @returns Blob with the matching MIME type
+   *
+   * @example
+   * ```typescript
+   * const mp3 = await converter.encode(audioData, 16000, 'mp3', { bitrate: 48 });
+   * ```
+   */
+  async encode(
+    audioData: Float32Array,
+    sampleRate: number,
+    format: AudioFormat = 'wav',
+    options: AudioEncodeOptions = {}
+  ): Promise<Blob> {
+    switch (format) {
+      case 'wav':
+        return this.toWavBlob(audioData, sampleRate, {
+          channels: 1,
+          bitDepth: 16,
+        });
+      case 'mp3':
+        return this.toMp3Blob(audioData, sampleRate, options);
+      case 'ogg':
+        return this.toOggBlob(audioData, sampleRate, options);
+      default:
+        throw new ValidationError(
+          `Unsupported audio format: ${String(format)}`,
+          'format'
+        );
+    }
+  }
+
+  /**
+   * Encode mono samples as constant-bitrate MP3 (LAME, WebAssembly)
+   *
+   * @param audioData - Float32Array audio data
+   * @param sampleRate - Sample rate of audio data
+   * @param options - `bitrate` in kbps, one of MP3_BITRATES up to the
+   *   maximum of the sample rate's MPEG version (default: 64)
+   * @returns MP3 Blob
+   */
+  async toMp3Blob(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: AudioEncodeOptions = {}
+  ): Promise<Blob> {
+    const bitrate = options.bitrate ?? 64;
+    if (!MP3_BITRATES.includes(bitrate as Mp3Bitrate)) {
+      throw new ValidationError(
+        `MP3 bitrate must be one of ${MP3_BITRATES.join(', ')} kbps`,
+        'bitrate'
+      );
+    }
+    // MPEG-2 and 2.5 (below 32 and 16 kHz) carry lower bitrates than MPEG-1
+    const maxBitrate =
+      sampleRate >= 32000 ? 320 : sampleRate >= 16000 ? 160 : 64;
+    if (bitrate > maxBitrate) {
+      throw new ValidationError(
+        `MP3 at ${sampleRate} Hz allows at most ${maxBitrate} kbps`,
+        'bitrate'
+      );
+    }
+    const encoder = await this.getMp3Encoder();
+    encoder.configure({
+      channels: 1,
+      sampleRate,
+      bitrate: bitrate as Mp3Bitrate,
+    });
+    return this.runEncoder(encoder, audioData, 'audio/mpeg');
+  }
+
+  /**
+   * Encode mono samples as Ogg Opus (libopus, WebAssembly). Audio is
+   * resampled to 48 kHz, the rate Opus always decodes at, and encoded in
+   * 20 ms variable-bitrate packets.
+   *
+   * @param audioData - Float32Array audio data
+   * @param sampleRate - Sample rate of audio data
+   * @param options - Target `bitrate` in kbps, 6-510 (default: 64)
+   * @returns Ogg Opus Blob
+   */
+  async toOggBlob(
+    audioData: Float32Array,
+    sampleRate: number,
+    options: AudioEncodeOptions = {}
+  ): Promise<Blob> {
+    const bitrate = options.bitrate ?? 64;
+    if (!(bitrate >= 6 && bitrate <= 510)) {
+      throw new ValidationError(
+        'Opus bitrate must be between 6 and 510 kbps',
+        'bitrate'
+      );
+    }
+    const samples = resample(audioData, sampleRate, OPUS_SAMPLE_RATE);
+    const { createEncoder, Application } = await this.getOpus();
+    const encoder = await createEncoder({
+      channels: 1,
+      sampleRate: OPUS_SAMPLE_RATE,
+      application: Application.Audio,
+      bitrate: Math.round(bitrate * 1000),
+      frameSize: OPUS_FRAME_SIZE,
+    });
+
+    try {
+      // Pad so the lookahead and the last partial frame are encoded too
+      const preSkip = encoder.getLookahead();
+      const frames = Math.ceil((samples.length + preSkip) / OPUS_FRAME_SIZE);
+      const padded = new Float32Array(frames * OPUS_FRAME_SIZE);
+      padded.set(samples);
+      const packets: Uint8Array[] = [];
+      for (let i = 0; i < padded.length; i += OPUS_FRAME_SIZE) {
+        packets.push(
+          encoder.encodeFloat(padded.subarray(i, i + OPUS_FRAME_SIZE))
+        );
+      }
+      const ogg = writeOggOpus(packets, {
+        channels: 1,
+        preSkip,
+        inputSampleRate: sampleRate,
+        samples: samples.length,
+        frameSize: OPUS_FRAME_SIZE,
+      });
+      return new Blob([ogg], { type: 'audio/ogg' });
+    } finally {
+      encoder.free();
+    }
+  }
+
+  /**
+   * Feed samples in blocks and collect the encoded bytes. Encoder output
+   * buffers are reused by the next call, so every part is copied.
+   *
+   * @private
+   */
+  private runEncoder(
+    encoder: Mp3Encoder,
+    audioData: Float32Array,
+    type: string
+  ): Blob {
+    const parts: BlobPart[] = [];
+    for (let i = 0; i < audioData.length; i += ENCODE_BLOCK) {
+      parts.push(
+        new Uint8Array(
+          encoder.encode([audioData.subarray(i, i + ENCODE_BLOCK)])
+        )
+      );
+    }
+    parts.push(new Uint8Array(encoder.finalize()));
+    return new Blob(parts, { type });
+  }
+
+  /**
+   * Find the speech regions of a recording with energy-based voice activity
+   * detection. Deterministic: the same samples give the same regions.
+   *
+   * @param audioData - Mono samples
+   * @param options - Detection settings (`sampleRate` defaults to 16000)
+   * @returns Speech regions in seconds, padded by `paddingMs`
+   *
+   * @example
+   * ```typescript
+   * const regions = converter.detectSpeech(samples, { minSilenceMs: 300 });
+   * // [{ start: 0.42, end: 1.8 }, { start: 2.31, end: 3.39 }]
+   * ```
+   */
+  detectSpeech(
+    audioData: Float32Array,
+    options: VADOptions = {}
+  ): SpeechRegion[] {
+    const sampleRate = options.sampleRate ?? 16000;
+    return detectSpeech(audioData, { ...options, sampleRate }).map(segment => ({
+      start: segment.start / sampleRate,
+      end: segment.end / sampleRate,
+    }));
+  }
+
+  /**
+   * Cut leading and trailing silence, keeping everything from the first
+   * speech region to the last one (pauses in between stay)
+   *
+   * @param audioData - Mono samples
+   * @param options - Detection settings (`sampleRate` defaults to 16000)
+   * @returns The speech part as a view of `audioData`; empty without speech
+   */
+  trimSilence(audioData: Float32Array, options: VADOptions = {}): Float32Array {
+    const sampleRate = options.sampleRate ?? 16000;
+    const segments = detectSpeech(audioData, { ...options, sampleRate });
+    if (segments.length === 0) {
+      return audioData.subarray(0, 0);
+    }
+    return audioData.subarray(
+      segments[0].start,
+      segments[segments.length - 1].end
+    );
+  }
+
+  /**
+   * Split a recording at pauses of at least `minSilenceMs`, dropping the
+   * silence in between
+   *
+   * @param audioData - Mono samples
+   * @param options - Detection settings (`sampleRate` defaults to 16000)
+   * @returns One chunk per speech region, with views of `audioData`
+   */
+  splitOnSilence(
+    audioData: Float32Array,
+    options: VADOptions = {}
+  ): SpeechChunk[] {
+    const sampleRate = options.sampleRate ?? 16000;
+    return detectSpeech(audioData, { ...options, sampleRate }).map(segment => ({
+      start: segment.start / sampleRate,
+      end: segment.end / sampleRate,
+      samples: audioData.subarray(segment.start, segment.end),
+    }));
+  }
+
+  /**
+   * Decode a WAV file (PCM 8/16/24/32-bit or 32-bit float) without any
+   * decoder dependency. Channels are averaged down to mono.
+   *
+   * @param data - WAV file contents
+   * @returns Mono samples in [-1, 1] with the file's sample rate
+   *
+   * @example
+   * ```typescript
+   * const { samples, sampleRate } = converter.decodeWav(fs.readFileSync('a.wav'));
+   * ```
+   */
+  decodeWav(
+    data: ArrayBuffer | Uint8Array
+  ): AudioMetadata & { samples: Float32Array } {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const readString = (offset: number) =>
+      String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+    if (
+      bytes.length < 12 ||
+      readString(0) !== 'RIFF' ||
+      readString(8) !== 'WAVE'
+    ) {
+      throw new ValidationError('Not a RIFF/WAVE file', 'audioType');
+    }
+
+    let format = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitDepth = 0;
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const id = readString(offset);
+      const size = view.getUint32(offset + 4, true);
+      const body = offset + 8;
+
+      if (id === 'fmt ') {
+        format = view.getUint16(body, true);
+        channels = view.getUint16(body + 2, true);
+        sampleRate = view.getUint32(body + 4, true);
+        bitDepth = view.getUint16(body + 14, true);
+        if (format === 0xfffe && size >= 26) {
+          // WAVE_FORMAT_EXTENSIBLE: the real format leads the sub-format GUID
+          format = view.getUint16(body + 24, true);
+        }
+      } else if (id === 'data') {
+        if (!channels || (format !== 1 && format !== 3)) {
+          throw new ValidationError(
+            `Unsupported WAV format ${format}`,
+            'audioType'
+          );
+        }
+        const bytesPerSample = bitDepth / 8;
+        const frameCount = Math.floor(
+          Math.min(size, bytes.length - body) / (bytesPerSample * channels)
+        );
+        const samples = new Float32Array(frameCount);
+        for (let i = 0; i < frameCount; i++) {
+          let sum = 0;
+          for (let c = 0; c < channels; c++) {
+            const at = body + (i * channels + c) * bytesPerSample;
+            sum += this.readSample(view, at, format, bitDepth);
+          }
+          samples[i] = sum / channels;
+        }
+        return {
+          samples,
+          sampleRate,
+          channels,
+          duration: frameCount / sampleRate,
+        };
+      }
+      // Chunks are padded to an even size
+      offset = body + size + (size % 2);
+    }
+
+    throw new ValidationError('WAV file has no data chunk', 'audioType');
+  }
+
+  private readSample(
+    view: DataView,
+    offset: number,
+    format: number,
+    bitDepth: number
+  ): number {
+    if (format === 3) {
+      return bitDepth === 64
+        ? view.getFloat64(offset, true)
+        : view.getFloat32(offset, true);
+    }
+    switch (bitDepth) {
+      case 8:
+        return (view.getUint8(offset) - 128) / 128;
+      case 16:
+        return view.getInt16(offset, true) / 0x8000;
+      case 24: {
+        const value =
+          view.getUint8(offset) |
+          (view.getUint8(offset + 1) << 8) |
+          (view.getInt8(offset + 2) << 16);
+        return value / 0x800000;
+      }
+      case 32:
+        return view.getInt32(offset, true) / 0x80000000;
+      default:
+        throw new ValidationError(
+          `Unsupported WAV bit depth ${bitDepth}`,
+          'audioType'
+        );
+    }
+  }
+
   /**
    * Write string to DataView at specified offset
    *
@@ -237,6 +629,15 @@ export class AudioConverter {
   }
 }
 
+type Mp3Encoder = WasmMediaEncoder<'audio/mpeg'>;
+
+// Samples handed to a WASM encoder per call
+const ENCODE_BLOCK = 65536;
+
+// Opus decodes at 48 kHz; 20 ms packets
+const OPUS_SAMPLE_RATE = 48000;
+const OPUS_FRAME_SIZE = 960;
+
 // Singleton instance for reuse across the application
 // This follows the Singleton pattern to ensure consistent behavior
 // and avoid multiple instances of the same converter
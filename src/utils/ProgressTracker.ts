@@ -143,6 +143,8 @@ export class ProgressTracker {
       itemsProcessed?: number;
       bytesProcessed?: number;
       etaMs?: number;
+      chunksTotal?: number;
+      partialResult?: { indexedIds?: string[]; failedItems?: string[] };
     } = {}
   ): void {
     const job = this.jobs.get(jobId);
@@ -154,6 +156,9 @@ export class ProgressTracker {
     if (options.bytesProcessed !== undefined) {
       job.bytesProcessed = options.bytesProcessed;
     }
+    if (options.chunksTotal !== undefined) {
+      job.chunksTotal = options.chunksTotal;
+    }
 
     const stageIndex = this.getStageIndex(job.currentStage, job.stageWeights);
 
@@ -168,7 +173,9 @@ export class ProgressTracker {
       etaMs: options.etaMs,
       itemsProcessed: job.itemsProcessed,
       bytesProcessed: job.bytesProcessed,
+      chunksTotal: job.chunksTotal,
       message: options.message,
+      partialResult: options.partialResult,
     });
   }
 
@@ -343,6 +350,33 @@ export class ProgressTracker {
     return this.jobs.get(jobId);
   }
 
+  /**
+   * Build a progress event for the current state of a job
+   */
+  getProgressSnapshot(
+    jobId: string,
+    stage: VectorizationStage,
+    stageProgress: number
+  ): VectorizationProgressEventData | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+
+    return {
+      jobId,
+      inputMeta: this.getInputMeta(job.input),
+      stage,
+      stageIndex: this.getStageIndex(stage, job.stageWeights),
+      totalStages: job.totalStages,
+      stageProgress,
+      progress:
+        job.status === 'completed' ? 1 : this.calculateGlobalProgress(job),
+      itemsProcessed: job.itemsProcessed,
+      bytesProcessed: job.bytesProcessed,
+      chunksTotal: job.chunksTotal,
+      warnings: job.warnings.length ? [...job.warnings] : undefined,
+    };
+  }
+
   /**
    * Register progress event listener
    */
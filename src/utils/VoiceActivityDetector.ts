@@ -0,0 +1,180 @@
+/**
+ * Energy-based voice activity detection over fixed-size frames, usable on a
+ * live stream (push) or on a whole recording (detectSpeech)
+ */
+
+import type { VADOptions } from '../core/types';
+
+export interface SpeechBoundary {
+  type: 'start' | 'end';
+  /** Absolute sample index in the stream */
+  sample: number;
+}
+
+export interface SpeechSegment {
+  /** Sample range [start, end) */
+  start: number;
+  end: number;
+}
+
+const DEFAULTS: Required<VADOptions> = {
+  sampleRate: 16000,
+  frameMs: 30,
+  threshold: 3,
+  minEnergy: 0.003,
+  minSpeechMs: 90,
+  minSilenceMs: 500,
+  paddingMs: 200,
+};
+
+/**
+ * Frames louder than `threshold` times the adaptive noise floor count as
+ * speech. A segment starts after `minSpeechMs` of speech frames and ends
+ * after `minSilenceMs` of quiet ones, padded by `paddingMs` on both sides.
+ */
+export class VoiceActivityDetector {
+  readonly options: Required<VADOptions>;
+  private readonly frameSize: number;
+  private readonly minSpeechFrames: number;
+  private readonly minSilenceFrames: number;
+  private readonly padding: number;
+
+  private pending = new Float32Array(0);
+  private position = 0; // samples consumed into whole frames
+  private noiseFloor: number;
+  private speaking = false;
+  private runLength = 0; // consecutive frames contradicting the state
+  private runStart = 0;
+  private lastSpeechEnd = 0;
+  private lastBoundary = 0;
+
+  constructor(options: VADOptions = {}) {
+    this.options = { ...DEFAULTS, ...options };
+    const { sampleRate, frameMs } = this.options;
+    this.frameSize = Math.max(1, Math.round((sampleRate * frameMs) / 1000));
+    this.minSpeechFrames = Math.max(
+      1,
+      Math.ceil(this.options.minSpeechMs / frameMs)
+    );
+    this.minSilenceFrames = Math.max(
+      1,
+      Math.ceil(this.options.minSilenceMs / frameMs)
+    );
+    this.padding = Math.round((sampleRate * this.options.paddingMs) / 1000);
+    this.noiseFloor = this.options.minEnergy;
+  }
+
+  /** Whether a speech segment is currently open */
+  get inSpeech(): boolean {
+    return this.speaking;
+  }
+
+  /**
+   * Feed the next samples; returns the boundaries they complete
+   */
+  push(samples: Float32Array): SpeechBoundary[] {
+    const boundaries: SpeechBoundary[] = [];
+    let data = samples;
+    if (this.pending.length > 0) {
+      data = new Float32Array(this.pending.length + samples.length);
+      data.set(this.pending);
+      data.set(samples, this.pending.length);
+    }
+
+    let offset = 0;
+    for (; offset + this.frameSize <= data.length; offset += this.frameSize) {
+      const boundary = this.processFrame(
+        data.subarray(offset, offset + this.frameSize)
+      );
+      if (boundary) boundaries.push(boundary);
+    }
+    this.pending = data.slice(offset);
+    return boundaries;
+  }
+
+  /**
+   * Close an open segment at the end of the stream
+   */
+  flush(): SpeechBoundary[] {
+    const end = this.position + this.pending.length;
+    this.position = end;
+    this.pending = new Float32Array(0);
+    if (!this.speaking) {
+      return [];
+    }
+    this.speaking = false;
+    this.runLength = 0;
+    this.lastBoundary = end;
+    return [{ type: 'end', sample: end }];
+  }
+
+  private processFrame(frame: Float32Array): SpeechBoundary | undefined {
+    const frameStart = this.position;
+    this.position += frame.length;
+
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) {
+      sum += frame[i] * frame[i];
+    }
+    const rms = Math.sqrt(sum / frame.length);
+    const isSpeech =
+      rms >
+      Math.max(
+        this.options.minEnergy,
+        this.noiseFloor * this.options.threshold
+      );
+    if (!isSpeech) {
+      // Track background noise from quiet frames only
+      this.noiseFloor = Math.max(
+        this.options.minEnergy,
+        this.noiseFloor * 0.95 + rms * 0.05
+      );
+    } else {
+      this.lastSpeechEnd = this.position;
+    }
+
+    if (isSpeech !== this.speaking) {
+      if (this.runLength === 0) {
+        this.runStart = frameStart;
+      }
+      this.runLength++;
+    } else {
+      this.runLength = 0;
+    }
+
+    if (!this.speaking && this.runLength >= this.minSpeechFrames) {
+      this.speaking = true;
+      this.runLength = 0;
+      const sample = Math.max(this.lastBoundary, this.runStart - this.padding);
+      this.lastBoundary = sample;
+      return { type: 'start', sample };
+    }
+    if (this.speaking && this.runLength >= this.minSilenceFrames) {
+      this.speaking = false;
+      this.runLength = 0;
+      const sample = Math.min(this.position, this.lastSpeechEnd + this.padding);
+      this.lastBoundary = sample;
+      return { type: 'end', sample };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Speech segments of a whole recording, as sample ranges
+ */
+export function detectSpeech(
+  samples: Float32Array,
+  options: VADOptions = {}
+): SpeechSegment[] {
+  const detector = new VoiceActivityDetector(options);
+  const boundaries = [...detector.push(samples), ...detector.flush()];
+  const segments: SpeechSegment[] = [];
+  for (let i = 0; i + 1 < boundaries.length; i += 2) {
+    segments.push({
+      start: boundaries[i].sample,
+      end: boundaries[i + 1].sample,
+    });
+  }
+  return segments;
+}
@@ -0,0 +1,78 @@
+/**
+ * Cancellation helpers for operations that accept an AbortSignal
+ */
+
+import { AbortError } from '@domain/errors';
+
+/**
+ * Throw an AbortError if the signal has fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with an AbortError as soon as the signal
+ * fires. `onAbort` runs once on abort, e.g. to terminate the worker doing
+ * the work.
+ */
+export function raceWithSignal<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+  onAbort?: () => void
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    // The work is abandoned, its outcome no longer matters
+    promise.catch(() => undefined);
+    onAbort?.();
+    return Promise.reject(new AbortError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(new AbortError());
+    };
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Stopping criterion for Transformers.js `generate({ stopping_criteria })`:
+ * ends every sequence in the batch once the signal fires
+ */
+export function abortStoppingCriteria(
+  signal: AbortSignal
+): (inputIds: ArrayLike<unknown>) => boolean[] {
+  return inputIds => new Array<boolean>(inputIds.length).fill(signal.aborted);
+}
+
+/**
+ * Controller that is also aborted when `parent` fires
+ */
+export function linkedAbortController(parent?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener('abort', () => controller.abort(), {
+      once: true,
+    });
+  }
+  return controller;
+}
@@ -0,0 +1,49 @@
+/**
+ * Concurrency helpers shared by batch-oriented services
+ */
+
+/**
+ * Map items through an async function with at most `limit` calls in flight.
+ * Results keep the order of the input array regardless of completion order.
+ *
+ * @example
+ * ```typescript
+ * const vectors = await mapWithConcurrency(batches, 2, batch =>
+ *   adapter.processBatch(batch)
+ * );
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.max(
+    1,
+    Math.min(Math.floor(limit) || 1, items.length)
+  );
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
+
+/**
+ * Split an array into consecutive batches of `size` items
+ */
+export function toBatches<T>(items: T[], size: number): T[][] {
+  const batchSize = Math.max(1, Math.floor(size) || 1);
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    batches.push(items.slice(i, i + batchSize));
+  }
+  return batches;
+}
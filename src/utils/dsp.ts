@@ -0,0 +1,344 @@
+/**
+ * Waveform post-processing for synthesized speech: time-stretching (WSOLA),
+ * band-limited resampling and pitch shifting built from the two
+ */
+
+import { ValidationError } from '@domain/errors';
+
+/** Speed and pitch multipliers accepted by TTS options and voice profiles */
+export const PROSODY_RANGE = { min: 0.5, max: 2 } as const;
+
+export interface Prosody {
+  speed?: number; // 2 = twice as fast, same pitch
+  pitch?: number; // 2 = one octave up, same duration
+}
+
+export interface TimeStretchOptions {
+  frameMs?: number; // analysis window, default 30
+  toleranceMs?: number; // how far a frame may move to line up, default 10
+}
+
+/**
+ * Throw a ValidationError unless speed and pitch are within PROSODY_RANGE
+ */
+export function validateProsody(prosody: Prosody): void {
+  for (const field of ['speed', 'pitch'] as const) {
+    const value = prosody[field];
+    if (
+      value !== undefined &&
+      !(value >= PROSODY_RANGE.min && value <= PROSODY_RANGE.max)
+    ) {
+      throw new ValidationError(
+        `${field} must be between ${PROSODY_RANGE.min} and ${PROSODY_RANGE.max}`,
+        field
+      );
+    }
+  }
+}
+
+/**
+ * Limit speed and pitch to PROSODY_RANGE, e.g. after multiplying in SSML
+ * values that are valid on their own
+ */
+export function clampProsody(prosody: Required<Prosody>): Required<Prosody> {
+  const clamp = (value: number) =>
+    Math.min(PROSODY_RANGE.max, Math.max(PROSODY_RANGE.min, value));
+  return { speed: clamp(prosody.speed), pitch: clamp(prosody.pitch) };
+}
+
+/**
+ * Change duration without changing pitch, using waveform-similarity
+ * overlap-add: each Hann frame is taken from near its nominal position,
+ * wherever it best continues the previous frame
+ *
+ * @param samples - Mono audio
+ * @param rate - Playback rate; 2 halves the duration
+ * @param sampleRate - Sample rate of `samples`
+ * @returns `samples.length / rate` samples
+ */
+export function timeStretch(
+  samples: Float32Array,
+  rate: number,
+  sampleRate: number,
+  options: TimeStretchOptions = {}
+): Float32Array {
+  if (!(rate > 0)) {
+    throw new ValidationError('Stretch rate must be positive', 'rate');
+  }
+  const outputLength = Math.round(samples.length / rate);
+  const frame = 2 * Math.round(((options.frameMs ?? 30) / 2000) * sampleRate);
+  if (rate === 1) {
+    return samples;
+  }
+  if (samples.length < frame) {
+    // Too short to stretch frame by frame
+    return resample(samples, rate, 1);
+  }
+
+  const hop = frame / 2;
+  const tolerance = Math.round(
+    ((options.toleranceMs ?? 10) / 1000) * sampleRate
+  );
+  const window = hann(frame);
+  const output = new Float32Array(outputLength + frame);
+  const weights = new Float32Array(outputLength + frame);
+  const lastStart = samples.length - frame;
+
+  let previous = 0;
+  for (let position = 0; position < outputLength; position += hop) {
+    let start = 0;
+    if (position > 0) {
+      // Where the previous frame would naturally continue
+      const natural = Math.min(previous + hop, lastStart);
+      const nominal = Math.min(Math.round(position * rate), lastStart);
+      start = bestOverlap(
+        samples,
+        natural,
+        Math.max(0, nominal - tolerance),
+        Math.min(lastStart, nominal + tolerance),
+        frame
+      );
+    }
+    for (let i = 0; i < frame; i++) {
+      output[position + i] += samples[start + i] * window[i];
+      weights[position + i] += window[i];
+    }
+    previous = start;
+  }
+
+  const result = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    result[i] = weights[i] > 1e-3 ? output[i] / weights[i] : output[i];
+  }
+  return result;
+}
+
+/**
+ * Band-limited (windowed sinc) resampling
+ *
+ * @param samples - Mono audio
+ * @param fromRate - Rate `samples` were recorded at
+ * @param toRate - Rate of the result
+ */
+export function resample(
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number
+): Float32Array {
+  if (!(fromRate > 0) || !(toRate > 0)) {
+    throw new ValidationError('Sample rates must be positive', 'sampleRate');
+  }
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const step = fromRate / toRate;
+  const filter = sincFilter(step);
+  const output = new Float32Array(Math.round(samples.length / step));
+  for (let i = 0; i < output.length; i++) {
+    output[i] = filterAt(samples, 0, samples.length, i * step, filter);
+  }
+  return output;
+}
+
+/**
+ * Band-limited resampling of a stream, one frame at a time, with the same
+ * filter as resample(). Output waits for the input the filter reaches
+ * ahead; flush() emits the rest, so all frames together give what
+ * resample() gives for the whole stream.
+ *
+ * @example
+ * ```typescript
+ * const resampler = new StreamResampler(48000, 16000);
+ * for (const frame of frames) send(resampler.process(frame));
+ * send(resampler.flush());
+ * ```
+ */
+export class StreamResampler {
+  private readonly step: number;
+  private readonly filter: SincFilter;
+  private buffer = new Float32Array(0); // input samples from `offset` on
+  private offset = 0;
+  private received = 0; // input samples so far
+  private produced = 0; // output samples so far
+
+  constructor(fromRate: number, toRate: number) {
+    if (!(fromRate > 0) || !(toRate > 0)) {
+      throw new ValidationError('Sample rates must be positive', 'sampleRate');
+    }
+    this.step = fromRate / toRate;
+    this.filter = sincFilter(this.step);
+  }
+
+  /**
+   * Take the next frame; returns the output it completes
+   */
+  process(input: Float32Array): Float32Array {
+    const buffer = new Float32Array(this.buffer.length + input.length);
+    buffer.set(this.buffer);
+    buffer.set(input, this.buffer.length);
+    this.buffer = buffer;
+    this.received += input.length;
+    // Outputs whose filter window lies within the input received
+    const ready =
+      Math.floor((this.received - 1 - this.filter.halfWidth) / this.step) + 1;
+    return this.emit(ready);
+  }
+
+  /**
+   * End of the stream: the output still waiting for input that won't come
+   */
+  flush(): Float32Array {
+    return this.emit(Math.round(this.received / this.step));
+  }
+
+  private emit(count: number): Float32Array {
+    const output = new Float32Array(Math.max(0, count - this.produced));
+    for (let i = 0; i < output.length; i++) {
+      output[i] = filterAt(
+        this.buffer,
+        this.offset,
+        this.received,
+        (this.produced + i) * this.step,
+        this.filter
+      );
+    }
+    this.produced += output.length;
+
+    // Drop input no later output reaches back to
+    const keepFrom = Math.min(
+      this.received,
+      Math.max(
+        this.offset,
+        Math.ceil(this.produced * this.step - this.filter.halfWidth)
+      )
+    );
+    this.buffer = this.buffer.subarray(keepFrom - this.offset);
+    this.offset = keepFrom;
+    return output;
+  }
+}
+
+/**
+ * Shift pitch by `factor` keeping the duration: stretch by `factor`, then
+ * resample back to the original length
+ */
+export function pitchShift(
+  samples: Float32Array,
+  factor: number,
+  sampleRate: number
+): Float32Array {
+  return applyProsody(samples, sampleRate, { pitch: factor });
+}
+
+/**
+ * Apply speed and pitch in one stretch and one resampling pass
+ *
+ * @example
+ * ```typescript
+ * // 20% faster, a little lower
+ * const out = applyProsody(audio, 16000, { speed: 1.2, pitch: 0.9 });
+ * ```
+ */
+export function applyProsody(
+  samples: Float32Array,
+  sampleRate: number,
+  prosody: Prosody
+): Float32Array {
+  validateProsody(prosody);
+  const speed = prosody.speed ?? 1;
+  const pitch = prosody.pitch ?? 1;
+  if (speed === 1 && pitch === 1) {
+    return samples;
+  }
+  // Resampling by `pitch` scales both pitch and tempo; the stretch
+  // beforehand leaves the tempo at `speed`
+  const stretched = timeStretch(samples, speed / pitch, sampleRate);
+  return resample(stretched, sampleRate * pitch, sampleRate);
+}
+
+const SINC_ZERO_CROSSINGS = 8;
+
+interface SincFilter {
+  cutoff: number; // fraction of the input Nyquist frequency
+  halfWidth: number; // in input samples
+}
+
+// Low-pass below the new Nyquist frequency when decimating
+function sincFilter(step: number): SincFilter {
+  const cutoff = Math.min(1, 1 / step);
+  return { cutoff, halfWidth: Math.ceil(SINC_ZERO_CROSSINGS / cutoff) };
+}
+
+/**
+ * Filtered value at input position `center`; `samples` holds input from
+ * index `offset` on, and the input has `length` samples in all
+ */
+function filterAt(
+  samples: Float32Array,
+  offset: number,
+  length: number,
+  center: number,
+  { cutoff, halfWidth }: SincFilter
+): number {
+  const first = Math.max(offset, Math.ceil(center - halfWidth));
+  const last = Math.min(length - 1, Math.floor(center + halfWidth));
+  let sum = 0;
+  let weight = 0;
+  for (let j = first; j <= last; j++) {
+    const distance = j - center;
+    const tap =
+      cutoff * sinc(cutoff * distance) * blackman(distance / halfWidth);
+    sum += samples[j - offset] * tap;
+    weight += tap;
+  }
+  return weight > 0 ? sum / weight : 0;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+// Blackman window over [-1, 1]
+function blackman(x: number): number {
+  if (x <= -1 || x >= 1) return 0;
+  const t = Math.PI * (x + 1);
+  return 0.42 - 0.5 * Math.cos(t) + 0.08 * Math.cos(2 * t);
+}
+
+// Periodic Hann window: overlapping by half, copies sum to one
+function hann(length: number): Float32Array {
+  return Float32Array.from(
+    { length },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length)
+  );
+}
+
+/**
+ * Start in [from, to] whose frame correlates best with the frame at
+ * `reference`
+ */
+function bestOverlap(
+  samples: Float32Array,
+  reference: number,
+  from: number,
+  to: number,
+  frame: number
+): number {
+  let best = from;
+  let bestScore = -Infinity;
+  for (let start = from; start <= to; start++) {
+    let score = 0;
+    // Every other sample is enough to line up the waveforms
+    for (let i = 0; i < frame; i += 2) {
+      score += samples[start + i] * samples[reference + i];
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      best = start;
+    }
+  }
+  return best;
+}
@@ -1,7 +1,54 @@
 export { ProgressTracker } from './ProgressTracker';
 export type { JobMetadata, StageProgress } from './ProgressTracker';
 
-export { audioConverter, AudioConverter } from './AudioConverter';
-export type { AudioInput, AudioOutput, AudioMetadata } from './AudioConverter';
+export { audioConverter, AudioConverter, MP3_BITRATES } from './AudioConverter';
+export type {
+  AudioInput,
+  AudioOutput,
+  AudioMetadata,
+  SpeechRegion,
+  SpeechChunk,
+  AudioFormat,
+  AudioEncodeOptions,
+  Mp3Bitrate,
+} from './AudioConverter';
+
+export { VoiceActivityDetector, detectSpeech } from './VoiceActivityDetector';
+export type { SpeechBoundary, SpeechSegment } from './VoiceActivityDetector';
+
+export {
+  applyProsody,
+  timeStretch,
+  pitchShift,
+  resample,
+  StreamResampler,
+  validateProsody,
+  clampProsody,
+  PROSODY_RANGE,
+} from './dsp';
+export type { Prosody, TimeStretchOptions } from './dsp';
+
+export {
+  preprocessImage,
+  decodeImage,
+  resolvePreprocessPipeline,
+  OCR_PREPROCESS_PRESETS,
+} from './ocr/preprocess';
+export type {
+  PreprocessResult,
+  ResolvedPreprocessStep,
+} from './ocr/preprocess';
+export type { PixelImage } from './ocr/imageFilters';
+export { openDocument, detectDocumentFormat } from './ocr/documents';
+export type { OCRDocument, DocumentPage } from './ocr/documents';
+
+export { mapWithConcurrency, toBatches } from './concurrency';
 
 export { EventEmitter } from '../infra/events/EventEmitter';
+
+export {
+  throwIfAborted,
+  raceWithSignal,
+  abortStoppingCriteria,
+  linkedAbortController,
+} from './abort';
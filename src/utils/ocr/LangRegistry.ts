@@ -29,6 +29,11 @@
  * - If you don't add an entry, the fallback keeps things working, relying on Tesseract
  *   using the same ISO-639-3 code.
  *
+ * Script hints
+ * - Tesseract OSD reports the script of a page (e.g. 'Cyrillic', 'Han'). getScriptLanguages()
+ *   lists the ISO 639-3 languages written in it, and narrowByScript() uses that list to
+ *   narrow the candidates for language detection when OCROptions.autoPSM is on.
+ *
  * Notes
  * - allowedLanguages passed to OCR should use ISO 639-3 codes to align with franc output.
  * - For maximum language coverage use `franc` (≈187 langs); the code falls back to
@@ -83,6 +88,40 @@ const REGISTRY: Record<string, OcrLanguageInfo> = {
     whitelist:
       "ABCDEFGHIJKLMNOPQRSTUVWXYZÁÉÍÑÓÚÜabcdefghijklmnopqrstuvwxyzáéíñóúü0123456789'.,:;!?-()[]%$€",
   },
+  // franc reports Mandarin as 'cmn'; Tesseract calls it chi_sim
+  cmn: {
+    iso6393: 'cmn',
+    tesseract: 'chi_sim',
+  },
+};
+
+// Tesseract OSD script names → ISO 639-3 languages written in that script,
+// most widely used first. Latin lists only its most common languages; a
+// language missing from every list is assumed to fit any script.
+const SCRIPT_LANGUAGES: Record<string, string[]> = {
+  Latin: ['eng', 'spa', 'fra', 'deu', 'por', 'ita', 'pol', 'nld'],
+  Cyrillic: ['rus', 'ukr', 'bel', 'bul', 'srp', 'mkd', 'kaz'],
+  Greek: ['ell'],
+  Arabic: ['ara', 'fas', 'urd'],
+  Hebrew: ['heb', 'yid'],
+  Han: ['cmn', 'jpn'],
+  Japanese: ['jpn'],
+  Katakana: ['jpn'],
+  Hiragana: ['jpn'],
+  Hangul: ['kor'],
+  Korean: ['kor'],
+  Devanagari: ['hin', 'mar', 'nep'],
+  Bengali: ['ben'],
+  Gurmukhi: ['pan'],
+  Gujarati: ['guj'],
+  Tamil: ['tam'],
+  Telugu: ['tel'],
+  Kannada: ['kan'],
+  Malayalam: ['mal'],
+  Thai: ['tha'],
+  Georgian: ['kat'],
+  Armenian: ['hye'],
+  Ethiopic: ['amh'],
 };
 
 export function getOcrLanguageInfo(
@@ -109,3 +148,30 @@ export function getWhitelistFor(code6393: string): string | undefined {
 }
 
 export const supportedIso6393 = Object.keys(REGISTRY);
+
+/**
+ * ISO 639-3 languages written in a Tesseract OSD script ([] when unknown)
+ */
+export function getScriptLanguages(script: string): string[] {
+  return [...(SCRIPT_LANGUAGES[script] ?? [])];
+}
+
+/**
+ * Narrow language candidates to those that can be written in `script`:
+ * candidates listed only under other scripts are dropped. Without
+ * candidates, the script's languages; when nothing would remain (or the
+ * script is unknown), the candidates as given.
+ */
+export function narrowByScript(
+  candidates: string[] | undefined,
+  script: string | undefined
+): string[] | undefined {
+  const hinted = script ? getScriptLanguages(script) : [];
+  if (hinted.length === 0) return candidates;
+  if (!candidates || candidates.length === 0) return hinted;
+  const listed = Object.values(SCRIPT_LANGUAGES).flat();
+  const kept = candidates.filter(
+    c => hinted.includes(c) || !listed.includes(c)
+  );
+  return kept.length ? kept : candidates;
+}
@@ -0,0 +1,191 @@
+/**
+ * Multi-page documents for OCR: detects PDFs and TIFFs and rasterizes their
+ * pages one at a time (pdf.js for PDF, UTIF for TIFF); any other input is a
+ * single-page image
+ */
+
+import type { OCRDocumentFormat } from '../../core/types';
+import type { PixelImage } from './imageFilters';
+import { decodeImage } from './preprocess';
+
+export interface DocumentPage {
+  image: PixelImage;
+  /** Resolution of the raster, when the document records or implies it */
+  dpi?: number;
+}
+
+export interface OCRDocument {
+  format: OCRDocumentFormat;
+  pageCount: number;
+  /** Rasterize a page (1-based) */
+  renderPage(page: number): Promise<DocumentPage>;
+  /** Release parser resources */
+  close(): Promise<void>;
+}
+
+// PDF user space is 72 units per inch
+const PDF_POINTS_PER_INCH = 72;
+
+/**
+ * Container format from the leading bytes
+ */
+export function detectDocumentFormat(bytes: Uint8Array): OCRDocumentFormat {
+  const ascii = String.fromCharCode(...bytes.subarray(0, 5));
+  if (ascii === '%PDF-') {
+    return 'pdf';
+  }
+  const tiffLE = bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42;
+  const tiffBE = bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[3] === 42;
+  return tiffLE || tiffBE ? 'tiff' : 'image';
+}
+
+/**
+ * Read a document from a URL, data URL, file path (Node), Blob or bytes
+ */
+export async function readDocumentBytes(
+  input: string | Blob | Uint8Array
+): Promise<Uint8Array> {
+  if (input instanceof Uint8Array) {
+    return input;
+  }
+  if (typeof input !== 'string') {
+    return new Uint8Array(await input.arrayBuffer());
+  }
+  if (/^(https?:|data:|blob:)/i.test(input) || typeof window !== 'undefined') {
+    const response = await fetch(input);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${input}: ${response.status} ${response.statusText}`
+      );
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  const { readFile } = await import('node:fs/promises');
+  return new Uint8Array(await readFile(input));
+}
+
+/**
+ * Open a PDF, TIFF or image. `renderDpi` is the resolution PDF pages are
+ * rasterized at.
+ */
+export async function openDocument(
+  bytes: Uint8Array,
+  options: { renderDpi?: number } = {}
+): Promise<OCRDocument> {
+  switch (detectDocumentFormat(bytes)) {
+    case 'pdf':
+      return openPdf(bytes, options.renderDpi ?? 300);
+    case 'tiff':
+      return openTiff(bytes);
+    default:
+      return {
+        format: 'image',
+        pageCount: 1,
+        renderPage: async () => ({ image: await decodeImage(bytes) }),
+        close: async () => undefined,
+      };
+  }
+}
+
+async function openPdf(
+  bytes: Uint8Array,
+  renderDpi: number
+): Promise<OCRDocument> {
+  let pdfjs: typeof import('pdfjs-dist/legacy/build/pdf.mjs');
+  try {
+    pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  } catch {
+    throw new Error(
+      'PDF input needs the optional "pdfjs-dist" package (npm install pdfjs-dist)'
+    );
+  }
+  // pdf.js takes ownership of (detaches) the buffer it is given
+  const document = await pdfjs.getDocument({
+    data: bytes.slice(),
+    isEvalSupported: false,
+  }).promise;
+  const canvasFactory = document.canvasFactory as {
+    create(
+      width: number,
+      height: number
+    ): { canvas: unknown; context: CanvasRenderingContext2D };
+    destroy(target: { canvas: unknown; context: unknown }): void;
+  };
+
+  return {
+    format: 'pdf',
+    pageCount: document.numPages,
+    async renderPage(pageNumber) {
+      const page = await document.getPage(pageNumber);
+      try {
+        const viewport = page.getViewport({
+          scale: renderDpi / PDF_POINTS_PER_INCH,
+        });
+        const width = Math.ceil(viewport.width);
+        const height = Math.ceil(viewport.height);
+        const target = canvasFactory.create(width, height);
+        try {
+          await page.render({ canvasContext: target.context, viewport })
+            .promise;
+          const { data } = target.context.getImageData(0, 0, width, height);
+          return {
+            image: { data, width, height, channels: 4 },
+            dpi: renderDpi,
+          };
+        } finally {
+          canvasFactory.destroy(target);
+        }
+      } finally {
+        page.cleanup();
+      }
+    },
+    close: () => document.destroy(),
+  };
+}
+
+async function openTiff(bytes: Uint8Array): Promise<OCRDocument> {
+  const UTIF = await import('utif2');
+  const buffer = bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+  // Skip thumbnails and other reduced-resolution subfiles
+  const pages = UTIF.decode(buffer).filter(
+    ifd => ifd.t256 !== undefined && !(Number(tagValue(ifd.t254)) & 1)
+  );
+
+  return {
+    format: 'tiff',
+    pageCount: pages.length,
+    async renderPage(pageNumber) {
+      const ifd = pages[pageNumber - 1];
+      UTIF.decodeImage(buffer, ifd);
+      const image: PixelImage = {
+        data: UTIF.toRGBA8(ifd),
+        width: ifd.width,
+        height: ifd.height,
+        channels: 4,
+      };
+      return { image, dpi: tiffDpi(ifd) };
+    },
+    close: async () => undefined,
+  };
+}
+
+/** XResolution in dots per inch, if recorded */
+function tiffDpi(ifd: Record<string, unknown>): number | undefined {
+  const resolution = tagValue(ifd.t282);
+  // ResolutionUnit: 1 none, 2 inch (default), 3 centimeter
+  const unit = Number(tagValue(ifd.t296) ?? 2);
+  const value = Array.isArray(resolution)
+    ? resolution[0] / resolution[1]
+    : Number(resolution);
+  if (!Number.isFinite(value) || value <= 0 || unit === 1) {
+    return undefined;
+  }
+  return unit === 3 ? value * 2.54 : value;
+}
+
+function tagValue(tag: unknown): number | number[] | undefined {
+  return Array.isArray(tag) ? tag[0] : (tag as number | undefined);
+}
@@ -0,0 +1,400 @@
+/**
+ * Pixel operations for OCR preprocessing, on plain grayscale buffers so they
+ * run the same in browsers, workers and Node
+ */
+
+/** Decoded image, 1-4 interleaved 8-bit channels (gray, gray+alpha, RGB, RGBA) */
+export interface PixelImage {
+  data: Uint8Array | Uint8ClampedArray;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+/** Single-channel image; 0 is black, 255 white */
+export interface GrayImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const WHITE = 255;
+
+/**
+ * Luma (Rec. 601), with transparent pixels composited onto white
+ */
+export function toGrayscale(image: PixelImage): GrayImage {
+  const { width, height, channels, data } = image;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * channels;
+    const value =
+      channels < 3
+        ? data[p]
+        : 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    const alpha =
+      channels === 2 || channels === 4 ? data[p + channels - 1] : 255;
+    gray[i] = (value * alpha + WHITE * (255 - alpha)) / 255;
+  }
+  return { data: gray, width, height };
+}
+
+/**
+ * Global threshold maximizing the between-class variance of the histogram
+ */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Float64Array(256);
+  for (const value of image.data) histogram[value]++;
+
+  const total = image.data.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let background = 0;
+  let backgroundSum = 0;
+  let best = 0;
+  let bestVariance = -1;
+  for (let t = 0; t < 256; t++) {
+    background += histogram[t];
+    if (background === 0) continue;
+    const foreground = total - background;
+    if (foreground === 0) break;
+    backgroundSum += t * histogram[t];
+    const meanBackground = backgroundSum / background;
+    const meanForeground = (sum - backgroundSum) / foreground;
+    const variance =
+      background * foreground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+}
+
+/**
+ * Black for pixels at or below `threshold`, white above
+ */
+export function threshold(image: GrayImage, level: number): GrayImage {
+  return {
+    ...image,
+    data: image.data.map(value => (value <= level ? 0 : WHITE)),
+  };
+}
+
+/**
+ * Sauvola adaptive threshold: each pixel is compared with
+ * mean * (1 + k * (stddev / 128 - 1)) of the window around it, which copes
+ * with shadows and uneven lighting
+ */
+export function sauvola(
+  image: GrayImage,
+  windowSize = 31,
+  k = 0.34
+): GrayImage {
+  const { width, height, data } = image;
+  const stride = width + 1;
+  // Integral images of values and squared values
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const value = data[y * width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      const i = (y + 1) * stride + x + 1;
+      sums[i] = sums[i - stride] + rowSum;
+      squares[i] = squares[i - stride] + rowSquares;
+    }
+  }
+
+  const half = Math.max(1, Math.floor(windowSize / 2));
+  const output = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const a = y0 * stride + x0;
+      const b = y0 * stride + x1;
+      const c = y1 * stride + x0;
+      const d = y1 * stride + x1;
+      const mean = (sums[d] - sums[b] - sums[c] + sums[a]) / area;
+      const variance =
+        (squares[d] - squares[b] - squares[c] + squares[a]) / area -
+        mean * mean;
+      const level =
+        mean * (1 + k * (Math.sqrt(Math.max(0, variance)) / 128 - 1));
+      output[y * width + x] = data[y * width + x] <= level ? 0 : WHITE;
+    }
+  }
+  return { data: output, width, height };
+}
+
+/**
+ * Median filter over a (2 * radius + 1)² window; removes speckle while
+ * keeping stroke edges
+ */
+export function medianFilter(image: GrayImage, radius = 1): GrayImage {
+  const { width, height, data } = image;
+  const r = Math.max(1, Math.round(radius));
+  const output = new Uint8ClampedArray(width * height);
+  const histogram = new Uint32Array(256);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - r);
+    const y1 = Math.min(height - 1, y + r);
+    histogram.fill(0);
+    let count = 0;
+    const addColumn = (x: number, delta: 1 | -1) => {
+      for (let yy = y0; yy <= y1; yy++) {
+        histogram[data[yy * width + x]] += delta;
+      }
+      count += delta * (y1 - y0 + 1);
+    };
+    for (let x = 0; x < Math.min(width, r); x++) addColumn(x, 1);
+
+    // Slide the window along the row, updating the histogram per column
+    for (let x = 0; x < width; x++) {
+      if (x + r < width) addColumn(x + r, 1);
+      if (x - r - 1 >= 0) addColumn(x - r - 1, -1);
+      const middle = count >> 1;
+      let seen = 0;
+      let value = 0;
+      while (seen + histogram[value] <= middle) {
+        seen += histogram[value++];
+      }
+      output[y * width + x] = value;
+    }
+  }
+  return { data: output, width, height };
+}
+
+/**
+ * Bilinear resize by `scale`
+ */
+export function resize(image: GrayImage, scale: number): GrayImage {
+  const { width, height, data } = image;
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const output = new Uint8ClampedArray(outWidth * outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    const sy = Math.min(height - 1, Math.max(0, (y + 0.5) / scale - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(height - 1, y0 + 1);
+    const fy = sy - y0;
+    for (let x = 0; x < outWidth; x++) {
+      const sx = Math.min(width - 1, Math.max(0, (x + 0.5) / scale - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const fx = sx - x0;
+      const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+      const bottom =
+        data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+      output[y * outWidth + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { data: output, width: outWidth, height: outHeight };
+}
+
+/**
+ * Skew of text lines in degrees (positive: lines fall to the right), found
+ * where the horizontal projection of dark pixels is most peaked
+ */
+export function estimateSkew(image: GrayImage, maxAngle = 15): number {
+  const { width, height, data } = image;
+  const level = otsuThreshold(image);
+
+  // A sample of dark pixels is plenty to find line direction
+  const points: number[] = [];
+  let dark = 0;
+  for (const value of data) if (value <= level) dark++;
+  const step = Math.max(1, Math.floor(dark / 20000));
+  for (let i = 0, seen = 0; i < data.length; i++) {
+    if (data[i] <= level && seen++ % step === 0) {
+      points.push((i % width) - width / 2, Math.floor(i / width) - height / 2);
+    }
+  }
+  if (points.length < 20) {
+    return 0;
+  }
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const bins = new Float64Array(diagonal + 1);
+  const score = (degrees: number) => {
+    const angle = (degrees * Math.PI) / 180;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    bins.fill(0);
+    for (let i = 0; i < points.length; i += 2) {
+      const row = points[i + 1] * cos - points[i] * sin;
+      bins[Math.round(row + diagonal / 2)]++;
+    }
+    let total = 0;
+    for (const count of bins) total += count * count;
+    return total;
+  };
+
+  // Coarse search by degrees, then refine by tenths around the best
+  let best = 0;
+  let bestScore = score(0);
+  for (let degrees = -maxAngle; degrees <= maxAngle; degrees += 1) {
+    const value = score(degrees);
+    if (value > bestScore) {
+      bestScore = value;
+      best = degrees;
+    }
+  }
+  const coarse = best;
+  for (let degrees = coarse - 1; degrees <= coarse + 1; degrees += 0.1) {
+    const value = score(degrees);
+    if (value > bestScore) {
+      bestScore = value;
+      best = degrees;
+    }
+  }
+  return Math.round(best * 10) / 10;
+}
+
+/**
+ * Rotate by `-degrees` about the center (undoing a skew of `degrees`),
+ * keeping the size and filling uncovered corners with white
+ */
+export function rotate(image: GrayImage, degrees: number): GrayImage {
+  const { width, height, data } = image;
+  const angle = (degrees * Math.PI) / 180;
+  const sin = Math.sin(angle);
+  const cos = Math.cos(angle);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const output = new Uint8ClampedArray(width * height).fill(WHITE);
+
+  const at = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? WHITE : data[y * width + x];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      const sx = dx * cos - dy * sin + cx;
+      const sy = dx * sin + dy * cos + cy;
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      if (x0 < -1 || y0 < -1 || x0 >= width || y0 >= height) continue;
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+      const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+      output[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { data: output, width, height };
+}
+
+/**
+ * Rotate clockwise by a multiple of 90 degrees, exactly (width and height
+ * swap for 90 and 270)
+ */
+export function rotateQuarter(
+  image: GrayImage,
+  degrees: 0 | 90 | 180 | 270
+): GrayImage {
+  const { width, height, data } = image;
+  const swap = degrees === 90 || degrees === 270;
+  const outWidth = swap ? height : width;
+  const outHeight = swap ? width : height;
+  const output = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const [sx, sy] =
+        degrees === 90
+          ? [y, height - 1 - x]
+          : degrees === 180
+            ? [width - 1 - x, height - 1 - y]
+            : degrees === 270
+              ? [width - 1 - y, x]
+              : [x, y];
+      output[y * outWidth + x] = data[sy * width + sx];
+    }
+  }
+  return { data: output, width: outWidth, height: outHeight };
+}
+
+/**
+ * Paint dark scanner borders and shadow bands at the edges white. A band is
+ * a run of rows or columns from an edge that are mostly dark, searched up to
+ * `maxBorder` of the image size.
+ *
+ * @returns The cleaned image and the band width removed from each side
+ */
+export function removeBorders(
+  image: GrayImage,
+  maxBorder = 0.1
+): {
+  image: GrayImage;
+  borders: { top: number; right: number; bottom: number; left: number };
+} {
+  const { width, height, data } = image;
+  const level = otsuThreshold(image);
+  const isDark = (x: number, y: number) => data[y * width + x] <= level;
+
+  const darkRatio = (line: number, horizontal: boolean) => {
+    const length = horizontal ? width : height;
+    let dark = 0;
+    for (let i = 0; i < length; i++) {
+      if (horizontal ? isDark(i, line) : isDark(line, i)) dark++;
+    }
+    return dark / length;
+  };
+  const band = (lines: number[], horizontal: boolean) => {
+    let size = 0;
+    while (size < lines.length && darkRatio(lines[size], horizontal) > 0.5) {
+      size++;
+    }
+    // Include the ragged inner edge of the band
+    return size > 0 ? Math.min(lines.length, size + 2) : 0;
+  };
+  const range = (from: number, count: number, direction: 1 | -1) =>
+    Array.from({ length: count }, (_, i) => from + i * direction);
+
+  const rows = Math.floor(height * maxBorder);
+  const columns = Math.floor(width * maxBorder);
+  const borders = {
+    top: band(range(0, rows, 1), true),
+    bottom: band(range(height - 1, rows, -1), true),
+    left: band(range(0, columns, 1), false),
+    right: band(range(width - 1, columns, -1), false),
+  };
+
+  const output = new Uint8ClampedArray(data);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (
+        y < borders.top ||
+        y >= height - borders.bottom ||
+        x < borders.left ||
+        x >= width - borders.right
+      ) {
+        output[y * width + x] = WHITE;
+      }
+    }
+  }
+  return { image: { data: output, width, height }, borders };
+}
+
+/**
+ * Binary PGM (P5), a format Tesseract reads directly
+ */
+export function encodePgm(image: GrayImage): Uint8Array {
+  const header = new TextEncoder().encode(
+    `P5\n${image.width} ${image.height}\n255\n`
+  );
+  const output = new Uint8Array(header.length + image.data.length);
+  output.set(header);
+  output.set(image.data, header.length);
+  return output;
+}
@@ -0,0 +1,295 @@
+/**
+ * OCR preprocessing pipeline: named presets and configurable steps run over
+ * a grayscale copy of the image before it is handed to Tesseract
+ */
+
+import { ValidationError } from '@domain/errors';
+import type {
+  OCRPreprocessPreset,
+  OCRPreprocessReport,
+  OCRPreprocessStep,
+  OCRPreprocessStepName,
+} from '../../core/types';
+import {
+  estimateSkew,
+  medianFilter,
+  otsuThreshold,
+  removeBorders,
+  resize,
+  rotate,
+  sauvola,
+  threshold,
+  toGrayscale,
+  type GrayImage,
+  type PixelImage,
+} from './imageFilters';
+
+/** A step with every option filled in */
+export type ResolvedPreprocessStep =
+  | { step: 'grayscale' }
+  | { step: 'upscale'; targetDpi: number; maxScale: number }
+  | { step: 'denoise'; radius: number }
+  | { step: 'removeBorders'; maxBorder: number }
+  | { step: 'deskew'; maxAngle: number }
+  | {
+      step: 'binarize';
+      method: 'otsu' | 'sauvola';
+      windowSize: number;
+      k: number;
+    };
+
+export interface PreprocessResult {
+  image: GrayImage;
+  steps: OCRPreprocessReport[];
+  /** Output size relative to the input (upscaling) */
+  scale: number;
+  /** Resolution of the output, when the input resolution was known */
+  dpi?: number;
+}
+
+export const OCR_PREPROCESS_PRESETS: Record<
+  OCRPreprocessPreset,
+  OCRPreprocessStep[]
+> = {
+  none: [],
+  fast: ['grayscale', 'binarize'],
+  // Scans: dark scanner edges and slight rotation, even lighting
+  document: [
+    'grayscale',
+    'upscale',
+    'removeBorders',
+    'deskew',
+    'denoise',
+    'binarize',
+  ],
+  // Camera pictures: sensor noise and uneven lighting
+  photo: [
+    'grayscale',
+    'upscale',
+    'denoise',
+    'removeBorders',
+    'deskew',
+    { step: 'binarize', method: 'sauvola' },
+  ],
+};
+
+// Page width assumed when estimating the resolution of an image (US Letter)
+const ASSUMED_PAGE_WIDTH_INCHES = 8.5;
+
+const STEP_NAMES: OCRPreprocessStepName[] = [
+  'grayscale',
+  'upscale',
+  'denoise',
+  'removeBorders',
+  'deskew',
+  'binarize',
+];
+
+/**
+ * Expand a preset or step list into fully configured steps. Throws a
+ * ValidationError for unknown presets, steps or out-of-range options.
+ */
+export function resolvePreprocessPipeline(
+  preprocess: OCRPreprocessPreset | OCRPreprocessStep[] = 'none'
+): ResolvedPreprocessStep[] {
+  let steps: OCRPreprocessStep[];
+  if (Array.isArray(preprocess)) {
+    steps = preprocess;
+  } else if (
+    Object.prototype.hasOwnProperty.call(OCR_PREPROCESS_PRESETS, preprocess)
+  ) {
+    steps = OCR_PREPROCESS_PRESETS[preprocess];
+  } else {
+    throw new ValidationError(
+      `Unknown preprocess preset "${String(preprocess)}" (expected ${Object.keys(OCR_PREPROCESS_PRESETS).join(', ')} or a list of steps)`,
+      'preprocess'
+    );
+  }
+  return steps.map(resolveStep);
+}
+
+/**
+ * Run a resolved pipeline. The image is always converted to grayscale
+ * first; `dpi` is the resolution of the input, if known.
+ */
+export function preprocessImage(
+  input: PixelImage,
+  pipeline: ResolvedPreprocessStep[],
+  options: { dpi?: number } = {}
+): PreprocessResult {
+  const steps: OCRPreprocessReport[] = [];
+  const timed = (
+    step: OCRPreprocessStepName,
+    run: () => Record<string, number | string> | undefined
+  ) => {
+    const started = now();
+    const details = run();
+    steps.push({
+      step,
+      durationMs: Math.round((now() - started) * 100) / 100,
+      ...(details && { details }),
+    });
+  };
+
+  let image!: GrayImage;
+  let scale = 1;
+  let dpi = options.dpi;
+
+  timed('grayscale', () => {
+    image = toGrayscale(input);
+    return { channels: input.channels };
+  });
+
+  for (const step of pipeline) {
+    switch (step.step) {
+      case 'grayscale':
+        break;
+      case 'upscale': {
+        const source = dpi ?? image.width / ASSUMED_PAGE_WIDTH_INCHES;
+        const factor = Math.min(step.maxScale, step.targetDpi / source);
+        // Not worth resampling for a few percent
+        if (factor <= 1.05) break;
+        timed('upscale', () => {
+          image = resize(image, factor);
+          return {
+            scale: Math.round(factor * 1000) / 1000,
+            [dpi === undefined ? 'estimatedDpi' : 'sourceDpi']:
+              Math.round(source),
+          };
+        });
+        scale *= factor;
+        dpi = source * factor;
+        break;
+      }
+      case 'denoise':
+        timed('denoise', () => {
+          image = medianFilter(image, step.radius);
+          return { radius: step.radius };
+        });
+        break;
+      case 'removeBorders':
+        timed('removeBorders', () => {
+          const cleaned = removeBorders(image, step.maxBorder);
+          image = cleaned.image;
+          return cleaned.borders;
+        });
+        break;
+      case 'deskew':
+        timed('deskew', () => {
+          const angle = estimateSkew(image, step.maxAngle);
+          if (angle !== 0) {
+            image = rotate(image, angle);
+          }
+          return { angle };
+        });
+        break;
+      case 'binarize':
+        timed('binarize', (): Record<string, number | string> => {
+          if (step.method === 'sauvola') {
+            image = sauvola(image, step.windowSize, step.k);
+            return { method: 'sauvola', windowSize: step.windowSize };
+          }
+          const level = otsuThreshold(image);
+          image = threshold(image, level);
+          return { method: 'otsu', threshold: level };
+        });
+        break;
+    }
+  }
+
+  return { image, steps, scale, ...(dpi !== undefined && { dpi }) };
+}
+
+/**
+ * Decode an image (URL, data URL, path, Blob or Buffer) to raw pixels with
+ * the transformers.js image reader (canvas in browsers, sharp in Node)
+ */
+export async function decodeImage(
+  input: string | Blob | Uint8Array
+): Promise<PixelImage> {
+  const { RawImage } = await import('@huggingface/transformers');
+  const image = await RawImage.read(
+    input instanceof Uint8Array ? new Blob([new Uint8Array(input)]) : input
+  );
+  return {
+    data: image.data,
+    width: image.width,
+    height: image.height,
+    channels: image.channels,
+  };
+}
+
+function resolveStep(
+  entry: OCRPreprocessStep,
+  index: number
+): ResolvedPreprocessStep {
+  const options: Record<string, unknown> =
+    typeof entry === 'string' ? { step: entry } : { ...entry };
+  const where = `preprocess[${index}]`;
+  if (!STEP_NAMES.includes(options.step as OCRPreprocessStepName)) {
+    throw new ValidationError(
+      `${where}: unknown step "${String(options.step)}" (expected ${STEP_NAMES.join(', ')})`,
+      'preprocess'
+    );
+  }
+
+  const number = (
+    name: string,
+    fallback: number,
+    min: number,
+    max: number
+  ): number => {
+    const value = options[name] ?? fallback;
+    if (
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      value < min ||
+      value > max
+    ) {
+      throw new ValidationError(
+        `${where}: ${name} must be a number between ${min} and ${max}`,
+        name
+      );
+    }
+    return value;
+  };
+
+  switch (options.step as OCRPreprocessStepName) {
+    case 'grayscale':
+      return { step: 'grayscale' };
+    case 'upscale':
+      return {
+        step: 'upscale',
+        targetDpi: number('targetDpi', 300, 72, 1200),
+        maxScale: number('maxScale', 4, 1, 8),
+      };
+    case 'denoise':
+      return { step: 'denoise', radius: Math.round(number('radius', 1, 1, 5)) };
+    case 'removeBorders':
+      return {
+        step: 'removeBorders',
+        maxBorder: number('maxBorder', 0.1, 0, 0.5),
+      };
+    case 'deskew':
+      return { step: 'deskew', maxAngle: number('maxAngle', 15, 1, 45) };
+    case 'binarize': {
+      const method = options.method ?? 'otsu';
+      if (method !== 'otsu' && method !== 'sauvola') {
+        throw new ValidationError(
+          `${where}: method must be "otsu" or "sauvola"`,
+          'method'
+        );
+      }
+      return {
+        step: 'binarize',
+        method,
+        windowSize: Math.round(number('windowSize', 31, 3, 255)),
+        k: number('k', 0.34, 0, 1),
+      };
+    }
+  }
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
@@ -0,0 +1,134 @@
+/**
+ * Ogg encapsulation of Opus packets (RFC 7845): an identification header,
+ * a comment header, then audio pages whose granule positions count 48 kHz
+ * samples
+ */
+
+export interface OggOpusOptions {
+  channels: number;
+  preSkip: number; // encoder lookahead to drop at the start, in 48 kHz samples
+  inputSampleRate: number; // informational, the rate before encoding
+  samples: number; // length of the audio at 48 kHz, to trim the last packet
+  frameSize: number; // samples per packet at 48 kHz
+  vendor?: string;
+}
+
+// Audio packets per page: one second of 20 ms frames
+const PACKETS_PER_PAGE = 50;
+
+// Magic strings are ASCII
+const ascii = (text: string): Uint8Array =>
+  Uint8Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * Mux raw Opus packets into an Ogg Opus file
+ */
+export function writeOggOpus(
+  packets: Uint8Array[],
+  options: OggOpusOptions
+): Uint8Array<ArrayBuffer> {
+  const serial = (Math.random() * 0x100000000) >>> 0;
+  const pages: Uint8Array[] = [];
+  const addPage = (
+    contents: Uint8Array[],
+    granule: number,
+    flags: number
+  ): void => {
+    pages.push(oggPage(contents, granule, serial, pages.length, flags));
+  };
+
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(ascii('OpusHead'));
+  head[8] = 1; // version
+  head[9] = options.channels;
+  headView.setUint16(10, options.preSkip, true);
+  headView.setUint32(12, Math.round(options.inputSampleRate), true);
+  // Output gain 0 dB, channel mapping family 0 (mono or stereo)
+  addPage([head], 0, 0x02);
+
+  const vendor = new TextEncoder().encode(
+    options.vendor ?? 'transformers-router'
+  );
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  tags.set(ascii('OpusTags'));
+  new DataView(tags.buffer).setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  // No user comments: the count after the vendor string stays 0
+  addPage([tags], 0, 0);
+
+  const end = options.preSkip + options.samples;
+  for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+    const batch = packets.slice(i, i + PACKETS_PER_PAGE);
+    const last = i + batch.length >= packets.length;
+    // The final granule position is short of the last packet's end, which
+    // tells players how much padding to drop
+    const granule = last
+      ? end
+      : Math.min((i + batch.length) * options.frameSize, end);
+    addPage(batch, granule, last ? 0x04 : 0);
+  }
+  return concat(pages);
+}
+
+function oggPage(
+  packets: Uint8Array[],
+  granule: number,
+  serial: number,
+  sequence: number,
+  flags: number
+): Uint8Array {
+  // Lacing: 255-byte segments, ended by one shorter segment (maybe empty)
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+  if (lacing.length > 255) {
+    throw new Error('Ogg page holds at most 255 segments');
+  }
+
+  const header = new Uint8Array(27 + lacing.length);
+  const view = new DataView(header.buffer);
+  header.set(ascii('OggS'));
+  header[5] = flags;
+  view.setUint32(6, granule % 0x100000000, true);
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  header[26] = lacing.length;
+  header.set(lacing, 27);
+
+  const page = concat([header, ...packets]);
+  new DataView(page.buffer).setUint32(22, crc32(page), true);
+  return page;
+}
+
+// CRC-32 as Ogg uses it: polynomial 0x04c11db7, unreflected, no final XOR
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, i) => {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
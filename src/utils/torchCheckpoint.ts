@@ -0,0 +1,505 @@
+/**
+ * Reader for PyTorch state dicts saved with torch.save(): the zip format
+ * (PyTorch >= 1.6) and the older single-stream format. Only what state
+ * dicts use is supported: pickled dicts of tensors backed by float or
+ * integer storages.
+ */
+
+import { ValidationError } from '@domain/errors';
+
+export interface TorchTensor {
+  data: Float32Array;
+  shape: number[];
+}
+
+interface StorageType {
+  name: string;
+  bytes: number;
+  read: (view: DataView, offset: number) => number;
+}
+
+const STORAGE_TYPES: Record<string, StorageType> = {
+  FloatStorage: {
+    name: 'FloatStorage',
+    bytes: 4,
+    read: (view, offset) => view.getFloat32(offset, true),
+  },
+  DoubleStorage: {
+    name: 'DoubleStorage',
+    bytes: 8,
+    read: (view, offset) => view.getFloat64(offset, true),
+  },
+  IntStorage: {
+    name: 'IntStorage',
+    bytes: 4,
+    read: (view, offset) => view.getInt32(offset, true),
+  },
+  LongStorage: {
+    name: 'LongStorage',
+    bytes: 8,
+    read: (view, offset) => Number(view.getBigInt64(offset, true)),
+  },
+};
+
+// A storage named in the pickle; its bytes are attached once known
+interface StorageRef {
+  type: StorageType;
+  key: string;
+  data?: Float32Array;
+}
+
+interface PendingTensor {
+  storage: StorageRef;
+  offset: number;
+  shape: number[];
+  stride: number[];
+}
+
+class PickleGlobal {
+  constructor(readonly name: string) {}
+}
+
+// Instance of a class the reader does not know; kept only to be ignored
+class PickleObject {
+  constructor(
+    readonly type: string,
+    readonly args: unknown[]
+  ) {}
+}
+
+const MARK = Symbol('mark');
+
+/**
+ * Parse a torch.save() checkpoint holding a state dict
+ *
+ * @returns Tensors by parameter name, as float32 in row-major order
+ */
+export function readTorchStateDict(
+  bytes: ArrayBuffer | Uint8Array
+): Map<string, TorchTensor> {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  const isZip =
+    data[0] === 0x50 && data[1] === 0x4b && data[2] === 3 && data[3] === 4;
+  const { value, storages } = isZip ? readZipFormat(data) : readLegacy(data);
+
+  if (!(value instanceof Map)) {
+    throw new ValidationError(
+      'Checkpoint does not hold a state dict',
+      'checkpoint'
+    );
+  }
+  const tensors = new Map<string, TorchTensor>();
+  for (const [name, tensor] of value) {
+    if (typeof name === 'string' && isPendingTensor(tensor)) {
+      tensors.set(name, materialize(tensor, storages));
+    }
+  }
+  return tensors;
+}
+
+function readZipFormat(data: Uint8Array) {
+  const entries = readZipEntries(data);
+  const pickleName = [...entries.keys()].find(name =>
+    name.endsWith('data.pkl')
+  );
+  if (!pickleName) {
+    throw new ValidationError('Checkpoint has no data.pkl', 'checkpoint');
+  }
+  const root = pickleName.slice(0, -'data.pkl'.length);
+  const { value, storages: refs } = unpickle(data, 0, entries.get(pickleName)!);
+
+  const storages = new Map<string, Float32Array>();
+  for (const ref of refs) {
+    const bytes = entries.get(`${root}data/${ref.key}`);
+    if (!bytes) {
+      throw new ValidationError(
+        `Checkpoint is missing storage ${ref.key}`,
+        'checkpoint'
+      );
+    }
+    storages.set(ref.key, decodeStorage(bytes, ref.type));
+  }
+  return { value, storages };
+}
+
+// Legacy layout: magic number, protocol version and system info pickles,
+// the state dict pickle, the list of storage keys, then each storage as
+// an int64 element count followed by its elements
+function readLegacy(data: Uint8Array) {
+  let offset = 0;
+  for (let i = 0; i < 3; i++) {
+    offset = unpickle(data, offset).end;
+  }
+  const main = unpickle(data, offset);
+  const keys = unpickle(data, main.end);
+  if (!Array.isArray(keys.value)) {
+    throw new ValidationError('Unrecognized checkpoint format', 'checkpoint');
+  }
+
+  const types = new Map(main.storages.map(ref => [ref.key, ref.type]));
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const storages = new Map<string, Float32Array>();
+  offset = keys.end;
+  for (const key of keys.value as string[]) {
+    const type = types.get(key) ?? STORAGE_TYPES.FloatStorage;
+    const count = Number(view.getBigInt64(offset, true));
+    const start = offset + 8;
+    offset = start + count * type.bytes;
+    if (offset > data.length) {
+      throw new ValidationError('Checkpoint is truncated', 'checkpoint');
+    }
+    storages.set(key, decodeStorage(data.subarray(start, offset), type));
+  }
+  return { value: main.value, storages };
+}
+
+function decodeStorage(bytes: Uint8Array, type: StorageType): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const values = new Float32Array(Math.floor(bytes.length / type.bytes));
+  for (let i = 0; i < values.length; i++) {
+    values[i] = type.read(view, i * type.bytes);
+  }
+  return values;
+}
+
+function materialize(
+  tensor: PendingTensor,
+  storages: Map<string, Float32Array>
+): TorchTensor {
+  const source = storages.get(tensor.storage.key);
+  if (!source) {
+    throw new ValidationError(
+      `Checkpoint is missing storage ${tensor.storage.key}`,
+      'checkpoint'
+    );
+  }
+  const { shape, stride, offset } = tensor;
+  const size = shape.reduce((product, dim) => product * dim, 1);
+  const data = new Float32Array(size);
+  // Walk the elements in row-major order, following the strides
+  const index = new Array<number>(shape.length).fill(0);
+  for (let i = 0; i < size; i++) {
+    let position = offset;
+    for (let d = 0; d < shape.length; d++) {
+      position += index[d] * stride[d];
+    }
+    data[i] = source[position];
+    for (let d = shape.length - 1; d >= 0; d--) {
+      if (++index[d] < shape[d]) break;
+      index[d] = 0;
+    }
+  }
+  return { data, shape };
+}
+
+function isPendingTensor(value: unknown): value is PendingTensor {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'storage' in value &&
+    'stride' in value
+  );
+}
+
+/**
+ * Entries of an uncompressed zip archive, as torch.save() writes them
+ */
+function readZipEntries(data: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new ValidationError('Checkpoint zip has no directory', 'checkpoint');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new ValidationError('Checkpoint zip is corrupt', 'checkpoint');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const header = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      data.subarray(offset + 46, offset + 46 + nameLength)
+    );
+    if (method !== 0 || size === 0xffffffff) {
+      throw new ValidationError(
+        `Checkpoint entry ${name} is compressed or too large`,
+        'checkpoint'
+      );
+    }
+    // The local header repeats the name and has its own extra field
+    const start =
+      header +
+      30 +
+      view.getUint16(header + 26, true) +
+      view.getUint16(header + 28, true);
+    entries.set(name, data.subarray(start, start + size));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Run the pickle at `offset` of `data` (protocols 2 to 4); `bytes`, when
+ * given, is the pickle itself instead
+ */
+function unpickle(
+  data: Uint8Array,
+  offset: number,
+  bytes: Uint8Array = data.subarray(offset)
+): { value: unknown; end: number; storages: StorageRef[] } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const stack: unknown[] = [];
+  const memo = new Map<number, unknown>();
+  const storages = new Map<string, StorageRef>();
+  let pos = 0;
+
+  const readLine = (): string => {
+    const newline = bytes.indexOf(0x0a, pos);
+    const line = decoder.decode(bytes.subarray(pos, newline));
+    pos = newline + 1;
+    return line;
+  };
+  const readText = (length: number): string => {
+    const text = decoder.decode(bytes.subarray(pos, pos + length));
+    pos += length;
+    return text;
+  };
+  const popMark = (): unknown[] => {
+    const mark = stack.lastIndexOf(MARK);
+    const items = stack.splice(mark);
+    return items.slice(1);
+  };
+
+  for (;;) {
+    if (pos >= bytes.length) {
+      throw new ValidationError('Checkpoint pickle is truncated', 'checkpoint');
+    }
+    const op = bytes[pos++];
+    switch (op) {
+      case 0x80: // PROTO
+        pos++;
+        break;
+      case 0x95: // FRAME
+        pos += 8;
+        break;
+      case 0x2e: // STOP
+        return {
+          value: stack.pop(),
+          end: offset + pos,
+          storages: [...storages.values()],
+        };
+      case 0x28: // MARK
+        stack.push(MARK);
+        break;
+      case 0x4e: // NONE
+        stack.push(null);
+        break;
+      case 0x88: // NEWTRUE
+        stack.push(true);
+        break;
+      case 0x89: // NEWFALSE
+        stack.push(false);
+        break;
+      case 0x4b: // BININT1
+        stack.push(bytes[pos]);
+        pos += 1;
+        break;
+      case 0x4d: // BININT2
+        stack.push(view.getUint16(pos, true));
+        pos += 2;
+        break;
+      case 0x4a: // BININT
+        stack.push(view.getInt32(pos, true));
+        pos += 4;
+        break;
+      case 0x8a: {
+        // LONG1: little-endian two's complement
+        const length = bytes[pos++];
+        let value = 0n;
+        for (let i = length - 1; i >= 0; i--) {
+          value = (value << 8n) | BigInt(bytes[pos + i]);
+        }
+        if (length > 0 && bytes[pos + length - 1] & 0x80) {
+          value -= 1n << BigInt(length * 8);
+        }
+        stack.push(Number(value));
+        pos += length;
+        break;
+      }
+      case 0x47: // BINFLOAT
+        stack.push(view.getFloat64(pos, false));
+        pos += 8;
+        break;
+      case 0x58: // BINUNICODE
+      case 0x54: {
+        // BINSTRING
+        const length = view.getUint32(pos, true);
+        pos += 4;
+        stack.push(readText(length));
+        break;
+      }
+      case 0x8c: // SHORT_BINUNICODE
+      case 0x55: // SHORT_BINSTRING
+        stack.push(readText(bytes[pos++]));
+        break;
+      case 0x43: {
+        // SHORT_BINBYTES
+        const length = bytes[pos++];
+        stack.push(bytes.slice(pos, pos + length));
+        pos += length;
+        break;
+      }
+      case 0x42: {
+        // BINBYTES
+        const length = view.getUint32(pos, true);
+        pos += 4;
+        stack.push(bytes.slice(pos, pos + length));
+        pos += length;
+        break;
+      }
+      case 0x29: // EMPTY_TUPLE
+      case 0x5d: // EMPTY_LIST
+        stack.push([]);
+        break;
+      case 0x7d: // EMPTY_DICT
+        stack.push(new Map());
+        break;
+      case 0x85: // TUPLE1
+        stack.push(stack.splice(-1));
+        break;
+      case 0x86: // TUPLE2
+        stack.push(stack.splice(-2));
+        break;
+      case 0x87: // TUPLE3
+        stack.push(stack.splice(-3));
+        break;
+      case 0x74: // TUPLE
+        stack.push(popMark());
+        break;
+      case 0x61: {
+        // APPEND
+        const item = stack.pop();
+        (stack[stack.length - 1] as unknown[]).push(item);
+        break;
+      }
+      case 0x65: {
+        // APPENDS
+        const items = popMark();
+        (stack[stack.length - 1] as unknown[]).push(...items);
+        break;
+      }
+      case 0x73: {
+        // SETITEM
+        const value = stack.pop();
+        const key = stack.pop();
+        (stack[stack.length - 1] as Map<unknown, unknown>).set(key, value);
+        break;
+      }
+      case 0x75: {
+        // SETITEMS
+        const items = popMark();
+        const dict = stack[stack.length - 1] as Map<unknown, unknown>;
+        for (let i = 0; i < items.length; i += 2) {
+          dict.set(items[i], items[i + 1]);
+        }
+        break;
+      }
+      case 0x71: // BINPUT
+        memo.set(bytes[pos++], stack[stack.length - 1]);
+        break;
+      case 0x72: // LONG_BINPUT
+        memo.set(view.getUint32(pos, true), stack[stack.length - 1]);
+        pos += 4;
+        break;
+      case 0x94: // MEMOIZE
+        memo.set(memo.size, stack[stack.length - 1]);
+        break;
+      case 0x68: // BINGET
+        stack.push(memo.get(bytes[pos++]));
+        break;
+      case 0x6a: // LONG_BINGET
+        stack.push(memo.get(view.getUint32(pos, true)));
+        pos += 4;
+        break;
+      case 0x63: {
+        // GLOBAL
+        const module = readLine();
+        stack.push(new PickleGlobal(`${module}.${readLine()}`));
+        break;
+      }
+      case 0x93: {
+        // STACK_GLOBAL
+        const name = stack.pop() as string;
+        const module = stack.pop() as string;
+        stack.push(new PickleGlobal(`${module}.${name}`));
+        break;
+      }
+      case 0x52: // REDUCE
+      case 0x81: {
+        // NEWOBJ
+        const args = stack.pop() as unknown[];
+        const callable = stack.pop() as PickleGlobal;
+        stack.push(construct(callable, args));
+        break;
+      }
+      case 0x62: // BUILD: object state, nothing a state dict needs
+        stack.pop();
+        break;
+      case 0x51: {
+        // BINPERSID: ('storage', type, key, location, size, ...)
+        const [, type, key] = stack.pop() as [string, PickleGlobal, string];
+        const typeName = type.name.split('.').pop()!;
+        const storageType = STORAGE_TYPES[typeName];
+        if (!storageType) {
+          throw new ValidationError(
+            `Unsupported tensor storage ${typeName}`,
+            'checkpoint'
+          );
+        }
+        const ref = storages.get(key) ?? { type: storageType, key };
+        storages.set(key, ref);
+        stack.push(ref);
+        break;
+      }
+      default:
+        throw new ValidationError(
+          `Unsupported pickle opcode 0x${op.toString(16)}`,
+          'checkpoint'
+        );
+    }
+  }
+}
+
+function construct(callable: PickleGlobal, args: unknown[]): unknown {
+  switch (callable.name) {
+    case 'collections.OrderedDict':
+      return new Map();
+    case 'torch._utils._rebuild_tensor_v2':
+    case 'torch._utils._rebuild_tensor': {
+      const [storage, offset, shape, stride] = args as [
+        StorageRef,
+        number,
+        number[],
+        number[],
+      ];
+      return { storage, offset, shape, stride } satisfies PendingTensor;
+    }
+    case 'torch._utils._rebuild_parameter':
+      // (tensor, requires_grad, backward_hooks)
+      return args[0];
+    default:
+      return new PickleObject(callable.name, args);
+  }
+}
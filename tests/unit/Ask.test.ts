@@ -0,0 +1,202 @@
+import { AIProvider } from '../../src/app/AIProvider';
+import { AbortError } from '../../src/domain/errors';
+import type {
+  AskProgressEventData,
+  Message,
+  VectorDocMeta,
+} from '../../src/core/types';
+
+const mockGetOrLoadModel = jest.fn();
+
+jest.mock('../../src/app/ModelManager', () => ({
+  ModelManager: jest.fn().mockImplementation(() => ({
+    getOrLoadModel: mockGetOrLoadModel,
+  })),
+}));
+
+// Requires the optional @ffmpeg/ffmpeg package, not needed for text tests
+jest.mock('../../src/app/vectorization/adapters/VideoAsAudioAdapter', () => ({
+  VideoAsAudioAdapter: jest.fn(),
+}));
+
+// One token per whitespace-separated word
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+function meta(id: string, text: string, chunkIndex = 0): VectorDocMeta {
+  return {
+    id,
+    modality: 'text',
+    mime: 'text/plain',
+    sizeBytes: 100,
+    createdAt: 1,
+    chunkIndex,
+    startChar: chunkIndex * 100,
+    endChar: chunkIndex * 100 + text.length,
+    text,
+  };
+}
+
+const DOCS = [
+  meta('a', 'alpha beta gamma delta', 0),
+  meta('b', 'one two three four five six seven eight', 1),
+  meta('c', 'red green', 2),
+];
+
+function fakeVectorization(onQuery?: () => void) {
+  return {
+    query: jest.fn(async () => {
+      onQuery?.();
+      return {
+        ids: DOCS.map(doc => doc.id),
+        scores: [0.9, 0.8, 0.7],
+        metadata: DOCS,
+      };
+    }),
+  };
+}
+
+function fakeLLM(contextLength: number) {
+  const prompts: string[] = [];
+  return {
+    prompts,
+    countTokens: jest.fn(async (input: string | Message[]) =>
+      typeof input === 'string'
+        ? countWords(input)
+        : input.reduce((sum, message) => sum + countWords(message.content), 0)
+    ),
+    getContextLength: jest.fn(async () => contextLength),
+    stream: jest.fn(async function* (prompt: string) {
+      prompts.push(prompt);
+      yield 'Alpha ';
+      yield 'comes first [1].';
+    }),
+  };
+}
+
+function createProvider(
+  vectorization: ReturnType<typeof fakeVectorization>,
+  llm: ReturnType<typeof fakeLLM>
+): AIProvider {
+  mockGetOrLoadModel.mockResolvedValue(llm);
+  const provider = new AIProvider({
+    llm: { model: 'fake-llm', maxTokens: 10 },
+  });
+  // Stands in for initializeVectorization(), which opens IndexedDB
+  (
+    provider as unknown as { vectorizationService: unknown }
+  ).vectorizationService = vectorization;
+  return provider;
+}
+
+describe('AIProvider.ask', () => {
+  const template = 'Context:\n{{context}}\nQuestion: {{question}}';
+
+  it('should pack only the chunks that fit the context budget', async () => {
+    const llm = fakeLLM(25);
+    const provider = createProvider(fakeVectorization(), llm);
+    const onProgress = jest.fn();
+
+    // 25 context - 10 completion - 5 prompt words leaves 10 for chunks
+    const response = await provider.ask('what is first?', {
+      promptTemplate: template,
+      onProgress,
+    });
+
+    const context = llm.prompts[0]
+      .slice('Context:\n'.length)
+      .split('\nQuestion:')[0];
+    expect(context).toBe('[1] alpha beta gamma delta\n\n[2] red green');
+    expect(countWords(context)).toBeLessThanOrEqual(10);
+    expect(onProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'completed', contextTokens: 8 })
+    );
+    expect(response.droppedIds).toEqual(['b']);
+    expect(response.answer).toBe('Alpha comes first [1].');
+  });
+
+  it('should respect maxContextTokens below the model budget', async () => {
+    const llm = fakeLLM(1000);
+    const provider = createProvider(fakeVectorization(), llm);
+
+    const response = await provider.ask('what is first?', {
+      promptTemplate: template,
+      maxContextTokens: 6,
+    });
+
+    expect(response.citations.map(citation => citation.id)).toEqual(['a']);
+    expect(response.droppedIds).toEqual(['b', 'c']);
+  });
+
+  it('should map citations to the retrieved chunks', async () => {
+    const llm = fakeLLM(1000);
+    const provider = createProvider(fakeVectorization(), llm);
+
+    const response = await provider.ask('what is first?');
+
+    expect(response.citations).toHaveLength(DOCS.length);
+    response.citations.forEach((citation, i) => {
+      expect(citation.marker).toBe(i + 1);
+      expect(citation.id).toBe(DOCS[i].id);
+      expect(citation.text).toBe(DOCS[i].text);
+      expect(citation.chunkIndex).toBe(DOCS[i].chunkIndex);
+      expect(citation.startChar).toBe(DOCS[i].startChar);
+      expect(citation.endChar).toBe(DOCS[i].endChar);
+      expect(llm.prompts[0]).toContain(`[${i + 1}] ${DOCS[i].text}`);
+    });
+    expect(response.citations.map(citation => citation.score)).toEqual([
+      0.9, 0.8, 0.7,
+    ]);
+  });
+
+  it('should emit progress for retrieval and generation', async () => {
+    const provider = createProvider(fakeVectorization(), fakeLLM(1000));
+    const onProgress = jest.fn();
+    const emitted: AskProgressEventData[] = [];
+    provider.on('ask:progress', event => emitted.push(event));
+
+    await provider.ask('what is first?', { onProgress });
+
+    const events = onProgress.mock.calls.map(
+      ([event]) => event as AskProgressEventData
+    );
+    expect(events.map(event => `${event.stage}:${event.status}`)).toEqual([
+      'retrieval:started',
+      'retrieval:completed',
+      'generation:started',
+      'generation:streaming',
+      'generation:streaming',
+      'generation:completed',
+    ]);
+    expect(events[1]).toMatchObject({ retrieved: 3, packed: 3 });
+    expect(events[5]).toMatchObject({ generatedChunks: 2 });
+    expect(emitted).toEqual(events);
+  });
+
+  it('should reject with AbortError when the signal is already aborted', async () => {
+    const vectorization = fakeVectorization();
+    const llm = fakeLLM(1000);
+    const provider = createProvider(vectorization, llm);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      provider.ask('what is first?', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(vectorization.query).not.toHaveBeenCalled();
+    expect(llm.stream).not.toHaveBeenCalled();
+  });
+
+  it('should not generate once aborted during retrieval', async () => {
+    const controller = new AbortController();
+    const llm = fakeLLM(1000);
+    const provider = createProvider(
+      fakeVectorization(() => controller.abort()),
+      llm
+    );
+
+    await expect(
+      provider.ask('what is first?', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(llm.stream).not.toHaveBeenCalled();
+  });
+});
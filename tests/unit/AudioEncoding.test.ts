@@ -0,0 +1,212 @@
+/**
+ * @jest-environment node
+ */
+
+import { AudioConverter } from '../../src/utils/AudioConverter';
+import { ValidationError } from '../../src/domain/errors';
+
+// libopus-wasm is an ES module Jest can't load: stand in for the encoder,
+// with packets of varied length standing for the encoded frames
+const frames: Float32Array[] = [];
+const free = jest.fn();
+const packet = (index: number) =>
+  new Uint8Array(100 + (index % 3) * 250).fill(index % 256);
+const createEncoder = jest.fn(async (_options: Record<string, unknown>) => ({
+  getLookahead: () => 312,
+  encodeFloat: (frame: Float32Array) => {
+    frames.push(frame.slice());
+    return packet(frames.length - 1);
+  },
+  free,
+}));
+jest.mock(
+  'libopus-wasm',
+  () => ({ createEncoder, Application: { Audio: 2049 } }),
+  { virtual: true }
+);
+
+const converter = new AudioConverter();
+
+// Two seconds of a 440 Hz tone
+const SAMPLE_RATE = 16000;
+const tone = Float32Array.from(
+  { length: 2 * SAMPLE_RATE },
+  (_, i) => 0.4 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE)
+);
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Offset of the first MPEG audio frame, after an optional ID3v2 tag
+function firstFrame(bytes: Uint8Array): number {
+  for (let i = 0; i + 1 < bytes.length; i++) {
+    if (bytes[i] === 0xff && (bytes[i + 1] & 0xe0) === 0xe0) return i;
+  }
+  return -1;
+}
+
+describe('AudioConverter.encode', () => {
+  // tests/setup.js stubs fetch; make the encoders decode their inline WASM
+  // from base64 instead of fetching the data URL
+  const { fetch } = globalThis;
+  const { instantiateStreaming } = WebAssembly;
+  beforeAll(() => {
+    Object.assign(globalThis, { fetch: undefined });
+    Object.assign(WebAssembly, { instantiateStreaming: undefined });
+  });
+  afterAll(() => {
+    Object.assign(globalThis, { fetch });
+    Object.assign(WebAssembly, { instantiateStreaming });
+  });
+
+  it('should keep WAV as the default format', async () => {
+    const blob = await converter.encode(tone, SAMPLE_RATE);
+    const bytes = await bytesOf(blob);
+
+    expect(blob.type).toBe('audio/wav');
+    expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe('RIFF');
+    expect(bytes.length).toBe(44 + tone.length * 2);
+  });
+
+  it('should encode constant-bitrate MP3 frames', async () => {
+    const blob = await converter.encode(tone, SAMPLE_RATE, 'mp3', {
+      bitrate: 32,
+    });
+    const bytes = await bytesOf(blob);
+    const frame = firstFrame(bytes);
+
+    expect(blob.type).toBe('audio/mpeg');
+    expect(frame).toBeGreaterThanOrEqual(0);
+    // MPEG-2 Layer III (16 kHz), bitrate index 4 = 32 kbps
+    expect((bytes[frame + 1] >> 3) & 0b11).toBe(0b10);
+    expect((bytes[frame + 1] >> 1) & 0b11).toBe(0b01);
+    expect(bytes[frame + 2] >> 4).toBe(4);
+    // 2 s at 32 kbps, plus encoder delay padding
+    expect(bytes.length).toBeGreaterThan(7000);
+    expect(bytes.length).toBeLessThan(10000);
+  });
+
+  it('should scale MP3 size with the bitrate', async () => {
+    const low = await converter.toMp3Blob(tone, SAMPLE_RATE, { bitrate: 16 });
+    const high = await converter.toMp3Blob(tone, SAMPLE_RATE, {
+      bitrate: 64,
+    });
+    expect(high.size).toBeGreaterThan(3 * low.size);
+  });
+
+  it('should reject bitrates MP3 cannot carry', async () => {
+    await expect(
+      converter.toMp3Blob(tone, SAMPLE_RATE, { bitrate: 50 })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should reject bitrates the MPEG version cannot carry', async () => {
+    // 16 kHz is MPEG-2 Layer III: 160 kbps at most
+    await expect(
+      converter.toMp3Blob(tone, SAMPLE_RATE, { bitrate: 192 })
+    ).rejects.toThrow('at most 160 kbps');
+    await expect(
+      converter.toMp3Blob(tone, 8000, { bitrate: 80 })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  it('should encode Ogg Opus pages at 48 kHz', async () => {
+    const blob = await converter.encode(tone, SAMPLE_RATE, 'ogg', {
+      bitrate: 32,
+    });
+    const bytes = await bytesOf(blob);
+    const pages = oggPages(bytes);
+
+    expect(blob.type).toBe('audio/ogg');
+    expect(createEncoder).toHaveBeenCalledWith(
+      expect.objectContaining({ sampleRate: 48000, bitrate: 32000 })
+    );
+    // 2 s resampled to 48 kHz, plus the lookahead, in 20 ms frames
+    expect(frames).toHaveLength(Math.ceil((96000 + 312) / 960));
+    expect(frames.every(frame => frame.length === 960)).toBe(true);
+    expect(free).toHaveBeenCalled();
+
+    const head = pages[0].packets[0];
+    const headView = new DataView(head.buffer, head.byteOffset);
+    expect(new TextDecoder().decode(head.subarray(0, 8))).toBe('OpusHead');
+    expect(head[9]).toBe(1);
+    expect(headView.getUint16(10, true)).toBe(312);
+    expect(headView.getUint32(12, true)).toBe(SAMPLE_RATE);
+    expect(new TextDecoder().decode(pages[1].packets[0].subarray(0, 8))).toBe(
+      'OpusTags'
+    );
+
+    // Audio: a second of packets per page, then the remainder
+    expect(pages.map(page => page.flags)).toEqual([0x02, 0, 0, 0, 0x04]);
+    expect(pages.slice(2).map(page => page.packets.length)).toEqual([
+      50, 50, 1,
+    ]);
+    expect(pages.map(page => page.granule)).toEqual([
+      0,
+      0,
+      50 * 960,
+      100 * 960,
+      // The last packet ends past the audio, which is trimmed
+      312 + 96000,
+    ]);
+    // Packets longer than a 255-byte segment survive lacing
+    expect(pages[2].packets[2]).toEqual(packet(2));
+    expect(pages[2].packets.map(p => p.length)).toContain(600);
+
+    await expect(
+      converter.toOggBlob(tone, SAMPLE_RATE, { bitrate: 0 })
+    ).rejects.toThrow(ValidationError);
+  });
+});
+
+/** Split an Ogg stream into pages, checking each page's CRC */
+function oggPages(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const pages = [];
+  for (let offset = 0; offset < bytes.length; ) {
+    expect(new TextDecoder().decode(bytes.subarray(offset, offset + 4))).toBe(
+      'OggS'
+    );
+    const segments = bytes[offset + 26];
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segments);
+    const bodyLength = lacing.reduce((sum, n) => sum + n, 0);
+    const end = offset + 27 + segments + bodyLength;
+
+    const page = bytes.slice(offset, end);
+    page.fill(0, 22, 26);
+    expect(crc32(page)).toBe(view.getUint32(offset + 22, true));
+
+    const packets: Uint8Array[] = [];
+    let start = offset + 27 + segments;
+    let length = 0;
+    for (const n of lacing) {
+      length += n;
+      if (n < 255) {
+        packets.push(bytes.subarray(start, start + length));
+        start += length;
+        length = 0;
+      }
+    }
+    pages.push({
+      offset,
+      flags: bytes[offset + 5],
+      granule:
+        view.getUint32(offset + 6, true) +
+        view.getUint32(offset + 10, true) * 0x100000000,
+      packets,
+    });
+    offset = end;
+  }
+  return pages;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    crc >>>= 0;
+  }
+  return crc;
+}
@@ -0,0 +1,73 @@
+import { BM25Index, tokenize } from '../../src/infra/vectorstore/BM25Index';
+
+describe('BM25Index', () => {
+  let index: BM25Index;
+
+  beforeEach(() => {
+    index = new BM25Index();
+    index.add('a', 'Replace filter cartridge AB-1234 every six months');
+    index.add('b', 'The pump housing uses cartridge AB-9999');
+    index.add('c', 'Cleaning instructions for the pump and the filter');
+  });
+
+  describe('tokenize', () => {
+    it('should lowercase and keep compound tokens with their parts', () => {
+      expect(tokenize('Part AB-1234, v2.1')).toEqual([
+        'part',
+        'ab-1234',
+        'ab',
+        '1234',
+        'v2.1',
+        'v2',
+        '1',
+      ]);
+    });
+
+    it('should handle non-ASCII letters', () => {
+      expect(tokenize('Zażółć gęślą jaźń')).toEqual([
+        'zażółć',
+        'gęślą',
+        'jaźń',
+      ]);
+    });
+  });
+
+  it('should rank exact part numbers first', () => {
+    const results = index.search('AB-1234');
+
+    expect(results[0].id).toBe('a');
+    expect(results[0].score).toBeGreaterThan(results[1]?.score ?? 0);
+  });
+
+  it('should give rare terms more weight than common ones', () => {
+    // "housing" appears once in the corpus, "filter" twice
+    expect(index.score('housing', 'b')).toBeGreaterThan(
+      index.score('filter', 'a')
+    );
+  });
+
+  it('should not return documents without matching terms', () => {
+    expect(index.search('warranty')).toEqual([]);
+    expect(index.score('warranty', 'a')).toBe(0);
+  });
+
+  it('should forget removed documents', () => {
+    expect(index.remove('a')).toBe(true);
+
+    expect(index.size).toBe(2);
+    expect(index.search('1234').map(r => r.id)).toEqual([]);
+    expect(index.search('cartridge').map(r => r.id)).toEqual(['b']);
+  });
+
+  it('should re-index a document added twice', () => {
+    index.add('c', 'Warranty terms');
+
+    expect(index.size).toBe(3);
+    expect(index.search('warranty').map(r => r.id)).toEqual(['c']);
+    expect(index.search('cleaning')).toEqual([]);
+  });
+
+  it('should limit results to k', () => {
+    expect(index.search('the pump filter cartridge', 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  DEFAULT_ASK_PROMPT_TEMPLATE,
+  packContext,
+  renderPrompt,
+  toRetrievedChunks,
+  validatePromptTemplate,
+  type RetrievedChunk,
+} from '../../src/app/rag/ContextPacker';
+import { ValidationError } from '../../src/domain/errors';
+import type { VectorDocMeta } from '../../src/core/types';
+
+// One token per whitespace-separated word
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+function meta(id: string, text?: string, chunkIndex = 0): VectorDocMeta {
+  return {
+    id,
+    modality: 'text',
+    mime: 'text/plain',
+    sizeBytes: 100,
+    createdAt: 1,
+    chunkIndex,
+    startChar: chunkIndex * 100,
+    endChar: chunkIndex * 100 + (text?.length ?? 0),
+    text,
+  };
+}
+
+function chunk(id: string, text: string, score: number): RetrievedChunk {
+  return { id, score, metadata: meta(id, text) };
+}
+
+describe('ContextPacker', () => {
+  describe('renderPrompt', () => {
+    it('should fill the context and question placeholders', () => {
+      expect(
+        renderPrompt(
+          'Q: {{question}}\n{{context}}\nQ again: {{question}}',
+          'why?',
+          '[1] because'
+        )
+      ).toBe('Q: why?\n[1] because\nQ again: why?');
+    });
+
+    it('should insert text containing $ patterns verbatim', () => {
+      expect(renderPrompt('{{context}}', 'q', 'costs $& and $1')).toBe(
+        'costs $& and $1'
+      );
+    });
+
+    it('should require a context placeholder', () => {
+      expect(() => validatePromptTemplate('Question: {{question}}')).toThrow(
+        ValidationError
+      );
+      expect(() =>
+        validatePromptTemplate(DEFAULT_ASK_PROMPT_TEMPLATE)
+      ).not.toThrow();
+    });
+  });
+
+  describe('toRetrievedChunks', () => {
+    it('should keep hits with chunk text in result order', () => {
+      const chunks = toRetrievedChunks({
+        ids: ['a', 'img', 'b'],
+        scores: [0.9, 0.8, 0.7],
+        metadata: [meta('a', 'alpha'), meta('img'), meta('b', 'beta', 3)],
+      });
+
+      expect(chunks.map(c => [c.id, c.score])).toEqual([
+        ['a', 0.9],
+        ['b', 0.7],
+      ]);
+      expect(chunks[1].metadata.chunkIndex).toBe(3);
+    });
+
+    it('should return nothing when the store returned no metadata', () => {
+      expect(toRetrievedChunks({ ids: ['a'], scores: [1] })).toEqual([]);
+    });
+  });
+
+  describe('packContext', () => {
+    it('should number passages and build citations with offsets', async () => {
+      const packed = await packContext(
+        [
+          chunk('a', 'the pump  runs\non 12V', 0.9),
+          chunk('b', 'filters last six months', 0.5),
+        ],
+        100,
+        countWords
+      );
+
+      expect(packed.context).toBe(
+        '[1] the pump runs on 12V\n\n[2] filters last six months'
+      );
+      expect(packed.tokens).toBe(11);
+      expect(packed.droppedIds).toEqual([]);
+      expect(packed.citations[0]).toMatchObject({
+        marker: 1,
+        id: 'a',
+        score: 0.9,
+        chunkIndex: 0,
+        startChar: 0,
+        endChar: 21,
+        text: 'the pump  runs\non 12V',
+      });
+      expect(packed.citations[1].marker).toBe(2);
+    });
+
+    it('should skip chunks over budget and still try smaller ones', async () => {
+      const packed = await packContext(
+        [
+          chunk('a', 'one two three', 0.9),
+          chunk('b', 'a much longer passage that cannot fit at all', 0.8),
+          chunk('c', 'short one', 0.7),
+        ],
+        7,
+        countWords
+      );
+
+      expect(packed.citations.map(c => [c.id, c.marker])).toEqual([
+        ['a', 1],
+        ['c', 2],
+      ]);
+      expect(packed.droppedIds).toEqual(['b']);
+      expect(packed.context).toBe('[1] one two three\n\n[2] short one');
+      expect(packed.tokens).toBeLessThanOrEqual(7);
+    });
+
+    it('should support async token counters and an empty budget', async () => {
+      const packed = await packContext(
+        [chunk('a', 'anything', 1)],
+        0,
+        async text => countWords(text)
+      );
+
+      expect(packed.context).toBe('');
+      expect(packed.citations).toEqual([]);
+      expect(packed.droppedIds).toEqual(['a']);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/** @jest-environment node */
+import {
+  GrammarMatcher,
+  parseGrammar,
+} from '../../src/app/generation/GBNFGrammar';
+import {
+  TokenVocabulary,
+  createGrammarLogitsProcessor,
+} from '../../src/app/generation/GrammarLogitsProcessor';
+import { ValidationError } from '../../src/domain/errors';
+import { PreTrainedTokenizer } from '@huggingface/transformers';
+
+function matches(source: string, text: string): boolean {
+  const matcher = new GrammarMatcher(parseGrammar(source));
+  return matcher.accept(text) && matcher.isComplete;
+}
+
+describe('GBNFGrammar', () => {
+  it('should match literals, alternatives and rule references', () => {
+    const grammar = `
+      root   ::= answer "."   # trailing period required
+      answer ::= "yes" | "no"
+    `;
+    expect(matches(grammar, 'yes.')).toBe(true);
+    expect(matches(grammar, 'no.')).toBe(true);
+    expect(matches(grammar, 'yes')).toBe(false);
+    expect(matches(grammar, 'maybe.')).toBe(false);
+  });
+
+  it('should support character classes, negation and escapes', () => {
+    const grammar = 'root ::= [a-c]+ [^\\n0-9] "\\x41\\u00e9\\t"';
+    expect(matches(grammar, 'abcaX' + 'Aé\t')).toBe(true);
+    expect(matches(grammar, 'ab5Aé\t')).toBe(false);
+    expect(matches(grammar, 'ab\nAé\t')).toBe(false);
+  });
+
+  it('should support *, +, ? and {m,n} repetition', () => {
+    expect(matches('root ::= "a"* "b"', 'b')).toBe(true);
+    expect(matches('root ::= "a"* "b"', 'aaab')).toBe(true);
+    expect(matches('root ::= "a"+ "b"', 'b')).toBe(false);
+    expect(matches('root ::= "-"? [0-9]', '-7')).toBe(true);
+    expect(matches('root ::= "ab"{2}', 'abab')).toBe(true);
+    expect(matches('root ::= "ab"{2}', 'ab')).toBe(false);
+
+    const bounded = 'root ::= [0-9]{2,3}';
+    expect(matches(bounded, '1')).toBe(false);
+    expect(matches(bounded, '12')).toBe(true);
+    expect(matches(bounded, '123')).toBe(true);
+    expect(matches(bounded, '1234')).toBe(false);
+    expect(matches('root ::= ("x" | "y"){2,}', 'xyx')).toBe(true);
+  });
+
+  it('should allow recursion that is not left-recursive', () => {
+    const grammar = 'root ::= "(" root ")" | ""';
+    expect(matches(grammar, '((()))')).toBe(true);
+    expect(matches(grammar, '(()')).toBe(false);
+  });
+
+  it('should report prefixes as accepted but incomplete', () => {
+    const matcher = new GrammarMatcher(parseGrammar('root ::= "hello"'));
+    expect(matcher.accept('hel')).toBe(true);
+    expect(matcher.isComplete).toBe(false);
+    expect(matcher.accept('p')).toBe(false);
+    expect(matcher.accept('lo')).toBe(true);
+    expect(matcher.isComplete).toBe(true);
+  });
+
+  it('should reject malformed grammars', () => {
+    expect(() => parseGrammar('root ::= missing')).toThrow(
+      'Undefined grammar rule: missing'
+    );
+    expect(() => parseGrammar('start ::= "a"')).toThrow(
+      'Grammar has no "root" rule'
+    );
+    expect(() => parseGrammar('root ::= "a')).toThrow(ValidationError);
+    expect(() => parseGrammar('root ::= ("a"')).toThrow('Expected ")"');
+    expect(parseGrammar('start ::= "a"', 'start').ruleNames).toContain('start');
+  });
+
+  it('should detect left recursion', () => {
+    const matcher = () => new GrammarMatcher(parseGrammar('root ::= root "a"'));
+    expect(matcher).toThrow('left-recursive');
+  });
+});
+
+describe('GrammarLogitsProcessor', () => {
+  // Toy vocabulary: id 0 is EOS, id 6 is a special token (empty text)
+  const texts = ['', '{', '}', '"a"', ':', '1', '', ' ', '"b', 'x'];
+  const vocabulary = new TokenVocabulary(texts, [0]);
+  const grammar = parseGrammar('root ::= "{" "\\"a\\"" ":" " "? [0-9]+ "}"');
+
+  const allowedAfter = (generated: number[]) => {
+    const processor = createGrammarLogitsProcessor(grammar, vocabulary);
+    const prompt = [100, 101];
+    // Replay the generation step by step, as generate() does
+    let logits = [{ data: new Float32Array(texts.length) }];
+    for (let i = 0; i <= generated.length; i++) {
+      logits = [{ data: new Float32Array(texts.length) }];
+      processor([[...prompt, ...generated.slice(0, i)]], logits);
+    }
+    return Array.from(logits[0].data)
+      .map((value, id) => (value === -Infinity ? -1 : id))
+      .filter(id => id >= 0);
+  };
+
+  it('should only allow tokens that continue the grammar', () => {
+    expect(allowedAfter([])).toEqual([1]);
+    expect(allowedAfter([1])).toEqual([3]);
+    expect(allowedAfter([1, 3])).toEqual([4]);
+    expect(allowedAfter([1, 3, 4])).toEqual([5, 7]);
+    expect(allowedAfter([1, 3, 4, 5])).toEqual([2, 5]);
+  });
+
+  it('should allow only EOS once the grammar is complete', () => {
+    expect(allowedAfter([1, 3, 4, 7, 5, 2])).toEqual([0]);
+  });
+
+  it('should skip whole vocabulary subtrees on a rejected prefix', () => {
+    const trieVocabulary = new TokenVocabulary(
+      ['', 'ab', 'abc', 'abd', 'b'],
+      [0]
+    );
+    expect(
+      trieVocabulary.allowedTokens(
+        parseGrammar('root ::= "abc" | "b"'),
+        new GrammarMatcher(parseGrammar('root ::= "abc" | "b"')).currentState
+      )
+    ).toEqual([1, 2, 4]);
+  });
+
+  it('should keep the spaces of SentencePiece tokens', () => {
+    // Llama-style tokenizer: Metaspace "▁" spaces and byte fallback
+    const vocab = ['<unk>', '<s>', '</s>', '▁New', '▁York', '"', '<0x41>'];
+    vocab.push('<0xE2>', 'New', '▁');
+    const tokenizer = new PreTrainedTokenizer(
+      {
+        normalizer: null,
+        pre_tokenizer: { type: 'Metaspace', replacement: '▁' },
+        post_processor: null,
+        decoder: {
+          type: 'Sequence',
+          decoders: [
+            { type: 'Replace', pattern: { String: '▁' }, content: ' ' },
+            { type: 'ByteFallback' },
+            { type: 'Fuse' },
+            { type: 'Strip', content: ' ', start: 1, stop: 0 },
+          ],
+        },
+        model: {
+          type: 'BPE',
+          vocab: Object.fromEntries(vocab.map((token, id) => [token, id])),
+          merges: [],
+          byte_fallback: true,
+          unk_token: '<unk>',
+        },
+        added_tokens: vocab.slice(0, 3).map((content, id) => ({
+          id,
+          content,
+          special: true,
+        })),
+      },
+      { unk_token: '<unk>', bos_token: '<s>', eos_token: '</s>' }
+    );
+    const sentencePiece = TokenVocabulary.fromTokenizer(
+      tokenizer,
+      vocab.length,
+      [2]
+    );
+
+    expect(vocab.map((_, id) => sentencePiece.text(id))).toEqual([
+      '',
+      '',
+      '',
+      ' New',
+      ' York',
+      '"',
+      'A',
+      '\uFFFD',
+      'New',
+      ' ',
+    ]);
+    const grammar = parseGrammar('root ::= "\\"" ("New York" | "A") "\\""');
+    const matcher = new GrammarMatcher(grammar);
+    matcher.accept('"');
+    expect(sentencePiece.allowedTokens(grammar, matcher.currentState)).toEqual([
+      6, 8,
+    ]);
+    matcher.accept('New');
+    expect(sentencePiece.allowedTokens(grammar, matcher.currentState)).toEqual([
+      9, 4,
+    ]);
+  });
+});
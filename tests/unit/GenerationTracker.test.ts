@@ -0,0 +1,56 @@
+import { GenerationTracker } from '../../src/app/generation/GenerationTracker';
+
+describe('GenerationTracker', () => {
+  const EOS = 2;
+
+  // Replay generate(): the criteria see the whole sequence after each token
+  const run = (prompt: number[], generated: number[]) => {
+    const tracker = new GenerationTracker([EOS]);
+    for (let i = 1; i <= generated.length; i++) {
+      const stop = tracker.stoppingCriteria([
+        [...prompt, ...generated.slice(0, i)],
+      ]);
+      expect(stop).toEqual([false]);
+    }
+    return tracker;
+  };
+
+  it('should count prompt and generated tokens exactly', () => {
+    const tracker = run([10, 11, 12, 13], [20, 21, EOS]);
+    expect(tracker.observed).toBe(true);
+    expect(tracker.promptTokens).toBe(4);
+    expect(tracker.completionTokens).toBe(3);
+  });
+
+  it('should accept bigint token ids', () => {
+    const tracker = new GenerationTracker([EOS]);
+    tracker.stoppingCriteria([[1n, 5n]]);
+    tracker.stoppingCriteria([[1n, 5n, 2n]]);
+    expect(tracker.completionTokens).toBe(2);
+    expect(tracker.hitLengthLimit(2)).toBe(false);
+  });
+
+  it('should report the length limit only when generation was cut off', () => {
+    expect(run([1, 2], [5, 6, 7]).hitLengthLimit(3)).toBe(true);
+    expect(run([1, 2], [5, 6, EOS]).hitLengthLimit(3)).toBe(false);
+    expect(run([1, 2], [5, EOS]).hitLengthLimit(3)).toBe(false);
+  });
+
+  it('should stay unobserved when generate() reported nothing', () => {
+    const tracker = new GenerationTracker([EOS]);
+    expect(tracker.observed).toBe(false);
+    expect(tracker.promptTokens).toBeUndefined();
+    expect(tracker.completionTokens).toBe(0);
+    expect(tracker.hitLengthLimit(16)).toBe(false);
+  });
+
+  it('should return one flag per batch entry', () => {
+    const tracker = new GenerationTracker([EOS]);
+    expect(
+      tracker.stoppingCriteria([
+        [1, 2, 3],
+        [1, 2, 4],
+      ])
+    ).toEqual([false, false]);
+  });
+});
@@ -0,0 +1,158 @@
+import { HNSWIndex } from '../../src/infra/vectorstore/HNSWIndex';
+
+// Deterministic pseudo-random vectors so recall numbers are stable
+function makeVectors(count: number, dim: number, seed = 1): Float32Array[] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 4294967296 - 0.5;
+  };
+  return Array.from({ length: count }, () =>
+    Float32Array.from({ length: dim }, next)
+  );
+}
+
+function cosine(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(na) * Math.sqrt(nb));
+}
+
+function bruteForce(vectors: Float32Array[], query: Float32Array, k: number) {
+  return vectors
+    .map((v, i) => ({ id: `v${i}`, score: cosine(query, v) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(r => r.id);
+}
+
+describe('HNSWIndex', () => {
+  const vectors = makeVectors(500, 16);
+  const queries = makeVectors(20, 16, 99);
+
+  let index: HNSWIndex;
+
+  beforeEach(() => {
+    index = new HNSWIndex({ M: 8, efConstruction: 64, efSearch: 32, seed: 7 });
+    vectors.forEach((v, i) => index.add(`v${i}`, v));
+  });
+
+  function recallAt(k: number, ef?: number): number {
+    let hits = 0;
+    for (const query of queries) {
+      const expected = new Set(bruteForce(vectors, query, k));
+      hits += index
+        .search(query, k, ef)
+        .filter(r => expected.has(r.id)).length;
+    }
+    return hits / (queries.length * k);
+  }
+
+  it('should match brute-force neighbours with high recall', () => {
+    expect(index.size).toBe(500);
+    expect(recallAt(10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('should not lose recall when efSearch is raised', () => {
+    expect(recallAt(10, 200)).toBeGreaterThanOrEqual(recallAt(10, 10));
+    expect(recallAt(10, 200)).toBeGreaterThanOrEqual(0.98);
+  });
+
+  it('should return cosine scores in descending order', () => {
+    const results = index.search(queries[0], 5);
+
+    expect(results).toHaveLength(5);
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i - 1].score).toBeGreaterThanOrEqual(results[i].score);
+    }
+    const id = Number(results[0].id.slice(1));
+    expect(results[0].score).toBeCloseTo(cosine(queries[0], vectors[id]), 5);
+  });
+
+  it('should stop returning removed vectors', () => {
+    const [top] = index.search(vectors[42], 1);
+    expect(top.id).toBe('v42');
+
+    expect(index.remove('v42')).toBe(true);
+    expect(index.has('v42')).toBe(false);
+    expect(index.search(vectors[42], 10).map(r => r.id)).not.toContain('v42');
+    expect(recallAt(10)).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it('should stay searchable after most nodes are removed', () => {
+    for (let i = 0; i < 490; i++) {
+      index.remove(`v${i}`);
+    }
+
+    const results = index.search(vectors[495], 10);
+    expect(results.map(r => r.id).sort()).toEqual(
+      Array.from({ length: 10 }, (_, i) => `v${490 + i}`).sort()
+    );
+  });
+
+  it('should replace the vector when an id is added twice', () => {
+    index.add('v0', vectors[1]);
+
+    expect(index.size).toBe(500);
+    expect(index.search(vectors[1], 2).map(r => r.id).sort()).toEqual([
+      'v0',
+      'v1',
+    ]);
+  });
+
+  it('should reject vectors with a different dimension', () => {
+    expect(() => index.add('bad', new Float32Array(3))).toThrow(
+      'Vector dimensions do not match'
+    );
+  });
+
+  describe('persistence', () => {
+    it('should restore an index that returns the same results', () => {
+      const { meta } = index.takeChanges();
+      const restored = HNSWIndex.restore(
+        meta,
+        index.toRecords(),
+        new Map(vectors.map((v, i) => [`v${i}`, v])),
+        { M: 8, efConstruction: 64, efSearch: 32 }
+      );
+
+      expect(restored).not.toBeNull();
+      for (const query of queries.slice(0, 5)) {
+        expect(restored!.search(query, 10)).toEqual(index.search(query, 10));
+      }
+    });
+
+    it('should refuse to restore records that do not match the vectors', () => {
+      const { meta } = index.takeChanges();
+      const vectorsMissingOne = new Map(
+        vectors.slice(1).map((v, i) => [`v${i + 1}`, v])
+      );
+
+      expect(
+        HNSWIndex.restore(meta, index.toRecords(), vectorsMissingOne, {
+          M: 8,
+          efConstruction: 64,
+        })
+      ).toBeNull();
+    });
+
+    it('should report only touched nodes as incremental changes', () => {
+      index.takeChanges();
+      index.add('new', vectors[3]);
+      const changes = index.takeChanges();
+
+      expect(changes.updated.map(r => r.id)).toContain('new');
+      expect(changes.updated.length).toBeLessThan(50);
+      expect(changes.removed).toEqual([]);
+
+      index.remove('new');
+      expect(index.takeChanges().removed).toEqual(['new']);
+    });
+  });
+});
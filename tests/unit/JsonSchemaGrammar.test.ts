@@ -0,0 +1,136 @@
+import {
+  gbnfLiteral,
+  jsonObjectGrammar,
+  jsonSchemaToGrammar,
+  type JsonSchema,
+} from '../../src/app/generation/JsonSchemaGrammar';
+import {
+  GrammarMatcher,
+  parseGrammar,
+} from '../../src/app/generation/GBNFGrammar';
+import { compileResponseFormat } from '../../src/app/generation/ResponseFormat';
+import { ValidationError } from '../../src/domain/errors';
+
+function accepts(schema: JsonSchema, text: string): boolean {
+  const matcher = new GrammarMatcher(parseGrammar(jsonSchemaToGrammar(schema)));
+  return matcher.accept(text) && matcher.isComplete;
+}
+
+describe('JsonSchemaGrammar', () => {
+  const person: JsonSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      age: { type: 'integer' },
+      email: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    },
+    required: ['name', 'age'],
+  };
+
+  it('should accept objects with required and optional properties', () => {
+    expect(accepts(person, '{"name":"Ada","age":36}')).toBe(true);
+    expect(accepts(person, '{ "name": "Ada", "age": 36 }')).toBe(true);
+    expect(accepts(person, '{"name":"Ada","age":36,"tags":["x","y"]}')).toBe(
+      true
+    );
+    expect(
+      accepts(person, '{"name":"Ada","age":36,"email":"a@b.c","tags":[]}')
+    ).toBe(true);
+  });
+
+  it('should reject missing, unknown, reordered or mistyped properties', () => {
+    expect(accepts(person, '{"name":"Ada"}')).toBe(false);
+    expect(accepts(person, '{"age":36,"name":"Ada"}')).toBe(false);
+    expect(accepts(person, '{"name":"Ada","age":36,"x":1}')).toBe(false);
+    expect(accepts(person, '{"name":"Ada","age":36.5}')).toBe(false);
+    expect(
+      accepts(person, '{"name":"Ada","age":36,"tags":["a","b","c"]}')
+    ).toBe(false);
+  });
+
+  it('should keep commas between optional-only properties', () => {
+    const schema = {
+      type: 'object',
+      properties: { a: { type: 'boolean' }, b: { type: 'null' } },
+    };
+    expect(accepts(schema, '{}')).toBe(true);
+    expect(accepts(schema, '{"b":null}')).toBe(true);
+    expect(accepts(schema, '{"a":true,"b":null}')).toBe(true);
+    expect(accepts(schema, '{,"b":null}')).toBe(false);
+  });
+
+  it('should support enum, const, anyOf and type arrays', () => {
+    expect(accepts({ enum: ['red', 'green', 1] }, '"green"')).toBe(true);
+    expect(accepts({ enum: ['red', 'green', 1] }, '1')).toBe(true);
+    expect(accepts({ enum: ['red', 'green'] }, '"blue"')).toBe(false);
+    expect(accepts({ const: { ok: true } }, '{"ok":true}')).toBe(true);
+    expect(
+      accepts({ anyOf: [{ type: 'number' }, { type: 'string' }] }, '-1.5e3')
+    ).toBe(true);
+    expect(accepts({ type: ['integer', 'null'] }, 'null')).toBe(true);
+    expect(accepts({ type: ['integer', 'null'] }, '"x"')).toBe(false);
+  });
+
+  it('should enforce string escapes and length limits', () => {
+    expect(accepts({ type: 'string' }, '"a\\"b\\u00e9\\n"')).toBe(true);
+    expect(accepts({ type: 'string' }, '"a\nb"')).toBe(false);
+    expect(
+      accepts({ type: 'string', minLength: 2, maxLength: 3 }, '"ab"')
+    ).toBe(true);
+    expect(accepts({ type: 'string', maxLength: 3 }, '"abcd"')).toBe(false);
+  });
+
+  it('should resolve local and recursive $refs', () => {
+    const tree = {
+      $ref: '#/$defs/node',
+      $defs: {
+        node: {
+          type: 'object',
+          properties: {
+            value: { type: 'integer' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } },
+          },
+          required: ['value'],
+        },
+      },
+    };
+    expect(
+      accepts(tree, '{"value":1,"children":[{"value":2},{"value":3}]}')
+    ).toBe(true);
+    expect(() => jsonSchemaToGrammar({ $ref: '#/$defs/missing' })).toThrow(
+      'Unresolved $ref: #/$defs/missing'
+    );
+    expect(() => jsonSchemaToGrammar({ $ref: 'http://x/schema' })).toThrow(
+      ValidationError
+    );
+  });
+
+  it('should build a generic JSON object grammar', () => {
+    const matcher = new GrammarMatcher(parseGrammar(jsonObjectGrammar()));
+    expect(matcher.accept('{"a":[1,{"b":null}],"c":"d"}')).toBe(true);
+    expect(matcher.isComplete).toBe(true);
+    expect(
+      new GrammarMatcher(parseGrammar(jsonObjectGrammar())).accept('[1]')
+    ).toBe(false);
+  });
+
+  it('should quote GBNF literals', () => {
+    expect(gbnfLiteral('say "hi"\n\\')).toBe('"say \\"hi\\"\\n\\\\"');
+  });
+
+  it('should compile response formats', () => {
+    expect(compileResponseFormat()).toBeNull();
+    expect(compileResponseFormat({ type: 'text' })).toBeNull();
+    expect(
+      compileResponseFormat({
+        type: 'grammar',
+        grammar: 'answer ::= "x"',
+        root: 'answer',
+      })
+    ).not.toBeNull();
+    expect(
+      compileResponseFormat({ type: 'json_schema', schema: person })?.ruleNames
+    ).toContain('root');
+  });
+});
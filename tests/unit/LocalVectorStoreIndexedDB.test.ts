@@ -293,4 +293,194 @@ describe.skip('LocalVectorStoreIndexedDB', () => {
       await expect(store.count()).rejects.toThrow();
     });
   });
-});
\ No newline at end of file
+});
+
+/**
+ * Just enough of IndexedDB for the store: object stores keyed by `keyPath`,
+ * requests that succeed asynchronously, and transactions that complete once
+ * their requests have. `failPuts` makes puts into the named store fail.
+ */
+function createFakeIndexedDB() {
+  const data = new Map<string, Map<string, any>>();
+  const keyPaths = new Map<string, string>();
+  const failPuts = new Set<string>();
+  let version = 0;
+
+  // Stored values are copies, as with the structured clone IndexedDB makes
+  const clone = (value: any) =>
+    value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+  const request = (transaction: any, run: () => any) => {
+    const req: any = { onsuccess: null, onerror: null };
+    transaction.pending++;
+    setTimeout(() => {
+      try {
+        req.result = run();
+        req.onsuccess?.();
+      } catch (error) {
+        req.error = error;
+        req.onerror?.();
+        transaction.failed = true;
+      }
+      if (--transaction.pending === 0) {
+        setTimeout(() =>
+          transaction.failed
+            ? transaction.onabort?.()
+            : transaction.oncomplete?.()
+        );
+      }
+    });
+    return req;
+  };
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => data.has(name) },
+    createObjectStore: (name: string, options: { keyPath: string }) => {
+      data.set(name, new Map());
+      keyPaths.set(name, options.keyPath);
+      return { createIndex: () => undefined };
+    },
+    transaction: (names: string[]) => {
+      const transaction: any = { pending: 0, failed: false };
+      transaction.objectStore = (name: string) => {
+        if (!names.includes(name)) {
+          throw new Error(`${name} is not in the transaction`);
+        }
+        const records = data.get(name)!;
+        return {
+          put: (value: any) =>
+            request(transaction, () => {
+              if (failPuts.has(name)) {
+                throw new Error('QuotaExceededError');
+              }
+              records.set(value[keyPaths.get(name)!], clone(value));
+            }),
+          get: (key: string) =>
+            request(transaction, () => clone(records.get(key))),
+          getAll: () =>
+            request(transaction, () => clone([...records.values()])),
+          delete: (key: string) =>
+            request(transaction, () => void records.delete(key)),
+          clear: () => request(transaction, () => records.clear()),
+          count: () => request(transaction, () => records.size),
+        };
+      };
+      return transaction;
+    },
+    close: () => undefined,
+  };
+
+  const indexedDB = {
+    open: (_name: string, requested: number) => {
+      const req: any = { result: db };
+      setTimeout(() => {
+        if (requested > version) {
+          version = requested;
+          req.onupgradeneeded?.({ target: req });
+        }
+        req.onsuccess?.();
+      });
+      return req;
+    },
+  };
+  return { indexedDB, data, failPuts };
+}
+
+describe('LocalVectorStoreIndexedDB with HNSW', () => {
+  const originalIndexedDB = global.indexedDB;
+  let fake: ReturnType<typeof createFakeIndexedDB>;
+
+  beforeEach(() => {
+    fake = createFakeIndexedDB();
+    global.indexedDB = fake.indexedDB as any;
+  });
+
+  afterEach(() => {
+    global.indexedDB = originalIndexedDB;
+  });
+
+  const unit = (dimension: number, axis: number) => {
+    const vector = new Float32Array(dimension);
+    vector[axis] = 1;
+    return vector;
+  };
+
+  const doc = (id: string, vector: Float32Array): VectorDocument => ({
+    id,
+    vector,
+    metadata: {
+      id,
+      modality: vector.length === 4 ? 'text' : 'image',
+      mime: vector.length === 4 ? 'text/plain' : 'image/png',
+      sizeBytes: 1,
+      createdAt: 1,
+    },
+  });
+
+  // Index every query, however small the store
+  const options = { bruteForceThreshold: 0, hnsw: { seed: 1 } };
+
+  it('should index and reload vectors of different dimensions', async () => {
+    const store = new LocalVectorStoreIndexedDB(4, options);
+    await store.upsert([
+      doc('text1', unit(4, 0)),
+      doc('text2', unit(4, 1)),
+      doc('image1', unit(6, 0)),
+      doc('image2', unit(6, 5)),
+    ]);
+
+    const [text] = await store.query(unit(4, 1), { k: 1 });
+    const [image] = await store.query(unit(6, 5), { k: 1 });
+    expect(text.id).toBe('text2');
+    expect(image.id).toBe('image2');
+    expect([...fake.data.get('hnsw_meta')!.keys()].sort()).toEqual([
+      'hnsw:4',
+      'hnsw:6',
+    ]);
+
+    await store.close();
+    const reloaded = new LocalVectorStoreIndexedDB(4, options);
+    await reloaded.initialize();
+    expect(fake.data.get('hnsw_nodes')!.size).toBe(4);
+    expect((await reloaded.query(unit(6, 0), { k: 1 }))[0].id).toBe('image1');
+
+    // Moving an id to the other dimension, then emptying that graph
+    await reloaded.upsert([doc('text1', unit(6, 2))]);
+    expect((await reloaded.query(unit(4, 0), { k: 2 })).map(r => r.id)).toEqual(
+      ['text2']
+    );
+    await reloaded.delete(['text2']);
+    expect(fake.data.get('hnsw_meta')!.has('hnsw:4')).toBe(false);
+    expect((await reloaded.query(unit(6, 2), { k: 1 }))[0].id).toBe('text1');
+  });
+
+  it('should scan only vectors of the query dimension', async () => {
+    // Below the default threshold: every query is a linear scan
+    const store = new LocalVectorStoreIndexedDB(4, { hnsw: { seed: 1 } });
+    await store.upsert([
+      doc('image1', unit(6, 0)),
+      doc('text1', unit(4, 0)),
+      doc('text2', unit(4, 1)),
+      doc('image2', unit(6, 5)),
+    ]);
+
+    const texts = await store.query(unit(4, 1), { k: 10 });
+    expect(texts.map(r => r.id)).toEqual(['text2', 'text1']);
+    const images = await store.query(unit(6, 5), { k: 10, exact: true });
+    expect(images.map(r => r.id)).toEqual(['image2', 'image1']);
+    expect(await store.query(unit(8, 0))).toEqual([]);
+  });
+
+  it('should leave the index untouched when the write fails', async () => {
+    const store = new LocalVectorStoreIndexedDB(4, options);
+    await store.upsert([doc('a', unit(4, 0))]);
+
+    fake.failPuts.add('vectors');
+    await expect(store.upsert([doc('b', unit(4, 1))])).rejects.toThrow(
+      'Failed to store document b'
+    );
+
+    const results = await store.query(unit(4, 1), { k: 2 });
+    expect(results.map(r => r.id)).toEqual(['a']);
+  });
+});
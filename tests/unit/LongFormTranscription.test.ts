@@ -0,0 +1,178 @@
+import {
+  planWindows,
+  planSpeechWindows,
+  stitchWindows,
+  type AudioWindow,
+} from '../../src/app/transcription/LongForm';
+import { ValidationError } from '../../src/domain/errors';
+
+describe('planWindows', () => {
+  it('should use a single window for short audio', () => {
+    expect(planWindows(12, 30, 5)).toEqual([
+      { index: 0, start: 0, end: 12, keepStart: 0, keepEnd: 12 },
+    ]);
+  });
+
+  it('should overlap windows by the stride on each side', () => {
+    const windows = planWindows(50, 30, 5);
+    expect(windows).toEqual([
+      { index: 0, start: 0, end: 30, keepStart: 0, keepEnd: 25 },
+      { index: 1, start: 20, end: 50, keepStart: 25, keepEnd: 50 },
+    ]);
+  });
+
+  it('should cover long audio with contiguous keep ranges', () => {
+    const windows = planWindows(3600, 30, 5);
+    expect(windows[0].keepStart).toBe(0);
+    expect(windows[windows.length - 1].keepEnd).toBe(3600);
+    for (let i = 1; i < windows.length; i++) {
+      expect(windows[i].keepStart).toBe(windows[i - 1].keepEnd);
+      expect(windows[i].start).toBeLessThan(windows[i - 1].end);
+    }
+  });
+
+  it('should reject invalid lengths', () => {
+    expect(() => planWindows(60, 0, 0)).toThrow(ValidationError);
+    expect(() => planWindows(60, 45, 5)).toThrow(ValidationError);
+    expect(() => planWindows(60, 30, 15)).toThrow('strideLengthS');
+  });
+});
+
+describe('planSpeechWindows', () => {
+  it('should plan windows per speech region, skipping the gaps', () => {
+    const windows = planSpeechWindows(
+      [
+        { start: 2, end: 6 },
+        { start: 40, end: 80 },
+      ],
+      30,
+      5
+    );
+
+    expect(windows.map(w => w.index)).toEqual([0, 1, 2]);
+    expect(windows[0]).toEqual({
+      index: 0,
+      start: 2,
+      end: 6,
+      keepStart: 2,
+      keepEnd: 6,
+    });
+    expect(windows[1]).toMatchObject({ start: 40, end: 70, keepStart: 40 });
+    expect(windows[2]).toMatchObject({ start: 60, end: 80, keepEnd: 80 });
+    expect(planSpeechWindows([], 30, 5)).toEqual([]);
+  });
+
+  it('should not treat words of separate regions as overlap', () => {
+    const [first, second] = planSpeechWindows(
+      [
+        { start: 0, end: 2 },
+        { start: 2.2, end: 4 },
+      ],
+      30,
+      5
+    );
+    const { output } = stitchWindows([
+      { window: first, chunks: [{ text: ' yes', timestamp: [1, 2] }] },
+      { window: second, chunks: [{ text: ' yes', timestamp: [0, 0.5] }] },
+    ]);
+
+    expect(output.text).toBe(' yes yes');
+  });
+});
+
+describe('stitchWindows', () => {
+  const [first, second] = planWindows(50, 30, 5);
+  const at = (window: AudioWindow, start: number, end: number) => [
+    start - window.start,
+    end - window.start,
+  ];
+
+  it('should keep each chunk once, in the window holding its midpoint', () => {
+    const { output } = stitchWindows([
+      {
+        window: first,
+        chunks: [
+          { text: ' One.', timestamp: at(first, 0, 10) },
+          { text: ' Two.', timestamp: at(first, 10, 20) },
+          { text: ' Three.', timestamp: at(first, 20, 28) },
+        ],
+      },
+      {
+        window: second,
+        chunks: [
+          { text: ' Two.', timestamp: at(second, 20, 20.5) },
+          { text: ' Three.', timestamp: at(second, 21, 28) },
+          { text: ' Four.', timestamp: at(second, 28, 40) },
+        ],
+      },
+    ]);
+
+    expect(output.text).toBe(' One. Two. Three. Four.');
+    expect(output.chunks).toEqual([
+      { text: ' One.', timestamp: [0, 10] },
+      { text: ' Two.', timestamp: [10, 20] },
+      { text: ' Three.', timestamp: [20, 28] },
+      { text: ' Four.', timestamp: [28, 40] },
+    ]);
+  });
+
+  it('should drop words repeated across the boundary', () => {
+    const { output, logprobs } = stitchWindows([
+      {
+        window: first,
+        chunks: [
+          { text: ' we should meet', timestamp: at(first, 18, 24) },
+          { text: ' on Monday', timestamp: at(first, 24, 25.6) },
+        ],
+        logprobs: [-0.1, -0.2],
+      },
+      {
+        window: second,
+        chunks: [
+          { text: ' Monday, at noon', timestamp: at(second, 25.2, 27) },
+          { text: ' in the office.', timestamp: at(second, 27, 29) },
+        ],
+        logprobs: [-0.3, -0.4],
+      },
+    ]);
+
+    expect(output.text).toBe(
+      ' we should meet on Monday at noon in the office.'
+    );
+    expect(output.chunks?.map(chunk => chunk.text)).toEqual([
+      ' we should meet',
+      ' on Monday',
+      ' at noon',
+      ' in the office.',
+    ]);
+    expect(logprobs).toEqual([-0.1, -0.2, -0.3, -0.4]);
+  });
+
+  it('should drop whole word chunks and keep later repetitions', () => {
+    const { output } = stitchWindows([
+      {
+        window: first,
+        chunks: [
+          { text: ' yes', timestamp: at(first, 23, 24) },
+          { text: ' yes', timestamp: at(first, 24, 24.9) },
+        ],
+      },
+      {
+        window: second,
+        chunks: [
+          { text: ' yes', timestamp: at(second, 24.6, 25.4) },
+          { text: ' and', timestamp: at(second, 25.4, 26) },
+          // Said again two seconds later: not an overlap duplicate
+          { text: ' yes', timestamp: at(second, 28, 29) },
+        ],
+      },
+    ]);
+
+    expect(output.chunks?.map(chunk => chunk.text.trim())).toEqual([
+      'yes',
+      'yes',
+      'and',
+      'yes',
+    ]);
+  });
+});
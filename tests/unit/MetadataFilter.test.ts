@@ -0,0 +1,205 @@
+import {
+  matchesFilter,
+  planIndexScan,
+  validateFilter,
+} from '../../src/infra/vectorstore/MetadataFilter';
+import { ValidationError } from '../../src/domain/errors';
+
+const INDEXED_FIELDS = ['mime', 'createdAt', 'modality'];
+
+describe('MetadataFilter', () => {
+  const doc = {
+    id: 'doc1',
+    modality: 'image',
+    mime: 'image/png',
+    sizeBytes: 2048,
+    createdAt: 1_700_000_000_000,
+    tags: ['invoice', 'scan'],
+    source: { app: 'mobile', version: 3 },
+    reviewed: false,
+  };
+
+  describe('matchesFilter', () => {
+    it('should treat plain values as equality', () => {
+      expect(matchesFilter(doc, { modality: 'image' })).toBe(true);
+      expect(matchesFilter(doc, { modality: 'audio' })).toBe(false);
+      expect(matchesFilter(doc, { reviewed: false })).toBe(true);
+    });
+
+    it('should support comparison operators', () => {
+      expect(
+        matchesFilter(doc, {
+          createdAt: { $gt: 1_600_000_000_000, $lt: 1_800_000_000_000 },
+        })
+      ).toBe(true);
+      expect(matchesFilter(doc, { sizeBytes: { $gte: 2048 } })).toBe(true);
+      expect(matchesFilter(doc, { sizeBytes: { $lt: 2048 } })).toBe(false);
+      expect(matchesFilter(doc, { sizeBytes: { $gt: '1000' } })).toBe(false);
+    });
+
+    it('should support $ne, $in and $nin', () => {
+      expect(matchesFilter(doc, { mime: { $ne: 'image/jpeg' } })).toBe(true);
+      expect(
+        matchesFilter(doc, { modality: { $in: ['image', 'video'] } })
+      ).toBe(true);
+      expect(
+        matchesFilter(doc, { modality: { $nin: ['image', 'video'] } })
+      ).toBe(false);
+    });
+
+    it('should match array fields when any element matches', () => {
+      expect(matchesFilter(doc, { tags: 'invoice' })).toBe(true);
+      expect(matchesFilter(doc, { tags: { $in: ['receipt', 'scan'] } })).toBe(
+        true
+      );
+      expect(matchesFilter(doc, { tags: { $nin: ['scan'] } })).toBe(false);
+    });
+
+    it('should support $exists and null equality', () => {
+      expect(matchesFilter(doc, { tags: { $exists: true } })).toBe(true);
+      expect(matchesFilter(doc, { url: { $exists: false } })).toBe(true);
+      expect(matchesFilter(doc, { url: null })).toBe(true);
+      expect(matchesFilter(doc, { url: { $ne: 'x' } })).toBe(true);
+    });
+
+    it('should support $prefix and dotted paths', () => {
+      expect(matchesFilter(doc, { mime: { $prefix: 'image/' } })).toBe(true);
+      expect(matchesFilter(doc, { mime: { $prefix: 'audio/' } })).toBe(false);
+      expect(matchesFilter(doc, { 'source.app': 'mobile' })).toBe(true);
+      expect(matchesFilter(doc, { 'source.version': { $gte: 4 } })).toBe(
+        false
+      );
+    });
+
+    it('should combine conditions with $and and $or', () => {
+      expect(
+        matchesFilter(doc, {
+          $or: [{ modality: 'audio' }, { tags: 'invoice' }],
+        })
+      ).toBe(true);
+      expect(
+        matchesFilter(doc, {
+          $and: [{ modality: 'image' }, { $or: [{ reviewed: true }] }],
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('validateFilter', () => {
+    it('should accept well-formed filters', () => {
+      expect(() =>
+        validateFilter({
+          mime: { $prefix: 'image/' },
+          $or: [{ tags: { $in: ['a'] } }, { createdAt: { $gt: 1 } }],
+        })
+      ).not.toThrow();
+    });
+
+    it('should reject unknown operators', () => {
+      expect(() =>
+        validateFilter({ mime: { $regex: 'image' } } as never)
+      ).toThrow(ValidationError);
+      expect(() => validateFilter({ $nor: [] } as never)).toThrow(
+        'Unknown filter operator: $nor'
+      );
+    });
+
+    it('should reject malformed operands', () => {
+      expect(() =>
+        validateFilter({ modality: { $in: 'image' } } as never)
+      ).toThrow('$in expects an array');
+      expect(() => validateFilter({ $or: { modality: 'image' } } as never)).toThrow(
+        '$or expects an array of filters'
+      );
+      expect(() => validateFilter({ tags: ['a', 'b'] } as never)).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('planIndexScan', () => {
+    it('should use equality on an indexed field', () => {
+      expect(
+        planIndexScan({ modality: 'image', tags: 'scan' }, INDEXED_FIELDS)
+      ).toEqual({
+        index: 'modality',
+        ranges: [{ lower: 'image', upper: 'image' }],
+      });
+    });
+
+    it('should prefer equality over ranges', () => {
+      const plan = planIndexScan(
+        { createdAt: { $gt: 10 }, modality: 'audio' },
+        INDEXED_FIELDS
+      );
+      expect(plan?.index).toBe('modality');
+    });
+
+    it('should build one range per $in value', () => {
+      expect(
+        planIndexScan(
+          { mime: { $in: ['image/png', 'image/jpeg'] } },
+          INDEXED_FIELDS
+        )
+      ).toEqual({
+        index: 'mime',
+        ranges: [
+          { lower: 'image/png', upper: 'image/png' },
+          { lower: 'image/jpeg', upper: 'image/jpeg' },
+        ],
+      });
+    });
+
+    it('should turn createdAt bounds into a key range', () => {
+      expect(
+        planIndexScan(
+          { $and: [{ createdAt: { $gte: 100, $lt: 200 } }] },
+          INDEXED_FIELDS
+        )
+      ).toEqual({
+        index: 'createdAt',
+        ranges: [{ lower: 100, upper: 200, upperOpen: true }],
+      });
+    });
+
+    it('should plan no scan for an empty range', () => {
+      expect(
+        planIndexScan(
+          { createdAt: { $gt: 10, $lt: 5 }, modality: 'image' },
+          INDEXED_FIELDS
+        )
+      ).toEqual({ index: 'createdAt', ranges: [] });
+      expect(
+        planIndexScan({ createdAt: { $gt: 5, $lte: 5 } }, INDEXED_FIELDS)
+      ).toEqual({ index: 'createdAt', ranges: [] });
+    });
+
+    it('should not push down bounds of mixed types', () => {
+      expect(
+        planIndexScan({ createdAt: { $gte: 'a', $lt: 5 } }, INDEXED_FIELDS)
+      ).toBeNull();
+    });
+
+    it('should turn mime prefixes into a key range', () => {
+      expect(
+        planIndexScan({ mime: { $prefix: 'audio/' } }, INDEXED_FIELDS)
+      ).toEqual({
+        index: 'mime',
+        ranges: [{ lower: 'audio/', upper: 'audio/\uffff' }],
+      });
+    });
+
+    it('should not push down $or branches or non-indexed fields', () => {
+      expect(
+        planIndexScan(
+          { $or: [{ modality: 'image' }, { modality: 'audio' }] },
+          INDEXED_FIELDS
+        )
+      ).toBeNull();
+      expect(planIndexScan({ tags: 'scan' }, INDEXED_FIELDS)).toBeNull();
+      expect(
+        planIndexScan({ modality: { $ne: 'image' } }, INDEXED_FIELDS)
+      ).toBeNull();
+    });
+  });
+});
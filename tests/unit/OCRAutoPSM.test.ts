@@ -0,0 +1,315 @@
+/**
+ * @jest-environment node
+ */
+
+import { OCRModel } from '../../src/models/OCRModel';
+import { suggestPsm } from '../../src/app/ocr/Layout';
+import {
+  getScriptLanguages,
+  narrowByScript,
+  resolveTesseractLangs,
+} from '../../src/utils/ocr/LangRegistry';
+import type { OCRLayoutBlock, OCRLayoutLine } from '../../src/core/types';
+
+type RecognizeOptions = { tessedit_pageseg_mode?: string };
+
+const recognize = jest.fn(
+  async (_image: unknown, _options?: RecognizeOptions, _output?: unknown) => ({
+    data: {} as Record<string, unknown>,
+  })
+);
+const detect = jest.fn(async (_image: unknown) => ({
+  data: {
+    script: 'Latin' as string | null,
+    script_confidence: 10 as number | null,
+    orientation_degrees: 0 as number | null,
+    orientation_confidence: 10 as number | null,
+  },
+}));
+const initialize = jest.fn(async (_langs: string) => undefined);
+const setParameters = jest.fn(async (_params: Record<string, unknown>) => ({}));
+const createOsdWorker = jest.fn();
+
+jest.mock('tesseract.js', () => ({
+  createWorker: (langs?: string, oem?: number, options?: unknown) => {
+    if (langs === 'osd') {
+      createOsdWorker(oem, options);
+      return Promise.resolve({ detect, terminate: async () => undefined });
+    }
+    return {
+      load: async () => undefined,
+      loadLanguage: async () => undefined,
+      initialize,
+      setParameters,
+      recognize,
+      terminate: async () => undefined,
+    };
+  },
+}));
+
+jest.mock('@huggingface/transformers', () => ({
+  RawImage: {
+    // 3x2 gray: 1 2 3 / 4 5 6
+    read: async () => ({
+      data: new Uint8ClampedArray([1, 2, 3, 4, 5, 6]),
+      width: 3,
+      height: 2,
+      channels: 1,
+    }),
+  },
+}));
+
+const box = (x0: number, y0: number, x1: number, y1: number) => ({
+  x0,
+  y0,
+  x1,
+  y1,
+});
+
+/** Line of words 40px wide, 10px apart */
+function line(y: number, ...texts: string[]): OCRLayoutLine {
+  const words = texts.map((text, i) => ({
+    text,
+    confidence: 80,
+    bbox: box(i * 50, y, i * 50 + 40, y + 20),
+  }));
+  return {
+    text: texts.join(' '),
+    confidence: 80,
+    bbox: box(0, y, texts.length * 50 - 10, y + 20),
+    words,
+  };
+}
+
+function block(...paragraphs: OCRLayoutLine[][]): OCRLayoutBlock {
+  const lines = paragraphs.flat();
+  const bbox = box(
+    0,
+    lines[0].bbox.y0,
+    Math.max(...lines.map(l => l.bbox.x1)),
+    lines[lines.length - 1].bbox.y1
+  );
+  return {
+    text: lines.map(l => l.text).join('\n'),
+    confidence: 80,
+    bbox,
+    paragraphs: paragraphs.map(p => ({
+      text: p.map(l => l.text).join('\n'),
+      confidence: 80,
+      bbox,
+      lines: p,
+    })),
+  };
+}
+
+/** Tesseract page data for the given layout */
+function pageData(text: string, confidence: number, blocks: OCRLayoutBlock[]) {
+  return {
+    text,
+    confidence,
+    blocks: blocks.map(b => ({ ...b, blocktype: 'FLOWING_TEXT' })),
+  };
+}
+
+describe('suggestPsm', () => {
+  it('should pick the mode from the layout', () => {
+    expect(suggestPsm([])).toBe(11);
+    expect(suggestPsm([block([line(0, 'TOTAL')])])).toBe(8);
+    expect(suggestPsm([block([line(0, 'Serial', 'No', '42')])])).toBe(7);
+    expect(
+      suggestPsm([block([line(0, 'One', 'two'), line(30, 'three', 'four')])])
+    ).toBe(6);
+    // Scattered labels
+    expect(
+      suggestPsm(
+        [0, 100, 200, 300].map(y =>
+          block([line(y, 'Label'), line(y + 30, '1')])
+        )
+      )
+    ).toBe(11);
+    // Two paragraphs of prose
+    expect(
+      suggestPsm([
+        block(
+          [line(0, 'a', 'b', 'c'), line(30, 'd', 'e', 'f')],
+          [line(80, 'g', 'h', 'i'), line(110, 'j', 'k', 'l')]
+        ),
+      ])
+    ).toBe(3);
+  });
+});
+
+describe('script hints', () => {
+  it('should list the languages written in a script', () => {
+    expect(getScriptLanguages('Cyrillic')).toContain('ukr');
+    expect(getScriptLanguages('Klingon')).toEqual([]);
+    expect(resolveTesseractLangs(getScriptLanguages('Han'))).toBe(
+      'chi_sim+jpn'
+    );
+  });
+
+  it('should narrow language candidates to the script', () => {
+    expect(narrowByScript(['eng', 'rus', 'ukr'], 'Cyrillic')).toEqual([
+      'rus',
+      'ukr',
+    ]);
+    // Languages no script lists are kept
+    expect(narrowByScript(['ces', 'rus'], 'Latin')).toEqual(['ces']);
+    expect(narrowByScript(undefined, 'Greek')).toEqual(['ell']);
+    // Nothing fits, or no hint: unchanged
+    expect(narrowByScript(['eng'], 'Cyrillic')).toEqual(['eng']);
+    expect(narrowByScript(['eng'], 'Klingon')).toEqual(['eng']);
+    expect(narrowByScript(['eng'], undefined)).toEqual(['eng']);
+  });
+});
+
+describe('OCRModel.recognize with autoPSM', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    recognize.mockReset();
+    detect.mockClear();
+    initialize.mockClear();
+    setParameters.mockClear();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should turn the page upright, follow the script and re-run with the suggested PSM', async () => {
+    detect.mockResolvedValueOnce({
+      data: {
+        script: 'Cyrillic',
+        script_confidence: 12,
+        orientation_degrees: 90,
+        orientation_confidence: 6,
+      },
+    });
+    recognize.mockImplementation(async (_image, options) => ({
+      data:
+        options?.tessedit_pageseg_mode === '3'
+          ? pageData('Серийный номер\n', 60, [
+              block([line(0, 'Серийный', 'номер')]),
+            ])
+          : pageData('Серийный номер 42\n', 85, [
+              block([line(0, 'Серийный', 'номер', '42')]),
+            ]),
+    }));
+    const model = new OCRModel({ model: 'tesseract' });
+
+    const result = await model.recognize('label.png', {
+      autoPSM: true,
+      autoLanguage: false,
+    });
+
+    expect(createOsdWorker).toHaveBeenCalledWith(0, {
+      legacyCore: true,
+      legacyLang: true,
+    });
+    expect(detect).toHaveBeenCalledWith('label.png');
+    // 3x2 turned 90 degrees clockwise
+    const input = recognize.mock.calls[0][0] as Uint8Array;
+    expect(new TextDecoder().decode(input.subarray(0, 11))).toBe(
+      'P5\n2 3\n255\n'
+    );
+    expect([...input.subarray(11)]).toEqual([4, 1, 5, 2, 6, 3]);
+    // Cyrillic page, English model: starts from Russian
+    expect(initialize).toHaveBeenLastCalledWith('rus');
+    expect(recognize.mock.calls.map(call => call[1])).toEqual([
+      { tessedit_pageseg_mode: '3' },
+      { tessedit_pageseg_mode: '7' },
+    ]);
+    // The PSM is per call, never left on the worker
+    expect(setParameters).not.toHaveBeenCalledWith(
+      expect.objectContaining({ tessedit_pageseg_mode: expect.anything() })
+    );
+    expect(result).toMatchObject({
+      text: 'Серийный номер 42\n',
+      confidence: 85,
+      usedLanguage: 'rus',
+      psm: 7,
+      orientation: { degrees: 90, confidence: 6, rotated: true },
+      script: { name: 'Cyrillic', confidence: 12 },
+    });
+  });
+
+  it('should report boxes on the input image after turning it', async () => {
+    detect.mockResolvedValueOnce({
+      data: {
+        script: 'Latin',
+        script_confidence: 10,
+        orientation_degrees: 90,
+        orientation_confidence: 6,
+      },
+    });
+    // On the upright 2x3 page: a word along the top row, one on the right
+    const words = [
+      { text: 'Hi', confidence: 90, bbox: box(0, 0, 2, 1) },
+      { text: 'there', confidence: 90, bbox: box(1, 1, 2, 3) },
+    ];
+    const uprightLine = { ...line(0, 'x'), bbox: box(0, 0, 2, 3), words };
+    recognize.mockResolvedValue({
+      data: pageData('Hi there\n', 90, [block([uprightLine])]),
+    });
+    const model = new OCRModel({ model: 'tesseract' });
+
+    const result = await model.recognize('sideways.png', {
+      autoPSM: true,
+      psm: 6,
+      autoLanguage: false,
+      includeBbox: true,
+      layout: true,
+    });
+
+    expect(result.orientation?.rotated).toBe(true);
+    // The upright top row is the left column of the 3x2 input
+    expect(result.words?.map(word => word.bbox)).toEqual([
+      box(0, 0, 1, 2),
+      box(1, 0, 3, 1),
+    ]);
+    expect(result.lines?.[0].bbox).toEqual(box(0, 0, 3, 2));
+    expect(result.layout?.[0].bbox).toEqual(box(0, 0, 3, 2));
+  });
+
+  it('should keep the first pass when the re-run is less confident', async () => {
+    recognize.mockImplementation(async (_image, options) => ({
+      data:
+        options?.tessedit_pageseg_mode === '3'
+          ? pageData('Invoice 7\n', 88, [block([line(0, 'Invoice', '7')])])
+          : pageData('lnvoice\n', 40, [block([line(0, 'lnvoice')])]),
+    }));
+    const model = new OCRModel({ model: 'tesseract', language: 'eng' });
+
+    const result = await model.recognize('invoice.png', {
+      autoPSM: true,
+      autoLanguage: false,
+    });
+
+    expect(recognize).toHaveBeenCalledTimes(2);
+    expect(initialize.mock.calls).toEqual([['eng']]);
+    expect(result).toMatchObject({ text: 'Invoice 7\n', psm: 3 });
+    // Upright already: the original input is recognized
+    expect(recognize.mock.calls[0][0]).toBe('invoice.png');
+    expect(result.orientation?.rotated).toBe(false);
+  });
+
+  it('should keep an explicit PSM and work without OSD', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    detect.mockRejectedValueOnce(new Error('osd.traineddata not found'));
+    recognize.mockResolvedValue({
+      data: pageData('Hello\n', 90, [block([line(0, 'Hello')])]),
+    });
+    const model = new OCRModel({ model: 'tesseract' });
+
+    const result = await model.recognize('hello.png', {
+      autoPSM: true,
+      psm: 6,
+      autoLanguage: false,
+    });
+
+    expect(warn).toHaveBeenCalled();
+    expect(recognize).toHaveBeenCalledTimes(1);
+    expect(recognize.mock.calls[0][1]).toEqual({ tessedit_pageseg_mode: '6' });
+    expect(result.psm).toBe(6);
+    expect(result.orientation).toBeUndefined();
+    expect(result.script).toBeUndefined();
+  });
+});
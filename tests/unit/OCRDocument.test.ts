@@ -0,0 +1,214 @@
+/**
+ * @jest-environment node
+ */
+
+import * as UTIF from 'utif2';
+import { OCRModel } from '../../src/models/OCRModel';
+import { detectDocumentFormat } from '../../src/utils/ocr/documents';
+import { ValidationError } from '../../src/domain/errors';
+import type { OCRProgressEventData } from '../../src/core/types';
+
+let inFlight = 0;
+let maxInFlight = 0;
+const workerIds = new Set<number>();
+const parameters: Array<Record<string, unknown>> = [];
+
+jest.mock('tesseract.js', () => {
+  let nextId = 0;
+  return {
+    createWorker: () => {
+      const id = nextId++;
+      return {
+        load: async () => undefined,
+        loadLanguage: async () => undefined,
+        initialize: async () => undefined,
+        setParameters: async (value: Record<string, unknown>) => {
+          parameters.push(value);
+        },
+        // Reads the size from the PGM header, so each page gets its own text
+        recognize: async (image: Uint8Array) => {
+          workerIds.add(id);
+          maxInFlight = Math.max(maxInFlight, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 10));
+          inFlight--;
+          const [, size] = String.fromCharCode(...image.subarray(0, 16)).split(
+            '\n'
+          );
+          return { data: { text: `page ${size}\n`, confidence: 90 } };
+        },
+        terminate: async () => undefined,
+      };
+    },
+  };
+});
+
+const destroy = jest.fn(async () => undefined);
+jest.mock('pdfjs-dist/legacy/build/pdf.mjs', () => ({
+  getDocument: () => ({
+    promise: Promise.resolve({
+      numPages: 2,
+      canvasFactory: {
+        create: (width: number, height: number) => ({
+          canvas: {},
+          context: {
+            getImageData: () => ({
+              data: new Uint8ClampedArray(width * height * 4).fill(255),
+            }),
+          },
+        }),
+        destroy: () => undefined,
+      },
+      getPage: async () => ({
+        // 1 x 0.5 inch page
+        getViewport: ({ scale }: { scale: number }) => ({
+          width: 72 * scale,
+          height: 36 * scale,
+        }),
+        render: () => ({ promise: Promise.resolve() }),
+        cleanup: () => undefined,
+      }),
+      destroy,
+    }),
+  }),
+}));
+
+/** Uncompressed 8-bit grayscale TIFF with one page per size, 200 dpi */
+function tiff(sizes: Array<[number, number]>): Uint8Array {
+  const base = 4096;
+  let offset = base;
+  const ifds = sizes.map(([width, height]) => {
+    const ifd = {
+      t256: [width],
+      t257: [height],
+      t258: [8],
+      t259: [1],
+      t262: [1],
+      t273: [offset],
+      t277: [1],
+      t278: [height],
+      t279: [width * height],
+      t282: [[200, 1]],
+      t283: [[200, 1]],
+      t296: [2],
+    };
+    offset += width * height;
+    return ifd;
+  });
+  const header = new Uint8Array(UTIF.encode(ifds as unknown as UTIF.IFD[]));
+  const bytes = new Uint8Array(offset).fill(255);
+  bytes.set(header);
+  return bytes;
+}
+
+describe('OCRModel.recognizeDocument', () => {
+  let model: OCRModel;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    inFlight = maxInFlight = 0;
+    workerIds.clear();
+    parameters.length = 0;
+    model = new OCRModel({ model: 'tesseract' });
+  });
+
+  afterEach(async () => {
+    await model.unload();
+    jest.restoreAllMocks();
+  });
+
+  it('should recognize every TIFF page in order with bounded parallelism', async () => {
+    const events: OCRProgressEventData[] = [];
+    const result = await model.recognizeDocument(
+      tiff([
+        [30, 20],
+        [40, 20],
+        [50, 20],
+      ]),
+      { autoLanguage: false, onProgress: event => events.push(event) }
+    );
+
+    expect(result.format).toBe('tiff');
+    expect(result.pageCount).toBe(3);
+    expect(result.pages.map(p => [p.page, p.width, p.text])).toEqual([
+      [1, 30, 'page 30 20\n'],
+      [2, 40, 'page 40 20\n'],
+      [3, 50, 'page 50 20\n'],
+    ]);
+    expect(result.text).toBe('page 30 20\n\npage 40 20\n\npage 50 20');
+    expect(result.confidence).toBe(90);
+
+    expect(maxInFlight).toBe(2);
+    expect(workerIds.size).toBe(2);
+    expect(parameters).toContainEqual({ user_defined_dpi: '200' });
+
+    expect(events.map(e => e.status)).toEqual([
+      'started',
+      'progress',
+      'progress',
+      'progress',
+      'completed',
+    ]);
+    expect(events[3]).toMatchObject({ pagesCompleted: 3, pagesTotal: 3 });
+    expect(
+      events
+        .slice(1, 4)
+        .map(e => e.page)
+        .sort()
+    ).toEqual([1, 2, 3]);
+  });
+
+  it('should recognize only the requested pages', async () => {
+    const result = await model.recognizeDocument(
+      tiff([
+        [30, 20],
+        [40, 20],
+        [50, 20],
+      ]),
+      { pages: [3, 1], concurrency: 1, autoLanguage: false }
+    );
+
+    expect(result.pages.map(p => p.page)).toEqual([3, 1]);
+    expect(result.pageCount).toBe(3);
+    expect(maxInFlight).toBe(1);
+
+    await expect(
+      model.recognizeDocument(tiff([[30, 20]]), { pages: [2] })
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      model.recognizeDocument(tiff([[30, 20]]), { concurrency: 0 })
+    ).rejects.toThrow('concurrency must be a positive integer');
+  });
+
+  it('should rasterize PDF pages at the render resolution', async () => {
+    const pdf = new TextEncoder().encode('%PDF-1.4\n');
+    const result = await model.recognizeDocument(pdf, {
+      renderDpi: 200,
+      autoLanguage: false,
+    });
+
+    expect(result.format).toBe('pdf');
+    expect(result.pages.map(p => [p.width, p.height])).toEqual([
+      [200, 100],
+      [200, 100],
+    ]);
+    expect(parameters).toContainEqual({ user_defined_dpi: '200' });
+    expect(destroy).toHaveBeenCalled();
+  });
+});
+
+describe('detectDocumentFormat', () => {
+  it('should tell PDF and TIFF from other images', () => {
+    expect(detectDocumentFormat(new TextEncoder().encode('%PDF-1.7'))).toBe(
+      'pdf'
+    );
+    expect(detectDocumentFormat(new Uint8Array([0x49, 0x49, 42, 0]))).toBe(
+      'tiff'
+    );
+    expect(detectDocumentFormat(new Uint8Array([0x4d, 0x4d, 0, 42]))).toBe(
+      'tiff'
+    );
+    expect(detectDocumentFormat(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(
+      'image'
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/** @jest-environment node */
+import fs from 'fs';
+import path from 'path';
+import { toHOCR, toALTO } from '../../src/app/ocr/Export';
+import { toSearchablePDF } from '../../src/app/ocr/SearchablePdf';
+import { resultLayout } from '../../src/app/ocr/Layout';
+import { decodeImage } from '../../src/utils/ocr/preprocess';
+import { ValidationError } from '../../src/domain/errors';
+import type { OCRDocumentResult, OCRResult } from '../../src/core/types';
+
+const fixture = (name: string) =>
+  new Uint8Array(
+    fs.readFileSync(path.join(__dirname, '../fixtures/images', name))
+  );
+
+const word = (text: string, x0: number, y0: number, confidence = 90) => ({
+  text,
+  confidence,
+  bbox: { x0, y0, x1: x0 + text.length * 6, y1: y0 + 12 },
+});
+
+// Two lines on a 100x100 image, recognized with includeBbox
+const result: OCRResult = {
+  text: 'Fish & Chips\n<b> 2',
+  confidence: 88,
+  usedLanguage: 'eng+pol',
+  words: [
+    word('Fish', 4, 10, 91),
+    word('&', 32, 10),
+    word('Chips', 44, 10),
+    word('<b>', 4, 40, 75),
+    word('2', 30, 40),
+  ],
+  lines: [
+    {
+      text: 'Fish & Chips',
+      confidence: 90,
+      bbox: { x0: 4, y0: 10, x1: 74, y1: 22 },
+    },
+    { text: '<b> 2', confidence: 80, bbox: { x0: 4, y0: 40, x1: 36, y1: 52 } },
+  ],
+};
+
+/** Text of a PDF, with binary streams read byte for byte */
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+function decodeRunLength(data: Uint8Array): number[] {
+  const out: number[] = [];
+  for (let i = 0; data[i] !== 128; ) {
+    const length = data[i++];
+    if (length < 128) {
+      out.push(...data.subarray(i, i + length + 1));
+      i += length + 1;
+    } else {
+      out.push(...new Array(257 - length).fill(data[i++]));
+    }
+  }
+  return out;
+}
+
+describe('resultLayout', () => {
+  it('should put words into their lines, or group them by row', () => {
+    const [block] = resultLayout(result);
+    expect(
+      block.paragraphs[0].lines.map(line => line.words.map(w => w.text))
+    ).toEqual([
+      ['Fish', '&', 'Chips'],
+      ['<b>', '2'],
+    ]);
+
+    const [loose] = resultLayout({ ...result, lines: undefined });
+    expect(loose.paragraphs[0].lines.map(line => line.text)).toEqual([
+      'Fish & Chips',
+      '<b> 2',
+    ]);
+    expect(resultLayout({ text: '', confidence: 0 })).toEqual([]);
+  });
+});
+
+describe('toHOCR', () => {
+  it('should nest pages, areas, paragraphs, lines and words with boxes', () => {
+    const html = toHOCR(result, {
+      width: 100,
+      height: 100,
+      fileName: 'test.jpg',
+    });
+
+    expect(html).toContain(
+      '<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="eng" lang="eng">'
+    );
+    expect(html).toContain(
+      '<div class="ocr_page" id="page_1" title="image &quot;test.jpg&quot;; bbox 0 0 100 100; ppageno 0">'
+    );
+    expect(html).toContain(
+      '<span class="ocr_line" id="line_1_1_1_1" title="bbox 4 10 74 22; x_size 12">'
+    );
+    expect(html).toContain(
+      '<span class="ocrx_word" id="word_1_1_1_1_1" title="bbox 4 10 28 22; x_wconf 91">Fish</span>'
+    );
+    expect(html).toContain('>&amp;</span>');
+    expect(html).toContain('>&lt;b&gt;</span>');
+    expect(html.match(/class="ocrx_word"/g)).toHaveLength(5);
+  });
+
+  it('should write one page per document page', () => {
+    const document: OCRDocumentResult = {
+      text: '',
+      confidence: 88,
+      format: 'tiff',
+      pageCount: 2,
+      pages: [
+        { ...result, page: 1, width: 100, height: 100 },
+        { ...result, page: 2, width: 200, height: 150 },
+      ],
+    };
+    const html = toHOCR(document);
+
+    expect(html).toContain('id="page_2" title="bbox 0 0 200 150; ppageno 1"');
+    expect(html.match(/class="ocr_page"/g)).toHaveLength(2);
+  });
+
+  it('should reject text without word boxes', () => {
+    expect(() => toHOCR({ text: 'Fish', confidence: 90 })).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('toALTO', () => {
+  it('should write blocks, lines, strings and spaces in pixels', () => {
+    const xml = toALTO(result, { width: 100, height: 100 });
+
+    expect(xml).toContain(
+      '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#"'
+    );
+    expect(xml).toContain(
+      '<Page ID="page_1" PHYSICAL_IMG_NR="1" WIDTH="100" HEIGHT="100">'
+    );
+    expect(xml).toContain('LANG="eng"');
+    expect(xml).toContain(
+      '<String ID="string_1_1_1_1_1" HPOS="4" VPOS="10" WIDTH="24" HEIGHT="12" WC="0.91" CONTENT="Fish"/>'
+    );
+    expect(xml).toContain('<SP WIDTH="4" VPOS="10" HPOS="28"/>');
+    expect(xml).toContain('CONTENT="&lt;b&gt;"');
+    expect(xml.match(/<TextLine /g)).toHaveLength(2);
+    // Size from the boxes when not given
+    expect(toALTO(result)).toContain('WIDTH="74" HEIGHT="52">');
+  });
+});
+
+describe('toSearchablePDF', () => {
+  it('should embed a JPEG page with an invisible text layer', () => {
+    const pdf = latin1(
+      toSearchablePDF(result, fixture('test.jpg'), { dpi: 72 })
+    );
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf).toContain('/MediaBox [0 0 100 100]');
+    expect(pdf).toMatch(
+      /\/Subtype \/Image \/Width 100 \/Height 100 \/ColorSpace \/DeviceRGB \/BitsPerComponent 8 \/Filter \/DCTDecode/
+    );
+    expect(pdf).toContain('3 Tr');
+    // "Fish" at the bottom-left of its box, stretched to its 24pt width
+    expect(pdf).toContain(
+      '/F0 12 Tf\n100 Tz\n1 0 0 1 4 78 Tm\n<0046006900730068> Tj'
+    );
+    expect(pdf).toContain('<0026> <0026>');
+
+    // Every xref offset points at its object
+    const xref = pdf.slice(pdf.lastIndexOf('xref'));
+    const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map(m =>
+      Number(m[1])
+    );
+    offsets.forEach((offset, index) => {
+      expect(pdf.startsWith(`${index + 1} 0 obj`, offset)).toBe(true);
+    });
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.startsWith('xref', startxref)).toBe(true);
+  });
+
+  it('should embed decoded pixels run-length encoded', async () => {
+    const image = await decodeImage(fixture('test.png'));
+    const bytes = toSearchablePDF(result, image);
+    const pdf = latin1(bytes);
+
+    // 100px at the default 300 dpi
+    expect(pdf).toContain('/MediaBox [0 0 24 24]');
+    const header =
+      /\/Filter \/RunLengthDecode \/Length (\d+) >>\nstream\n/.exec(pdf);
+    expect(header).not.toBeNull();
+    const start = (header?.index ?? 0) + (header?.[0].length ?? 0);
+    const data = bytes.subarray(start, start + Number(header?.[1]));
+    expect(decodeRunLength(data)).toEqual(Array.from(image.data));
+  });
+
+  it('should reject other encoded images and missing pages', () => {
+    expect(() => toSearchablePDF(result, fixture('test.png'))).toThrow(
+      /expected JPEG bytes or decoded pixels/
+    );
+    expect(() =>
+      toSearchablePDF(result, [fixture('test.jpg'), fixture('test.jpg')])
+    ).toThrow(ValidationError);
+  });
+});
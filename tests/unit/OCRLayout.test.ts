@@ -0,0 +1,289 @@
+import {
+  buildLayout,
+  readingOrder,
+  layoutWords,
+} from '../../src/app/ocr/Layout';
+import {
+  detectTables,
+  tableToCSV,
+  tableToJSON,
+} from '../../src/app/ocr/Tables';
+import { OCRModel } from '../../src/models/OCRModel';
+import type { OCRBBox, OCRLayoutWord } from '../../src/core/types';
+
+const box = (x0: number, y0: number, x1: number, y1: number): OCRBBox => ({
+  x0,
+  y0,
+  x1,
+  y1,
+});
+
+/** Words laid out on rows 20px apart, each word 10px tall */
+function words(rows: Array<Array<[string, number]>>): OCRLayoutWord[] {
+  return rows.flatMap((row, index) =>
+    row.map(([text, x]) => ({
+      text,
+      confidence: 90,
+      bbox: box(x, index * 20, x + text.length * 6, index * 20 + 10),
+    }))
+  );
+}
+
+// Tesseract block with one paragraph of the given lines of words
+function block(lines: OCRLayoutWord[][]) {
+  const node = (text: string, bbox: OCRBBox) => ({
+    text: `${text}\n`,
+    confidence: 90,
+    bbox,
+  });
+  const lineNodes = lines.map(line => ({
+    ...node(
+      line.map(word => word.text).join(' '),
+      box(
+        line[0].bbox.x0,
+        line[0].bbox.y0,
+        line[line.length - 1].bbox.x1,
+        line[0].bbox.y1
+      )
+    ),
+    words: line,
+  }));
+  const bbox = box(
+    Math.min(...lineNodes.map(line => line.bbox.x0)),
+    lineNodes[0].bbox.y0,
+    Math.max(...lineNodes.map(line => line.bbox.x1)),
+    lineNodes[lineNodes.length - 1].bbox.y1
+  );
+  const text = lineNodes.map(line => line.text).join('');
+  return {
+    ...node(text, bbox),
+    blocktype: 'FLOWING_TEXT',
+    paragraphs: [{ ...node(text, bbox), lines: lineNodes }],
+  };
+}
+
+describe('readingOrder', () => {
+  it('should read a heading, then each column top to bottom', () => {
+    const regions = [
+      { id: 'right-top', bbox: box(310, 100, 600, 400) },
+      { id: 'left-bottom', bbox: box(0, 320, 290, 600) },
+      { id: 'footer', bbox: box(0, 700, 600, 740) },
+      { id: 'heading', bbox: box(0, 0, 600, 60) },
+      { id: 'left-top', bbox: box(0, 100, 290, 300) },
+      { id: 'right-bottom', bbox: box(310, 420, 600, 600) },
+    ];
+    expect(readingOrder(regions).map(region => region.id)).toEqual([
+      'heading',
+      'left-top',
+      'left-bottom',
+      'right-top',
+      'right-bottom',
+      'footer',
+    ]);
+  });
+
+  it('should read columns whose paragraph gaps line up one after the other', () => {
+    const regions = [
+      { id: 'left-1', bbox: box(0, 0, 290, 300) },
+      { id: 'right-1', bbox: box(310, 0, 600, 300) },
+      { id: 'left-2', bbox: box(0, 340, 290, 700) },
+      { id: 'right-2', bbox: box(310, 340, 600, 700) },
+    ];
+    expect(readingOrder(regions).map(region => region.id)).toEqual([
+      'left-1',
+      'left-2',
+      'right-1',
+      'right-2',
+    ]);
+
+    // Short and wide parts stay rows, e.g. labels and their values
+    const fields = [
+      { id: 'name', bbox: box(0, 0, 60, 10) },
+      { id: 'date', bbox: box(0, 20, 60, 30) },
+      { id: 'name-value', bbox: box(100, 0, 200, 10) },
+      { id: 'date-value', bbox: box(100, 20, 200, 30) },
+    ];
+    expect(readingOrder(fields).map(field => field.id)).toEqual([
+      'name',
+      'name-value',
+      'date',
+      'date-value',
+    ]);
+  });
+});
+
+describe('buildLayout', () => {
+  it('should nest blocks down to words and map their boxes', () => {
+    const [first, second] = [
+      words([[['Second', 0]]]).map(w => ({
+        ...w,
+        bbox: { ...w.bbox, y0: 100, y1: 110 },
+      })),
+      words([
+        [
+          ['First', 0],
+          ['line', 40],
+        ],
+      ]),
+    ];
+    const layout = buildLayout(
+      { blocks: [block([first]), block([second])] },
+      bbox => ({
+        x0: bbox.x0 / 2,
+        y0: bbox.y0 / 2,
+        x1: bbox.x1 / 2,
+        y1: bbox.y1 / 2,
+      })
+    );
+
+    expect(layout.map(b => b.text)).toEqual(['First line', 'Second']);
+    expect(layout[0].blockType).toBe('FLOWING_TEXT');
+    expect(layout[0].paragraphs[0].lines[0].words[1]).toEqual({
+      text: 'line',
+      confidence: 90,
+      bbox: box(20, 0, 32, 5),
+    });
+    expect(layoutWords(layout).map(w => w.text)).toEqual([
+      'First',
+      'line',
+      'Second',
+    ]);
+  });
+});
+
+describe('detectTables', () => {
+  const receipt = words([
+    [
+      ['CORNER', 0],
+      ['SHOP', 42],
+    ],
+    [
+      ['Item', 0],
+      ['Qty', 150],
+      ['Price', 220],
+    ],
+    [
+      ['Whole', 0],
+      ['milk', 36],
+      ['2', 150],
+      ['3.49', 220],
+    ],
+    [
+      ['Bread', 0],
+      ['1', 150],
+      ['2.10', 220],
+    ],
+    [
+      ['Eggs,', 0],
+      ['"large"', 36],
+      ['12', 150],
+    ],
+    [['Thank', 0]],
+  ]);
+
+  it('should group aligned cells into rows and columns', () => {
+    const [table, ...rest] = detectTables(receipt);
+
+    expect(rest).toEqual([]);
+    expect(table.columns).toHaveLength(3);
+    expect(table.rows.map(row => row.map(cell => cell.text))).toEqual([
+      ['Item', 'Qty', 'Price'],
+      ['Whole milk', '2', '3.49'],
+      ['Bread', '1', '2.10'],
+      ['Eggs, "large"', '12', ''],
+    ]);
+    expect(table.rows[1][0].bbox).toEqual(box(0, 40, 60, 50));
+    expect(table.bbox).toEqual(box(0, 20, 250, 90));
+  });
+
+  it('should ignore text without aligned rows', () => {
+    expect(detectTables(receipt, { minRows: 5 })).toEqual([]);
+    expect(
+      detectTables(
+        words([
+          [
+            ['Just', 0],
+            ['prose', 30],
+          ],
+          [
+            ['over', 0],
+            ['lines', 30],
+          ],
+        ])
+      )
+    ).toEqual([]);
+  });
+
+  it('should export CSV and JSON', () => {
+    const [table] = detectTables(receipt);
+
+    expect(tableToCSV(table)).toBe(
+      'Item,Qty,Price\r\nWhole milk,2,3.49\r\nBread,1,2.10\r\n"Eggs, ""large""",12,\r\n'
+    );
+    expect(JSON.parse(tableToJSON(table))[0]).toEqual({
+      Item: 'Whole milk',
+      Qty: '2',
+      Price: '3.49',
+    });
+    expect(JSON.parse(tableToJSON(table, { header: false }))).toHaveLength(4);
+  });
+});
+
+describe('OCRModel.recognize with layout', () => {
+  it('should request blocks and return layout, tables and flat words', async () => {
+    const recognize = jest.fn(async (..._args: unknown[]) => ({
+      data: {
+        text: 'Qty Price\n2 3.49\n',
+        confidence: 90,
+        blocks: [
+          block([
+            words([
+              [
+                ['Qty', 0],
+                ['Price', 100],
+              ],
+            ]),
+            words([
+              [
+                ['2', 0],
+                ['3.49', 100],
+              ],
+            ]).map(w => ({ ...w, bbox: { ...w.bbox, y0: 20, y1: 30 } })),
+          ]),
+        ],
+      },
+    }));
+    const model = new OCRModel({ model: 'tesseract' });
+    Object.assign(model, {
+      worker: { recognize, setParameters: jest.fn() },
+      loaded: true,
+    });
+
+    const result = await model.recognize('receipt.png', {
+      layout: true,
+      tables: true,
+      includeBbox: true,
+      autoLanguage: false,
+    });
+
+    expect(recognize).toHaveBeenCalledWith(
+      'receipt.png',
+      {},
+      { text: true, blocks: true }
+    );
+    expect(result.layout?.[0].paragraphs[0].lines).toHaveLength(2);
+    expect(
+      result.tables?.[0].rows.map(row => row.map(cell => cell.text))
+    ).toEqual([
+      ['Qty', 'Price'],
+      ['2', '3.49'],
+    ]);
+    expect(result.words?.map(w => w.text)).toEqual([
+      'Qty',
+      'Price',
+      '2',
+      '3.49',
+    ]);
+    expect(result.lines?.map(l => l.text)).toEqual(['Qty Price', '2 3.49']);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  encodePgm,
+  estimateSkew,
+  medianFilter,
+  otsuThreshold,
+  removeBorders,
+  rotate,
+  rotateQuarter,
+  sauvola,
+  type GrayImage,
+} from '../../src/utils/ocr/imageFilters';
+import {
+  preprocessImage,
+  resolvePreprocessPipeline,
+} from '../../src/utils/ocr/preprocess';
+import { OCRModel } from '../../src/models/OCRModel';
+import { ValidationError } from '../../src/domain/errors';
+
+const recognize = jest.fn(async (_image: unknown) => ({
+  data: {
+    text: 'Hello',
+    confidence: 91,
+    words: [
+      {
+        text: 'Hello',
+        bbox: { x0: 40, y0: 20, x1: 120, y1: 60 },
+        confidence: 91,
+      },
+    ],
+  },
+}));
+const setParameters = jest.fn(
+  async (_parameters: Record<string, unknown>) => ({})
+);
+
+jest.mock('tesseract.js', () => ({
+  createWorker: () => ({
+    load: async () => undefined,
+    loadLanguage: async () => undefined,
+    initialize: async () => undefined,
+    setParameters,
+    recognize,
+    terminate: async () => undefined,
+  }),
+}));
+
+jest.mock('@huggingface/transformers', () => ({
+  RawImage: {
+    read: async () => ({
+      // 200x100 RGBA page, white with one dark band
+      data: Uint8ClampedArray.from({ length: 200 * 100 * 4 }, (_, i) =>
+        i % 4 === 3 ? 255 : Math.floor(i / 4 / 200) % 50 < 10 ? 20 : 240
+      ),
+      width: 200,
+      height: 100,
+      channels: 4,
+    }),
+  },
+}));
+
+/** White page with dark horizontal "text lines" */
+function page(width: number, height: number, skewDegrees = 0): GrayImage {
+  const data = new Uint8ClampedArray(width * height).fill(255);
+  const slope = Math.tan((skewDegrees * Math.PI) / 180);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Lines 6px thick every 20px, dashed like words
+      const row = y - (x - width / 2) * slope;
+      if (((row % 20) + 20) % 20 < 6 && x % 16 < 12) {
+        data[y * width + x] = 0;
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+const darkCount = (image: GrayImage) =>
+  image.data.reduce((n, v) => n + (v < 128 ? 1 : 0), 0);
+
+describe('image filters', () => {
+  it('should put the Otsu threshold between ink and paper', () => {
+    const image = page(100, 100);
+    image.data.forEach((v, i) => (image.data[i] = v === 0 ? 60 : 200));
+    const level = otsuThreshold(image);
+    expect(level).toBeGreaterThanOrEqual(60);
+    expect(level).toBeLessThan(200);
+  });
+
+  it('should binarize under a lighting gradient with Sauvola', () => {
+    // Paper goes from 250 on the left to 90 on the right; ink is 40 darker
+    const width = 200;
+    const image = page(width, 100);
+    image.data.forEach((v, i) => {
+      const paper = 250 - (160 * (i % width)) / width;
+      image.data[i] = v === 0 ? paper - 60 : paper;
+    });
+
+    const adaptive = sauvola(image, 31, 0.2);
+    const expected = darkCount(page(width, 100));
+    expect(Math.abs(darkCount(adaptive) - expected) / expected).toBeLessThan(
+      0.1
+    );
+    // A global threshold loses the light side or floods the dark one
+    const level = otsuThreshold(image);
+    const global = image.data.filter(v => v <= level).length;
+    expect(Math.abs(global - expected) / expected).toBeGreaterThan(0.2);
+  });
+
+  it('should remove salt-and-pepper noise with the median filter', () => {
+    const image: GrayImage = {
+      data: new Uint8ClampedArray(50 * 50).fill(255),
+      width: 50,
+      height: 50,
+    };
+    for (let i = 7; i < image.data.length; i += 37) image.data[i] = 0;
+
+    expect(darkCount(medianFilter(image))).toBe(0);
+  });
+
+  it('should estimate and correct skew', () => {
+    const skewed = page(300, 200, 3);
+    expect(estimateSkew(skewed)).toBeCloseTo(3, 0);
+    expect(estimateSkew(page(300, 200, -5))).toBeCloseTo(-5, 0);
+    expect(estimateSkew(page(300, 200))).toBe(0);
+
+    expect(Math.abs(estimateSkew(rotate(skewed, 3)))).toBeLessThanOrEqual(0.3);
+  });
+
+  it('should paint dark edge bands white without cropping', () => {
+    const image = page(200, 100);
+    // Blank top margin, then a scanner shadow down the left edge
+    image.data.fill(255, 0, 200 * 10);
+    const text = darkCount(image);
+    for (let y = 0; y < 100; y++) {
+      for (let x = 0; x < 8; x++) image.data[y * 200 + x] = 0;
+    }
+
+    const { image: cleaned, borders } = removeBorders(image);
+    expect(borders.left).toBeGreaterThanOrEqual(8);
+    expect(borders.right).toBe(0);
+    expect(cleaned.width).toBe(200);
+    expect(cleaned.data[50 * 200 + 3]).toBe(255);
+    expect(darkCount(cleaned)).toBeGreaterThan(text * 0.9);
+  });
+
+  it('should rotate by quarter turns exactly', () => {
+    // 3x2: 1 2 3 / 4 5 6
+    const image = {
+      data: new Uint8ClampedArray([1, 2, 3, 4, 5, 6]),
+      width: 3,
+      height: 2,
+    };
+    const turned = rotateQuarter(image, 90);
+    expect([turned.width, turned.height]).toEqual([2, 3]);
+    expect([...turned.data]).toEqual([4, 1, 5, 2, 6, 3]);
+    expect([...rotateQuarter(image, 180).data]).toEqual([6, 5, 4, 3, 2, 1]);
+    expect([...rotateQuarter(image, 270).data]).toEqual([3, 6, 2, 5, 1, 4]);
+  });
+
+  it('should encode binary PGM', () => {
+    const bytes = encodePgm({
+      data: new Uint8ClampedArray([0, 128, 255, 7]),
+      width: 2,
+      height: 2,
+    });
+    expect(new TextDecoder().decode(bytes.subarray(0, 11))).toBe(
+      'P5\n2 2\n255\n'
+    );
+    expect([...bytes.subarray(11)]).toEqual([0, 128, 255, 7]);
+  });
+});
+
+describe('preprocessImage', () => {
+  const rgb = (image: GrayImage) => ({
+    data: Uint8ClampedArray.from(
+      { length: image.data.length * 3 },
+      (_, i) => image.data[Math.floor(i / 3)]
+    ),
+    width: image.width,
+    height: image.height,
+    channels: 3 as const,
+  });
+
+  it('should report each step of a preset', () => {
+    const result = preprocessImage(
+      rgb(page(300, 200, 2)),
+      resolvePreprocessPipeline('document'),
+      { dpi: 300 }
+    );
+
+    expect(result.steps.map(s => s.step)).toEqual([
+      'grayscale',
+      'removeBorders',
+      'deskew',
+      'denoise',
+      'binarize',
+    ]);
+    expect(result.steps[2].details?.angle).toBeCloseTo(2, 0);
+    expect(result.steps[4].details?.method).toBe('otsu');
+    expect(result.image.data.every(v => v === 0 || v === 255)).toBe(true);
+    expect(result.dpi).toBe(300);
+  });
+
+  it('should upscale low-resolution input to the target DPI', () => {
+    const result = preprocessImage(
+      rgb(page(100, 50)),
+      resolvePreprocessPipeline(['upscale']),
+      { dpi: 150 }
+    );
+    expect(result.image.width).toBe(200);
+    expect(result.scale).toBe(2);
+    expect(result.dpi).toBe(300);
+    expect(result.steps[1].details).toEqual({ scale: 2, sourceDpi: 150 });
+  });
+
+  it('should reject unknown presets, steps and options', () => {
+    expect(() =>
+      resolvePreprocessPipeline('heavy' as unknown as 'fast')
+    ).toThrow(ValidationError);
+    expect(() =>
+      resolvePreprocessPipeline(['sharpen' as unknown as 'grayscale'])
+    ).toThrow('preprocess[0]: unknown step "sharpen"');
+    expect(() =>
+      resolvePreprocessPipeline([{ step: 'denoise', radius: 9 }])
+    ).toThrow('radius must be a number between 1 and 5');
+    expect(() =>
+      resolvePreprocessPipeline([
+        { step: 'binarize', method: 'mean' as unknown as 'otsu' },
+      ])
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('OCRModel.recognize with preprocessing', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    recognize.mockClear();
+    setParameters.mockClear();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should pass the preprocessed image to Tesseract and report the steps', async () => {
+    const model = new OCRModel({ model: 'tesseract' });
+    const result = await model.recognize('page.png', {
+      preprocess: ['upscale', 'binarize'],
+      dpi: 100,
+      autoLanguage: false,
+      includeBbox: true,
+    });
+
+    const input = recognize.mock.calls[0][0] as Uint8Array;
+    expect(new TextDecoder().decode(input.subarray(0, 15))).toBe(
+      'P5\n600 300\n255\n'
+    );
+    expect(setParameters).toHaveBeenCalledWith({ user_defined_dpi: '300' });
+    expect(result.preprocessing?.map(s => s.step)).toEqual([
+      'grayscale',
+      'upscale',
+      'binarize',
+    ]);
+    // Boxes are mapped back to the original 200x100 image
+    expect(result.words?.[0].bbox).toEqual({ x0: 13, y0: 7, x1: 40, y1: 20 });
+  });
+
+  it('should leave the image untouched by default', async () => {
+    const model = new OCRModel({ model: 'tesseract' });
+    const result = await model.recognize('page.png', { autoLanguage: false });
+
+    expect(recognize).toHaveBeenCalledWith('page.png');
+    expect(result.preprocessing).toBeUndefined();
+  });
+
+  it('should reject an invalid pipeline before recognizing', async () => {
+    const model = new OCRModel({ model: 'tesseract' });
+    await expect(
+      model.recognize('page.png', {
+        preprocess: [{ step: 'deskew', maxAngle: 90 }],
+      })
+    ).rejects.toThrow(ValidationError);
+    expect(recognize).not.toHaveBeenCalled();
+  });
+});
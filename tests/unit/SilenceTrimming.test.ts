@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { AudioConverter } from '../../src/utils/AudioConverter';
+
+// 16 kHz: speech at 0.6-1.6 s and 2.5-3.2 s over faint noise
+const converter = new AudioConverter();
+const { samples, sampleRate } = converter.decodeWav(
+  fs.readFileSync(path.join(__dirname, '../fixtures/audio/utterances.wav'))
+);
+
+describe('AudioConverter silence helpers', () => {
+  it('should return padded speech regions in seconds', () => {
+    const regions = converter.detectSpeech(samples, { sampleRate });
+
+    expect(regions).toHaveLength(2);
+    expect(regions[0].start).toBeCloseTo(0.4, 1);
+    expect(regions[0].end).toBeCloseTo(1.8, 1);
+    expect(regions[1].start).toBeCloseTo(2.3, 1);
+    expect(regions[1].end).toBeCloseTo(3.4, 1);
+    // Deterministic on the same input
+    expect(converter.detectSpeech(samples, { sampleRate })).toEqual(regions);
+  });
+
+  it('should honour minSilenceMs when splitting', () => {
+    // The 0.9 s pause between the utterances no longer ends a region
+    expect(
+      converter.detectSpeech(samples, { sampleRate, minSilenceMs: 1500 })
+    ).toHaveLength(1);
+  });
+
+  it('should trim leading and trailing silence only', () => {
+    const [first, second] = converter.detectSpeech(samples, { sampleRate });
+    const trimmed = converter.trimSilence(samples);
+
+    expect(trimmed.length).toBe(
+      Math.round(second.end * sampleRate) - Math.round(first.start * sampleRate)
+    );
+    expect(trimmed[0]).toBe(samples[Math.round(first.start * sampleRate)]);
+    expect(converter.trimSilence(new Float32Array(16000))).toHaveLength(0);
+  });
+
+  it('should split on silence into speech chunks', () => {
+    const chunks = converter.splitOnSilence(samples, { sampleRate });
+
+    expect(chunks).toHaveLength(2);
+    chunks.forEach(chunk => {
+      expect(chunk.samples.length).toBe(
+        Math.round((chunk.end - chunk.start) * sampleRate)
+      );
+    });
+    expect(converter.splitOnSilence(new Float32Array(16000))).toEqual([]);
+  });
+});
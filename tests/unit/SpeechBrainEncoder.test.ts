@@ -0,0 +1,427 @@
+/**
+ * @jest-environment node
+ */
+import { readTorchStateDict } from '../../src/utils/torchCheckpoint';
+import {
+  computeFbank,
+  XVectorNetwork,
+  type FrameMatrix,
+} from '../../src/core/XVectorNetwork';
+import { SpeechBrainXVectorEncoder } from '../../src/core/SpeakerEncoder';
+import { ModelLoadError, ValidationError } from '../../src/domain/errors';
+
+jest.mock('@huggingface/transformers', () => ({
+  env: {
+    remoteHost: 'https://hub.example/',
+    remotePathTemplate: '{model}/resolve/{revision}/',
+  },
+}));
+
+interface FakeTensor {
+  name: string;
+  shape: number[];
+  data: number[];
+  stride?: number[];
+  type?: 'FloatStorage' | 'LongStorage';
+}
+
+// Deterministic values in [-1, 1)
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 1073741824 - 1;
+};
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const uint32 = (value: number) => [
+  value & 0xff,
+  (value >>> 8) & 0xff,
+  (value >>> 16) & 0xff,
+  value >>> 24,
+];
+
+/** Pickle a state dict the way torch.save() does (protocol 2) */
+function pickle(tensors: FakeTensor[], keys: string[]): Uint8Array {
+  const bytes: number[] = [0x80, 2];
+  const text = (value: string) =>
+    bytes.push(0x58, ...uint32(value.length), ...ascii(value));
+  const global = (module: string, name: string) =>
+    bytes.push(0x63, ...ascii(`${module}\n${name}\n`));
+  const int = (value: number) => bytes.push(0x4a, ...uint32(value));
+  const tuple = (values: number[]) => {
+    bytes.push(0x28);
+    values.forEach(int);
+    bytes.push(0x74);
+  };
+
+  global('collections', 'OrderedDict');
+  bytes.push(0x29, 0x52, 0x71, 0, 0x28); // OrderedDict(), memo 0, MARK
+  tensors.forEach((tensor, i) => {
+    text(tensor.name);
+    global('torch._utils', '_rebuild_tensor_v2');
+    bytes.push(0x28, 0x28); // MARK args, MARK persistent id
+    text('storage');
+    global('torch', tensor.type ?? 'FloatStorage');
+    text(keys[i]);
+    text('cpu');
+    int(tensor.data.length);
+    bytes.push(0x74, 0x51); // TUPLE, BINPERSID
+    int(0);
+    tuple(tensor.shape);
+    tuple(tensor.stride ?? contiguous(tensor.shape));
+    bytes.push(0x89); // requires_grad False
+    bytes.push(0x68, 0); // backward hooks: the memoized OrderedDict
+    bytes.push(0x74, 0x52); // TUPLE, REDUCE
+  });
+  bytes.push(0x75, 0x2e); // SETITEMS, STOP
+  return Uint8Array.from(bytes);
+}
+
+function contiguous(shape: number[]): number[] {
+  return shape.map((_, d) => shape.slice(d + 1).reduce((a, b) => a * b, 1));
+}
+
+function storageBytes(tensor: FakeTensor): Uint8Array {
+  if (tensor.type === 'LongStorage') {
+    return new Uint8Array(BigInt64Array.from(tensor.data, BigInt).buffer);
+  }
+  return new Uint8Array(Float32Array.from(tensor.data).buffer);
+}
+
+/** Uncompressed zip, as torch.save() writes */
+function zipCheckpoint(tensors: FakeTensor[]): Uint8Array<ArrayBuffer> {
+  const keys = tensors.map((_, i) => String(i));
+  const files: [string, Uint8Array][] = [
+    ['model/data.pkl', pickle(tensors, keys)],
+    ...tensors.map((tensor, i): [string, Uint8Array] => [
+      `model/data/${keys[i]}`,
+      storageBytes(tensor),
+    ]),
+    ['model/version', Uint8Array.from(ascii('3\n'))],
+  ];
+
+  const local: number[] = [];
+  const central: number[] = [];
+  for (const [name, data] of files) {
+    // prettier-ignore
+    const header = [
+      ...uint32(0x04034b50), 20, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+      ...uint32(0), ...uint32(data.length), ...uint32(data.length),
+      name.length, 0, 0, 0,
+    ];
+    // prettier-ignore
+    central.push(
+      ...uint32(0x02014b50), 20, 0, 20, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+      ...uint32(0), ...uint32(data.length), ...uint32(data.length),
+      name.length, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+      ...uint32(local.length), ...ascii(name)
+    );
+    local.push(...header, ...ascii(name), ...data);
+  }
+  // prettier-ignore
+  const end = [
+    ...uint32(0x06054b50), 0, 0, 0, 0, files.length, 0, files.length, 0,
+    ...uint32(central.length), ...uint32(local.length), 0, 0,
+  ];
+  return Uint8Array.from([...local, ...central, ...end]);
+}
+
+/** Pre-1.6 torch.save() layout */
+function legacyCheckpoint(tensors: FakeTensor[]): Uint8Array<ArrayBuffer> {
+  const keys = tensors.map((_, i) => `storage${i}`);
+  // prettier-ignore
+  const bytes: number[] = [
+    // Magic number, protocol version, system info
+    0x80, 2, 0x8a, 10, 0x6c, 0xfc, 0x9c, 0x46, 0xf9, 0x20, 0x6a, 0xa8, 0x50, 0x19, 0x2e,
+    0x80, 2, 0x4d, 0xe9, 0x03, 0x2e,
+    0x80, 2, 0x7d, 0x2e,
+    ...pickle(tensors, keys),
+    0x80, 2, 0x5d, 0x28,
+  ];
+  keys.forEach(key => bytes.push(0x58, ...uint32(key.length), ...ascii(key)));
+  bytes.push(0x65, 0x2e); // APPENDS, STOP
+  tensors.forEach(tensor => {
+    bytes.push(...uint32(tensor.data.length), 0, 0, 0, 0);
+    bytes.push(...storageBytes(tensor));
+  });
+  return Uint8Array.from(bytes);
+}
+
+const CHANNELS = [8, 8, 8, 8, 16];
+const KERNELS = [5, 3, 3, 1, 1];
+const DILATIONS = [1, 2, 3, 1, 1];
+
+/** speechbrain Xvector state dict with small random weights */
+function xvectorStateDict(embeddingSize: number, seed = 1): FakeTensor[] {
+  const next = random(seed);
+  const values = (count: number, offset = 0) =>
+    Array.from({ length: count }, () => offset + next());
+  const tensors: FakeTensor[] = [];
+  let inputs = 24;
+  CHANNELS.forEach((outputs, i) => {
+    const conv = `blocks.${i * 3}.conv`;
+    const norm = `blocks.${i * 3 + 2}.norm`;
+    tensors.push(
+      {
+        name: `${conv}.weight`,
+        shape: [outputs, inputs, KERNELS[i]],
+        data: values(outputs * inputs * KERNELS[i]),
+      },
+      { name: `${conv}.bias`, shape: [outputs], data: values(outputs) },
+      { name: `${norm}.weight`, shape: [outputs], data: values(outputs, 1.5) },
+      { name: `${norm}.bias`, shape: [outputs], data: values(outputs) },
+      { name: `${norm}.running_mean`, shape: [outputs], data: values(outputs) },
+      {
+        name: `${norm}.running_var`,
+        shape: [outputs],
+        data: values(outputs, 2),
+      },
+      {
+        name: `${norm}.num_batches_tracked`,
+        shape: [],
+        data: [1000],
+        type: 'LongStorage',
+      }
+    );
+    inputs = outputs;
+  });
+  tensors.push(
+    {
+      name: 'blocks.16.w.weight',
+      shape: [embeddingSize, inputs * 2],
+      data: values(embeddingSize * inputs * 2),
+    },
+    {
+      name: 'blocks.16.w.bias',
+      shape: [embeddingSize],
+      data: values(embeddingSize),
+    }
+  );
+  return tensors;
+}
+
+/** The network as PyTorch computes it, written out directly */
+function referenceEmbedding(
+  tensors: FakeTensor[],
+  features: FrameMatrix
+): number[] {
+  const get = (name: string) =>
+    tensors.find(tensor => tensor.name === name)!.data;
+  const frames = features.frames;
+  let x = Array.from({ length: frames }, (_, t) =>
+    Array.from(features.data.subarray(t * 24, (t + 1) * 24))
+  );
+  CHANNELS.forEach((outputs, i) => {
+    const weight = get(`blocks.${i * 3}.conv.weight`);
+    const bias = get(`blocks.${i * 3}.conv.bias`);
+    const norm = (name: string) => get(`blocks.${i * 3 + 2}.norm.${name}`);
+    const inputs = x[0].length;
+    const kernel = KERNELS[i];
+    const pad = ((kernel - 1) * DILATIONS[i]) / 2;
+    const reflect = (t: number) =>
+      t < 0 ? -t : t >= frames ? 2 * (frames - 1) - t : t;
+    x = x.map((_, t) =>
+      Array.from({ length: outputs }, (_, o) => {
+        let value = bias[o];
+        for (let c = 0; c < inputs; c++) {
+          for (let k = 0; k < kernel; k++) {
+            value +=
+              weight[(o * inputs + c) * kernel + k] *
+              x[reflect(t + k * DILATIONS[i] - pad)][c];
+          }
+        }
+        value = value > 0 ? value : 0.01 * value;
+        return (
+          ((value - norm('running_mean')[o]) /
+            Math.sqrt(norm('running_var')[o] + 1e-5)) *
+            norm('weight')[o] +
+          norm('bias')[o]
+        );
+      })
+    );
+  });
+  const channels = x[0].length;
+  const mean = Array.from(
+    { length: channels },
+    (_, c) => x.reduce((sum, row) => sum + row[c], 0) / frames
+  );
+  const std = mean.map(
+    (m, c) =>
+      Math.sqrt(
+        x.reduce((sum, row) => sum + (row[c] - m) ** 2, 0) / (frames - 1)
+      ) + 1e-5
+  );
+  const pooled = [...mean, ...std];
+  const weight = get('blocks.16.w.weight');
+  return get('blocks.16.w.bias').map(
+    (bias, o) =>
+      bias +
+      pooled.reduce(
+        (sum, value, i) => sum + weight[o * pooled.length + i] * value,
+        0
+      )
+  );
+}
+
+const noise = (seconds: number, seed = 7) =>
+  Float32Array.from({ length: seconds * 16000 }, random(seed));
+
+describe('readTorchStateDict', () => {
+  const tensors: FakeTensor[] = [
+    { name: 'layer.weight', shape: [2, 3], data: [1, 2, 3, 4, 5, 6] },
+    // Transposed view of a 3x2 storage
+    {
+      name: 'layer.transposed',
+      shape: [2, 3],
+      stride: [1, 2],
+      data: [1, 2, 3, 4, 5, 6],
+    },
+    {
+      name: 'norm.num_batches_tracked',
+      shape: [],
+      data: [42],
+      type: 'LongStorage',
+    },
+  ];
+
+  it.each([
+    ['zip', zipCheckpoint],
+    ['legacy', legacyCheckpoint],
+  ])('should read tensors from a %s checkpoint', (_, write) => {
+    const state = readTorchStateDict(write(tensors));
+
+    expect([...state.keys()]).toEqual(tensors.map(tensor => tensor.name));
+    expect(state.get('layer.weight')).toEqual({
+      data: Float32Array.from([1, 2, 3, 4, 5, 6]),
+      shape: [2, 3],
+    });
+    expect(Array.from(state.get('layer.transposed')!.data)).toEqual([
+      1, 3, 5, 2, 4, 6,
+    ]);
+    expect(Array.from(state.get('norm.num_batches_tracked')!.data)).toEqual([
+      42,
+    ]);
+  });
+
+  it('should reject files that are not checkpoints', () => {
+    expect(() =>
+      readTorchStateDict(Uint8Array.from(ascii('PK\u0003\u0004 not a zip')))
+    ).toThrow(ValidationError);
+    expect(() => readTorchStateDict(Uint8Array.from([0x80, 2, 0xff]))).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('computeFbank', () => {
+  it('should give 24 mean-normalized channels per 10 ms frame', () => {
+    const features = computeFbank(noise(1));
+
+    expect(features.channels).toBe(24);
+    expect(features.frames).toBe(101);
+    for (let c = 0; c < 24; c++) {
+      let sum = 0;
+      for (let t = 0; t < features.frames; t++) {
+        sum += features.data[t * 24 + c];
+      }
+      expect(Math.abs(sum / features.frames)).toBeLessThan(1e-3);
+    }
+  });
+
+  it('should put a tone in the mel channel of its frequency', () => {
+    // 1 kHz lies in channel 8 of 24 mel bands up to 8 kHz
+    const tone = Float32Array.from({ length: 16000 }, (_, i) =>
+      i < 8000 ? Math.sin((2 * Math.PI * 1000 * i) / 16000) : 0
+    );
+    const features = computeFbank(tone);
+
+    const frame = Array.from(features.data.subarray(20 * 24, 21 * 24));
+    expect(frame.indexOf(Math.max(...frame))).toBe(8);
+    expect(features.data[90 * 24 + 8]).toBeLessThan(frame[8]);
+  });
+});
+
+describe('XVectorNetwork', () => {
+  it('should match the speechbrain Xvector forward pass', () => {
+    const tensors = xvectorStateDict(6);
+    const network = XVectorNetwork.fromStateDict(
+      readTorchStateDict(zipCheckpoint(tensors))
+    );
+    const features = computeFbank(noise(0.2));
+
+    const embedding = network.embed(features);
+
+    expect(network.size).toBe(6);
+    const expected = referenceEmbedding(tensors, features);
+    embedding.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 3));
+  });
+
+  it('should reject other state dicts and too short audio', () => {
+    const tensors = xvectorStateDict(6);
+    expect(() =>
+      XVectorNetwork.fromStateDict(
+        readTorchStateDict(zipCheckpoint(tensors.slice(1)))
+      )
+    ).toThrow(ValidationError);
+
+    const network = XVectorNetwork.fromStateDict(
+      readTorchStateDict(zipCheckpoint(tensors))
+    );
+    expect(() => network.embed(computeFbank(new Float32Array(320)))).toThrow(
+      'too short'
+    );
+  });
+});
+
+describe('SpeechBrainXVectorEncoder', () => {
+  const checkpoint = zipCheckpoint(xvectorStateDict(512));
+  const fetchMock = jest.fn();
+  // tests/setup.js stubs Response
+  const ok = (body: Uint8Array<ArrayBuffer>) => ({
+    ok: true,
+    arrayBuffer: async () => body.buffer,
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('should load the checkpoint from the model hub once', async () => {
+    fetchMock.mockResolvedValue(ok(checkpoint));
+    const encoder = new SpeechBrainXVectorEncoder();
+
+    const embedding = await encoder.encode(noise(0.5));
+    await encoder.encode(noise(0.5, 3));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://hub.example/speechbrain/spkrec-xvect-voxceleb/resolve/main/embedding_model.ckpt'
+    );
+    expect(embedding.length).toBe(512);
+    expect(Math.hypot(...embedding)).toBeCloseTo(1, 5);
+  });
+
+  it('should report load failures and retry on the next call', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+    });
+    const encoder = new SpeechBrainXVectorEncoder({
+      url: '/models/xvector.ckpt',
+    });
+
+    await expect(encoder.encode(noise(0.5))).rejects.toThrow(ModelLoadError);
+
+    fetchMock.mockResolvedValueOnce(ok(checkpoint));
+    await expect(encoder.encode(noise(0.5))).resolves.toHaveLength(512);
+    expect(fetchMock).toHaveBeenLastCalledWith('/models/xvector.ckpt');
+  });
+
+  it('should reject models with another embedding size', async () => {
+    fetchMock.mockResolvedValue(ok(zipCheckpoint(xvectorStateDict(6))));
+    const encoder = new SpeechBrainXVectorEncoder();
+
+    await expect(encoder.encode(noise(0.5))).rejects.toThrow(ModelLoadError);
+  });
+});
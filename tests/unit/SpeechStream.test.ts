@@ -0,0 +1,154 @@
+import {
+  SentenceChunker,
+  splitSentences,
+} from '../../src/app/synthesis/SentenceChunker';
+import { streamSynthesis } from '../../src/app/synthesis/SpeechStream';
+import { AbortError } from '../../src/domain/errors';
+
+async function* tokens(text: string, size = 3) {
+  for (let i = 0; i < text.length; i += size) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    yield text.slice(i, i + size);
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe('SentenceChunker', () => {
+  it('should emit sentences once their end is confirmed', () => {
+    const chunker = new SentenceChunker();
+    expect(chunker.push('Hello there. How')).toEqual(['Hello there.']);
+    expect(chunker.push(' are you?')).toEqual([]);
+    expect(chunker.push(' It costs 3.')).toEqual(['How are you?']);
+    expect(chunker.push('50 today')).toEqual([]);
+    expect(chunker.flush()).toEqual(['It costs 3.50 today']);
+  });
+
+  it('should not split abbreviations, initials or list markers', () => {
+    expect(
+      splitSentences(
+        'Dr. Smith met J. R. Tolkien, e.g. at noon. "Really?" she asked.\n1. Add salt\n2. Stir'
+      )
+    ).toEqual([
+      'Dr. Smith met J. R. Tolkien, e.g. at noon.',
+      '"Really?" she asked.',
+      '1. Add salt',
+      '2. Stir',
+    ]);
+  });
+
+  it('should split run-on text at clause breaks', () => {
+    const sentences = splitSentences(
+      'one two three, four five six seven eight nine ten',
+      { maxSentenceLength: 20 }
+    );
+    expect(sentences).toEqual([
+      'one two three,',
+      'four five six seven',
+      'eight nine ten',
+    ]);
+  });
+
+  it('should skip text with nothing to say', () => {
+    expect(splitSentences('... \n\n - ')).toEqual([]);
+  });
+});
+
+describe('streamSynthesis', () => {
+  const text = 'First sentence. Second one is longer. Third! Fourth?';
+
+  it('should synthesize token streams sentence by sentence', async () => {
+    const synthesize = jest.fn(
+      async (sentence: string, _index: number) => sentence
+    );
+    const results = await collect(streamSynthesis(tokens(text), synthesize));
+
+    expect(results).toEqual([
+      'First sentence.',
+      'Second one is longer.',
+      'Third!',
+      'Fourth?',
+    ]);
+    expect(synthesize.mock.calls.map(call => call[1])).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should keep sentence order when later ones finish first', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const finished: number[] = [];
+    const synthesize = async (sentence: string, index: number) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      // Earlier sentences take longer
+      await delay((4 - index) * 5);
+      active--;
+      finished.push(index);
+      return index;
+    };
+
+    const results = await collect(
+      streamSynthesis(text, synthesize, { concurrency: 3 })
+    );
+
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(finished).not.toEqual([0, 1, 2, 3]);
+    expect(maxActive).toBe(3);
+  });
+
+  it('should keep synthesizing while the consumer is busy', async () => {
+    const started: number[] = [];
+    const stream = streamSynthesis(text, async (_s, index) => {
+      started.push(index);
+      return index;
+    });
+
+    await stream.next();
+    await delay(0);
+    expect(started).toEqual([0, 1, 2, 3]);
+    await stream.return();
+  });
+
+  it('should not synthesize queued sentences after the consumer stops', async () => {
+    const synthesize = jest.fn(async (_s: string, index: number) => {
+      await delay(5);
+      return index;
+    });
+
+    for await (const audio of streamSynthesis(text, synthesize)) {
+      expect(audio).toBe(0);
+      break;
+    }
+    await delay(50);
+
+    // The first sentence, and the second that started while it was handed over
+    expect(synthesize).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface synthesis failures in order', async () => {
+    const stream = streamSynthesis(text, async (_s, index) => {
+      if (index === 1) throw new Error('synthesis failed');
+      return index;
+    });
+
+    await expect(stream.next()).resolves.toEqual({ value: 0, done: false });
+    await expect(stream.next()).rejects.toThrow('synthesis failed');
+  });
+
+  it('should stop when its signal fires', async () => {
+    const controller = new AbortController();
+    const synthesize = jest.fn(async (_s: string, index: number) => index);
+    const stream = streamSynthesis(tokens(text), synthesize, {
+      signal: controller.signal,
+    });
+
+    await expect(stream.next()).resolves.toEqual({ value: 0, done: false });
+    controller.abort();
+    await expect(stream.next()).rejects.toThrow(AbortError);
+  });
+});
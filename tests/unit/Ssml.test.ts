@@ -0,0 +1,189 @@
+import { isSsml, numberToWords, parseSsml } from '../../src/app/synthesis/Ssml';
+import { TTSModel } from '../../src/models/TTSModel';
+import { audioConverter } from '../../src/utils/AudioConverter';
+import { voiceProfileRegistry } from '../../src/core/VoiceProfileRegistry';
+import { ValidationError } from '../../src/domain/errors';
+
+describe('parseSsml', () => {
+  it('should split text at breaks, prosody and voice changes', () => {
+    expect(
+      parseSsml(`<speak>
+        Attention please.<break time="750ms"/>
+        <prosody rate="slow" pitch="+2st">Flight twelve</prosody>
+        <voice name="male-formal">is now <emphasis level="strong">boarding</emphasis></voice>
+        <break strength="weak"/><break time="1s"/>
+      </speak>`)
+    ).toEqual([
+      { type: 'text', text: 'Attention please.', speed: 1, pitch: 1 },
+      { type: 'break', seconds: 0.75 },
+      {
+        type: 'text',
+        text: 'Flight twelve',
+        speed: 0.75,
+        pitch: Math.pow(2, 2 / 12),
+      },
+      {
+        type: 'text',
+        text: 'is now',
+        voice: 'male-formal',
+        speed: 1,
+        pitch: 1,
+      },
+      {
+        type: 'text',
+        text: 'boarding',
+        voice: 'male-formal',
+        speed: 0.85,
+        pitch: 1.1,
+      },
+      { type: 'break', seconds: 1.25 },
+    ]);
+  });
+
+  it('should combine nested prosody and accept percentages', () => {
+    const [segment] = parseSsml(
+      '<speak><prosody rate="150%"><prosody rate="-20%" pitch="low">x</prosody></prosody></speak>'
+    );
+    expect(segment.type === 'text' && segment.speed).toBeCloseTo(1.2, 10);
+    expect(segment.type === 'text' && segment.pitch).toBe(0.85);
+  });
+
+  it('should expand say-as and sub content to words', () => {
+    const [segment] = parseSsml(
+      `<speak>
+        Gate <say-as interpret-as="characters">B12</say-as>,
+        <say-as interpret-as="cardinal">1,250</say-as> seats,
+        the <say-as interpret-as="ordinal">22nd</say-as> call,
+        dial <say-as interpret-as="digits">911</say-as>
+        <sub alias="World Wide Web">WWW</sub> &amp; more
+      </speak>`
+    );
+    expect(segment.type === 'text' && segment.text).toBe(
+      'Gate B one two, one thousand two hundred fifty seats, the twenty second call, dial nine one one World Wide Web & more'
+    );
+  });
+
+  it('should pause after paragraphs and sentences', () => {
+    expect(
+      parseSsml('<speak><p><s>One.</s><s>Two.</s></p><p>Three.</p></speak>')
+    ).toEqual([
+      { type: 'text', text: 'One.', speed: 1, pitch: 1 },
+      { type: 'break', seconds: 0.5 },
+      { type: 'text', text: 'Two.', speed: 1, pitch: 1 },
+      { type: 'break', seconds: 0.75 },
+      { type: 'text', text: 'Three.', speed: 1, pitch: 1 },
+    ]);
+  });
+
+  it.each([
+    ['<speak>Hello', '<speak> is not closed'],
+    ['<speak>a</prosody></speak>', '</prosody> does not close <speak>'],
+    ['<speak>a</speak> b', 'text outside <speak>'],
+    ['<speak>1 < 2</speak>', 'unexpected "<"'],
+    ['<speak><break time="soon"/></speak>', 'invalid break time'],
+    ['<speak><prosody rate="+3st">a</prosody></speak>', 'rate'],
+    ['<speak><voice>a</voice></speak>', 'name attribute'],
+  ])('should reject %s', (ssml, message) => {
+    expect(() => parseSsml(ssml)).toThrow(ValidationError);
+    expect(() => parseSsml(ssml)).toThrow(message);
+  });
+
+  it('should recognize SSML documents', () => {
+    expect(isSsml('  <speak>Hi</speak>')).toBe(true);
+    expect(isSsml('<?xml version="1.0"?>\n<speak version="1.1">')).toBe(true);
+    expect(isSsml('Say <speak> out loud')).toBe(false);
+  });
+});
+
+describe('numberToWords', () => {
+  it.each([
+    [0, 'zero'],
+    [13, 'thirteen'],
+    [105, 'one hundred five'],
+    [2_000_019, 'two million nineteen'],
+    ['-3.25', 'minus three point two five'],
+  ])('should read %s as "%s"', (value, words) => {
+    expect(numberToWords(value)).toBe(words);
+  });
+});
+
+describe('TTSModel.synthesize with SSML', () => {
+  const SAMPLE_RATE = 16000;
+  let model: TTSModel;
+  let pipeline: jest.Mock;
+  let encode: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    // One second of constant signal per call
+    pipeline = jest.fn(async (_text: string, _options: unknown) => ({
+      audio: new Float32Array(SAMPLE_RATE).fill(0.5),
+      sampling_rate: SAMPLE_RATE,
+    }));
+    model = new TTSModel({ model: 'Xenova/speecht5_tts' });
+    model.setPipeline(pipeline);
+    encode = jest
+      .spyOn(audioConverter, 'encode')
+      .mockResolvedValue(new Blob([]));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const renderedAudio = () => encode.mock.calls[0][0] as Float32Array;
+
+  it('should join segments with silent gaps', async () => {
+    await model.synthesize(
+      '<speak>One<break time="500ms"/><prosody rate="x-fast">two</prosody></speak>'
+    );
+
+    const audio = renderedAudio();
+    expect(pipeline.mock.calls.map(call => call[0])).toEqual(['One', 'two']);
+    expect(audio.length).toBe(
+      SAMPLE_RATE + SAMPLE_RATE / 2 + Math.round(SAMPLE_RATE / 1.75)
+    );
+    expect(
+      audio.subarray(SAMPLE_RATE, 1.5 * SAMPLE_RATE).every(v => v === 0)
+    ).toBe(true);
+    expect(audio[SAMPLE_RATE * 1.5 + 100]).toBeCloseTo(0.5, 5);
+  });
+
+  it('should switch speaker embeddings with <voice>', async () => {
+    await model.synthesize(
+      '<speak>A <voice name="female-neutral">B</voice></speak>',
+      { voiceProfile: 'male-neutral' }
+    );
+
+    const speakers = pipeline.mock.calls.map(
+      call =>
+        (call[1] as { speaker_embeddings: Float32Array }).speaker_embeddings
+    );
+    expect(speakers[0]).toEqual(
+      voiceProfileRegistry.get('male-neutral')?.embeddings
+    );
+    expect(speakers[1]).toEqual(
+      voiceProfileRegistry.get('female-neutral')?.embeddings
+    );
+  });
+
+  it('should reject unknown voices and out-of-range prosody', async () => {
+    await expect(
+      model.synthesize('<speak><voice name="nobody">Hi</voice></speak>')
+    ).rejects.toThrow('Unknown voice in SSML: "nobody"');
+    await expect(
+      model.synthesize('<speak><prosody rate="x-fast">Hi</prosody></speak>', {
+        speed: 2.5,
+      })
+    ).rejects.toThrow(ValidationError);
+    expect(pipeline).not.toHaveBeenCalled();
+  });
+
+  it('should clamp nested prosody on top of the voice to the range', async () => {
+    // female-friendly speaks at 1.1: 1.1 x 1.75 x 1.08 is past 2
+    await model.synthesize(
+      '<speak><prosody rate="x-fast"><emphasis level="reduced">Hi</emphasis></prosody></speak>',
+      { voiceProfile: 'female-friendly' }
+    );
+
+    expect(renderedAudio().length).toBe(SAMPLE_RATE / 2);
+  });
+});
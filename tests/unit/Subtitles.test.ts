@@ -0,0 +1,65 @@
+import {
+  formatTimestamp,
+  toSRT,
+  toWebVTT,
+} from '../../src/app/transcription/Subtitles';
+import type { TranscriptionResult } from '../../src/core/types';
+
+describe('Subtitles', () => {
+  const result: TranscriptionResult = {
+    text: 'Hello there. General <Kenobi> & co.',
+    language: 'en',
+    duration: 3725.5,
+    segments: [
+      { id: 0, start: 0, end: 1.5, text: 'Hello there.' },
+      { id: 1, start: 1.5, end: 3725.4567, text: 'General <Kenobi> & co.' },
+    ],
+  };
+
+  it('should format timestamps with rounding and hours', () => {
+    expect(formatTimestamp(0)).toBe('00:00:00,000');
+    expect(formatTimestamp(3725.4567)).toBe('01:02:05,457');
+    expect(formatTimestamp(59.9996, '.')).toBe('00:01:00.000');
+    expect(formatTimestamp(-1)).toBe('00:00:00,000');
+  });
+
+  it('should render numbered SRT cues', () => {
+    expect(toSRT(result)).toBe(
+      '1\n' +
+        '00:00:00,000 --> 00:00:01,500\n' +
+        'Hello there.\n' +
+        '\n' +
+        '2\n' +
+        '00:00:01,500 --> 01:02:05,457\n' +
+        'General <Kenobi> & co.\n'
+    );
+  });
+
+  it('should render WebVTT with a header and escaped text', () => {
+    expect(toWebVTT(result.segments)).toBe(
+      'WEBVTT\n' +
+        '\n' +
+        '00:00:00.000 --> 00:00:01.500\n' +
+        'Hello there.\n' +
+        '\n' +
+        '00:00:01.500 --> 01:02:05.457\n' +
+        'General &lt;Kenobi&gt; &amp; co.\n'
+    );
+    expect(toWebVTT([])).toBe('WEBVTT\n');
+  });
+
+  it('should wrap long cues and drop empty ones', () => {
+    const srt = toSRT(
+      [
+        { id: 0, start: 0, end: 2, text: 'one two three four five six' },
+        { id: 1, start: 2, end: 3, text: '  ' },
+        { id: 2, start: 3, end: 4, text: 'line\n\nbreak' },
+      ],
+      { maxLineLength: 10 }
+    );
+    expect(srt).toBe(
+      '1\n00:00:00,000 --> 00:00:02,000\none two\nthree four\nfive six\n' +
+        '\n2\n00:00:03,000 --> 00:00:04,000\nline break\n'
+    );
+  });
+});
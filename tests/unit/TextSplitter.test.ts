@@ -0,0 +1,155 @@
+import { TextSplitter } from '../../src/app/vectorization/chunking/TextSplitter';
+
+// One-hot topic vectors keyed by a marker word in the sentence
+const topicEmbedding = async (texts: string[]): Promise<Float32Array[]> =>
+  texts.map(text => {
+    const vector = new Float32Array(3);
+    if (text.includes('cat')) vector[0] = 1;
+    else if (text.includes('rocket')) vector[1] = 1;
+    else vector[2] = 1;
+    return vector;
+  });
+
+describe('TextSplitter', () => {
+  describe('fixed strategy', () => {
+    it('should produce fixed windows with overlap', async () => {
+      const splitter = new TextSplitter({
+        strategy: 'fixed',
+        chunkSize: 4,
+        chunkOverlap: 1,
+      });
+      const chunks = await splitter.split('abcdefghij');
+
+      expect(chunks.map(c => c.text)).toEqual(['abcd', 'defg', 'ghij']);
+      expect(chunks.map(c => [c.startChar, c.endChar])).toEqual([
+        [0, 4],
+        [3, 7],
+        [6, 10],
+      ]);
+    });
+  });
+
+  describe('recursive strategy', () => {
+    it('should prefer paragraph breaks over smaller separators', async () => {
+      const text = 'First paragraph here.\n\nSecond paragraph here.';
+      const splitter = new TextSplitter({
+        strategy: 'recursive',
+        chunkSize: 30,
+        chunkOverlap: 0,
+      });
+      const chunks = await splitter.split(text);
+
+      expect(chunks.map(c => c.text)).toEqual([
+        'First paragraph here.',
+        'Second paragraph here.',
+      ]);
+    });
+
+    it('should report offsets that slice back to the chunk text', async () => {
+      const text =
+        'Lorem ipsum dolor sit amet.\nConsectetur adipiscing elit.\n\n' +
+        'Sed do eiusmod tempor incididunt ut labore et dolore magna aliqua.';
+      const splitter = new TextSplitter({
+        strategy: 'recursive',
+        chunkSize: 25,
+        chunkOverlap: 8,
+      });
+      const chunks = await splitter.split(text);
+
+      expect(chunks.length).toBeGreaterThan(2);
+      chunks.forEach((chunk, i) => {
+        expect(chunk.chunkIndex).toBe(i);
+        expect(text.slice(chunk.startChar, chunk.endChar)).toBe(chunk.text);
+        expect(chunk.text.length).toBeLessThanOrEqual(25);
+      });
+    });
+
+    it('should carry overlap between neighbouring chunks', async () => {
+      const splitter = new TextSplitter({
+        strategy: 'recursive',
+        chunkSize: 11,
+        chunkOverlap: 6,
+        separators: [' '],
+      });
+      const chunks = await splitter.split('one two three four five');
+
+      expect(chunks.map(c => c.text)).toEqual([
+        'one two',
+        'two three',
+        'three four',
+        'four five',
+      ]);
+    });
+
+    it('should use custom separators', async () => {
+      const splitter = new TextSplitter({
+        strategy: 'recursive',
+        chunkSize: 5,
+        chunkOverlap: 0,
+        separators: ['|'],
+      });
+      const chunks = await splitter.split('aaa|bbb|ccc');
+
+      expect(chunks.map(c => c.text)).toEqual(['aaa|', 'bbb|', 'ccc']);
+    });
+
+    it('should size chunks with the provided length function', async () => {
+      // Each word counts as one token
+      const countWords = (text: string) =>
+        text.split(/\s+/).filter(Boolean).length;
+      const splitter = new TextSplitter(
+        { strategy: 'recursive', chunkSize: 3, chunkOverlap: 0 },
+        { lengthFunction: countWords }
+      );
+      const chunks = await splitter.split('a b c d e f g');
+
+      expect(chunks.map(c => c.text)).toEqual(['a b c', 'd e f', 'g']);
+    });
+  });
+
+  describe('semantic strategy', () => {
+    it('should break where sentence similarity drops', async () => {
+      const text =
+        'The cat sleeps. My cat purrs. The rocket launches. A rocket flies.';
+      const splitter = new TextSplitter(
+        { strategy: 'semantic', chunkSize: 1000, chunkOverlap: 0 },
+        { embed: topicEmbedding }
+      );
+      const chunks = await splitter.split(text);
+
+      expect(chunks.map(c => c.text)).toEqual([
+        'The cat sleeps. My cat purrs.',
+        'The rocket launches. A rocket flies.',
+      ]);
+      expect(text.slice(chunks[1].startChar, chunks[1].endChar)).toBe(
+        chunks[1].text
+      );
+    });
+
+    it('should further split semantic groups larger than chunkSize', async () => {
+      const text = 'The cat sleeps on the mat. My cat purrs all day.';
+      const splitter = new TextSplitter(
+        { strategy: 'semantic', chunkSize: 30, chunkOverlap: 0 },
+        { embed: topicEmbedding }
+      );
+      const chunks = await splitter.split(text);
+
+      expect(chunks.map(c => c.text)).toEqual([
+        'The cat sleeps on the mat.',
+        'My cat purrs all day.',
+      ]);
+    });
+
+    it('should require an embedding function', async () => {
+      const splitter = new TextSplitter({
+        strategy: 'semantic',
+        chunkSize: 100,
+        chunkOverlap: 0,
+      });
+
+      await expect(splitter.split('One. Two.')).rejects.toThrow(
+        'Semantic chunking requires an embedding function'
+      );
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  parseToolCalls,
+  prepareToolMessages,
+  templateSupportsTools,
+} from '../../src/app/tools/ToolCalls';
+import { ToolRegistry, runToolLoop } from '../../src/app/tools/ToolRegistry';
+import { ValidationError } from '../../src/domain/errors';
+import type {
+  ChatOptions,
+  ChatResponse,
+  Message,
+  ToolDefinition,
+} from '../../src/core/types';
+
+const weatherTool: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    },
+  },
+};
+
+describe('ToolCalls', () => {
+  describe('parseToolCalls', () => {
+    it('should parse Hermes / Qwen2.5 <tool_call> blocks', () => {
+      const parsed = parseToolCalls(
+        'Let me check.\n<tool_call>\n{"name": "get_weather", "arguments": {"city": "Paris"}}\n</tool_call>\n<tool_call>\n{"name": "get_weather", "arguments": {"city": "Oslo"}}\n</tool_call>'
+      );
+
+      expect(parsed.content).toBe('Let me check.');
+      expect(parsed.toolCalls).toHaveLength(2);
+      expect(parsed.toolCalls[0]).toMatchObject({
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+      });
+      expect(parsed.toolCalls[0].id).toMatch(/^call_/);
+      expect(JSON.parse(parsed.toolCalls[1].function.arguments)).toEqual({
+        city: 'Oslo',
+      });
+    });
+
+    it('should accept an unterminated trailing <tool_call>', () => {
+      const parsed = parseToolCalls(
+        '<tool_call>{"name": "get_weather", "arguments": {"city": "Rome"}}'
+      );
+      expect(parsed.toolCalls[0].function.name).toBe('get_weather');
+    });
+
+    it('should parse Qwen ✿FUNCTION✿ markers', () => {
+      const parsed = parseToolCalls(
+        'Checking\n✿FUNCTION✿: get_weather\n✿ARGS✿: {"city": "Berlin"}\n✿RESULT✿: '
+      );
+
+      expect(parsed.content).toBe('Checking');
+      expect(parsed.toolCalls).toHaveLength(1);
+      expect(parsed.toolCalls[0].function).toEqual({
+        name: 'get_weather',
+        arguments: '{"city":"Berlin"}',
+      });
+    });
+
+    it('should parse bare and fenced JSON calls', () => {
+      expect(
+        parseToolCalls(
+          '{"name": "get_weather", "parameters": {"city": "Rome"}}'
+        ).toolCalls[0].function.arguments
+      ).toBe('{"city":"Rome"}');
+
+      const fenced = parseToolCalls(
+        'Sure:\n```json\n[{"type": "function", "id": "call_1", "function": {"name": "get_weather", "arguments": "{\\"city\\": \\"Oslo\\"}"}}]\n```'
+      );
+      expect(fenced.content).toBe('Sure:');
+      expect(fenced.toolCalls).toEqual([
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'get_weather', arguments: '{"city": "Oslo"}' },
+        },
+      ]);
+    });
+
+    it('should leave JSON answers alone when they name no offered tool', () => {
+      const text = '{"name": "Alice", "age": 30}';
+      expect(parseToolCalls(text, ['get_weather'])).toEqual({
+        content: text,
+        toolCalls: [],
+      });
+      expect(parseToolCalls('The weather is fine.').toolCalls).toEqual([]);
+    });
+  });
+
+  describe('prepareToolMessages', () => {
+    const history: Message[] = [
+      { role: 'user', content: 'Weather in Paris?' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' },
+          },
+        ],
+      },
+      {
+        role: 'tool',
+        content: '{"temp":21}',
+        name: 'get_weather',
+        tool_call_id: 'call_1',
+      },
+    ];
+
+    it('should pass structured tool turns to tool-aware templates', () => {
+      const prepared = prepareToolMessages(history, {
+        tools: [weatherTool],
+        nativeTools: true,
+      });
+
+      expect(prepared).toHaveLength(3);
+      expect(prepared[1].tool_calls).toEqual([
+        {
+          type: 'function',
+          function: { name: 'get_weather', arguments: { city: 'Paris' } },
+        },
+      ]);
+      expect(prepared[2]).toEqual({
+        role: 'tool',
+        content: '{"temp":21}',
+        name: 'get_weather',
+        tool_call_id: 'call_1',
+      });
+    });
+
+    it('should describe tools and encode turns as text otherwise', () => {
+      const prepared = prepareToolMessages(
+        [{ role: 'system', content: 'Be brief.' }, ...history],
+        {
+          tools: [weatherTool],
+          toolChoice: 'required',
+          nativeTools: false,
+        }
+      );
+
+      expect(prepared[0].role).toBe('system');
+      expect(prepared[0].content).toMatch(/^Be brief\.\n\n/);
+      expect(prepared[0].content).toContain('"name":"get_weather"');
+      expect(prepared[0].content).toContain(
+        'You must call at least one function.'
+      );
+      expect(prepared[2].content).toBe(
+        '<tool_call>\n{"name":"get_weather","arguments":{"city":"Paris"}}\n</tool_call>'
+      );
+      expect(prepared[3]).toEqual({
+        role: 'user',
+        content: '<tool_response>\n{"temp":21}\n</tool_response>',
+      });
+    });
+
+    it('should offer no tools for toolChoice none', () => {
+      const prepared = prepareToolMessages([{ role: 'user', content: 'hi' }], {
+        tools: [weatherTool],
+        toolChoice: 'none',
+        nativeTools: false,
+      });
+      expect(prepared).toEqual([{ role: 'user', content: 'hi' }]);
+    });
+  });
+
+  it('should detect templates that render tools', () => {
+    expect(
+      templateSupportsTools('{% if tools %}<tools>{% endif %}{{ messages }}')
+    ).toBe(true);
+    expect(templateSupportsTools('{{ messages }}')).toBe(false);
+    expect(templateSupportsTools(undefined)).toBe(false);
+  });
+});
+
+describe('ToolRegistry', () => {
+  it('should expose definitions and reject bad names', () => {
+    const registry = new ToolRegistry().register(
+      'get_weather',
+      { description: 'Current weather', parameters: { type: 'object' } },
+      () => 'sunny'
+    );
+
+    expect(registry.definitions).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'get_weather',
+          description: 'Current weather',
+          parameters: { type: 'object' },
+        },
+      },
+    ]);
+    expect(() => registry.register('get_weather', {}, () => 1)).toThrow(
+      ValidationError
+    );
+    expect(() => registry.register('bad name', {}, () => 1)).toThrow(
+      'Invalid tool name: bad name'
+    );
+  });
+
+  it('should report failures as JSON errors', async () => {
+    const registry = new ToolRegistry().register('fail', {}, () => {
+      throw new Error('boom');
+    });
+    const call = (name: string, args: string) => ({
+      id: 'c',
+      type: 'function' as const,
+      function: { name, arguments: args },
+    });
+
+    expect(await registry.execute(call('fail', '{}'))).toBe('{"error":"boom"}');
+    expect(await registry.execute(call('missing', '{}'))).toBe(
+      '{"error":"Unknown tool: missing"}'
+    );
+    expect(await registry.execute(call('fail', '{oops'))).toBe(
+      '{"error":"Invalid JSON arguments for fail"}'
+    );
+  });
+
+  describe('runToolLoop', () => {
+    const toolCallResponse = (city: string): ChatResponse => ({
+      role: 'assistant',
+      content: '',
+      finishReason: 'tool_calls',
+      tool_calls: [
+        {
+          id: `call_${city}`,
+          type: 'function',
+          function: { name: 'get_weather', arguments: `{"city":"${city}"}` },
+        },
+      ],
+    });
+
+    it('should execute calls and feed results back', async () => {
+      const handler = jest.fn(({ city }: { city: string }) => ({
+        city,
+        temp: 21,
+      }));
+      const registry = new ToolRegistry().register('get_weather', {}, handler);
+      const chat = jest
+        .fn<Promise<ChatResponse>, [Message[], ChatOptions]>()
+        .mockResolvedValueOnce(toolCallResponse('Paris'))
+        .mockResolvedValueOnce({ role: 'assistant', content: 'It is 21°C.' });
+
+      const result = await runToolLoop(chat, 'Weather in Paris?', registry, {
+        toolChoice: 'required',
+      });
+
+      expect(handler).toHaveBeenCalledWith(
+        { city: 'Paris' },
+        expect.objectContaining({ id: 'call_Paris' })
+      );
+      expect(result.response.content).toBe('It is 21°C.');
+      expect(result.iterations).toBe(2);
+      expect(result.messages.map(m => m.role)).toEqual([
+        'user',
+        'assistant',
+        'tool',
+        'assistant',
+      ]);
+      expect(result.messages[2]).toEqual({
+        role: 'tool',
+        content: '{"city":"Paris","temp":21}',
+        name: 'get_weather',
+        tool_call_id: 'call_Paris',
+      });
+      expect(chat.mock.calls[0][1].toolChoice).toBe('required');
+      expect(chat.mock.calls[1][1].toolChoice).toBe('auto');
+      expect(chat.mock.calls[1][1].tools).toEqual(registry.definitions);
+    });
+
+    it('should disable tools after maxIterations', async () => {
+      const registry = new ToolRegistry().register('get_weather', {}, () => 1);
+      const chat = jest
+        .fn<Promise<ChatResponse>, [Message[], ChatOptions]>()
+        .mockResolvedValue(toolCallResponse('Oslo'));
+
+      const result = await runToolLoop(chat, 'Loop forever', registry, {
+        maxIterations: 2,
+      });
+
+      expect(chat).toHaveBeenCalledTimes(3);
+      expect(chat.mock.calls[2][1].toolChoice).toBe('none');
+      expect(result.iterations).toBe(3);
+    });
+  });
+});
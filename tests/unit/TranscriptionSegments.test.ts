@@ -0,0 +1,190 @@
+import {
+  TranscriptionTracker,
+  meanLogprob,
+  segmentLogprobs,
+} from '../../src/app/transcription/TranscriptionTracker';
+import { buildTranscriptionResult } from '../../src/app/transcription/Segments';
+
+describe('TranscriptionTracker', () => {
+  const EOS = 10;
+  const TS = 20; // <|0.00|>; ids >= 20 are timestamps
+  const VOCAB = 30;
+
+  // Replay generate(): logits for the next token, then the stopping criteria
+  const decode = (
+    tracker: TranscriptionTracker,
+    prompt: number[],
+    tokens: Array<[id: number, probability: number]>
+  ) => {
+    const ids = [...prompt];
+    for (const [id, probability] of tokens) {
+      // Two candidates: the sampled token and one that takes the rest
+      const data = new Float32Array(VOCAB).fill(-Infinity);
+      const other = (id + 1) % VOCAB;
+      data[id] = Math.log(probability);
+      if (probability < 1) data[other] = Math.log(1 - probability);
+      tracker.logitsProcessor([ids], [{ data }]);
+      ids.push(id);
+      expect(tracker.stoppingCriteria([ids])).toEqual([false]);
+    }
+  };
+
+  it('should record token probabilities and the prompt language', () => {
+    const tracker = new TranscriptionTracker();
+    decode(
+      tracker,
+      [1, 5, 6],
+      [
+        [TS, 1],
+        [2, 0.5],
+        [3, 0.5],
+        [TS + 4, 1],
+        [TS + 4, 1],
+        [4, 0.25],
+        [TS + 9, 1],
+        [EOS, 1],
+      ]
+    );
+
+    expect(tracker.runs).toHaveLength(1);
+    expect(tracker.languageTokenId()).toBe(5);
+    const logprobs = segmentLogprobs(tracker.runs, EOS, TS);
+    expect(logprobs).toHaveLength(2);
+    expect(Math.exp(logprobs[0])).toBeCloseTo(0.5);
+    expect(Math.exp(logprobs[1])).toBeCloseTo(0.25);
+    // Text tokens only: 0.5, 0.5 and 0.25
+    expect(meanLogprob(tracker.runs, EOS)).toBeCloseTo((4 * Math.log(0.5)) / 3);
+  });
+
+  it('should normalize over the scores left after later processors mask them', () => {
+    const tracker = new TranscriptionTracker();
+    const ids = [1, 5, 6];
+    const data = new Float32Array(VOCAB).fill(Math.log(0.1));
+    tracker.logitsProcessor([ids], [{ data }]);
+    // A processor after the tracker allows only tokens 2 and 3
+    data.fill(-Infinity);
+    data[2] = data[3] = Math.log(0.1);
+    tracker.stoppingCriteria([[...ids, 2]]);
+
+    expect(Math.exp(tracker.runs[0].tokens[0].logprob)).toBeCloseTo(0.5);
+  });
+
+  it('should start a new run for every generate() call', () => {
+    const tracker = new TranscriptionTracker();
+    decode(
+      tracker,
+      [1, 5, 6],
+      [
+        [2, 0.5],
+        [EOS, 1],
+      ]
+    );
+    decode(
+      tracker,
+      [1, 5, 6],
+      [
+        [3, 0.5],
+        [EOS, 1],
+      ]
+    );
+    expect(tracker.runs.map(run => run.tokens.map(t => t.id))).toEqual([
+      [2, EOS],
+      [3, EOS],
+    ]);
+    // Unterminated segments still count
+    expect(segmentLogprobs(tracker.runs, EOS, TS)).toHaveLength(2);
+  });
+});
+
+describe('buildTranscriptionResult', () => {
+  it('should map chunks to segments with confidence', () => {
+    const result = buildTranscriptionResult(
+      {
+        text: ' Hello there. General Kenobi.',
+        chunks: [
+          { text: ' Hello there.', timestamp: [0, 1.2] },
+          { text: ' General Kenobi.', timestamp: [1.2, null] },
+        ],
+      },
+      {
+        duration: 3,
+        language: 'en',
+        segmentLogprobs: [Math.log(0.9), Math.log(0.6)],
+      }
+    );
+
+    expect(result).toEqual({
+      text: 'Hello there. General Kenobi.',
+      language: 'en',
+      duration: 3,
+      segments: [
+        { id: 0, start: 0, end: 1.2, text: 'Hello there.', confidence: 0.9 },
+        {
+          id: 1,
+          start: 1.2,
+          end: 3,
+          text: 'General Kenobi.',
+          confidence: expect.closeTo(0.6),
+        },
+      ],
+    });
+  });
+
+  it('should fall back to the mean confidence when segments do not line up', () => {
+    const result = buildTranscriptionResult(
+      {
+        text: 'a b',
+        chunks: [
+          { text: 'a', timestamp: [0, 1] },
+          { text: 'b', timestamp: [1, 2] },
+        ],
+      },
+      { duration: 2, segmentLogprobs: [0], meanLogprob: Math.log(0.5) }
+    );
+    expect(result.segments.map(s => s.confidence)).toEqual([0.5, 0.5]);
+  });
+
+  it('should group words into segments at sentence ends and pauses', () => {
+    const result = buildTranscriptionResult(
+      {
+        text: ' Hi there. How are you',
+        chunks: [
+          { text: ' Hi', timestamp: [0, 0.3] },
+          { text: ' there.', timestamp: [0.3, 0.8] },
+          { text: ' How', timestamp: [1, 1.2] },
+          { text: ' are', timestamp: [1.2, 1.4] },
+          { text: ' you', timestamp: [3, 3.3] },
+        ],
+      },
+      { duration: 4, words: true }
+    );
+
+    expect(
+      result.segments.map(({ id, start, end, text }) => ({
+        id,
+        start,
+        end,
+        text,
+      }))
+    ).toEqual([
+      { id: 0, start: 0, end: 0.8, text: 'Hi there.' },
+      { id: 1, start: 1, end: 1.4, text: 'How are' },
+      { id: 2, start: 3, end: 3.3, text: 'you' },
+    ]);
+    expect(result.segments[0].words).toEqual([
+      { text: 'Hi', start: 0, end: 0.3 },
+      { text: 'there.', start: 0.3, end: 0.8 },
+    ]);
+    expect(result.segments[0]).not.toHaveProperty('confidence');
+  });
+
+  it('should keep text without timestamps as a single segment', () => {
+    const result = buildTranscriptionResult(
+      { text: ' Just text' },
+      { duration: 5 }
+    );
+    expect(result.segments).toEqual([
+      { id: 0, start: 0, end: 5, text: 'Just text' },
+    ]);
+  });
+});
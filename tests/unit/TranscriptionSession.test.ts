@@ -0,0 +1,197 @@
+import fs from 'fs';
+import path from 'path';
+import { TranscriptionSession } from '../../src/app/transcription/TranscriptionSession';
+import { detectSpeech } from '../../src/utils/VoiceActivityDetector';
+import { AudioConverter } from '../../src/utils/AudioConverter';
+import { ValidationError } from '../../src/domain/errors';
+import type { STTOptions, TranscriptEvent } from '../../src/core/types';
+
+// 16 kHz: speech at 0.6-1.6 s and 2.5-3.2 s over faint noise
+const UTTERANCES = 'utterances.wav';
+// 44.1 kHz: a steady two second tone
+const TONE = 'test.wav';
+
+const converter = new AudioConverter();
+const readWav = (name: string) =>
+  converter.decodeWav(
+    fs.readFileSync(path.join(__dirname, '../fixtures/audio', name))
+  );
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Push a recording in real-time-sized frames, letting transcriptions run
+async function pushFrames(
+  session: TranscriptionSession,
+  samples: Float32Array,
+  frameSize: number,
+  asInt16 = false
+) {
+  for (let i = 0; i < samples.length; i += frameSize) {
+    const frame = samples.subarray(i, i + frameSize);
+    session.push(
+      asInt16 ? Int16Array.from(frame, x => Math.round(x * 0x7fff)) : frame
+    );
+    await tick();
+  }
+}
+
+const describeAudio = async (audio: Float32Array, _options: STTOptions) =>
+  `${(audio.length / 16000).toFixed(1)} seconds`;
+
+describe('AudioConverter.decodeWav', () => {
+  it('should decode 16-bit PCM fixtures', () => {
+    const tone = readWav(TONE);
+    expect(tone.sampleRate).toBe(44100);
+    expect(tone.channels).toBe(1);
+    expect(tone.samples).toHaveLength(88200);
+    expect(tone.duration).toBeCloseTo(2);
+    expect(Math.max(...tone.samples.subarray(0, 4410))).toBeLessThanOrEqual(1);
+  });
+
+  it('should reject files that are not WAV', () => {
+    expect(() => converter.decodeWav(new Uint8Array(64))).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('detectSpeech', () => {
+  it('should find both utterances with padding', () => {
+    const { samples, sampleRate } = readWav(UTTERANCES);
+    const segments = detectSpeech(samples, { sampleRate }).map(s => ({
+      start: s.start / sampleRate,
+      end: s.end / sampleRate,
+    }));
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0].start).toBeCloseTo(0.4, 1);
+    expect(segments[0].end).toBeCloseTo(1.8, 1);
+    expect(segments[1].start).toBeCloseTo(2.3, 1);
+    expect(segments[1].end).toBeCloseTo(3.4, 1);
+  });
+
+  it('should find nothing in silence', () => {
+    expect(detectSpeech(new Float32Array(16000))).toEqual([]);
+  });
+});
+
+describe('TranscriptionSession', () => {
+  it('should emit partial and final transcripts per utterance', async () => {
+    const { samples } = readWav(UTTERANCES);
+    const transcribe = jest.fn(describeAudio);
+    const session = new TranscriptionSession(transcribe, {
+      partialIntervalMs: 500,
+      language: 'en',
+    });
+    const speech: number[] = [];
+    session.on('speechstart', e => speech.push(e.utteranceId));
+
+    const events: TranscriptEvent[] = [];
+    const consuming = (async () => {
+      for await (const event of session) events.push(event);
+    })();
+
+    await pushFrames(session, samples, 320, true);
+    await session.end();
+    await consuming;
+
+    expect(speech).toEqual([0, 1]);
+    const finals = events.filter(e => e.type === 'final');
+    expect(finals.map(e => e.utteranceId)).toEqual([0, 1]);
+    expect(finals[0].start).toBeCloseTo(0.4, 1);
+    expect(finals[0].end).toBeCloseTo(1.8, 1);
+    expect(finals[0].text).toBe('1.4 seconds');
+    expect(finals[1].start).toBeCloseTo(2.3, 1);
+
+    const partials = events.filter(e => e.type === 'partial');
+    expect(partials.length).toBeGreaterThan(0);
+    // Partials of an utterance come before its final
+    expect(events.indexOf(partials[0])).toBeLessThan(events.indexOf(finals[0]));
+    expect(transcribe.mock.calls[0][1]).toEqual({ language: 'en' });
+  });
+
+  it('should resample pushed audio and close open speech on end()', async () => {
+    const { samples, sampleRate } = readWav(TONE);
+    const transcribe = jest.fn(describeAudio);
+    const session = new TranscriptionSession(transcribe, {
+      sampleRate,
+      partialIntervalMs: 0,
+    });
+    const finals: TranscriptEvent[] = [];
+    session.on('final', e => finals.push(e));
+
+    await pushFrames(session, samples, 4410);
+    await session.end();
+
+    expect(finals).toHaveLength(1);
+    expect(finals[0].start).toBe(0);
+    expect(finals[0].end).toBeCloseTo(2, 2);
+    expect(transcribe).toHaveBeenCalledTimes(1);
+    expect(transcribe.mock.calls[0][0].length).toBeCloseTo(32000, -1);
+    expect(() => session.push(new Float32Array(10))).toThrow(ValidationError);
+  });
+
+  it('should split utterances longer than maxUtteranceS', async () => {
+    const { samples, sampleRate } = readWav(TONE);
+    const session = new TranscriptionSession(describeAudio, {
+      sampleRate,
+      partialIntervalMs: 0,
+      maxUtteranceS: 0.75,
+    });
+    const finals: TranscriptEvent[] = [];
+    session.on('final', e => finals.push(e));
+
+    await pushFrames(session, samples, 4410);
+    await session.end();
+
+    expect(finals.map(e => e.utteranceId)).toEqual([0, 1, 2]);
+    finals.forEach(e => expect(e.end - e.start).toBeLessThanOrEqual(0.8));
+  });
+
+  it('should surface transcription errors to listeners and iterators', async () => {
+    const { samples, sampleRate } = readWav(TONE);
+    const session = new TranscriptionSession(
+      async () => {
+        throw new Error('model failed');
+      },
+      { sampleRate, partialIntervalMs: 0 }
+    );
+    const onError = jest.fn();
+    session.on('error', onError);
+    const iterator = session[Symbol.asyncIterator]();
+
+    await pushFrames(session, samples, 4410);
+    await session.end();
+
+    expect(onError).toHaveBeenCalledWith(new Error('model failed'));
+    await expect(iterator.next()).rejects.toThrow('model failed');
+    await expect(iterator.next()).resolves.toEqual({
+      value: undefined,
+      done: true,
+    });
+  });
+
+  it('should stop without further transcripts when its signal fires', async () => {
+    const { samples } = readWav(UTTERANCES);
+    const controller = new AbortController();
+    const transcribe = jest.fn(describeAudio);
+    const session = new TranscriptionSession(transcribe, {
+      partialIntervalMs: 0,
+      signal: controller.signal,
+    });
+    const onClose = jest.fn();
+    session.on('close', onClose);
+    const events: TranscriptEvent[] = [];
+    const consuming = (async () => {
+      for await (const event of session) events.push(event);
+    })();
+
+    await pushFrames(session, samples.subarray(0, 16000), 320);
+    controller.abort();
+    await consuming;
+
+    expect(events).toEqual([]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(() => session.push(new Float32Array(10))).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,336 @@
+import { VectorizationService } from '../../src/app/vectorization/VectorizationService';
+import {
+  TextEmbeddingAdapter,
+  type TextEmbeddingPipeline,
+} from '../../src/app/vectorization/adapters/TextEmbeddingAdapter';
+import type {
+  VectorStore,
+  VectorDocument,
+  VectorQueryResult,
+  QueryOptions,
+} from '../../src/infra/vectorstore/VectorStore';
+import { matchesFilter } from '../../src/infra/vectorstore/MetadataFilter';
+import type { VectorizationResult, QueryResult } from '../../src/app/vectorization/VectorizationService';
+
+jest.mock('../../src/infra/resource/LocalResourceUsageEstimator', () => ({
+  LocalResourceUsageEstimator: jest.fn().mockImplementation(() => ({
+    initialize: jest.fn().mockResolvedValue(undefined),
+    close: jest.fn().mockResolvedValue(undefined),
+    getUsageSnapshot: jest.fn().mockResolvedValue({}),
+    emitResourceUsage: jest.fn(),
+    startMeasurement: jest.fn(() => () => undefined),
+    on: jest.fn(),
+    emit: jest.fn(),
+  })),
+}));
+
+// Requires the optional @ffmpeg/ffmpeg package, not needed for text tests
+jest.mock('../../src/app/vectorization/adapters/VideoAsAudioAdapter', () => ({
+  VideoAsAudioAdapter: jest.fn(),
+}));
+
+// In-memory store so tests do not depend on IndexedDB
+class MemoryVectorStore implements VectorStore {
+  docs = new Map<string, VectorDocument>();
+  async initialize() {}
+  async upsert(documents: VectorDocument[]) {
+    documents.forEach(doc => this.docs.set(doc.id, doc));
+  }
+  async query(queryVector: Float32Array, options: QueryOptions = {}): Promise<VectorQueryResult[]> {
+    const docs = Array.from(this.docs.values()).filter(
+      doc => !options.filter || matchesFilter(doc.metadata, options.filter)
+    );
+    const results = docs.map(doc => {
+      let dot = 0;
+      for (let i = 0; i < queryVector.length; i++) dot += queryVector[i] * doc.vector[i];
+      return { id: doc.id, score: dot, metadata: doc.metadata };
+    });
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, options.k ?? 10);
+  }
+  async getMetadata(ids?: string[]) {
+    return (ids ?? Array.from(this.docs.keys()))
+      .filter(id => this.docs.has(id))
+      .map(id => this.docs.get(id)!.metadata);
+  }
+  async delete(ids: string[]) {
+    ids.forEach(id => this.docs.delete(id));
+  }
+  async count() {
+    return this.docs.size;
+  }
+  async clear() {
+    this.docs.clear();
+  }
+  async close() {}
+}
+
+// Deterministic bag-of-letters embedding (normalized)
+const letterEmbedding = (text: string): number[] => {
+  const vector = new Array(26).fill(0);
+  for (const ch of text.toLowerCase()) {
+    const code = ch.charCodeAt(0) - 97;
+    if (code >= 0 && code < 26) vector[code] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((s, v) => s + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+async function drain<T, R>(gen: AsyncGenerator<T, R>): Promise<R> {
+  let next = await gen.next();
+  while (!next.done) {
+    next = await gen.next();
+  }
+  return next.value;
+}
+
+describe('VectorizationService text embeddings', () => {
+  let store: MemoryVectorStore;
+  let pipeline: jest.Mock<ReturnType<TextEmbeddingPipeline>, Parameters<TextEmbeddingPipeline>>;
+  let service: VectorizationService;
+
+  beforeEach(() => {
+    store = new MemoryVectorStore();
+    pipeline = jest.fn(async (texts: string[]) => texts.map(letterEmbedding));
+    service = new VectorizationService(
+      { storage: 'indexeddb' },
+      // Only the text adapter, so no audio/image models are loaded
+      { vectorStore: store, adapters: [new TextEmbeddingAdapter({ pipeline })] }
+    );
+  });
+
+  afterEach(async () => {
+    await service.close();
+  });
+
+  it('should store distinct vectors for different chunks', async () => {
+    const text = 'aaaa aaaa aaaa bbbb bbbb bbbb cccc cccc cccc';
+    const result: VectorizationResult = await drain(
+      service.vectorizeWithProgress(text, {
+        chunking: { strategy: 'fixed', chunkSize: 15, chunkOverlap: 0 },
+      })
+    );
+
+    expect(result.indexed.length).toBe(3);
+    const vectors = Array.from(store.docs.values()).map(d => Array.from(d.vector));
+    expect(vectors[0]).not.toEqual(vectors[1]);
+    expect(vectors[1]).not.toEqual(vectors[2]);
+  });
+
+  it('should honor batchSize when embedding chunks', async () => {
+    const text = 'x'.repeat(100);
+    await drain(
+      service.vectorizeWithProgress(text, {
+        chunking: { strategy: 'fixed', chunkSize: 10, chunkOverlap: 0 },
+        batchSize: 4,
+        concurrency: 2,
+      })
+    );
+
+    expect(pipeline.mock.calls.map(([batch]) => batch.length)).toEqual([4, 4, 2]);
+    expect(store.docs.size).toBe(10);
+  });
+
+  it('should rank the closest chunk first in queryWithProgress', async () => {
+    await drain(
+      service.vectorizeWithProgress('zzzz zzzz zzzz', {
+        chunking: { strategy: 'fixed', chunkSize: 100, chunkOverlap: 0 },
+      })
+    );
+    await drain(
+      service.vectorizeWithProgress('mmmm mmmm mmmm', {
+        chunking: { strategy: 'fixed', chunkSize: 100, chunkOverlap: 0 },
+      })
+    );
+
+    const result: QueryResult = await drain(
+      service.queryWithProgress('zz', { k: 2 })
+    );
+
+    expect(result.scores[0]).toBeCloseTo(1, 5);
+    expect(result.scores[1]).toBeCloseTo(0, 5);
+    const top = store.docs.get(result.ids[0]);
+    expect(Array.from(top!.vector)).toEqual(letterEmbedding('z'));
+  });
+
+  it('should apply metadata filters in queryWithProgress', async () => {
+    await drain(
+      service.vectorizeWithProgress('zzzz. mmmm. zzzz mmmm.', {
+        chunking: { strategy: 'recursive', chunkSize: 6, chunkOverlap: 0 },
+      })
+    );
+
+    const result: QueryResult = await drain(
+      service.queryWithProgress('zz', {
+        k: 5,
+        filter: { chunkIndex: { $gte: 1 }, text: { $ne: 'zzzz' } },
+      })
+    );
+
+    expect(result.metadata!.map(m => m.text)).toEqual(['mmmm.', 'mmmm.']);
+  });
+
+  it('should store chunk offsets in document metadata', async () => {
+    const text = 'Alpha beta gamma.\n\nDelta epsilon zeta.';
+    await drain(
+      service.vectorizeWithProgress(text, {
+        chunking: { strategy: 'recursive', chunkSize: 20, chunkOverlap: 0 },
+      })
+    );
+
+    const metas = Array.from(store.docs.values())
+      .map(d => d.metadata)
+      .sort((a, b) => (a.chunkIndex ?? 0) - (b.chunkIndex ?? 0));
+    expect(metas.map(m => m.text)).toEqual([
+      'Alpha beta gamma.',
+      'Delta epsilon zeta.',
+    ]);
+    metas.forEach((meta, i) => {
+      expect(meta.chunkIndex).toBe(i);
+      expect(text.slice(meta.startChar, meta.endChar)).toBe(meta.text);
+    });
+  });
+
+  it('should size chunks in tokens when lengthUnit is tokens', async () => {
+    const tokenService = new VectorizationService(
+      { storage: 'indexeddb' },
+      {
+        vectorStore: store,
+        adapters: [
+          new TextEmbeddingAdapter({
+            pipeline,
+            tokenCounter: text => text.split(' ').filter(Boolean).length,
+          }),
+        ],
+      }
+    );
+
+    await drain(
+      tokenService.vectorizeWithProgress('a b c d e f g h', {
+        chunking: {
+          strategy: 'recursive',
+          chunkSize: 4,
+          chunkOverlap: 0,
+          lengthUnit: 'tokens',
+        },
+      })
+    );
+    await tokenService.close();
+
+    expect(pipeline.mock.calls[0][0]).toEqual(['a b c d', 'e f g h']);
+  });
+
+  describe('hybrid search', () => {
+    const fixed = {
+      chunking: { strategy: 'fixed' as const, chunkSize: 100, chunkOverlap: 0 },
+    };
+
+    async function indexDocs(): Promise<string[]> {
+      const ids: string[] = [];
+      for (const text of ['part ab-1234 spec', 'a b a b ba ab', 'zzz']) {
+        const result = await drain(service.vectorizeWithProgress(text, fixed));
+        ids.push(...result.indexed);
+      }
+      return ids;
+    }
+
+    it('should find exact keyword matches that vector search ranks lower', async () => {
+      const [partDoc, lettersDoc] = await indexDocs();
+
+      const vectorOnly = await service.query('ab-1234', 'text', { k: 3 });
+      expect(vectorOnly.ids[0]).toBe(lettersDoc);
+
+      const hybrid = await service.query('ab-1234', 'text', {
+        k: 3,
+        mode: 'hybrid',
+        lexicalWeight: 2,
+      });
+      expect(hybrid.ids[0]).toBe(partDoc);
+      expect(hybrid.lexicalScores![0]).toBeGreaterThan(
+        hybrid.lexicalScores![1]!
+      );
+      expect(hybrid.vectorScores![1]).toBeGreaterThan(hybrid.vectorScores![0]!);
+    });
+
+    it('should follow per-query weights in weighted fusion', async () => {
+      const [partDoc, lettersDoc] = await indexDocs();
+
+      const vectorHeavy: QueryResult = await drain(
+        service.queryWithProgress('ab-1234', {
+          k: 2,
+          mode: 'hybrid',
+          fusion: 'weighted',
+          vectorWeight: 1,
+          lexicalWeight: 0,
+        })
+      );
+      const lexicalHeavy: QueryResult = await drain(
+        service.queryWithProgress('ab-1234', {
+          k: 2,
+          mode: 'hybrid',
+          fusion: 'weighted',
+          vectorWeight: 0,
+          lexicalWeight: 1,
+        })
+      );
+
+      expect(vectorHeavy.ids[0]).toBe(lettersDoc);
+      expect(lexicalHeavy.ids[0]).toBe(partDoc);
+      expect(lexicalHeavy.scores[0]).toBeCloseTo(1, 5);
+    });
+
+    it('should answer lexical queries without embedding the query', async () => {
+      const [partDoc] = await indexDocs();
+      pipeline.mockClear();
+
+      const result = await service.query('1234', 'text', { mode: 'lexical' });
+
+      expect(pipeline).not.toHaveBeenCalled();
+      expect(result.ids).toEqual([partDoc]);
+      expect(result.vectorScores).toEqual([null]);
+    });
+
+    it('should drop deleted documents from the lexical index', async () => {
+      const [partDoc] = await indexDocs();
+      await service.delete([partDoc]);
+
+      const result = await service.query('1234', 'text', { mode: 'lexical' });
+      expect(result.ids).toEqual([]);
+    });
+
+    it('should rebuild the lexical index from the store on initialize', async () => {
+      const [partDoc] = await indexDocs();
+      const reopened = new VectorizationService(
+        { storage: 'indexeddb' },
+        { vectorStore: store, adapters: [new TextEmbeddingAdapter({ pipeline })] }
+      );
+
+      const result = await reopened.query('ab-1234', 'text', {
+        mode: 'lexical',
+        k: 1,
+      });
+      await reopened.close();
+
+      expect(result.ids).toEqual([partDoc]);
+    });
+  });
+
+  it('should stop embedding when the signal is aborted', async () => {
+    const controller = new AbortController();
+    pipeline.mockImplementation(async (texts: string[]) => {
+      controller.abort();
+      return texts.map(letterEmbedding);
+    });
+
+    await expect(
+      drain(
+        service.vectorizeWithProgress('y'.repeat(100), {
+          chunking: { strategy: 'fixed', chunkSize: 10, chunkOverlap: 0 },
+          batchSize: 2,
+          signal: controller.signal,
+        })
+      )
+    ).rejects.toThrow('Operation cancelled');
+    expect(pipeline).toHaveBeenCalledTimes(1);
+  });
+});
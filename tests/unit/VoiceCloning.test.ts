@@ -0,0 +1,136 @@
+import { VoiceProfileRegistry } from '../../src/core/VoiceProfileRegistry';
+import {
+  SpeechBrainXVectorEncoder,
+  XVectorEncoder,
+  averageEmbeddings,
+  type SpeakerEncoder,
+} from '../../src/core/SpeakerEncoder';
+import { ValidationError } from '../../src/domain/errors';
+
+const mockXVector = jest.fn(async (_inputs: { length: number }) => ({
+  embeddings: { data: new Float32Array(512).fill(2), dims: [1, 512] },
+}));
+
+jest.mock('@huggingface/transformers', () => ({
+  AutoProcessor: {
+    from_pretrained: jest.fn(async () => async (audio: Float32Array) => ({
+      length: audio.length,
+    })),
+  },
+  WavLMForXVector: {
+    from_pretrained: jest.fn(async () => mockXVector),
+  },
+}));
+
+// A 200 Hz tone at 16 kHz between a second of silence on each side
+const clip = (seconds = 1, padding = 1) => {
+  const samples = new Float32Array((seconds + 2 * padding) * 16000);
+  for (let i = 0; i < seconds * 16000; i++) {
+    samples[padding * 16000 + i] =
+      0.5 * Math.sin((2 * Math.PI * 200 * i) / 16000);
+  }
+  return samples;
+};
+
+const unit = (index: number) => {
+  const vector = new Float32Array(512);
+  vector[index] = 1;
+  return vector;
+};
+
+describe('VoiceProfileRegistry.createFromAudio', () => {
+  // Encodes whole seconds of input, so tests can tell clips apart
+  const lengthEncoder = (): jest.Mocked<SpeakerEncoder> => ({
+    encode: jest.fn(async (samples: Float32Array) =>
+      unit(Math.floor(samples.length / 16000)).map(v => v * 3)
+    ),
+  });
+
+  it('should register a profile from the speech in a clip', async () => {
+    const encoder = lengthEncoder();
+    const registry = new VoiceProfileRegistry({ speakerEncoder: encoder });
+
+    const profile = await registry.createFromAudio('cloned', clip(2), {
+      gender: 'female',
+      parameters: { speed: 1.1 },
+    });
+
+    // Silence padding was trimmed before encoding
+    const encoded = encoder.encode.mock.calls[0][0];
+    expect(encoded.length).toBeGreaterThanOrEqual(2 * 16000);
+    expect(encoded.length).toBeLessThan(3 * 16000);
+    expect(profile).toBe(registry.get('cloned'));
+    expect(profile.name).toBe('cloned');
+    expect(profile.gender).toBe('female');
+    expect(profile.parameters.speed).toBe(1.1);
+    expect(Array.from(profile.embeddings)).toEqual(Array.from(unit(2)));
+  });
+
+  it('should average clips weighted by speech length', async () => {
+    const encoder = lengthEncoder();
+    const registry = new VoiceProfileRegistry({ speakerEncoder: encoder });
+
+    const { embeddings } = await registry.createFromAudio('mixed', [
+      clip(1),
+      clip(3),
+    ]);
+
+    const [short, long] = encoder.encode.mock.calls.map(call => call[0].length);
+    expect(embeddings.length).toBe(512);
+    expect(embeddings[3] / embeddings[1]).toBeCloseTo(long / short, 5);
+    expect(Math.hypot(...embeddings)).toBeCloseTo(1, 5);
+  });
+
+  it('should reject missing clips and wrong embedding sizes', async () => {
+    const encoder: SpeakerEncoder = {
+      encode: async () => new Float32Array(256),
+    };
+    const registry = new VoiceProfileRegistry({ speakerEncoder: encoder });
+
+    await expect(registry.createFromAudio('none', [])).rejects.toThrow(
+      ValidationError
+    );
+    await expect(registry.createFromAudio('short', clip())).rejects.toThrow(
+      '256'
+    );
+    expect(registry.has('short')).toBe(false);
+  });
+
+  it('should clone with the speechbrain encoder by default', async () => {
+    const encode = jest
+      .spyOn(SpeechBrainXVectorEncoder.prototype, 'encode')
+      .mockResolvedValue(unit(5));
+    const registry = new VoiceProfileRegistry();
+
+    const profile = await registry.createFromAudio('cloned', clip());
+
+    expect(encode).toHaveBeenCalledTimes(1);
+    expect(mockXVector).not.toHaveBeenCalled();
+    expect(Array.from(profile.embeddings)).toEqual(Array.from(unit(5)));
+    encode.mockRestore();
+
+    registry.setSpeakerEncoder(lengthEncoder());
+    const replaced = await registry.createFromAudio('cloned', clip());
+    expect(Array.from(replaced.embeddings)).toEqual(Array.from(unit(1)));
+  });
+
+  it('should encode long speech in segments with the x-vector model', async () => {
+    mockXVector.mockClear();
+    const encoder = new XVectorEncoder({ maxSegmentSeconds: 20 });
+
+    const embedding = await encoder.encode(new Float32Array(45 * 16000));
+
+    expect(mockXVector.mock.calls.map(call => call[0].length)).toEqual([
+      20 * 16000,
+      20 * 16000,
+      5 * 16000,
+    ]);
+    expect(embedding[0]).toBeCloseTo(1 / Math.sqrt(512), 5);
+  });
+
+  it('should average unit-length embeddings', () => {
+    const average = averageEmbeddings([unit(0).map(v => v * 10), unit(1)]);
+    expect(average[0]).toBeCloseTo(Math.SQRT1_2, 5);
+    expect(average[1]).toBeCloseTo(Math.SQRT1_2, 5);
+  });
+});
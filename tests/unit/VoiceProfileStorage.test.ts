@@ -0,0 +1,194 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { VoiceProfileRegistry } from '../../src/core/VoiceProfileRegistry';
+import {
+  FileVoiceProfileStorage,
+  createVoiceProfileStorage,
+  parseProfiles,
+  type VoiceProfileBundle,
+  type VoiceProfileStorage,
+} from '../../src/core/VoiceProfileStorage';
+import { ValidationError } from '../../src/domain/errors';
+
+const embeddings = Float32Array.from({ length: 512 }, (_, i) =>
+  Math.sin(i / 7)
+);
+
+const narrator = {
+  id: 'narrator',
+  name: 'Narrator',
+  gender: 'female' as const,
+  embeddings,
+  parameters: { speed: 0.9, style: 'casual' as const },
+  description: 'Audiobook voice',
+};
+
+class MemoryStorage implements VoiceProfileStorage {
+  bundle: VoiceProfileBundle | null = null;
+  saves = 0;
+
+  async load() {
+    return this.bundle;
+  }
+
+  async save(bundle: VoiceProfileBundle) {
+    this.saves++;
+    this.bundle = JSON.parse(JSON.stringify(bundle));
+  }
+}
+
+describe('VoiceProfileRegistry export/import', () => {
+  it('should round-trip profiles added to the built-in ones', () => {
+    const source = new VoiceProfileRegistry();
+    source.register(narrator);
+    const json = JSON.stringify(source.exportProfiles());
+
+    const target = new VoiceProfileRegistry();
+    expect(target.importProfiles(json)).toEqual(['narrator']);
+
+    const profile = target.get('narrator')!;
+    expect(profile.embeddings).toEqual(embeddings);
+    expect(profile.parameters).toMatchObject({ speed: 0.9, style: 'casual' });
+    expect(profile.description).toBe('Audiobook voice');
+    // Base64 float32: about 2.7 KB per 512-dim embedding
+    expect(json.length).toBeLessThan(3200);
+  });
+
+  it('should export selected built-in profiles on request', () => {
+    const registry = new VoiceProfileRegistry();
+    expect(registry.exportProfiles().profiles).toEqual([]);
+    expect(
+      registry.exportProfiles(['male-formal']).profiles.map(p => p.id)
+    ).toEqual(['male-formal']);
+    expect(() => registry.exportProfiles(['missing'])).toThrow(ValidationError);
+  });
+
+  it('should keep existing profiles when overwrite is off', () => {
+    const registry = new VoiceProfileRegistry();
+    const bundle = registry.exportProfiles(['male-neutral']);
+    bundle.profiles[0].name = 'Imported';
+
+    expect(registry.importProfiles(bundle, { overwrite: false })).toEqual([]);
+    expect(registry.get('male-neutral')?.name).toBe('Male Neutral');
+    expect(registry.importProfiles(bundle)).toEqual(['male-neutral']);
+    expect(registry.get('male-neutral')?.name).toBe('Imported');
+  });
+
+  describe('validation', () => {
+    const exported = () => {
+      const registry = new VoiceProfileRegistry();
+      registry.register(narrator);
+      return registry.exportProfiles();
+    };
+
+    it.each<[string, (bundle: VoiceProfileBundle) => void, string]>([
+      ['format', b => Object.assign(b, { format: 'other' }), 'format'],
+      ['newer version', b => Object.assign(b, { version: 2 }), 'version'],
+      [
+        'embedding size',
+        b => {
+          const short = new VoiceProfileRegistry();
+          short.register({ ...narrator, embeddings: new Float32Array(256) });
+          b.profiles[0].embeddings =
+            short.exportProfiles().profiles[0].embeddings;
+        },
+        '512 values, got 256',
+      ],
+      [
+        'declared length',
+        b => (b.profiles[0].embeddings.length = 511),
+        'embeddings',
+      ],
+      [
+        'speed range',
+        b => (b.profiles[0].parameters.speed = 3),
+        'profiles[0].parameters: speed must be between 0.5 and 2',
+      ],
+      [
+        'emotion',
+        b => Object.assign(b.profiles[0].parameters, { emotion: 'bored' }),
+        'emotion',
+      ],
+      ['gender', b => Object.assign(b.profiles[0], { gender: 'x' }), 'gender'],
+    ])('should reject an invalid %s', (_name, corrupt, message) => {
+      const bundle = exported();
+      corrupt(bundle);
+      expect(() => parseProfiles(bundle)).toThrow(ValidationError);
+      expect(() => parseProfiles(bundle)).toThrow(message);
+    });
+
+    it('should import nothing when any profile is invalid', () => {
+      const bundle = exported();
+      bundle.profiles.push({
+        ...bundle.profiles[0],
+        id: 'broken',
+        parameters: { pitch: 0.1 },
+      });
+
+      const registry = new VoiceProfileRegistry();
+      expect(() => registry.importProfiles(bundle)).toThrow('pitch');
+      expect(registry.has('narrator')).toBe(false);
+    });
+
+    it('should reject text that is not JSON', () => {
+      expect(() => parseProfiles('{')).toThrow(ValidationError);
+    });
+  });
+});
+
+describe('VoiceProfileRegistry storage', () => {
+  it('should load saved profiles and save later changes', async () => {
+    const storage = new MemoryStorage();
+    const first = new VoiceProfileRegistry();
+    await first.attachStorage(storage);
+    first.register(narrator);
+    await first.save();
+
+    const second = new VoiceProfileRegistry();
+    expect(await second.attachStorage(storage)).toEqual(['narrator']);
+    expect(second.get('narrator')?.embeddings).toEqual(embeddings);
+
+    second.remove('narrator');
+    await second.save();
+    expect(storage.bundle?.profiles).toEqual([]);
+  });
+
+  it('should not save while loading', async () => {
+    const storage = new MemoryStorage();
+    const source = new VoiceProfileRegistry();
+    source.register(narrator);
+    storage.bundle = source.exportProfiles();
+
+    await new VoiceProfileRegistry().attachStorage(storage);
+    expect(storage.saves).toBe(0);
+  });
+
+  it('should keep profiles in a JSON file in Node', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'voices-'));
+    const path = join(directory, 'nested', 'voices.json');
+    try {
+      const registry = new VoiceProfileRegistry();
+      expect(
+        await registry.attachStorage(new FileVoiceProfileStorage(path))
+      ).toEqual([]);
+      registry.register(narrator);
+      await registry.save();
+
+      const saved = JSON.parse(await readFile(path, 'utf8'));
+      expect(saved.profiles.map((p: { id: string }) => p.id)).toEqual([
+        'narrator',
+      ]);
+
+      const reloaded = new VoiceProfileRegistry();
+      await reloaded.attachStorage(createVoiceProfileStorage({ path }));
+      expect(reloaded.get('narrator')?.name).toBe('Narrator');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  abortStoppingCriteria,
+  linkedAbortController,
+  raceWithSignal,
+  throwIfAborted,
+} from '../../src/utils/abort';
+import { WorkerPool } from '../../src/infra/workers/WorkerPool';
+import { AbortError } from '../../src/domain/errors';
+
+describe('abort helpers', () => {
+  it('should throw AbortError only once the signal fired', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow(AbortError);
+  });
+
+  it('should reject a pending promise on abort and run onAbort', async () => {
+    const controller = new AbortController();
+    const onAbort = jest.fn();
+    const pending = raceWithSignal(
+      new Promise(() => undefined),
+      controller.signal,
+      onAbort
+    );
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(onAbort).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass results through when not aborted', async () => {
+    const controller = new AbortController();
+    const onAbort = jest.fn();
+    await expect(
+      raceWithSignal(Promise.resolve(42), controller.signal, onAbort)
+    ).resolves.toBe(42);
+    await expect(
+      raceWithSignal(Promise.reject(new Error('boom')), controller.signal)
+    ).rejects.toThrow('boom');
+    controller.abort();
+    expect(onAbort).not.toHaveBeenCalled();
+  });
+
+  it('should reject immediately for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const onAbort = jest.fn();
+    await expect(
+      raceWithSignal(Promise.resolve(1), controller.signal, onAbort)
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(onAbort).toHaveBeenCalled();
+  });
+
+  it('should stop every sequence once aborted', () => {
+    const controller = new AbortController();
+    const criterion = abortStoppingCriteria(controller.signal);
+    expect(criterion([[1], [2]])).toEqual([false, false]);
+    controller.abort();
+    expect(criterion([[1], [2]])).toEqual([true, true]);
+  });
+
+  it('should link a controller to its parent signal', () => {
+    const parent = new AbortController();
+    const child = linkedAbortController(parent.signal);
+    expect(child.signal.aborted).toBe(false);
+    parent.abort();
+    expect(child.signal.aborted).toBe(true);
+
+    const aborted = new AbortController();
+    aborted.abort();
+    expect(linkedAbortController(aborted.signal).signal.aborted).toBe(true);
+    expect(linkedAbortController().signal.aborted).toBe(false);
+  });
+});
+
+describe('WorkerPool cancellation', () => {
+  type Listener = (event: { data: unknown }) => void;
+
+  // Worker that only answers when the test tells it to
+  class ManualWorker {
+    static instances: ManualWorker[] = [];
+    messages: Array<{ id: string; type: string }> = [];
+    private listener?: Listener;
+
+    constructor() {
+      ManualWorker.instances.push(this);
+    }
+    addEventListener(event: string, listener: Listener) {
+      if (event === 'message') this.listener = listener;
+    }
+    postMessage(message: { id: string; type: string }) {
+      this.messages.push(message);
+    }
+    reply(id: string, data: unknown) {
+      this.listener?.({ data: { id, type: 'response', data } });
+    }
+    terminate() {}
+  }
+
+  const originalWorker = (globalThis as { Worker?: unknown }).Worker;
+
+  beforeEach(() => {
+    ManualWorker.instances = [];
+    (globalThis as { Worker?: unknown }).Worker = ManualWorker;
+  });
+
+  afterAll(() => {
+    (globalThis as { Worker?: unknown }).Worker = originalWorker;
+  });
+
+  it('should signal the worker and reject a running task', async () => {
+    const pool = new WorkerPool('worker.js', 1);
+    const worker = ManualWorker.instances[0];
+    const controller = new AbortController();
+
+    const task = pool.execute('chat', {}, { signal: controller.signal });
+    const { id } = worker.messages[0];
+    controller.abort();
+
+    await expect(task).rejects.toBeInstanceOf(AbortError);
+    expect(worker.messages[1]).toEqual({ id, type: 'abort' });
+    // The worker stays busy until it answers the aborted task
+    expect(pool.getStats().available).toBe(0);
+    worker.reply(id, null);
+    expect(pool.getStats().available).toBe(1);
+  });
+
+  it('should drop queued tasks without sending them', async () => {
+    const pool = new WorkerPool('worker.js', 1);
+    const worker = ManualWorker.instances[0];
+    const controller = new AbortController();
+
+    const first = pool.execute('chat', {});
+    const queued = pool.execute('chat', {}, { signal: controller.signal });
+    expect(pool.getStats().queued).toBe(1);
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(AbortError);
+    expect(pool.getStats().queued).toBe(0);
+    worker.reply(worker.messages[0].id, 'done');
+    await expect(first).resolves.toBe('done');
+    expect(worker.messages).toHaveLength(1);
+  });
+
+  it('should not start tasks whose signal already fired', async () => {
+    const pool = new WorkerPool('worker.js', 1);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      pool.execute('chat', {}, { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortError);
+    expect(ManualWorker.instances[0].messages).toHaveLength(0);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  applyProsody,
+  pitchShift,
+  resample,
+  timeStretch,
+  StreamResampler,
+  validateProsody,
+} from '../../src/utils/dsp';
+import { ValidationError } from '../../src/domain/errors';
+
+const SAMPLE_RATE = 16000;
+
+const sine = (frequency: number, seconds = 1) =>
+  Float32Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+
+// Frequency from upward zero crossings, away from the edges
+function frequencyOf(samples: Float32Array): number {
+  const from = Math.floor(samples.length * 0.1);
+  const to = Math.floor(samples.length * 0.9);
+  const crossings: number[] = [];
+  for (let i = from + 1; i < to; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) {
+      crossings.push(i - samples[i] / (samples[i] - samples[i - 1]));
+    }
+  }
+  const periods = crossings.length - 1;
+  return (periods * SAMPLE_RATE) / (crossings[periods] - crossings[0]);
+}
+
+const rms = (samples: Float32Array) =>
+  Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+
+describe('timeStretch', () => {
+  it.each([0.5, 0.8, 1.5, 2])(
+    'should change duration by 1/%s and keep the pitch',
+    rate => {
+      const out = timeStretch(sine(440), rate, SAMPLE_RATE);
+
+      expect(out.length).toBe(Math.round(SAMPLE_RATE / rate));
+      expect(frequencyOf(out)).toBeCloseTo(440, -1);
+      expect(rms(out)).toBeCloseTo(0.5 / Math.SQRT2, 1);
+    }
+  );
+});
+
+describe('resample', () => {
+  it('should keep a tone at its frequency in the new rate', () => {
+    const out = resample(sine(440), SAMPLE_RATE, 24000);
+    expect(out.length).toBe(24000);
+    // Read back at 16 kHz the tone sounds 1.5x lower
+    expect(frequencyOf(out)).toBeCloseTo(440 / 1.5, 0);
+  });
+
+  it('should remove content above the new Nyquist frequency', () => {
+    const out = resample(sine(6000), SAMPLE_RATE, 8000);
+    expect(rms(out)).toBeLessThan(0.05);
+  });
+});
+
+describe('StreamResampler', () => {
+  // Frames as a microphone delivers them
+  const stream = (samples: Float32Array, from: number, to: number) => {
+    const resampler = new StreamResampler(from, to);
+    const parts: Float32Array[] = [];
+    for (let i = 0; i < samples.length; i += 441) {
+      parts.push(resampler.process(samples.subarray(i, i + 441)));
+    }
+    parts.push(resampler.flush());
+    return Float32Array.from(parts.flatMap(part => Array.from(part)));
+  };
+
+  it('should give what resample() gives for the whole stream', () => {
+    const input = sine(440).map((x, i) => x + 0.1 * Math.sin(i));
+    const out = stream(input, 44100, 16000);
+    const whole = resample(input, 44100, 16000);
+    expect(out.length).toBe(whole.length);
+    out.forEach((x, i) => expect(x).toBeCloseTo(whole[i], 5));
+  });
+
+  it('should not alias content above the new Nyquist frequency', () => {
+    // 20 kHz at 48 kHz; without a low-pass it folds down to 4 kHz
+    const tone = Float32Array.from(
+      { length: 48000 },
+      (_, i) => 0.5 * Math.sin((2 * Math.PI * 20000 * i) / 48000)
+    );
+    expect(rms(stream(tone, 48000, 16000))).toBeLessThan(0.05);
+  });
+});
+
+describe('pitchShift', () => {
+  it.each([0.5, 0.75, 1.5, 2])('should scale the pitch by %s', factor => {
+    const out = pitchShift(sine(300), factor, SAMPLE_RATE);
+
+    expect(out.length).toBe(SAMPLE_RATE);
+    expect(frequencyOf(out) / 300).toBeCloseTo(factor, 1);
+  });
+});
+
+describe('applyProsody', () => {
+  it('should apply speed and pitch together', () => {
+    const out = applyProsody(sine(440), SAMPLE_RATE, {
+      speed: 1.25,
+      pitch: 0.8,
+    });
+
+    expect(out.length).toBeCloseTo(SAMPLE_RATE / 1.25, -1);
+    expect(frequencyOf(out)).toBeCloseTo(352, -1);
+  });
+
+  it('should leave audio untouched at 1.0', () => {
+    const audio = sine(440);
+    expect(applyProsody(audio, SAMPLE_RATE, { speed: 1, pitch: 1 })).toBe(
+      audio
+    );
+  });
+
+  it('should reject values outside 0.5-2.0', () => {
+    expect(() => validateProsody({ speed: 0.4 })).toThrow(ValidationError);
+    expect(() => validateProsody({ pitch: 2.5 })).toThrow('pitch');
+    expect(() => validateProsody({ speed: NaN })).toThrow(ValidationError);
+    expect(() => validateProsody({ speed: 0.5, pitch: 2 })).not.toThrow();
+  });
+});
@@ -10,6 +10,7 @@ import {
   InferenceError,
   InitializationError,
   ConfigurationError,
+  AbortError,
 } from '../../src/domain/errors';
 
 describe('Domain Errors', () => {
@@ -134,6 +135,15 @@ describe('Domain Errors', () => {
     });
   });
 
+  describe('AbortError', () => {
+    it('should default to a cancellation message', () => {
+      const error = new AbortError();
+
+      expect(error.message).toBe('Operation cancelled');
+      expect(error.name).toBe('AbortError');
+    });
+  });
+
   describe('Error inheritance', () => {
     it('should be instanceof Error', () => {
       const error = new ValidationError('Test error');
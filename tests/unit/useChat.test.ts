@@ -0,0 +1,112 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { useChat } from '../../src/ui/react/useChat';
+import type { AIProvider } from '../../src/app/AIProvider';
+import type { ChatOptions, Message } from '../../src/core/types';
+import { AbortError } from '../../src/domain/errors';
+
+// Provider whose chat() only settles when aborted or told to answer
+function createProvider() {
+  const calls: Array<{ options: ChatOptions; answer: (text: string) => void }> =
+    [];
+  const provider = {
+    chat: jest.fn(
+      (_messages: Message[], options: ChatOptions = {}) =>
+        new Promise((resolve, reject) => {
+          options.signal?.addEventListener('abort', () =>
+            reject(new AbortError())
+          );
+          calls.push({
+            options,
+            answer: text =>
+              resolve({
+                content: text,
+                role: 'assistant',
+                finishReason: 'stop',
+              }),
+          });
+        })
+    ),
+  };
+  return { provider: provider as unknown as AIProvider, calls };
+}
+
+describe('useChat (React)', () => {
+  it('should stop a pending response without reporting an error', async () => {
+    const { provider, calls } = createProvider();
+    const onError = jest.fn();
+    const { result } = renderHook(() => useChat(provider, { onError }));
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.send('Hello');
+    });
+    expect(result.current.isLoading).toBe(true);
+    expect(calls[0].options.signal?.aborted).toBe(false);
+
+    await act(async () => {
+      result.current.stop();
+      await sending;
+    });
+
+    expect(calls[0].options.signal?.aborted).toBe(true);
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.error).toBeNull();
+    expect(result.current.messages).toEqual([]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should still answer when not stopped', async () => {
+    const { provider, calls } = createProvider();
+    const { result } = renderHook(() => useChat(provider));
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.send('Hello');
+    });
+    await act(async () => {
+      calls[0].answer('Hi!');
+      await sending;
+    });
+
+    expect(result.current.messages.map(m => m.content)).toEqual([
+      'Hello',
+      'Hi!',
+    ]);
+  });
+
+  it('should abort the pending request on unmount', () => {
+    const { provider, calls } = createProvider();
+    const { result, unmount } = renderHook(() => useChat(provider));
+
+    act(() => {
+      void result.current.send('Hello');
+    });
+    unmount();
+
+    expect(calls[0].options.signal?.aborted).toBe(true);
+  });
+
+  it('should follow an external signal from the options', async () => {
+    const { provider, calls } = createProvider();
+    const external = new AbortController();
+    const { result } = renderHook(() =>
+      useChat(provider, { signal: external.signal })
+    );
+
+    let sending!: Promise<void>;
+    act(() => {
+      sending = result.current.send('Hello');
+    });
+    await act(async () => {
+      external.abort();
+      await sending;
+    });
+
+    expect(calls[0].options.signal).not.toBe(external.signal);
+    expect(calls[0].options.signal?.aborted).toBe(true);
+  });
+});